@@ -1,5 +1,8 @@
 /**
  * AgentDecisionsGridClient - Client wrapper for interactive decision cards
+ *
+ * Starts from the server-rendered decisions and prepends new ones as they
+ * arrive on the decisions event stream.
  */
 
 "use client";
@@ -12,17 +15,42 @@ import {
 import {
   ExplanationModal,
   type Explanation,
+  type ExplanationDiff,
+  type EvidenceBundleFormat,
+  type WhatIfResult,
 } from "@/components/intelligence/ExplanationModal";
+import {
+  HealthDot,
+  type HealthStatus,
+} from "@/components/primitives/HealthDot";
+import {
+  useDecisionStream,
+  type DecisionStreamStatus,
+} from "./use-decision-stream";
+
+const streamStatusCopy: Record<
+  DecisionStreamStatus,
+  { label: string; status: HealthStatus }
+> = {
+  connecting: { label: "Connecting", status: "degraded" },
+  live: { label: "Live", status: "healthy" },
+  reconnecting: { label: "Reconnecting", status: "degraded" },
+  closed: { label: "Offline", status: "offline" },
+};
 
 interface AgentDecisionsGridClientProps {
   decisions: AgentDecision[];
 }
 
-// Fetch explanation from API
-async function fetchExplanation(
-  decisionId: string
-): Promise<Explanation | null> {
-  const response = await fetch(`/api/explanations/${decisionId}`);
+// Fetch a decision's current explanation and what its latest
+// amendment changed, from the explanation's version history
+async function fetchExplanation(decisionId: string): Promise<{
+  explanation: Explanation;
+  changes: ExplanationDiff | null;
+} | null> {
+  const response = await fetch(
+    `/api/explanations/${encodeURIComponent(decisionId)}/versions`
+  );
 
   if (!response.ok) {
     console.error("Failed to fetch explanation");
@@ -30,20 +58,65 @@ async function fetchExplanation(
   }
 
   const json = await response.json();
+  const current = json.data.versions.at(-1);
+  return current
+    ? { explanation: current.explanation, changes: json.diff }
+    : null;
+}
+
+// Re-run a decision with some of its inputs overridden
+async function fetchWhatIf(
+  decisionId: string,
+  overrides: Record<string, number>
+): Promise<WhatIfResult> {
+  const response = await fetch(
+    `/api/explanations/${encodeURIComponent(decisionId)}/what-if`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ overrides }),
+    }
+  );
+
+  const json = await response.json();
+  if (!response.ok) {
+    throw new Error(json.message ?? "What-if analysis failed");
+  }
   return json.data;
 }
 
+// Download the decision's evidence bundle (served as an attachment)
+function downloadEvidence(decisionId: string, format: EvidenceBundleFormat) {
+  window.location.assign(
+    `/api/explanations/${encodeURIComponent(decisionId)}/bundle?format=${format}`
+  );
+}
+
 export function AgentDecisionsGridClient({
   decisions,
 }: AgentDecisionsGridClientProps) {
   const [selectedDecision, setSelectedDecision] =
     React.useState<AgentDecision | null>(null);
   const [isModalOpen, setIsModalOpen] = React.useState(false);
-  const [explanation, setExplanation] = React.useState<Explanation | null>(
-    null
-  );
+  const [explanation, setExplanation] = React.useState<{
+    explanation: Explanation;
+    changes: ExplanationDiff | null;
+  } | null>(null);
   const [isLoadingExplanation, setIsLoadingExplanation] = React.useState(false);
 
+  const maxItems = Math.max(decisions.length, 12);
+  const { decisions: liveDecisions, status } = useDecisionStream({
+    maxItems,
+  });
+  const visibleDecisions = React.useMemo(() => {
+    const liveIds = new Set(liveDecisions.map((d) => d.id));
+    return [
+      ...liveDecisions,
+      ...decisions.filter((d) => !liveIds.has(d.id)),
+    ].slice(0, maxItems);
+  }, [decisions, liveDecisions, maxItems]);
+  const streamStatus = streamStatusCopy[status];
+
   const handleDecisionClick = React.useCallback(
     async (decision: AgentDecision) => {
       setSelectedDecision(decision);
@@ -62,6 +135,23 @@ export function AgentDecisionsGridClient({
     []
   );
 
+  const handleWhatIf = React.useCallback(
+    (overrides: Record<string, number>) => {
+      if (!selectedDecision) {
+        return Promise.reject(new Error("No decision is open"));
+      }
+      return fetchWhatIf(selectedDecision.id, overrides);
+    },
+    [selectedDecision]
+  );
+
+  const handleDownloadEvidence = React.useCallback(
+    (format: EvidenceBundleFormat) => {
+      if (selectedDecision) downloadEvidence(selectedDecision.id, format);
+    },
+    [selectedDecision]
+  );
+
   const handleCloseModal = React.useCallback(() => {
     setIsModalOpen(false);
     setSelectedDecision(null);
@@ -70,8 +160,24 @@ export function AgentDecisionsGridClient({
 
   return (
     <>
+      <div
+        className="flex items-center gap-2 text-xs uppercase tracking-[0.24em] text-(--text-tertiary)"
+        role="status"
+        aria-live="polite"
+      >
+        <HealthDot
+          status={streamStatus.status}
+          size="sm"
+          label={`Decision stream ${streamStatus.label.toLowerCase()}`}
+        />
+        <span>{streamStatus.label}</span>
+        {liveDecisions.length > 0 ? (
+          <span>· {liveDecisions.length} new since load</span>
+        ) : null}
+      </div>
+
       <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {decisions.map((decision) => (
+        {visibleDecisions.map((decision) => (
           <AgentCard
             key={decision.id}
             decision={decision}
@@ -86,7 +192,12 @@ export function AgentDecisionsGridClient({
         <ExplanationModal
           isOpen={isModalOpen}
           onClose={handleCloseModal}
-          explanation={isLoadingExplanation ? null : explanation}
+          explanation={
+            isLoadingExplanation ? null : (explanation?.explanation ?? null)
+          }
+          changes={explanation?.changes}
+          onWhatIf={handleWhatIf}
+          onDownloadEvidence={handleDownloadEvidence}
         />
       )}
     </>
@@ -2,7 +2,17 @@
  * AgentSidebarWrapper - Client-side Agent Q&A Interface
  *
  * Interactive sidebar for natural language questions to AI agents
- * with conversation history and suggested questions.
+ * with conversation history and suggested questions. The conversation id is
+ * kept in localStorage so the thread is restored from
+ * `/api/agents/conversations/[id]` after a reload. Answers stream in over
+ * SSE and can be stopped mid-way. Cited records open the decision's
+ * explanation in the ExplanationModal. With Roundtable on, every relevant
+ * agent answers and the synthesis is shown above their stacked replies.
+ *
+ * Composer commands (`/explain`, `/tx`, `/compare`, `/pause`) run here and
+ * render inline; ids are completed from recent decisions, transactions and
+ * records cited in the thread. Command results stay in the browser and are
+ * not part of the stored conversation.
  *
  * @see PRD Section 7.3 - Dashboard Intelligence Layer
  */
@@ -13,34 +23,413 @@ import * as React from "react";
 import { GlassCard } from "@/components/ui/glass-card";
 import {
   AgentSidebar,
+  type AgentCitation,
+  type AgentCommandResult,
   type AgentMessage,
 } from "@/components/intelligence/AgentSidebar";
+import type { AgentDecision } from "@/components/intelligence/AgentCard";
+import {
+  ExplanationModal,
+  type Explanation,
+  type ExplanationDiff,
+  type EvidenceBundleFormat,
+  type WhatIfResult,
+} from "@/components/intelligence/ExplanationModal";
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+import { setEmergencyMode } from "@/app/_components/use-emergency-mode";
+import { useWalletSession } from "@/app/_components/use-wallet-session";
+import {
+  formatAgentCommand,
+  type AgentCommand,
+  type ComposerSuggestionSources,
+} from "@/lib/agents";
+import { readServerSentEvents } from "@/lib/api/sse";
+import { cn } from "@/lib/utils";
 import type { AgentPersona } from "@/lib/types";
 
-// Fetch agent response from API
+const CONVERSATION_STORAGE_KEY = "aimp:agent-conversation";
+
+/** Recent records loaded for command completion */
+const COMMAND_SOURCE_LIMIT = 20;
+
+/** Shortest signature prefix `/tx` resolves; the API's own minimum */
+const MIN_SIGNATURE_PREFIX = 8;
+
+interface StoredConversation {
+  agent: AgentPersona;
+  messages: AgentMessage[];
+}
+
+interface AskResult {
+  message: AgentMessage;
+  conversationId: string;
+}
+
+/**
+ * Ask an agent with `stream: true`. `onDraft` receives the answer as it
+ * grows; the resolved message is the complete one from the `done` event.
+ * Rejects with an AbortError when `signal` is aborted mid-answer.
+ */
 async function askAgent(
   agent: AgentPersona,
-  question: string
-): Promise<AgentMessage> {
+  question: string,
+  conversationId: string | null,
+  options: {
+    mode: "single" | "roundtable";
+    signal: AbortSignal;
+    onConversationId: (conversationId: string) => void;
+    onDraft: (draft: AgentMessage) => void;
+  }
+): Promise<AskResult> {
   const response = await fetch("/api/agents/ask", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ agent, question }),
+    body: JSON.stringify({
+      agent,
+      question,
+      conversationId: conversationId ?? undefined,
+      mode: options.mode,
+      stream: true,
+    }),
+    signal: options.signal,
   });
 
   if (!response.ok) {
     throw new Error("Failed to get agent response");
   }
 
+  if (
+    !response.body ||
+    !response.headers.get("Content-Type")?.includes("text/event-stream")
+  ) {
+    const json = await response.json();
+    return { message: json.data, conversationId: json.conversationId };
+  }
+
+  const state: { draft: AgentMessage | null; result: AskResult | null } = {
+    draft: null,
+    result: null,
+  };
+
+  await readServerSentEvents(response.body, ({ event, data }) => {
+    const payload = JSON.parse(data);
+
+    if (event === "meta") {
+      options.onConversationId(payload.conversationId);
+      state.draft = {
+        id: payload.messageId,
+        role: "agent",
+        agent: payload.agent,
+        content: "",
+        timestamp: new Date().toISOString(),
+        sources: [],
+        isStreaming: true,
+      };
+      return;
+    }
+    if (event === "done") {
+      state.result = {
+        message: payload.data,
+        conversationId: payload.conversationId,
+      };
+      return;
+    }
+    if (!state.draft) return;
+
+    if (event === "chunk") {
+      state.draft = {
+        ...state.draft,
+        content: state.draft.content + payload.text,
+      };
+    } else if (event === "confidence") {
+      state.draft = { ...state.draft, confidence: payload.confidence };
+    } else if (event === "source") {
+      state.draft = {
+        ...state.draft,
+        sources: [...(state.draft.sources ?? []), payload.source],
+      };
+    } else {
+      return;
+    }
+    options.onDraft(state.draft);
+  });
+
+  if (!state.result) {
+    throw new Error("Agent response ended before it was complete");
+  }
+  return state.result;
+}
+
+function upsertMessage(
+  messages: AgentMessage[],
+  message: AgentMessage
+): AgentMessage[] {
+  return messages.some((m) => m.id === message.id)
+    ? messages.map((m) => (m.id === message.id ? message : m))
+    : [...messages, message];
+}
+
+// Load a stored thread; null when it no longer exists
+async function fetchConversation(
+  conversationId: string
+): Promise<StoredConversation | null> {
+  const response = await fetch(
+    `/api/agents/conversations/${encodeURIComponent(conversationId)}`
+  );
+
+  if (response.status === 404 || response.status === 400) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error("Failed to load conversation");
+  }
+
   const json = await response.json();
   return json.data;
 }
 
+// Fetch a cited decision's current explanation and what its latest
+// amendment changed, from the explanation's version history
+async function fetchExplanation(decisionId: string): Promise<{
+  explanation: Explanation;
+  changes: ExplanationDiff | null;
+} | null> {
+  const response = await fetch(
+    `/api/explanations/${encodeURIComponent(decisionId)}/versions`
+  );
+
+  if (!response.ok) {
+    console.error("Failed to fetch explanation");
+    return null;
+  }
+
+  const json = await response.json();
+  const current = json.data.versions.at(-1);
+  return current
+    ? { explanation: current.explanation, changes: json.diff }
+    : null;
+}
+
+// Re-run a decision with some of its inputs overridden
+async function fetchWhatIf(
+  decisionId: string,
+  overrides: Record<string, number>
+): Promise<WhatIfResult> {
+  const response = await fetch(
+    `/api/explanations/${encodeURIComponent(decisionId)}/what-if`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ overrides }),
+    }
+  );
+
+  const json = await response.json();
+  if (!response.ok) {
+    throw new Error(json.message ?? "What-if analysis failed");
+  }
+  return json.data;
+}
+
+// Download the decision's evidence bundle (served as an attachment)
+function downloadEvidence(decisionId: string, format: EvidenceBundleFormat) {
+  window.location.assign(
+    `/api/explanations/${encodeURIComponent(decisionId)}/bundle?format=${format}`
+  );
+}
+
+// Recent decisions and transactions for command completion, and the seed
+// of the transaction sequence they were listed from
+async function fetchCommandRecords(): Promise<{
+  decisions: AgentDecision[];
+  transactions: SolanaTransaction[];
+  transactionSeed: number | null;
+}> {
+  const [decisions, transactions] = await Promise.all([
+    fetch(`/api/agents/decisions?limit=${COMMAND_SOURCE_LIMIT}&format=minimal`),
+    fetch(`/api/transactions?limit=${COMMAND_SOURCE_LIMIT}&sections=none`),
+  ]);
+  const listing = transactions.ok ? await transactions.json() : null;
+
+  return {
+    decisions: decisions.ok ? (await decisions.json()).data : [],
+    transactions: listing?.data ?? [],
+    transactionSeed: listing?.filters.seed ?? null,
+  };
+}
+
+// The transaction a signature (or prefix) names; null when there is none.
+// The mock source only finds signatures again in the sequence they came from
+async function fetchTransaction(
+  signature: string,
+  seed: number | null
+): Promise<SolanaTransaction | null> {
+  const params = new URLSearchParams({
+    signature,
+    limit: "1",
+    sections: "none",
+  });
+  if (seed !== null) params.set("seed", String(seed));
+
+  const response = await fetch(`/api/transactions?${params}`);
+  if (!response.ok) {
+    throw new Error("Failed to look up transaction");
+  }
+
+  return (await response.json()).data[0] ?? null;
+}
+
+// One decision as summarized by its explanation; null when it does not exist
+async function fetchDecisionSummary(
+  decisionId: string,
+  known?: AgentDecision
+): Promise<AgentDecision | null> {
+  const response = await fetch(
+    `/api/explanations/${encodeURIComponent(decisionId)}?format=minimal`
+  );
+
+  if (response.status === 400 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error("Failed to fetch explanation");
+  }
+
+  const { data } = await response.json();
+  // Ids end in the decision's epoch milliseconds
+  const idTime = Number(decisionId.split("-").at(-1));
+  return {
+    id: data.decisionId,
+    agent: data.agentPersona,
+    summary: data.summary,
+    confidence: Math.round(data.confidence),
+    timestamp:
+      known?.timestamp ??
+      (Number.isFinite(idTime)
+        ? new Date(idTime).toISOString()
+        : data.timestamp),
+    impact: known?.impact,
+  };
+}
+
 export function AgentSidebarWrapper() {
   const [selectedAgent, setSelectedAgent] =
     React.useState<AgentPersona>("operations");
   const [messages, setMessages] = React.useState<AgentMessage[]>([]);
   const [isThinking, setIsThinking] = React.useState(false);
+  const [isRoundtable, setIsRoundtable] = React.useState(false);
+  const { ensureSession } = useWalletSession();
+  const [openDecisionId, setOpenDecisionId] = React.useState<string | null>(
+    null
+  );
+  const [explanation, setExplanation] = React.useState<{
+    explanation: Explanation;
+    changes: ExplanationDiff | null;
+  } | null>(null);
+  const [isLoadingExplanation, setIsLoadingExplanation] = React.useState(false);
+  const [recentDecisions, setRecentDecisions] = React.useState<AgentDecision[]>(
+    []
+  );
+  const [recentTransactions, setRecentTransactions] = React.useState<
+    SolanaTransaction[]
+  >([]);
+  const transactionSeedRef = React.useRef<number | null>(null);
+  const conversationIdRef = React.useRef<string | null>(null);
+  const answerAbortRef = React.useRef<AbortController | null>(null);
+
+  const rememberConversation = React.useCallback((conversationId: string) => {
+    conversationIdRef.current = conversationId;
+    window.localStorage.setItem(CONVERSATION_STORAGE_KEY, conversationId);
+  }, []);
+
+  // Stop any answer still streaming when the sidebar unmounts
+  React.useEffect(() => () => answerAbortRef.current?.abort(), []);
+
+  // Load records for command completion
+  React.useEffect(() => {
+    let cancelled = false;
+
+    fetchCommandRecords()
+      .then(({ decisions, transactions, transactionSeed }) => {
+        if (cancelled) return;
+        setRecentDecisions(decisions);
+        setRecentTransactions(transactions);
+        transactionSeedRef.current = transactionSeed;
+      })
+      .catch((error) => {
+        console.error("Error loading command records:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Recent decisions first, then any other decision the thread has cited
+  const commandSources = React.useMemo((): ComposerSuggestionSources => {
+    const decisions = new Map(
+      recentDecisions.map(({ id, agent, summary }) => [
+        id,
+        { id, agent, summary },
+      ])
+    );
+    messages.forEach((message) =>
+      message.citations?.forEach(({ decisionId, agent, summary }) => {
+        if (decisionId && !decisions.has(decisionId)) {
+          decisions.set(decisionId, { id: decisionId, agent, summary });
+        }
+      })
+    );
+
+    return {
+      decisions: [...decisions.values()],
+      transactions: recentTransactions,
+    };
+  }, [recentDecisions, recentTransactions, messages]);
+
+  // Restore the previous thread, if any
+  React.useEffect(() => {
+    const storedId = window.localStorage.getItem(CONVERSATION_STORAGE_KEY);
+    if (!storedId) return;
+
+    let cancelled = false;
+    conversationIdRef.current = storedId;
+
+    fetchConversation(storedId)
+      .then((conversation) => {
+        if (cancelled) return;
+        if (!conversation) {
+          conversationIdRef.current = null;
+          window.localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+          return;
+        }
+        setSelectedAgent(conversation.agent);
+        setMessages(conversation.messages);
+      })
+      .catch((error) => {
+        console.error("Error restoring conversation:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleNewConversation = React.useCallback(() => {
+    answerAbortRef.current?.abort();
+    const conversationId = conversationIdRef.current;
+    conversationIdRef.current = null;
+    window.localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+    setMessages([]);
+
+    if (conversationId) {
+      fetch(`/api/agents/conversations/${encodeURIComponent(conversationId)}`, {
+        method: "DELETE",
+      }).catch((error) => {
+        console.error("Error deleting conversation:", error);
+      });
+    }
+  }, []);
 
   const handleSendMessage = React.useCallback(
     async (message: string, agent: AgentPersona) => {
@@ -54,11 +443,38 @@ export function AgentSidebarWrapper() {
       setMessages((prev) => [...prev, userMessage]);
       setIsThinking(true);
 
+      const controller = new AbortController();
+      answerAbortRef.current = controller;
+
       try {
-        // Call API
-        const response = await askAgent(agent, message);
-        setMessages((prev) => [...prev, response]);
+        // Call API, rendering the answer as it streams in
+        const response = await askAgent(
+          agent,
+          message,
+          conversationIdRef.current,
+          {
+            mode: isRoundtable ? "roundtable" : "single",
+            signal: controller.signal,
+            onConversationId: rememberConversation,
+            onDraft: (draft) => {
+              setIsThinking(false);
+              setMessages((prev) => upsertMessage(prev, draft));
+            },
+          }
+        );
+        rememberConversation(response.conversationId);
+        setMessages((prev) => upsertMessage(prev, response.message));
       } catch (error) {
+        if (controller.signal.aborted) {
+          // Keep what was streamed so far, as the server does
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.isStreaming ? { ...m, isStreaming: false, isStopped: true } : m
+            )
+          );
+          return;
+        }
+
         // Add error message
         const errorMessage: AgentMessage = {
           id: `msg-error-${Date.now()}`,
@@ -68,14 +484,235 @@ export function AgentSidebarWrapper() {
           timestamp: new Date().toISOString(),
           error: error instanceof Error ? error.message : "Unknown error",
         };
-        setMessages((prev) => [...prev, errorMessage]);
+        setMessages((prev) => [
+          ...prev.filter((m) => !m.isStreaming),
+          errorMessage,
+        ]);
       } finally {
+        if (answerAbortRef.current === controller) {
+          answerAbortRef.current = null;
+        }
         setIsThinking(false);
       }
     },
+    [isRoundtable, rememberConversation]
+  );
+
+  const handleCommand = React.useCallback(
+    async (command: AgentCommand) => {
+      const now = Date.now();
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: `msg-user-${now}`,
+          role: "user",
+          content: formatAgentCommand(command),
+          timestamp: new Date(now).toISOString(),
+        },
+      ]);
+
+      const reply = (
+        agent: AgentPersona,
+        content: string,
+        result?: AgentCommandResult,
+        error?: string
+      ) =>
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `msg-command-${now}`,
+            role: "agent",
+            agent,
+            content,
+            timestamp: new Date().toISOString(),
+            command: result,
+            error,
+          },
+        ]);
+
+      if (command.name === "pause") {
+        // The Governor holds pause authority; nothing happens until confirmed
+        reply("governor", "Emergency pause requested.", {
+          kind: "pause",
+          status: "pending",
+        });
+        return;
+      }
+
+      if (command.name === "tx") {
+        if (command.signature.length < MIN_SIGNATURE_PREFIX) {
+          reply(
+            selectedAgent,
+            `Give me at least ${MIN_SIGNATURE_PREFIX} characters of the signature to look up.`,
+            undefined,
+            "Signature too short"
+          );
+          return;
+        }
+
+        setIsThinking(true);
+        try {
+          const transaction = await fetchTransaction(
+            command.signature,
+            transactionSeedRef.current
+          );
+          if (transaction) {
+            reply(transaction.agent, transaction.summary, {
+              kind: "tx",
+              transaction,
+            });
+          } else {
+            reply(
+              selectedAgent,
+              `I can't find transaction ${command.signature} in the last 24 hours.`,
+              undefined,
+              "Transaction not found"
+            );
+          }
+        } catch (error) {
+          reply(
+            selectedAgent,
+            "Sorry, I couldn't look up that transaction.",
+            undefined,
+            error instanceof Error ? error.message : "Unknown error"
+          );
+        } finally {
+          setIsThinking(false);
+        }
+        return;
+      }
+
+      const decisionIds =
+        command.name === "explain" ? [command.decisionId] : command.decisionIds;
+      setIsThinking(true);
+      try {
+        const decisions = await Promise.all(
+          decisionIds.map((id) =>
+            fetchDecisionSummary(
+              id,
+              recentDecisions.find((decision) => decision.id === id)
+            )
+          )
+        );
+        const missing = decisionIds.filter((_, idx) => !decisions[idx]);
+        const [first, second] = decisions;
+
+        if (missing.length > 0 || !first) {
+          reply(
+            selectedAgent,
+            `I can't find decision ${missing.join(" or ")}. Decision ids look like decision-markets-1718000000000-1.`,
+            undefined,
+            "Decision not found"
+          );
+        } else if (command.name === "compare" && second) {
+          reply(selectedAgent, `Comparing ${first.id} with ${second.id}.`, {
+            kind: "compare",
+            decisions: [first, second],
+          });
+        } else {
+          reply(first.agent, `Explanation for ${first.id}.`, {
+            kind: "explain",
+            decision: first,
+          });
+        }
+      } catch (error) {
+        reply(
+          selectedAgent,
+          "Sorry, I couldn't load that explanation.",
+          undefined,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      } finally {
+        setIsThinking(false);
+      }
+    },
+    [recentDecisions, selectedAgent]
+  );
+
+  const handleConfirmCommand = React.useCallback(
+    (messageId: string, confirmed: boolean) => {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId && m.command?.kind === "pause"
+            ? {
+                ...m,
+                command: {
+                  kind: "pause",
+                  status: confirmed ? "confirmed" : "cancelled",
+                },
+              }
+            : m
+        )
+      );
+      if (!confirmed) return;
+
+      ensureSession()
+        .then(() =>
+          setEmergencyMode("pause", "Requested from the agent sidebar")
+        )
+        .catch((error) =>
+          setMessages((prev) => [
+            ...prev,
+            {
+              id: `msg-command-${Date.now()}`,
+              role: "agent",
+              agent: "governor",
+              content: "The emergency pause was not applied.",
+              timestamp: new Date().toISOString(),
+              error: error instanceof Error ? error.message : "Unknown error",
+            },
+          ])
+        );
+    },
+    [ensureSession]
+  );
+
+  const handleStop = React.useCallback(() => {
+    answerAbortRef.current?.abort();
+  }, []);
+
+  const handleOpenCitation = React.useCallback(
+    async ({ decisionId }: AgentCitation) => {
+      // A transaction no recorded decision accounts for has no explanation
+      if (!decisionId) return;
+
+      setOpenDecisionId(decisionId);
+      setExplanation(null);
+      setIsLoadingExplanation(true);
+
+      try {
+        setExplanation(await fetchExplanation(decisionId));
+      } catch (error) {
+        console.error("Failed to fetch explanation:", error);
+      } finally {
+        setIsLoadingExplanation(false);
+      }
+    },
     []
   );
 
+  const handleWhatIf = React.useCallback(
+    (overrides: Record<string, number>) => {
+      if (!openDecisionId) {
+        return Promise.reject(new Error("No decision is open"));
+      }
+      return fetchWhatIf(openDecisionId, overrides);
+    },
+    [openDecisionId]
+  );
+
+  const handleDownloadEvidence = React.useCallback(
+    (format: EvidenceBundleFormat) => {
+      if (openDecisionId) downloadEvidence(openDecisionId, format);
+    },
+    [openDecisionId]
+  );
+
+  const handleCloseExplanation = React.useCallback(() => {
+    setOpenDecisionId(null);
+    setExplanation(null);
+  }, []);
+
   return (
     <GlassCard
       padding="lg"
@@ -89,13 +726,42 @@ export function AgentSidebarWrapper() {
         aria-hidden
       />
 
-      <div className="mb-4">
-        <p className="text-xs uppercase tracking-[0.35em] text-(--text-tertiary)">
-          AI Agent Q&A
-        </p>
-        <h3 className="text-xl font-semibold text-(--text-primary)">
-          Ask agents about their decisions
-        </h3>
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-[0.35em] text-(--text-tertiary)">
+            AI Agent Q&A
+          </p>
+          <h3 className="text-xl font-semibold text-(--text-primary)">
+            Ask agents about their decisions
+          </h3>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setIsRoundtable((on) => !on)}
+            disabled={isThinking}
+            aria-pressed={isRoundtable}
+            title="Ask every relevant agent and compare their answers"
+            className={cn(
+              "rounded-full border px-3 py-1 text-xs transition-colors disabled:opacity-50",
+              isRoundtable
+                ? "border-(--glass-border-strong) bg-(--glass-surface-primary) text-(--text-primary)"
+                : "border-(--glass-border-soft) text-(--text-secondary) hover:text-(--text-primary)"
+            )}
+          >
+            Roundtable
+          </button>
+          {messages.length > 0 && (
+            <button
+              type="button"
+              onClick={handleNewConversation}
+              disabled={isThinking}
+              className="rounded-full border border-(--glass-border-soft) px-3 py-1 text-xs text-(--text-secondary) transition-colors hover:text-(--text-primary) disabled:opacity-50"
+            >
+              New conversation
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex-1 min-h-0">
@@ -106,14 +772,32 @@ export function AgentSidebarWrapper() {
           agentHealth="online"
           onSendMessage={handleSendMessage}
           onSelectAgent={setSelectedAgent}
+          onStop={handleStop}
+          onOpenCitation={handleOpenCitation}
+          onCommand={handleCommand}
+          onConfirmCommand={handleConfirmCommand}
+          commandSources={commandSources}
           className="h-full"
         />
       </div>
 
+      {openDecisionId && (
+        <ExplanationModal
+          isOpen
+          onClose={handleCloseExplanation}
+          explanation={
+            isLoadingExplanation ? null : (explanation?.explanation ?? null)
+          }
+          changes={explanation?.changes}
+          onWhatIf={handleWhatIf}
+          onDownloadEvidence={handleDownloadEvidence}
+        />
+      )}
+
       <div className="mt-4 rounded-2xl border border-(--glass-border-soft) bg-(--glass-surface-primary) px-4 py-3">
         <p className="text-sm text-(--text-secondary)">
-          Switch between agents using tabs or ask natural language questions to
-          understand their reasoning and constraints.
+          Switch between agents using tabs or @mentions, ask natural language
+          questions, or type / for commands like /explain, /tx and /pause.
         </p>
       </div>
     </GlassCard>
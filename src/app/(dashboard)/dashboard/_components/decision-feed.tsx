@@ -1,29 +1,81 @@
+/**
+ * DecisionFeed - Latest AI decisions with persona reasoning
+ *
+ * Renders the server-loaded explanations and prepends decisions pushed by
+ * the decisions event stream as they are produced.
+ */
+
+"use client";
+
+import * as React from "react";
 import { GlassCard } from "@/components/ui/glass-card";
-import type { Explanation } from "@/lib/types";
+import { AGENT_PERSONAS } from "@/lib/agents";
+import type { AgentPersona, Explanation } from "@/lib/types";
+import {
+  useDecisionStream,
+  type StreamedDecision,
+} from "./use-decision-stream";
 
-const personaCopy: Record<
-  Explanation["persona"],
-  { label: string; colorClass: string }
-> = {
-  operations: {
-    label: "Operations Agent",
-    colorClass: "text-(--trust-primary)",
-  },
-  maintenance: {
-    label: "Maintenance Agent",
-    colorClass: "text-(--caution-primary)",
-  },
-  markets: {
-    label: "Energy Markets Agent",
-    colorClass: "text-(--prosperity-primary)",
-  },
-};
+interface FeedItem {
+  id: string;
+  persona: AgentPersona;
+  title: string;
+  summary: string;
+  reasoning: string[];
+  constraints: string[];
+  inputsCount: number;
+  zkProofHash?: string;
+  timestamp: string;
+  isLive?: boolean;
+}
+
+function fromExplanation(explanation: Explanation): FeedItem {
+  return {
+    id: explanation.id,
+    persona: explanation.persona,
+    title: explanation.title,
+    summary: explanation.summary,
+    reasoning: explanation.reasoning,
+    constraints: explanation.constraints,
+    inputsCount: explanation.inputs.length,
+    zkProofHash: explanation.zkProofHash,
+    timestamp: explanation.timestamp,
+  };
+}
+
+function fromStreamedDecision(decision: StreamedDecision): FeedItem {
+  return {
+    id: decision.id,
+    persona: decision.agent,
+    title: decision.summary,
+    summary:
+      decision.currentExplanation ??
+      `${decision.confidence}% confidence decision`,
+    reasoning: decision.confidenceExplanation
+      ? [decision.confidenceExplanation]
+      : [],
+    constraints: decision.constraintViolations?.map((v) => v.constraint) ?? [],
+    inputsCount: decision.sourceProvenance?.length ?? decision.inputsCount ?? 0,
+    zkProofHash: decision.zkProofHash,
+    timestamp: decision.timestamp,
+    isLive: true,
+  };
+}
 
 interface DecisionFeedProps {
   explanations: Explanation[];
 }
 
 export function DecisionFeed({ explanations }: DecisionFeedProps) {
+  const { decisions: liveDecisions } = useDecisionStream({ maxItems: 5 });
+  const items = React.useMemo(
+    () => [
+      ...liveDecisions.map(fromStreamedDecision),
+      ...explanations.map(fromExplanation),
+    ],
+    [explanations, liveDecisions]
+  );
+
   return (
     <GlassCard
       padding="lg"
@@ -42,8 +94,8 @@ export function DecisionFeed({ explanations }: DecisionFeedProps) {
         </h3>
       </header>
       <div className="space-y-5">
-        {explanations.map((item) => {
-          const persona = personaCopy[item.persona];
+        {items.map((item) => {
+          const persona = AGENT_PERSONAS[item.persona];
           return (
             <div
               key={item.id}
@@ -51,12 +103,17 @@ export function DecisionFeed({ explanations }: DecisionFeedProps) {
             >
               <div className="space-y-2">
                 <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-[0.32em]">
-                  <span className={`font-semibold ${persona.colorClass}`}>
-                    {persona.label}
+                  <span className={`font-semibold ${persona.textClass}`}>
+                    {persona.name}
                   </span>
                   <span className="text-(--text-tertiary)">
                     {new Date(item.timestamp).toLocaleTimeString()}
                   </span>
+                  {item.isLive ? (
+                    <span className="rounded-full border border-(--glass-border-soft) px-2 py-0.5 text-[0.65rem] text-(--trust-primary)">
+                      Live
+                    </span>
+                  ) : null}
                 </div>
                 <p className="text-lg font-semibold text-(--text-primary)">
                   {item.title}
@@ -86,7 +143,7 @@ export function DecisionFeed({ explanations }: DecisionFeedProps) {
                   </span>
                 ) : null}
                 <span className="rounded-full border border-(--glass-border-soft) bg-(--glass-surface-primary) px-3 py-1 font-medium text-(--text-secondary)">
-                  {item.inputs.length} inputs
+                  {item.inputsCount} inputs
                 </span>
                 <button
                   type="button"
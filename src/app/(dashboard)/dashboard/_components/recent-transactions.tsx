@@ -12,24 +12,23 @@ import {
   TxReceipt,
   type SolanaTransaction,
 } from "@/components/intelligence/TxReceipt";
+import {
+  createTransactionSeed,
+  resolveTransactionFilters,
+  takeTransactions,
+} from "@/lib/api/transactions";
+import { getConnectedWallet } from "@/lib/data";
+
+const RECENT_TRANSACTION_COUNT = 3;
 
-// Fetch transactions from API
+// Read the newest transactions from the transaction source, as
+// /api/transactions does, without a round trip through the API
 async function getTransactions(): Promise<SolanaTransaction[]> {
   try {
-    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
-    const response = await fetch(`${baseUrl}/api/transactions?limit=3`, {
-      next: { revalidate: 30 }, // Refresh every 30 seconds
-    });
-
-    if (!response.ok) {
-      console.error("Failed to fetch transactions:", response.statusText);
-      return [];
-    }
-
-    const json = await response.json();
-
-    // The API returns { data: transactions[] } where transactions is the array directly
-    return json.data || [];
+    return await takeTransactions(
+      resolveTransactionFilters({}, { seed: createTransactionSeed() }),
+      RECENT_TRANSACTION_COUNT
+    );
   } catch (error) {
     console.error("Error fetching transactions:", error);
     return [];
@@ -37,7 +36,10 @@ async function getTransactions(): Promise<SolanaTransaction[]> {
 }
 
 export async function RecentTransactions() {
-  const transactions = await getTransactions();
+  const [transactions, viewerAddress] = await Promise.all([
+    getTransactions(),
+    getConnectedWallet(),
+  ]);
 
   // Early return if no transactions
   if (!transactions || transactions.length === 0) {
@@ -102,7 +104,13 @@ export async function RecentTransactions() {
 
       <div className="space-y-4">
         {transactions.map((tx) => (
-          <TxReceipt key={tx.signature} transaction={tx} compact showDetails />
+          <TxReceipt
+            key={tx.signature}
+            transaction={tx}
+            viewerAddress={viewerAddress}
+            compact
+            showDetails
+          />
         ))}
       </div>
 
@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { useDecisionStream } from "./use-decision-stream";
+
+/** EventSource that records every instance and dispatches on demand */
+class FakeEventSource extends EventTarget {
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = 0;
+
+  constructor(readonly url: string) {
+    super();
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  emit(type: string, data = "") {
+    act(() => {
+      this.dispatchEvent(new MessageEvent(type, { data }));
+    });
+  }
+}
+
+function decision(id: string) {
+  return JSON.stringify({
+    id,
+    agent: "markets",
+    streamingMetadata: { eventId: 1, phase: "live" },
+  });
+}
+
+beforeEach(() => {
+  FakeEventSource.instances = [];
+  vi.stubGlobal("EventSource", FakeEventSource);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe("useDecisionStream", () => {
+  it("shares one EventSource between every subscriber", () => {
+    const feed = renderHook(() => useDecisionStream({ maxItems: 1 }));
+    const grid = renderHook(() => useDecisionStream({ maxItems: 12 }));
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    const [source] = FakeEventSource.instances;
+    source.emit("ready");
+    source.emit("decision", decision("decision-markets-1"));
+    source.emit("decision", decision("decision-markets-2"));
+
+    expect(feed.result.current.status).toBe("live");
+    expect(feed.result.current.decisions.map((d) => d.id)).toEqual([
+      "decision-markets-2",
+    ]);
+    expect(grid.result.current.decisions.map((d) => d.id)).toEqual([
+      "decision-markets-2",
+      "decision-markets-1",
+    ]);
+  });
+
+  it("skips malformed frames and keeps listening", () => {
+    const feed = renderHook(() => useDecisionStream());
+    const [source] = FakeEventSource.instances;
+    source.emit("ready");
+
+    source.emit("decision", decision("decision-markets-1"));
+    source.emit("decision", '{"id": "decision-markets-2"');
+    source.emit("decision", decision("decision-markets-3"));
+
+    expect(feed.result.current.status).toBe("live");
+    expect(feed.result.current.decisions.map((d) => d.id)).toEqual([
+      "decision-markets-3",
+      "decision-markets-1",
+    ]);
+  });
+
+  it("closes the stream once the last subscriber unmounts", () => {
+    const feed = renderHook(() => useDecisionStream());
+    const grid = renderHook(() => useDecisionStream());
+    const [source] = FakeEventSource.instances;
+
+    feed.unmount();
+    expect(source.readyState).not.toBe(FakeEventSource.CLOSED);
+    grid.unmount();
+    expect(source.readyState).toBe(FakeEventSource.CLOSED);
+
+    // A later subscriber starts over on a new connection
+    const next = renderHook(() => useDecisionStream());
+    expect(FakeEventSource.instances).toHaveLength(2);
+    expect(next.result.current).toEqual({
+      decisions: [],
+      status: "connecting",
+    });
+  });
+});
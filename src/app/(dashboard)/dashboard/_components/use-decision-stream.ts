@@ -0,0 +1,139 @@
+/**
+ * useDecisionStream - Live agent decisions over Server-Sent Events
+ *
+ * Subscribes to `/api/agents/decisions?stream=true` and keeps a bounded,
+ * newest-first list of decisions. Every component on the page shares one
+ * EventSource: it opens with the first subscriber and closes with the last.
+ * EventSource reconnects on its own and sends Last-Event-ID, so the route
+ * replays anything missed while offline.
+ */
+
+"use client";
+
+import * as React from "react";
+import type { AgentDecision } from "@/components/intelligence/AgentCard";
+
+export type DecisionStreamStatus =
+  | "connecting"
+  | "live"
+  | "reconnecting"
+  | "closed";
+
+/** Standard-format decision as pushed by the stream */
+export interface StreamedDecision extends AgentDecision {
+  category?: string;
+  currentExplanation?: string;
+  confidenceExplanation?: string;
+  sourceProvenance?: string[];
+  zkProofHash?: string;
+  constraintViolations?: Array<{ constraint: string }>;
+  streamingMetadata?: {
+    eventId: number | null;
+    phase: "snapshot" | "replay" | "live";
+  };
+}
+
+interface DecisionStreamState {
+  decisions: StreamedDecision[];
+  status: DecisionStreamStatus;
+}
+
+/** Decisions kept for all subscribers; each reads as many as it shows */
+const STREAM_BUFFER_SIZE = 50;
+
+const INITIAL_STATE: DecisionStreamState = {
+  decisions: [],
+  status: "connecting",
+};
+
+let state = INITIAL_STATE;
+let source: EventSource | null = null;
+const listeners = new Set<() => void>();
+
+function update(next: Partial<DecisionStreamState>): void {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+function handleDecision(event: MessageEvent<string>): void {
+  let decision: StreamedDecision;
+  try {
+    decision = JSON.parse(event.data);
+  } catch {
+    // A malformed frame is skipped; the stream carries on
+    return;
+  }
+  const rest = state.decisions.filter((d) => d.id !== decision.id);
+  // Live and replayed events are newer than anything already listed
+  update({ decisions: [decision, ...rest].slice(0, STREAM_BUFFER_SIZE) });
+}
+
+function handleReady(): void {
+  update({ status: "live" });
+}
+
+function handleError(): void {
+  update({
+    status:
+      source?.readyState === EventSource.CLOSED ? "closed" : "reconnecting",
+  });
+}
+
+function open(): void {
+  if (typeof EventSource === "undefined") {
+    update({ status: "closed" });
+    return;
+  }
+
+  const params = new URLSearchParams({
+    stream: "true",
+    format: "standard",
+    snapshot: "false",
+  });
+  source = new EventSource(`/api/agents/decisions?${params}`);
+  source.addEventListener("decision", handleDecision);
+  source.addEventListener("ready", handleReady);
+  source.addEventListener("error", handleError);
+}
+
+function close(): void {
+  if (source) {
+    source.removeEventListener("decision", handleDecision);
+    source.removeEventListener("ready", handleReady);
+    source.removeEventListener("error", handleError);
+    source.close();
+    source = null;
+  }
+  state = INITIAL_STATE;
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) open();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) close();
+  };
+}
+
+interface UseDecisionStreamOptions {
+  /** Maximum number of decisions returned, newest first */
+  maxItems?: number;
+}
+
+export function useDecisionStream({
+  maxItems = 12,
+}: UseDecisionStreamOptions = {}) {
+  const { decisions, status } = React.useSyncExternalStore(
+    subscribe,
+    () => state,
+    () => INITIAL_STATE
+  );
+  const visible = React.useMemo(
+    () => decisions.slice(0, maxItems),
+    [decisions, maxItems]
+  );
+
+  return { decisions: visible, status };
+}
@@ -11,7 +11,8 @@
  * - **Trustworthy**: Every metric shows data sources and freshness
  *
  * Information Hierarchy:
- * 1. Portfolio summary (total value, tokens, energy production)
+ * 1. Portfolio summary (total value, tokens, energy production) of the
+ *    connected wallet, or the demo holdings while none is connected
  * 2. Agent decision grid (recent AI actions)
  * 3. Energy metrics (live generation/consumption)
  * 4. Quick access to agent Q&A and transactions
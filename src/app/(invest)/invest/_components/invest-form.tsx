@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo } from "react";
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -8,8 +8,18 @@ import { z } from "zod";
 import { GlassCard } from "@/components/ui/glass-card";
 import { StatusPill } from "@/app/_components/status-pill";
 import { Button } from "@/components/ui/button";
+import { useWalletSession } from "@/app/_components/use-wallet-session";
+import type { InvestmentOrder } from "@/lib/invest";
+import {
+  formatCurrency,
+  formatPercent,
+  formatToken,
+  truncateAddress,
+} from "@/lib/format";
 import { cn } from "@/lib/utils";
 
+import { useInvestQuote } from "./use-invest-quote";
+
 const formSchema = z.object({
   solAmount: z
     .string()
@@ -19,11 +29,29 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+/** Slippage choices, in basis points */
+const SLIPPAGE_OPTIONS_BPS = [10, 50, 100, 300] as const;
+
+/** Price impact past these fractions is flagged */
+const PRICE_IMPACT_CAUTION = 0.01;
+const PRICE_IMPACT_CRITICAL = 0.03;
+
 interface InvestFormProps {
   tokenPrice: number;
 }
 
+type SubmitState =
+  | { status: "idle" }
+  | { status: "submitting" }
+  | { status: "placed"; order: InvestmentOrder }
+  | { status: "failed"; message: string };
+
 export function InvestForm({ tokenPrice }: InvestFormProps) {
+  const { ensureSession } = useWalletSession();
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    status: "idle",
+  });
+  const [slippageBps, setSlippageBps] = useState<number>(50);
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: { solAmount: "200" },
@@ -31,30 +59,41 @@ export function InvestForm({ tokenPrice }: InvestFormProps) {
   });
 
   const solAmount = Number(form.watch("solAmount") || 0);
-  const slippageBps = 50;
-  const executionProbability = 0.97;
-  const feeUsd = 0.28;
+  const { quote, error, isLoading, isStale, secondsLeft, refresh } =
+    useInvestQuote(solAmount, slippageBps);
 
-  const quote = useMemo(() => {
-    if (!solAmount || Number.isNaN(solAmount)) {
-      return {
-        tokensOut: 0,
-        worstCaseOut: 0,
-      };
-    }
-
-    const tokensOut = solAmount / tokenPrice;
-    const worstCaseOut = tokensOut * (1 - slippageBps / 10_000);
-
-    return {
-      tokensOut,
-      worstCaseOut,
-    };
-  }, [solAmount, tokenPrice]);
+  const impactTone = !quote
+    ? "text-(--text-primary)"
+    : quote.priceImpact >= PRICE_IMPACT_CRITICAL
+      ? "text-(--critical-primary)"
+      : quote.priceImpact >= PRICE_IMPACT_CAUTION
+        ? "text-(--caution-primary)"
+        : "text-(--prosperity-primary)";
 
-  const onSubmit = (values: FormValues) => {
-    console.log("submitted", values);
-    // TODO: integrate wallet + Jupiter mock action
+  // Orders are placed by the signed-in wallet, so sign in first if needed
+  const onSubmit = async (values: FormValues) => {
+    setSubmitState({ status: "submitting" });
+    try {
+      await ensureSession();
+      const response = await fetch("/api/invest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          solAmount: Number(values.solAmount),
+          slippageBps,
+        }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.message ?? "Order was not placed");
+      }
+      setSubmitState({ status: "placed", order: body.data });
+    } catch (error) {
+      setSubmitState({
+        status: "failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   };
 
   return (
@@ -71,8 +110,9 @@ export function InvestForm({ tokenPrice }: InvestFormProps) {
           Acquire SOLAR tokens with constraints surfaced before you confirm.
         </h2>
         <p className="text-sm text-(--text-secondary)">
-          Quotes use Jupiter mocks, worst-case receives, and Solana fee
-          estimates. Program and PDA decoding keep you in control of authority.
+          Live quotes show every route leg, price impact, worst-case receives
+          and Solana fees, and refresh before they go stale. Program and PDA
+          decoding keep you in control of authority.
         </p>
       </header>
       <form
@@ -101,33 +141,94 @@ export function InvestForm({ tokenPrice }: InvestFormProps) {
               </p>
             ) : null}
           </div>
-          <div className="grid gap-3 text-sm text-(--text-secondary)">
+          <div>
+            <p className="text-xs uppercase tracking-[0.32em] text-(--text-tertiary)">
+              Max slippage
+            </p>
+            <div
+              role="radiogroup"
+              aria-label="Max slippage"
+              className="mt-2 grid grid-cols-4 gap-2"
+            >
+              {SLIPPAGE_OPTIONS_BPS.map((bps) => (
+                <button
+                  key={bps}
+                  type="button"
+                  role="radio"
+                  aria-checked={slippageBps === bps}
+                  onClick={() => setSlippageBps(bps)}
+                  className={cn(
+                    "rounded-xl border px-3 py-2 text-sm font-semibold transition-colors focus-visible:u-focus-ring",
+                    slippageBps === bps
+                      ? "border-(--trust-primary) bg-(--trust-primary)/15 text-(--text-primary)"
+                      : "border-(--glass-border-soft) bg-(--glass-surface-primary) text-(--text-secondary) hover:text-(--text-primary)"
+                  )}
+                >
+                  {formatPercent(bps / 10_000, false, 1)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div
+            className={cn(
+              "grid gap-3 text-sm text-(--text-secondary) transition-opacity",
+              isStale && quote && "opacity-60"
+            )}
+            aria-busy={isLoading}
+          >
             <div className="rounded-2xl border border-(--glass-border-soft) bg-(--glass-surface-primary) px-4 py-3">
               <div className="flex items-center justify-between text-(--text-primary)">
                 <span className="text-xs uppercase tracking-[0.24em] text-(--text-tertiary)">
                   Quote received
                 </span>
                 <span className="text-lg font-semibold text-(--text-primary)">
-                  {quote.tokensOut ? quote.tokensOut.toFixed(2) : "—"} SOLAR
+                  {quote ? formatToken(quote.outAmount, "SOLAR", 2) : "— SOLAR"}
                 </span>
               </div>
               <p className="mt-1 text-xs text-(--text-secondary)">
-                Estimated at {tokenPrice.toFixed(2)} USD per SOLAR
+                {quote
+                  ? `1 SOL ≈ ${formatToken(quote.price, "SOLAR", 4)} • ≈ ${formatCurrency(quote.outAmount * tokenPrice)} at ${formatCurrency(tokenPrice)} per SOLAR`
+                  : `Valued at ${formatCurrency(tokenPrice)} per SOLAR`}
               </p>
             </div>
             <div className="rounded-2xl border border-(--glass-border-soft) bg-(--glass-surface-primary) px-4 py-3">
               <div className="flex items-center justify-between text-(--text-primary)">
                 <span className="text-xs uppercase tracking-[0.24em] text-(--text-tertiary)">
-                  Worst-case receives
+                  Minimum received
                 </span>
                 <span className="text-lg font-semibold text-(--caution-primary)">
-                  {quote.worstCaseOut ? quote.worstCaseOut.toFixed(2) : "—"}{" "}
-                  SOLAR
+                  {quote
+                    ? formatToken(quote.minimumReceived, "SOLAR", 2)
+                    : "— SOLAR"}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-(--text-secondary)">
+                Slippage guarded at{" "}
+                {formatPercent(slippageBps / 10_000, false, 1)} • Price impact{" "}
+                <span className={cn("font-semibold", impactTone)}>
+                  {quote ? formatPercent(quote.priceImpact, false, 2) : "—"}
+                </span>
+              </p>
+            </div>
+            <div className="rounded-2xl border border-(--glass-border-soft) bg-(--glass-surface-primary) px-4 py-3">
+              <div className="flex items-center justify-between text-(--text-primary)">
+                <span className="text-xs uppercase tracking-[0.24em] text-(--text-tertiary)">
+                  Solana fees
+                </span>
+                <span className="text-lg font-semibold text-(--text-primary)">
+                  {quote
+                    ? formatToken(
+                        quote.fees.networkSol + quote.fees.prioritySol,
+                        "SOL",
+                        6
+                      )
+                    : "— SOL"}
                 </span>
               </div>
               <p className="mt-1 text-xs text-(--text-secondary)">
-                Slippage guarded at {(slippageBps / 100).toFixed(2)}% • Fees $
-                {feeUsd.toFixed(2)}
+                {quote
+                  ? `Network ${formatToken(quote.fees.networkSol, "SOL", 6)} • Priority ${formatToken(quote.fees.prioritySol, "SOL", 6)} (${quote.fees.computeUnitLimit.toLocaleString()} CU at ${quote.fees.computeUnitPriceMicroLamports.toLocaleString()} µlamports)`
+                  : "Network and priority fees appear with the quote"}
               </p>
             </div>
           </div>
@@ -152,20 +253,91 @@ export function InvestForm({ tokenPrice }: InvestFormProps) {
             trustLevel="medium"
             className="space-y-3"
           >
-            <p className="text-xs uppercase tracking-[0.32em] text-(--text-tertiary)">
-              Execution probability
-            </p>
-            <p className="text-3xl font-semibold text-(--text-primary)">
-              {(executionProbability * 100).toFixed(0)}%
-            </p>
-            <p className="text-sm text-(--text-secondary)">
-              Based on mock Jupiter route with compute budget boosts and latest
-              priority fee guidance.
-            </p>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs uppercase tracking-[0.32em] text-(--text-tertiary)">
+                Route
+              </p>
+              <p className="text-xs text-(--text-secondary)" aria-live="polite">
+                {isLoading
+                  ? "Quoting…"
+                  : secondsLeft !== null
+                    ? `Refreshes in ${secondsLeft}s`
+                    : null}
+              </p>
+            </div>
+            {quote ? (
+              <ol className="space-y-2">
+                {quote.legs.map((leg, index) => (
+                  <li
+                    key={`${leg.label}-${index}`}
+                    className="rounded-xl border border-(--glass-border-soft) bg-(--glass-surface-primary) px-3 py-2"
+                  >
+                    <div className="flex items-center justify-between text-sm text-(--text-primary)">
+                      <span className="font-semibold">
+                        {leg.inputSymbol} → {leg.outputSymbol}
+                      </span>
+                      <span className="text-xs text-(--text-secondary)">
+                        {leg.label} • {leg.percent}%
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-(--text-secondary)">
+                      {formatToken(leg.inAmount, leg.inputSymbol, 4)} →{" "}
+                      {formatToken(leg.outAmount, leg.outputSymbol, 4)} • Pool
+                      fee {formatToken(leg.fee, leg.feeSymbol, 4)}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-(--text-secondary)">
+                {error ??
+                  (isLoading
+                    ? "Finding the best route…"
+                    : "Enter an amount to see routes.")}
+              </p>
+            )}
+            {quote ? (
+              <div className="flex items-center justify-between text-xs text-(--text-tertiary)">
+                <span>
+                  Routed by {quote.source}
+                  {quote.quote.contextSlot
+                    ? ` at slot ${quote.quote.contextSlot.toLocaleString()}`
+                    : ""}
+                </span>
+                <button
+                  type="button"
+                  onClick={refresh}
+                  disabled={isLoading}
+                  className="rounded-md px-2 py-1 font-medium text-(--text-secondary) hover:text-(--text-primary) focus-visible:u-focus-ring disabled:opacity-50"
+                >
+                  Refresh now
+                </button>
+              </div>
+            ) : null}
           </GlassCard>
-          <Button type="submit" variant="neon" size="lg" className="w-full">
-            Preview transaction
+          <Button
+            type="submit"
+            variant="neon"
+            size="lg"
+            className="w-full"
+            disabled={submitState.status === "submitting" || isStale}
+          >
+            {submitState.status === "submitting"
+              ? "Waiting for wallet…"
+              : "Place order"}
           </Button>
+          {submitState.status === "placed" ? (
+            <p role="status" className="text-xs text-(--text-secondary)">
+              Order {submitState.order.id} received for{" "}
+              {submitState.order.solAmount} SOL, signed by{" "}
+              {truncateAddress(submitState.order.signer, 4, 4)}.
+            </p>
+          ) : null}
+          {submitState.status === "failed" ? (
+            <p role="alert" className="text-xs text-(--critical-primary)">
+              {submitState.message}
+            </p>
+          ) : null}
           <p className="text-xs text-(--text-secondary)">
             We never request private keys. Simulation receipts include decoded
             program IDs, PDA authority, and proof hashes for audit trails.
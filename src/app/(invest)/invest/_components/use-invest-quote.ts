@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { InvestQuote } from "@/lib/invest/quotes";
+
+/** Wait for typing to settle before asking for a quote */
+const QUOTE_DEBOUNCE_MS = 300;
+
+interface QuoteState {
+  quote: InvestQuote | null;
+  /** Local time the quote goes stale, measured from when it arrived */
+  deadline: number | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Live quote for spending `solAmount` SOL at `slippageBps`. Re-quotes when
+ * either changes and again whenever the current quote expires, and counts
+ * down the seconds it has left.
+ */
+export function useInvestQuote(solAmount: number, slippageBps: number) {
+  const [state, setState] = useState<QuoteState>({
+    quote: null,
+    deadline: null,
+    error: null,
+    isLoading: false,
+  });
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  const hasAmount = Number.isFinite(solAmount) && solAmount > 0;
+
+  useEffect(() => {
+    if (!hasAmount) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setState((prev) => ({ ...prev, isLoading: true }));
+      try {
+        const params = new URLSearchParams({
+          solAmount: String(solAmount),
+          slippageBps: String(slippageBps),
+        });
+        const response = await fetch(`/api/invest/quote?${params}`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const body = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(body?.message ?? "Quote unavailable");
+        }
+
+        const quote: InvestQuote = body.data;
+        // Time left by the server's clock, so a skewed local clock is harmless
+        const ttl = Date.parse(quote.expiresAt) - Date.parse(quote.quotedAt);
+        const receivedAt = Date.now();
+        setNow(receivedAt);
+        setState({
+          quote,
+          deadline: receivedAt + ttl,
+          error: null,
+          isLoading: false,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setState({
+          quote: null,
+          deadline: null,
+          error: error instanceof Error ? error.message : "Unknown error",
+          isLoading: false,
+        });
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [hasAmount, solAmount, slippageBps, refreshCount]);
+
+  const { deadline } = state;
+  useEffect(() => {
+    if (deadline === null) return;
+
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    const expire = setTimeout(
+      () => setRefreshCount((count) => count + 1),
+      Math.max(0, deadline - Date.now())
+    );
+
+    return () => {
+      clearInterval(tick);
+      clearTimeout(expire);
+    };
+  }, [deadline]);
+
+  // An amount the form rejects shows no quote, not the last valid one
+  const quote = hasAmount ? state.quote : null;
+  const secondsLeft =
+    quote && deadline !== null
+      ? Math.max(0, Math.ceil((deadline - now) / 1000))
+      : null;
+
+  return {
+    quote,
+    error: hasAmount ? state.error : null,
+    isLoading: hasAmount && state.isLoading,
+    /** Whole seconds until the quote refreshes; null without a quote */
+    secondsLeft,
+    /** The quote is for other inputs or has expired; a new one is coming */
+    isStale:
+      !quote ||
+      quote.solAmount !== solAmount ||
+      quote.slippageBps !== slippageBps ||
+      secondsLeft === 0,
+    refresh: () => setRefreshCount((count) => count + 1),
+  };
+}
@@ -3,13 +3,18 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useState, useCallback, useRef, useEffect } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
 import { EmergencyOverride } from "./emergency-override";
+import { setEmergencyMode, useEmergencyMode } from "./use-emergency-mode";
 import { WalletDropdown } from "./wallet-dropdown";
+import { useWalletBalance } from "./use-wallet-balance";
+import { useWalletSession } from "./use-wallet-session";
 import { MobileMenuDrawer } from "./mobile-menu-drawer";
 import { CommandPalette } from "./command-palette";
 import { SystemStatusDropdown } from "./system-status-dropdown";
 import { QuickActionsMenu } from "./quick-actions-menu";
 import { cn } from "@/lib/utils";
+import { BLOCKCHAIN } from "@/lib/constants";
 import { Lightning, Menu } from "../../components/ui/icons";
 
 const navItems: Array<{
@@ -60,19 +65,12 @@ const trustMetrics = [
   },
 ];
 
-interface WalletConnectionState {
-  isConnecting: boolean;
-  address?: string;
-  network?: string;
-  balance?: number;
-}
-
 export function AppHeader() {
   const pathname = usePathname();
-  const [walletState, setWalletState] = useState<WalletConnectionState>({
-    isConnecting: false,
-  });
-  const [isEmergencyMode, setIsEmergencyMode] = useState(false);
+  const { publicKey, connecting, disconnect } = useWallet();
+  const walletBalance = useWalletBalance();
+  const { ensureSession, signOut } = useWalletSession();
+  const isEmergencyMode = useEmergencyMode();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const [liveTrustMetrics, setLiveTrustMetrics] = useState(trustMetrics);
@@ -142,34 +140,20 @@ export function AppHeader() {
     return () => clearInterval(interval);
   }, []);
 
-  const handleWalletConnect = useCallback(async () => {
-    setWalletState((prev) => ({ ...prev, isConnecting: true }));
-
-    // Simulate wallet connection with optimistic UI
-    try {
-      // In real implementation, connect to Phantom/Solflare
-      await new Promise((resolve) => setTimeout(resolve, 1200));
-      setWalletState({
-        isConnecting: false,
-        address: "7xKX...9mPq",
-        network: "mainnet-beta",
-        balance: 42.7,
-      });
-    } catch (error) {
-      setWalletState({ isConnecting: false });
-      console.error("Wallet connection failed:", error);
-    }
-  }, []);
-
-  const handleEmergencyOverride = useCallback((action: "pause" | "resume") => {
-    setIsEmergencyMode(action === "pause");
-    // In real implementation, trigger blockchain pause transaction
-    console.log(`Emergency ${action} triggered`);
-  }, []);
-
   const handleWalletDisconnect = useCallback(() => {
-    setWalletState({ isConnecting: false });
-  }, []);
+    Promise.all([disconnect(), signOut()]).catch((error) =>
+      console.error("Wallet disconnect failed:", error)
+    );
+  }, [disconnect, signOut]);
+
+  // Overrides are recorded against the signed-in wallet
+  const handleEmergencyToggle = useCallback(
+    async (action: "pause" | "resume") => {
+      await ensureSession();
+      await setEmergencyMode(action);
+    },
+    [ensureSession]
+  );
 
   return (
     <header
@@ -260,7 +244,7 @@ export function AppHeader() {
 
             <EmergencyOverride
               isActive={isEmergencyMode}
-              onToggle={handleEmergencyOverride}
+              onToggle={handleEmergencyToggle}
             />
 
             <QuickActionsMenu
@@ -282,14 +266,14 @@ export function AppHeader() {
           </button>
 
           {/* Wallet Connection */}
-          {walletState.address ? (
+          {publicKey ? (
             <WalletDropdown
-              address={walletState.address}
-              balance={walletState.balance!}
-              network={walletState.network!}
+              address={publicKey.toBase58()}
+              balance={walletBalance}
+              network={BLOCKCHAIN.network}
               onDisconnect={handleWalletDisconnect}
             />
-          ) : walletState.isConnecting ? (
+          ) : connecting ? (
             <div className="flex items-center space-x-2 px-4 py-2 rounded-md bg-(color:--glass-surface-primary) text-sm">
               <div className="w-2 h-2 rounded-full bg-(color:--intelligence-primary) animate-pulse"></div>
               <span className="text-(color:--text-secondary)">
@@ -297,8 +281,8 @@ export function AppHeader() {
               </span>
             </div>
           ) : (
-            <button
-              onClick={handleWalletConnect}
+            <Link
+              href="/connect"
               className={cn(
                 "px-4 py-2 text-sm font-medium rounded-md",
                 "bg-(color:--trust-primary) text-white",
@@ -307,7 +291,7 @@ export function AppHeader() {
               )}
             >
               Connect Wallet
-            </button>
+            </Link>
           )}
         </div>
       </div>
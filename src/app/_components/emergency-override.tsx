@@ -4,7 +4,8 @@ import { DropdownPortal } from "./dropdown-portal";
 
 interface EmergencyOverrideProps {
   isActive: boolean;
-  onToggle: (action: "pause" | "resume") => void;
+  /** Rejects with a message to show when the override was not applied */
+  onToggle: (action: "pause" | "resume") => Promise<void>;
   className?: string;
 }
 
@@ -15,9 +16,13 @@ export function EmergencyOverride({
 }: EmergencyOverrideProps) {
   const [isConfirming, setIsConfirming] = useState(false);
   const [lastAction, setLastAction] = useState<Date | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
 
-  const handleClick = () => {
+  const handleClick = async () => {
+    if (isSubmitting) return;
+
     if (!isConfirming) {
       setIsConfirming(true);
       // Auto-cancel confirmation after 5 seconds
@@ -26,9 +31,21 @@ export function EmergencyOverride({
     }
 
     const action = isActive ? "resume" : "pause";
-    onToggle(action);
     setIsConfirming(false);
-    setLastAction(new Date());
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onToggle(action);
+      setLastAction(new Date());
+    } catch (toggleError) {
+      setError(
+        toggleError instanceof Error
+          ? toggleError.message
+          : `Emergency ${action} failed`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -37,13 +54,14 @@ export function EmergencyOverride({
         ref={buttonRef}
         type="button"
         onClick={handleClick}
+        disabled={isSubmitting}
         className={cn(
           "flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium",
           "transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2",
           isActive
             ? "text-(color:--caution-primary) hover:bg-(color:--caution-primary)/10 focus:ring-(color:--caution-primary)"
             : "text-(color:--critical-primary) hover:bg-(color:--critical-primary)/10 focus:ring-(color:--critical-primary)",
-          isConfirming && "animate-pulse"
+          (isConfirming || isSubmitting) && "animate-pulse"
         )}
         aria-label={
           isActive ? "Resume AI operations" : "Emergency pause AI operations"
@@ -59,13 +77,15 @@ export function EmergencyOverride({
         />
 
         <span>
-          {isConfirming
-            ? isActive
-              ? "Confirm Resume?"
-              : "Confirm Pause?"
-            : isActive
-              ? "Resume"
-              : "Pause"}
+          {isSubmitting
+            ? "Signing…"
+            : isConfirming
+              ? isActive
+                ? "Confirm Resume?"
+                : "Confirm Pause?"
+              : isActive
+                ? "Resume"
+                : "Pause"}
         </span>
       </button>
 
@@ -102,7 +122,7 @@ export function EmergencyOverride({
               <button
                 type="button"
                 onClick={() => {
-                  handleClick();
+                  void handleClick();
                   setIsConfirming(false);
                 }}
                 className={cn(
@@ -141,8 +161,18 @@ export function EmergencyOverride({
         </div>
       </DropdownPortal>
 
+      {/* Failure, e.g. no wallet or a rejected signature */}
+      {error && !isConfirming && (
+        <div
+          role="alert"
+          className="absolute top-full left-0 mt-1 w-64 text-xs text-(--critical-primary)"
+        >
+          {error}
+        </div>
+      )}
+
       {/* Last action timestamp */}
-      {lastAction && !isConfirming && (
+      {lastAction && !isConfirming && !error && (
         <div className="absolute top-full left-0 mt-1 text-xs text-(--text-tertiary)">
           Last action: {lastAction.toLocaleTimeString()}
         </div>
@@ -0,0 +1,74 @@
+/**
+ * useEmergencyMode - Emergency pause state shared across the app
+ *
+ * The header's EmergencyOverride and the agent sidebar's `/pause` command
+ * drive the same flag, so a pause issued from either shows everywhere. The
+ * flag mirrors `/api/override`: it is loaded from there and only changes once
+ * the server has recorded the override, which needs a wallet session (see
+ * `useWalletSession`).
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+let isEmergencyMode = false;
+let hasLoaded = false;
+const listeners = new Set<() => void>();
+
+function notify(paused: boolean): void {
+  isEmergencyMode = paused;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+
+  if (!hasLoaded) {
+    hasLoaded = true;
+    fetch("/api/override", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body: { data: { paused: boolean } } | null) => {
+        if (body) notify(body.data.paused);
+      })
+      .catch((error) => console.error("Failed to load override state:", error));
+  }
+
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Pause or resume AI operations. Resolves once the override is recorded;
+ * rejects with the server's message (e.g. when not signed in).
+ */
+export async function setEmergencyMode(
+  action: "pause" | "resume",
+  reason?: string
+): Promise<void> {
+  const response = await fetch("/api/override", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, reason }),
+  });
+  const body = await response.json().catch(() => null);
+
+  // 409: someone else already did it, so the state is what was asked for
+  if (!response.ok && response.status !== 409) {
+    throw new Error(
+      typeof body?.message === "string"
+        ? body.message
+        : `Emergency ${action} failed`
+    );
+  }
+
+  notify(action === "pause");
+}
+
+/** Whether AI operations are paused */
+export function useEmergencyMode(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => isEmergencyMode,
+    () => false
+  );
+}
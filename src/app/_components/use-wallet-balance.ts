@@ -0,0 +1,50 @@
+/**
+ * useWalletBalance - SOL balance of the connected wallet
+ *
+ * Reads the balance once on connect and follows it over the RPC websocket,
+ * so the header and `/connect` update when SOL arrives or leaves.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { BLOCKCHAIN } from "@/lib/constants";
+
+/** Balance in SOL; null while disconnected or loading */
+export function useWalletBalance(): number | null {
+  const { connection } = useConnection();
+  const { publicKey } = useWallet();
+  const [balance, setBalance] = useState<{
+    address: string;
+    lamports: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!publicKey) return;
+
+    const address = publicKey.toBase58();
+    let cancelled = false;
+
+    connection
+      .getBalance(publicKey)
+      .then((lamports) => {
+        if (!cancelled) setBalance({ address, lamports });
+      })
+      .catch((error) => console.error("Failed to load SOL balance:", error));
+
+    const subscription = connection.onAccountChange(publicKey, (account) =>
+      setBalance({ address, lamports: account.lamports })
+    );
+
+    return () => {
+      cancelled = true;
+      void connection.removeAccountChangeListener(subscription);
+    };
+  }, [connection, publicKey]);
+
+  // A balance read for a previous wallet is not this wallet's
+  return balance && balance.address === publicKey?.toBase58()
+    ? balance.lamports / BLOCKCHAIN.lamportsPerSol
+    : null;
+}
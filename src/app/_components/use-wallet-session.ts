@@ -0,0 +1,120 @@
+/**
+ * useWalletSession - Sign-In With Solana from the browser
+ *
+ * Overrides, investments and governance actions need a wallet session.
+ * `ensureSession` reuses the current one when it belongs to the connected
+ * wallet and otherwise asks the wallet to sign a fresh sign-in message, so
+ * callers can run it right before the action it guards.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import bs58 from "bs58";
+import { useWallet } from "@solana/wallet-adapter-react";
+import type { AuthSession } from "@/lib/api/auth";
+import { createSignInMessage } from "@/lib/wallet";
+
+/** undefined until the first `/api/auth/session` response */
+let currentSession: AuthSession | null | undefined;
+let pendingRefresh: Promise<AuthSession | null> | null = null;
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setCurrentSession(next: AuthSession | null): void {
+  currentSession = next;
+  listeners.forEach((listener) => listener());
+}
+
+/** Message of an API error response, or `fallback` */
+async function errorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return typeof body?.message === "string" ? body.message : fallback;
+}
+
+/** Load the cookie's session from the server */
+export function refreshSession(): Promise<AuthSession | null> {
+  pendingRefresh ??= fetch("/api/auth/session", { cache: "no-store" })
+    .then((response) => (response.ok ? response.json() : { data: null }))
+    .then(({ data }: { data: AuthSession | null }) => {
+      setCurrentSession(data);
+      return data;
+    })
+    .finally(() => {
+      pendingRefresh = null;
+    });
+
+  return pendingRefresh;
+}
+
+/** End the session and clear its cookie */
+export async function signOut(): Promise<void> {
+  await fetch("/api/auth/session", { method: "DELETE" });
+  setCurrentSession(null);
+}
+
+export function useWalletSession() {
+  const { publicKey, signMessage } = useWallet();
+  const address = publicKey?.toBase58() ?? null;
+  const session = useSyncExternalStore(
+    subscribe,
+    () => currentSession ?? null,
+    () => null
+  );
+
+  useEffect(() => {
+    if (currentSession === undefined) void refreshSession();
+  }, []);
+
+  const ensureSession = useCallback(async (): Promise<AuthSession> => {
+    if (!address) {
+      throw new Error("Connect a wallet first");
+    }
+
+    const existing =
+      currentSession === undefined ? await refreshSession() : currentSession;
+    if (existing?.address === address) return existing;
+
+    if (!signMessage) {
+      throw new Error("This wallet cannot sign messages");
+    }
+
+    const nonceResponse = await fetch("/api/auth/nonce", { cache: "no-store" });
+    if (!nonceResponse.ok) {
+      throw new Error(
+        await errorMessage(nonceResponse, "Could not start sign-in")
+      );
+    }
+    const { data: request } = await nonceResponse.json();
+
+    const message = createSignInMessage({ ...request, address });
+    const signature = await signMessage(new TextEncoder().encode(message));
+
+    const response = await fetch("/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message, signature: bs58.encode(signature) }),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, "Sign-in failed"));
+    }
+
+    const { data }: { data: AuthSession } = await response.json();
+    setCurrentSession(data);
+    return data;
+  }, [address, signMessage]);
+
+  return {
+    /** Session of the connected wallet, if it has signed in */
+    session: session?.address === address ? session : null,
+    ensureSession,
+    signOut,
+  };
+}
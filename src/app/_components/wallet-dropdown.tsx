@@ -2,14 +2,18 @@
 
 import { useState, useRef, useEffect } from "react";
 import { cn } from "@/lib/utils";
+import { formatToken, truncateAddress } from "@/lib/format";
 import { Button } from "@/components/ui/button";
 import { Provenance } from "./provenance";
 import { DropdownPortal } from "./dropdown-portal";
 import { Clipboard, Check, Search, Plug } from "@/components/ui/icons";
 
 interface WalletDropdownProps {
+  /** Connected wallet's public key (base58) */
   address: string;
-  balance: number;
+  /** SOL balance; null while it loads */
+  balance: number | null;
+  /** Cluster the wallet is on (e.g. "devnet", "mainnet-beta") */
   network: string;
   onDisconnect: () => void;
 }
@@ -49,8 +53,12 @@ export function WalletDropdown({
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const fullAddress = "7xKXp9mPqRb3fN8Y2vH5tL6wQ1dJ4sK9mPqRb3fN8";
-  const explorerUrl = `https://solscan.io/account/${fullAddress}?cluster=${network}`;
+  const explorerUrl =
+    network === "mainnet-beta"
+      ? `https://solscan.io/account/${address}`
+      : `https://solscan.io/account/${address}?cluster=${network}`;
+  const balanceText =
+    balance === null ? "— SOL" : formatToken(balance, "SOL", 4);
 
   return (
     <>
@@ -67,8 +75,8 @@ export function WalletDropdown({
         aria-haspopup="true"
       >
         <div className="flex flex-col text-right">
-          <span className="font-mono">{address}</span>
-          <span className="text-(--prosperity-primary)">{balance} SOL</span>
+          <span className="font-mono">{truncateAddress(address, 4, 4)}</span>
+          <span className="text-(--prosperity-primary)">{balanceText}</span>
         </div>
         <div className="h-2 w-2 rounded-full bg-(--prosperity-primary) shadow-[0_0_12px_rgba(50,184,198,0.6)] animate-pulse" />
       </Button>
@@ -91,11 +99,11 @@ export function WalletDropdown({
               <Provenance hash={address.slice(0, 10)} type="data" />
             </div>
             <div className="font-mono text-sm text-(--text-primary) break-all mb-2">
-              {fullAddress}
+              {address}
             </div>
             <div className="flex items-center gap-2">
               <span className="text-lg font-semibold text-(--prosperity-primary)">
-                {balance} SOL
+                {balanceText}
               </span>
               <span className="text-xs text-(--text-tertiary) uppercase tracking-wider">
                 {network}
@@ -0,0 +1,130 @@
+/**
+ * API Route: /api/agents/conversations/[id]
+ *
+ * Conversation History - Read back or discard an `/api/agents/ask` thread
+ *
+ * GET returns the stored thread so a client can restore it after a reload:
+ * {
+ *   "data": {
+ *     "id": "conv-…",
+ *     "agent": "operations",
+ *     "createdAt": "…",
+ *     "updatedAt": "…",
+ *     "messages": AgentMessage[],   // oldest first
+ *     "questions": [{ "question", "responseKey", "timestamp", "count" }]
+ *   }
+ * }
+ *
+ * DELETE removes the thread and responds 204.
+ *
+ * Both respond 404 when the conversation does not exist or has expired, and
+ * 400 when the id is not a valid conversation id.
+ *
+ * @see PRD Section 8.2 - Agent Q&A API
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { parseRouteParams } from "@/lib/api/validation";
+import {
+  getConversationRepository,
+  isConversationId,
+} from "@/lib/agents/conversations";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const ConversationParamsSchema = z.object({
+  id: z
+    .string()
+    .refine(
+      isConversationId,
+      "Conversation id must be 1-128 letters, digits, '-' or '_'"
+    ),
+});
+
+function conversationNotFound(id: string) {
+  return NextResponse.json(
+    {
+      error: "Conversation not found",
+      message: `No conversation "${id}" (it may have expired)`,
+    },
+    { status: 404, headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const routeParams = parseRouteParams(ConversationParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const { id } = routeParams.data;
+
+  try {
+    const conversations = getConversationRepository();
+    const conversation = await conversations.get(id);
+    if (!conversation) {
+      return conversationNotFound(id);
+    }
+
+    return NextResponse.json(
+      { data: conversation },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+          "X-Conversation-Store": conversations.name,
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Conversation API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load conversation",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const routeParams = parseRouteParams(ConversationParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const { id } = routeParams.data;
+
+  try {
+    const deleted = await getConversationRepository().delete(id);
+    if (!deleted) {
+      return conversationNotFound(id);
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Conversation API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete conversation",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
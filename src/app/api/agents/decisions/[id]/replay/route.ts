@@ -0,0 +1,97 @@
+/**
+ * API Route: /api/agents/decisions/[id]/replay
+ *
+ * Decision Replay - Reproduce a decision from its captured snapshot
+ *
+ * Every served decision is captured with the engine that made it, the
+ * inputs it read and what its persona's decision logic produced from them.
+ * POST feeds the snapshot's inputs through the decision logic again and
+ * compares the output with the captured one:
+ * {
+ *   "data": {
+ *     "decisionId": "decision-operations-…",
+ *     "snapshot": { "engine", "agent", "timestamp", "inputs" },
+ *     "snapshotHash": "…",             // SHA-256 of the canonical snapshot
+ *     "engine": "aimp-decision-logic@2", // engine that ran the replay
+ *     "original": { "capturedAt", "output", "outputHash" },
+ *     "replayed": { "replayedAt", "output", "outputHash" },
+ *     "deterministic": true,           // output hashes match bit for bit
+ *     "divergence": []                 // [{ field, original, replayed }]
+ *   }
+ * }
+ *
+ * A diverging replay is still a 200; `deterministic` and `divergence` say
+ * what differs. Responds 404 when the decision was never served (or its
+ * capture has been evicted) and 400 when the id is not a decision id.
+ *
+ * @see PRD Section 8.2 - Agent Decisions API
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { parseRouteParams } from "@/lib/api/validation";
+import { parseDecisionId } from "@/lib/agents/explanations";
+import { replayDecision } from "@/lib/agents/replay";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const ReplayParamsSchema = z.object({
+  id: z
+    .string()
+    .refine(
+      (id) => parseDecisionId(id) !== null,
+      "Decision id must look like decision-{agent}-{epoch ms}-{sequence}"
+    ),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const routeParams = parseRouteParams(ReplayParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const { id } = routeParams.data;
+
+  try {
+    const replay = replayDecision(id);
+    if (!replay) {
+      return NextResponse.json(
+        {
+          error: "Decision not captured",
+          message: `No snapshot of "${id}" (it may not have been served yet, or has been evicted)`,
+        },
+        { status: 404, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    return NextResponse.json(
+      { data: replay },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+          "X-Replay-Deterministic": String(replay.deterministic),
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Decision replay API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to replay decision",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
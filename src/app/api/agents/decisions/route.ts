@@ -49,10 +49,11 @@
  * - Health score degradation (aging curves)
  * - Smart query defaults (context-aware parameters)
  * - Query optimization hints (performance suggestions)
- * - Decision replay capability (what-if analysis)
+ * - Decision replay capability (input snapshot and output hashes)
  *
  * Query Parameters:
- * - agent: Filter by agent persona (operations|markets|sentinel|governor)
+ * - agent: Filter by agent persona (operations|markets|sentinel|governor;
+ *   legacy maintenance|governance are accepted as aliases)
  * - limit: Number of decisions to return (default: 20, max: 100)
  * - since: ISO timestamp for filtering recent decisions
  * - minConfidence: Minimum confidence threshold (0-100)
@@ -67,18 +68,52 @@
  * - explainabilityDepth: Explanation level (beginner|intermediate|expert)
  * - includeAlternatives: Include alternative actions analysis (true|false)
  * - includeBenchmark: Include performance benchmarking (true|false)
- * - includeReplay: Include replay capability data (true|false)
+ * - includeReplay: Include the replay engine and hashes (true|false)
  * - tags: Filter by decision tags (comma-separated)
  * - stream: Enable streaming response (true|false)
+ * - snapshot: With stream=true, send the current page before live events (default: true)
+ * - lastEventId: Resume a stream after this event id (alternative to the Last-Event-ID header)
+ *
+ * Streaming (stream=true) responds with text/event-stream:
+ * - `decision` events carry one formatted decision each; live and replayed
+ *   decisions have an `id:` so EventSource resumes via Last-Event-ID
+ * - `ready` marks the end of the snapshot/replay and carries the current head id
+ * - `heartbeat` events are sent every 15s to keep proxies from closing the stream
+ *
+ * Served and live decisions are remembered so `/api/agents/ask` answers can
+ * cite them, and captured with their input snapshot and the output their
+ * persona's decision logic gave so `/api/agents/decisions/[id]/replay` can
+ * re-run it.
+ *
+ * Invalid values are rejected with a 400 listing each offending parameter.
  *
  * @see PRD Section 8.2 - Agent Decisions API
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  parseSearchParams,
+  queryAgentPersona,
+  queryBoolean,
+  queryDateTime,
+  queryEnum,
+  queryInt,
+  queryList,
+} from "@/lib/api/validation";
+import { SSE_HEADERS, formatServerSentEvent } from "@/lib/api/sse";
+import { AGENT_PERSONA_IDS } from "@/lib/agents";
+import { recordDecisions } from "@/lib/agents/retrieval";
+import {
+  captureDecisions,
+  describeDecisionCapture,
+  DECISION_ENGINE,
+} from "@/lib/agents/replay";
 import {
   generateMockAgentDecisions,
   generateMockTrustMathematics,
   calculateMockTrustDecay,
+  generateSeededAgentDecision,
 } from "@/lib/mock";
 import type { AgentPersona, OperationalStatus } from "@/lib/types";
 import type { AgentDecision } from "@/components/intelligence/AgentCard";
@@ -90,22 +125,37 @@ export const dynamic = "force-dynamic";
 // DECISION ANALYSIS TYPES
 // ============================================================================
 
+const DECISION_CATEGORIES = [
+  "dispatch",
+  "trading",
+  "maintenance",
+  "governance",
+  "override",
+] as const;
+const DECISION_IMPACTS = ["low", "medium", "high", "critical"] as const;
+const SORT_FIELDS = [
+  "timestamp",
+  "confidence",
+  "impact",
+  "urgency",
+  "risk",
+] as const;
+const SORT_ORDERS = ["asc", "desc"] as const;
+const RESPONSE_FORMATS = ["minimal", "standard", "full"] as const;
+const EXPLAINABILITY_DEPTHS = ["beginner", "intermediate", "expert"] as const;
+
 type DecisionComplexity = "simple" | "moderate" | "complex";
-type DecisionCategory =
-  | "dispatch"
-  | "trading"
-  | "maintenance"
-  | "governance"
-  | "override";
-type DecisionImpact = "low" | "medium" | "high" | "critical";
+type DecisionCategory = (typeof DECISION_CATEGORIES)[number];
+type DecisionImpact = (typeof DECISION_IMPACTS)[number];
 type DecisionUrgency = "routine" | "elevated" | "urgent" | "emergency";
 type ConstraintSeverity = "critical" | "high" | "medium" | "low";
 type DecisionSentiment = "calm" | "stressed" | "emergency";
 type DecisionOutcome = "pending" | "success" | "partial" | "failure";
-type SortField = "timestamp" | "confidence" | "impact" | "urgency" | "risk";
-type SortOrder = "asc" | "desc";
-type ResponseFormat = "minimal" | "standard" | "full";
-type ExplainabilityDepth = "beginner" | "intermediate" | "expert";
+type SortField = (typeof SORT_FIELDS)[number];
+type SortOrder = (typeof SORT_ORDERS)[number];
+type StreamPhase = "snapshot" | "replay" | "live";
+type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+type ExplainabilityDepth = (typeof EXPLAINABILITY_DEPTHS)[number];
 type CognitiveLoad = "light" | "moderate" | "heavy" | "critical";
 type ConflictSeverity = "none" | "minor" | "moderate" | "severe";
 type ReversalReason =
@@ -465,12 +515,16 @@ interface EnhancedDecision extends AgentDecision {
   // Enhancement #54: Replay capability
   replayCapability?: {
     canReplay: boolean;
-    alternativeInputs: Array<{ param: string; alternativeValue: string }>;
-    expectedOutcomeDelta: string;
+    engine: string;
+    snapshotHash: string;
+    outputHash: string;
+    replayUrl: string;
   };
 
   // Enhancement #55: Streaming metadata
   streamingMetadata?: {
+    eventId: number | null;
+    phase: StreamPhase;
     chunkIndex: number;
     totalChunks: number;
     isLastChunk: boolean;
@@ -524,6 +578,241 @@ function setCachedDecisions(cacheKey: string, data: EnhancedDecision[]): void {
   }
 }
 
+// ============================================================================
+// DECISION STREAM (Enhancement #55)
+// ============================================================================
+
+const STREAM_HEARTBEAT_MS = 15000;
+const STREAM_DECISION_INTERVAL_MS = 8000;
+const STREAM_RETRY_MS = 3000;
+const STREAM_LOG_SIZE = 200;
+
+interface DecisionStreamEntry {
+  eventId: number;
+  decision: AgentDecision;
+}
+
+type DecisionStreamListener = (entry: DecisionStreamEntry) => void;
+
+/**
+ * Shared producer for live decisions. Every connected client sees the same
+ * event ids, and the bounded log lets reconnecting clients replay what they
+ * missed via Last-Event-ID.
+ */
+const decisionStreamLog: DecisionStreamEntry[] = [];
+const decisionStreamListeners = new Set<DecisionStreamListener>();
+let decisionStreamSequence = 0;
+let decisionStreamTimer: ReturnType<typeof setInterval> | null = null;
+
+function publishLiveDecision(): void {
+  decisionStreamSequence += 1;
+  const timestamp = new Date();
+  const entry: DecisionStreamEntry = {
+    eventId: decisionStreamSequence,
+    decision: generateSeededAgentDecision(
+      AGENT_PERSONA_IDS[decisionStreamSequence % AGENT_PERSONA_IDS.length],
+      timestamp
+    ),
+  };
+
+  decisionStreamLog.push(entry);
+  recordDecisions([entry.decision]);
+  captureDecisions([entry.decision]);
+  if (decisionStreamLog.length > STREAM_LOG_SIZE) {
+    decisionStreamLog.shift();
+  }
+
+  decisionStreamListeners.forEach((listener) => listener(entry));
+}
+
+function subscribeToDecisionStream(
+  listener: DecisionStreamListener
+): () => void {
+  decisionStreamListeners.add(listener);
+  if (!decisionStreamTimer) {
+    decisionStreamTimer = setInterval(
+      publishLiveDecision,
+      STREAM_DECISION_INTERVAL_MS
+    );
+  }
+
+  return () => {
+    decisionStreamListeners.delete(listener);
+    if (decisionStreamListeners.size === 0 && decisionStreamTimer) {
+      clearInterval(decisionStreamTimer);
+      decisionStreamTimer = null;
+    }
+  };
+}
+
+/**
+ * Entries after `lastEventId`, or null when the id is unknown or has already
+ * been evicted from the log (the client then needs a fresh snapshot).
+ */
+function getDecisionStreamReplay(
+  lastEventId: number
+): DecisionStreamEntry[] | null {
+  if (lastEventId > decisionStreamSequence) return null;
+
+  const oldest = decisionStreamLog[0]?.eventId ?? decisionStreamSequence + 1;
+  if (lastEventId < oldest - 1) return null;
+
+  return decisionStreamLog.filter((entry) => entry.eventId > lastEventId);
+}
+
+/**
+ * Build the text/event-stream response: optional snapshot (or replay when
+ * resuming), a `ready` marker, then live decisions and heartbeats until the
+ * client disconnects.
+ */
+function createDecisionStreamResponse(
+  request: NextRequest,
+  options: {
+    snapshot: EnhancedDecision[];
+    lastEventId: number | null;
+    filters: Parameters<typeof applyFilters>[1];
+    format: ResponseFormat;
+    explainabilityDepth: ExplainabilityDepth;
+    enhancement: Parameters<typeof enhanceDecision>[2];
+  }
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const prepare = (
+    decision: AgentDecision,
+    eventId: number,
+    phase: StreamPhase
+  ): EnhancedDecision | null => {
+    const recent = decisionStreamLog.map((entry) => entry.decision);
+    const enhanced = enhanceDecision(
+      decision,
+      recent.length > 0 ? recent : [decision],
+      options.enhancement
+    );
+    if (applyFilters([enhanced], options.filters).length === 0) return null;
+
+    return {
+      ...enhanced,
+      streamingMetadata: {
+        eventId,
+        phase,
+        chunkIndex: 0,
+        totalChunks: 1,
+        isLastChunk: true,
+      },
+    };
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendDecision = (
+        decision: EnhancedDecision,
+        eventId: number | undefined
+      ) => {
+        const [formatted] = formatDecisions(
+          [decision],
+          options.format,
+          options.explainabilityDepth
+        );
+        send(formatServerSentEvent("decision", formatted, eventId));
+      };
+
+      send(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+      const replay =
+        options.lastEventId !== null
+          ? getDecisionStreamReplay(options.lastEventId)
+          : null;
+
+      if (replay) {
+        replay.forEach((entry) => {
+          const decision = prepare(entry.decision, entry.eventId, "replay");
+          if (decision) sendDecision(decision, entry.eventId);
+        });
+      } else {
+        options.snapshot.forEach((decision, index) => {
+          sendDecision(
+            {
+              ...decision,
+              streamingMetadata: {
+                eventId: null,
+                phase: "snapshot",
+                chunkIndex: index,
+                totalChunks: options.snapshot.length,
+                isLastChunk: index === options.snapshot.length - 1,
+              },
+            },
+            undefined
+          );
+        });
+      }
+
+      send(
+        formatServerSentEvent(
+          "ready",
+          {
+            resumed: replay !== null,
+            replayed: replay?.length ?? 0,
+            snapshot: replay ? 0 : options.snapshot.length,
+            headEventId: decisionStreamSequence,
+            heartbeatMs: STREAM_HEARTBEAT_MS,
+          },
+          decisionStreamSequence
+        )
+      );
+
+      const unsubscribe = subscribeToDecisionStream((entry) => {
+        const decision = prepare(entry.decision, entry.eventId, "live");
+        if (decision) sendDecision(decision, entry.eventId);
+      });
+
+      const heartbeat = setInterval(() => {
+        send(
+          formatServerSentEvent("heartbeat", {
+            timestamp: new Date().toISOString(),
+            headEventId: decisionStreamSequence,
+          })
+        );
+      }, STREAM_HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener("abort", cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener("abort", cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...SSE_HEADERS,
+      "X-Data-Source": "mock-streaming",
+    },
+  });
+}
+
 // ============================================================================
 // DECISION ENHANCEMENT UTILITIES
 // ============================================================================
@@ -2498,15 +2787,16 @@ function enhanceDecision(
   const optimizationHints = undefined;
 
   // Enhancement #54: Replay capability (conditional)
-  const replayCapability = options.includeReplay
+  const capture = options.includeReplay
+    ? describeDecisionCapture(decision)
+    : null;
+  const replayCapability = capture
     ? {
         canReplay: true,
-        alternativeInputs: [
-          { param: "confidence_threshold", alternativeValue: "75" },
-          { param: "data_freshness_window", alternativeValue: "30s" },
-        ],
-        expectedOutcomeDelta:
-          "Confidence may vary by ±10%, outcome likely similar",
+        engine: DECISION_ENGINE,
+        snapshotHash: capture.snapshotHash,
+        outputHash: capture.outputHash,
+        replayUrl: `/api/agents/decisions/${encodeURIComponent(decision.id)}/replay`,
       }
     : undefined;
 
@@ -2572,6 +2862,40 @@ function enhanceDecision(
   };
 }
 
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const DecisionsQuerySchema = z
+  .object({
+    agent: queryAgentPersona().optional(),
+    limit: queryInt({ min: 1, max: 100 }).default(20),
+    since: queryDateTime().optional(),
+    minConfidence: queryInt({ min: 0, max: 100 }).default(0),
+    maxConfidence: queryInt({ min: 0, max: 100 }).default(100),
+    category: queryEnum(DECISION_CATEGORIES).optional(),
+    impact: queryEnum(DECISION_IMPACTS).optional(),
+    urgency: queryBoolean(false),
+    sortBy: queryEnum(SORT_FIELDS).default("timestamp"),
+    order: queryEnum(SORT_ORDERS).default("desc"),
+    format: queryEnum(RESPONSE_FORMATS).default("standard"),
+    cursor: queryInt({ min: 0, max: Number.MAX_SAFE_INTEGER }).default(0),
+    explainabilityDepth: queryEnum(EXPLAINABILITY_DEPTHS).default(
+      "intermediate"
+    ),
+    includeAlternatives: queryBoolean(false),
+    includeBenchmark: queryBoolean(false),
+    includeReplay: queryBoolean(false),
+    tags: queryList(z.string()).optional(),
+    stream: queryBoolean(false),
+    snapshot: queryBoolean(true),
+    lastEventId: queryInt({ min: 0, max: Number.MAX_SAFE_INTEGER }).optional(),
+  })
+  .refine((query) => query.minConfidence <= query.maxConfidence, {
+    message: "minConfidence must not exceed maxConfidence",
+    path: ["minConfidence"],
+  });
+
 // ============================================================================
 // MAIN API HANDLER (Enhanced with all 25 improvements)
 // ============================================================================
@@ -2581,29 +2905,31 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
 
     // Parse all query parameters (original + new)
-    const agentFilter = searchParams.get("agent") as AgentPersona | null;
-    const limitParam = searchParams.get("limit");
-    const sinceParam = searchParams.get("since");
-    const minConfidenceParam = searchParams.get("minConfidence");
-    const maxConfidenceParam = searchParams.get("maxConfidence");
-    const categoryFilter = searchParams.get(
-      "category"
-    ) as DecisionCategory | null;
-    const impactFilter = searchParams.get("impact") as DecisionImpact | null;
-    const urgentOnly = searchParams.get("urgency") === "true";
-    const sortByParam = searchParams.get("sortBy") as SortField | null;
-    const orderParam = searchParams.get("order") as SortOrder | null;
-    const formatParam = searchParams.get("format") as ResponseFormat | null;
-    const cursorParam = searchParams.get("cursor");
-    const explainabilityDepthParam = searchParams.get(
-      "explainabilityDepth"
-    ) as ExplainabilityDepth | null;
-    const includeAlternatives =
-      searchParams.get("includeAlternatives") === "true";
-    const includeBenchmark = searchParams.get("includeBenchmark") === "true";
-    const includeReplay = searchParams.get("includeReplay") === "true";
-    const tagsFilter = searchParams.get("tags")?.split(",");
-    const streamingEnabled = searchParams.get("stream") === "true";
+    const query = parseSearchParams(DecisionsQuerySchema, searchParams);
+    if (!query.success) {
+      return query.response;
+    }
+
+    const {
+      limit,
+      minConfidence,
+      maxConfidence,
+      order,
+      format,
+      explainabilityDepth,
+      includeAlternatives,
+      includeBenchmark,
+      includeReplay,
+      cursor: cursorIndex,
+    } = query.data;
+    const agentFilter: AgentPersona | null = query.data.agent ?? null;
+    const since = query.data.since ? new Date(query.data.since) : null;
+    const categoryFilter = query.data.category ?? null;
+    const impactFilter = query.data.impact ?? null;
+    const urgentOnly = query.data.urgency;
+    const tagsFilter = query.data.tags;
+    const streamingEnabled = query.data.stream;
+    let sortBy: SortField = query.data.sortBy;
 
     // Enhancement #52: Smart query defaults
     const smartDefaultsApplied: Array<{
@@ -2612,17 +2938,6 @@ export async function GET(request: NextRequest) {
       reason: string;
     }> = [];
 
-    const limit = limitParam ? Math.min(parseInt(limitParam), 100) : 20;
-    const since = sinceParam ? new Date(sinceParam) : null;
-    const minConfidence = minConfidenceParam ? parseInt(minConfidenceParam) : 0;
-    const maxConfidence = maxConfidenceParam
-      ? parseInt(maxConfidenceParam)
-      : 100;
-    let sortBy = sortByParam || "timestamp";
-    const order = orderParam || "desc";
-    const format = formatParam || "standard";
-    const explainabilityDepth = explainabilityDepthParam || "intermediate";
-
     // Apply smart defaults based on context
     if (categoryFilter === "override" && !urgentOnly) {
       smartDefaultsApplied.push({
@@ -2760,7 +3075,6 @@ export async function GET(request: NextRequest) {
 
     // Pagination
     const totalCount = enhancedDecisions.length;
-    const cursorIndex = cursorParam ? parseInt(cursorParam) : 0;
     const paginatedDecisions = enhancedDecisions.slice(
       cursorIndex,
       cursorIndex + limit
@@ -2773,6 +3087,13 @@ export async function GET(request: NextRequest) {
       setCachedDecisions(cacheKey, paginatedDecisions);
     }
 
+    // Served decisions are what agent answers cite (see /api/agents/ask)
+    // and what auditors replay (see /api/agents/decisions/[id]/replay)
+    recordDecisions(paginatedDecisions);
+    // Capture the engine's output, before enhancement reassesses it
+    const servedIds = new Set(paginatedDecisions.map((d) => d.id));
+    captureDecisions(baseDecisions.filter((d) => servedIds.has(d.id)));
+
     // Calculate statistics
     const statistics = calculateStatistics(paginatedDecisions);
 
@@ -2783,60 +3104,36 @@ export async function GET(request: NextRequest) {
       explainabilityDepth
     );
 
-    // Enhancement #55: Streaming support (simplified for now)
+    // Enhancement #55: Server-Sent Events stream
     if (streamingEnabled) {
-      // In a full implementation, this would use ReadableStream
-      // For now, we'll just return with streaming metadata
-      const withStreamingMeta = formattedData.map((d, idx) => ({
-        ...d,
-        streamingMetadata: {
-          chunkIndex: idx,
-          totalChunks: formattedData.length,
-          isLastChunk: idx === formattedData.length - 1,
+      const lastEventIdHeader = request.headers.get("last-event-id");
+      const headerEventId =
+        lastEventIdHeader && /^\d+$/.test(lastEventIdHeader)
+          ? Number(lastEventIdHeader)
+          : null;
+
+      return createDecisionStreamResponse(request, {
+        snapshot: query.data.snapshot ? paginatedDecisions : [],
+        lastEventId: headerEventId ?? query.data.lastEventId ?? null,
+        filters: {
+          agent: agentFilter,
+          since,
+          minConfidence,
+          maxConfidence,
+          category: categoryFilter,
+          impact: impactFilter,
+          urgentOnly,
+          tags: tagsFilter,
         },
-      }));
-
-      return NextResponse.json(
-        {
-          data: withStreamingMeta,
-          count: paginatedDecisions.length,
-          cached: false,
-          streaming: true,
-          smartDefaultsApplied,
-          optimizationHints,
-          ...buildResponseMetadata(
-            paginatedDecisions,
-            {
-              agent: agentFilter,
-              limit,
-              since,
-              minConfidence,
-              maxConfidence,
-              category: categoryFilter,
-              impact: impactFilter,
-              urgent: urgentOnly,
-              sortBy,
-              order,
-              tags: tagsFilter,
-            },
-            statistics
-          ),
-          pagination: {
-            totalCount,
-            hasMore,
-            nextCursor,
-            currentOffset: cursorIndex,
-          },
+        format,
+        explainabilityDepth,
+        enhancement: {
+          explainabilityDepth,
+          includeAlternatives,
+          includeBenchmark,
+          includeReplay,
         },
-        {
-          headers: {
-            "Cache-Control": "no-cache",
-            "X-Data-Source": "mock-streaming",
-            "X-Total-Count": totalCount.toString(),
-            "X-Has-More": hasMore.toString(),
-          },
-        }
-      );
+      });
     }
 
     return NextResponse.json(
@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/auth/nonce
+ *
+ * Sign-In With Solana, step 1 - A single-use nonce and the message to sign
+ *
+ * GET responds with the fields of the sign-in message for this host:
+ * {
+ *   "data": {
+ *     "domain": "app.aimp.energy",
+ *     "statement": "Sign in to AIMP …",
+ *     "uri": "https://app.aimp.energy",
+ *     "chainId": "devnet",
+ *     "nonce": "9f1c…",
+ *     "issuedAt": "2026-10-19T12:00:00.000Z",
+ *     "expirationTime": "2026-10-19T12:05:00.000Z"
+ *   }
+ * }
+ *
+ * The wallet adds its address, signs the message `createSignInMessage`
+ * builds from these fields and posts it to `/api/auth/session` before
+ * `expirationTime`. Each nonce signs in once.
+ *
+ * Rate limited per client (`@/lib/api/rate-limit`, route `auth`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSignInRequest } from "@/lib/api/auth";
+import {
+  checkRateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from "@/lib/api/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, "auth");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    return NextResponse.json(
+      { data: await createSignInRequest(request) },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+          ...rateLimitHeaders(rateLimit),
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Auth nonce API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create sign-in nonce",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * API Route: /api/auth/session
+ *
+ * Sign-In With Solana, step 2 - Wallet sessions
+ *
+ * POST signs in with a message built from `/api/auth/nonce` and the
+ * wallet's signature of it:
+ * {
+ *   "message": "app.aimp.energy wants you to sign in with your Solana account:\n…",
+ *   "signature": "3yZe…"   // base58 Ed25519 signature of the UTF-8 message
+ * }
+ *
+ * The message must name this host, origin and cluster, be unexpired and
+ * carry an unused nonce. On success it responds 201 with
+ * `{ data: AuthSession }` and sets the HTTP-only `aimp_session` cookie;
+ * otherwise 401 with a `code` (`invalid_message`, `wrong_audience`,
+ * `expired`, `invalid_signature`, `invalid_nonce`).
+ *
+ * GET responds `{ data: AuthSession | null }` for the current cookie.
+ * DELETE signs out and clears the cookie.
+ *
+ * POST is rate limited per client (`@/lib/api/rate-limit`, route `auth`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  AuthError,
+  getSession,
+  setSessionCookie,
+  signIn,
+  signOut,
+} from "@/lib/api/auth";
+import {
+  checkRateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from "@/lib/api/rate-limit";
+import { parseJsonBody } from "@/lib/api/validation";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const SignInRequestSchema = z.object({
+  message: z.string().min(1).max(2000),
+  signature: z
+    .string()
+    .regex(/^[1-9A-HJ-NP-Za-km-z]{64,90}$/, "Signature must be base58"),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(
+    { data: await getSession(request) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimit = await checkRateLimit(request, "auth");
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  const body = await parseJsonBody(SignInRequestSchema, request);
+  if (!body.success) {
+    return body.response;
+  }
+
+  try {
+    const { token, session } = await signIn(request, body.data);
+
+    return setSessionCookie(
+      NextResponse.json(
+        { data: session },
+        {
+          status: 201,
+          headers: {
+            "Cache-Control": "no-store",
+            ...rateLimitHeaders(rateLimit),
+          },
+        }
+      ),
+      token,
+      session
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: "Sign-in failed", message: error.message, code: error.code },
+        { status: 401, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    console.error("Auth session API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to sign in",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  await signOut(request);
+
+  return setSessionCookie(
+    NextResponse.json(
+      { data: null },
+      { headers: { "Cache-Control": "no-store" } }
+    ),
+    null
+  );
+}
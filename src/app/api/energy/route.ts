@@ -97,18 +97,40 @@
  * - includeAgentContext: boolean (default: true) [Phase 10]
  * - includeOutcomes: boolean (default: true) [Phase 10]
  * - includeChains: boolean (default: true) [Phase 10]
- * - fields: comma-separated field names for partial selection (optional) [Phase 10]
+ * - fields: comma-separated dotted paths for partial selection, e.g.
+ *   "flowAnalysis.netFlow,batteryHealth" (optional) [Phase 10]
+ *
+ * Responses are brotli- or gzip-encoded when the client's Accept-Encoding
+ * allows it (see Content-Encoding / Vary).
+ *
+ * Unknown enum values or non-boolean flags are rejected with a 400 listing
+ * each offending parameter and its allowed values.
  *
  * @see PRD Section 8.2 - Energy Metrics API
  */
 
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  parseSearchParams,
+  queryBoolean,
+  queryEnum,
+  queryFieldPaths,
+} from "@/lib/api/validation";
+import {
+  compressedJson,
+  negotiateEncoding,
+  selectFields,
+  type ContentEncoding,
+} from "@/lib/api/response";
+import { AGENT_PERSONA_IDS } from "@/lib/agents";
 import {
   generateMockEnergyMetrics,
   generateMockTrustMathematics,
   calculateMockTrustDecay,
 } from "@/lib/mock";
 import type {
+  AgentPersona,
   OperationalStatus,
   FlowDirection,
   TrustMathematics,
@@ -120,12 +142,31 @@ export const dynamic = "force-dynamic"; // Real-time data
 // TYPE DEFINITIONS
 // ============================================================================
 
-type TimeRange = "1h" | "6h" | "24h" | "7d" | "30d";
-type MetricScope = "all" | "generation" | "consumption" | "battery" | "grid";
-type AggregationLevel = "raw" | "1m" | "5m" | "15m" | "1h" | "1d";
-type ResponseFormat = "minimal" | "standard" | "full" | "timeseries";
-type BaselineComparison = "none" | "yesterday" | "lastWeek" | "lastYear";
-type ExportFormat = "json" | "csv" | "regulatory";
+const TIME_RANGES = ["1h", "6h", "24h", "7d", "30d"] as const;
+const METRIC_SCOPES = [
+  "all",
+  "generation",
+  "consumption",
+  "battery",
+  "grid",
+] as const;
+const AGGREGATION_LEVELS = ["raw", "1m", "5m", "15m", "1h", "1d"] as const;
+const RESPONSE_FORMATS = ["minimal", "standard", "full", "timeseries"] as const;
+const BASELINE_COMPARISONS = [
+  "none",
+  "yesterday",
+  "lastWeek",
+  "lastYear",
+] as const;
+const EXPORT_FORMATS = ["json", "csv", "regulatory"] as const;
+const EXPLAINABILITY_DEPTHS = ["beginner", "intermediate", "expert"] as const;
+
+type TimeRange = (typeof TIME_RANGES)[number];
+type MetricScope = (typeof METRIC_SCOPES)[number];
+type AggregationLevel = (typeof AGGREGATION_LEVELS)[number];
+type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+type BaselineComparison = (typeof BASELINE_COMPARISONS)[number];
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
 type FlowType =
   | "generation_to_battery"
   | "generation_to_consumption"
@@ -165,11 +206,9 @@ type ComparisonMetric =
   | "emissions";
 
 // Phase 10 Enhancement Types (25 additional features)
-type ExplainabilityDepth = "beginner" | "intermediate" | "expert";
 type DecisionQualityScore = number; // 0-100
 type RollbackComplexity = "trivial" | "simple" | "complex" | "expert";
 type CompressionType = "none" | "gzip" | "brotli";
-type AgentPersonaType = "operations" | "markets" | "maintenance" | "governance";
 type ConfidenceFactor = "weather" | "historical" | "model" | "context";
 type DecisionOutcome = "success" | "partial_success" | "failure" | "pending";
 type ComplianceDomain = "safety" | "financial" | "operational" | "governance";
@@ -819,7 +858,7 @@ interface SmartDefault {
 // Agent Integration (Enhancements #33-40)
 interface AgentDecisionLink {
   decisionId: string;
-  agentPersona: AgentPersonaType;
+  agentPersona: AgentPersona;
   triggeredAction: string;
   timestamp: string;
   energyImpactKw: number;
@@ -828,7 +867,7 @@ interface AgentDecisionLink {
 }
 
 interface AgentStateContext {
-  agentPersona: AgentPersonaType;
+  agentPersona: AgentPersona;
   cognitiveLoad: number; // 0-100, higher = more taxed
   activeDecisions: number;
   queueDepth: number;
@@ -842,13 +881,13 @@ interface AgentStateContext {
 
 interface MultiAgentCoordination {
   coordinationId: string;
-  involvedAgents: AgentPersonaType[];
+  involvedAgents: AgentPersona[];
   coordinationType:
     | "energy_arbitrage"
     | "load_balancing"
     | "emergency_response"
     | "optimization";
-  initiatedBy: AgentPersonaType;
+  initiatedBy: AgentPersona;
   consensusReached: boolean;
   coordinationStartTime: string;
   coordinationEndTime: string;
@@ -860,7 +899,7 @@ interface AgentConsensus {
   topic: string; // e.g., "battery_charge_schedule_2024-10-10"
   proposedStrategy: string;
   agentVotes: {
-    agentPersona: AgentPersonaType;
+    agentPersona: AgentPersona;
     vote: "approve" | "reject" | "abstain";
     confidence: number; // 0-100
     reasoning: string;
@@ -873,7 +912,7 @@ interface AgentConsensus {
 interface DecisionExplanation {
   decisionId: string;
   decisionType: string; // e.g., "battery_discharge", "grid_export"
-  agentPersona: AgentPersonaType;
+  agentPersona: AgentPersona;
   summary: string;
   reasoningChain: {
     step: number;
@@ -887,7 +926,7 @@ interface DecisionExplanation {
 }
 
 interface AgentWorkloadMetrics {
-  agentPersona: AgentPersonaType;
+  agentPersona: AgentPersona;
   timeRange: string; // e.g., "last_1h"
   totalDecisions: number;
   energyRelatedDecisions: number;
@@ -899,7 +938,7 @@ interface AgentWorkloadMetrics {
 }
 
 interface LearningContext {
-  agentPersona: AgentPersonaType;
+  agentPersona: AgentPersona;
   strategyType: string; // e.g., "battery_optimization", "grid_arbitrage"
   initialPerformance: number; // 0-100 score
   currentPerformance: number; // 0-100 score
@@ -914,7 +953,7 @@ interface LearningContext {
 }
 
 interface AgentAuthority {
-  agentPersona: AgentPersonaType;
+  agentPersona: AgentPersona;
   autonomousDecisions: string[]; // Actions agent can take without approval
   requiresApproval: string[]; // Actions needing human/governance approval
   energyLimits: {
@@ -1073,7 +1112,7 @@ interface DecisionChain {
     step: number;
     domain: "energy" | "financial" | "operational" | "governance";
     decision: string;
-    agentPersona: AgentPersonaType;
+    agentPersona: AgentPersona;
     timestamp: string;
     impactMagnitude: number; // 0-100
   }[];
@@ -2310,7 +2349,7 @@ function generateVisualizationData(
  * Enhancement #33: Generate agent decision links
  */
 function generateAgentDecisionLinks(): AgentDecisionLink[] {
-  const agents: AgentPersonaType[] = ["operations", "markets"];
+  const agents: AgentPersona[] = ["operations", "markets"];
   return agents.map((agent, i) => ({
     decisionId: `decision_${Date.now()}_${i}`,
     agentPersona: agent,
@@ -2333,13 +2372,7 @@ function generateAgentDecisionLinks(): AgentDecisionLink[] {
  * Enhancement #34: Generate agent state context
  */
 function generateAgentStates(): AgentStateContext[] {
-  const agents: AgentPersonaType[] = [
-    "operations",
-    "markets",
-    "maintenance",
-    "governance",
-  ];
-  return agents.map((agent) => ({
+  return AGENT_PERSONA_IDS.map((agent) => ({
     agentPersona: agent,
     cognitiveLoad: Math.random() * 100,
     activeDecisions: Math.floor(Math.random() * 5) + 1,
@@ -2354,7 +2387,7 @@ function generateAgentStates(): AgentStateContext[] {
         ? ["battery_optimization", "load_balancing"]
         : agent === "markets"
           ? ["price_forecasting", "arbitrage"]
-          : agent === "maintenance"
+          : agent === "sentinel"
             ? ["component_health", "predictive_alerts"]
             : ["compliance_monitoring", "safety_validation"],
   }));
@@ -2402,7 +2435,7 @@ function generateAgentConsensus(): AgentConsensus[] {
           reasoning: "Maximizes arbitrage opportunity with price differential",
         },
         {
-          agentPersona: "maintenance",
+          agentPersona: "sentinel",
           vote: "approve",
           confidence: 85,
           reasoning: "Battery health sufficient, within thermal limits",
@@ -2468,13 +2501,7 @@ function generateDecisionExplanations(): DecisionExplanation[] {
  * Enhancement #38: Generate agent workload metrics
  */
 function generateAgentWorkloadMetrics(): AgentWorkloadMetrics[] {
-  const agents: AgentPersonaType[] = [
-    "operations",
-    "markets",
-    "maintenance",
-    "governance",
-  ];
-  return agents.map((agent) => ({
+  return AGENT_PERSONA_IDS.map((agent) => ({
     agentPersona: agent,
     timeRange: "last_1h",
     totalDecisions: Math.floor(Math.random() * 20) + 10,
@@ -2522,13 +2549,7 @@ function generateLearningContext(): LearningContext[] {
  * Enhancement #40: Generate agent authority scope
  */
 function generateAgentAuthority(): AgentAuthority[] {
-  const agents: AgentPersonaType[] = [
-    "operations",
-    "markets",
-    "maintenance",
-    "governance",
-  ];
-  return agents.map((agent) => ({
+  return AGENT_PERSONA_IDS.map((agent) => ({
     agentPersona: agent,
     autonomousDecisions:
       agent === "operations"
@@ -2539,7 +2560,7 @@ function generateAgentAuthority(): AgentAuthority[] {
           ]
         : agent === "markets"
           ? ["small_trades", "price_monitoring", "arbitrage_analysis"]
-          : agent === "maintenance"
+          : agent === "sentinel"
             ? ["schedule_inspection", "monitor_health", "predictive_alerts"]
             : ["policy_enforcement", "compliance_monitoring"],
     requiresApproval:
@@ -2547,7 +2568,7 @@ function generateAgentAuthority(): AgentAuthority[] {
         ? ["emergency_shutdown", "major_grid_export", "battery_replacement"]
         : agent === "markets"
           ? ["large_trades_over_1000", "new_trading_strategies"]
-          : agent === "maintenance"
+          : agent === "sentinel"
             ? ["component_replacement", "emergency_repair"]
             : ["regulation_changes", "safety_overrides"],
     energyLimits: {
@@ -2560,11 +2581,11 @@ function generateAgentAuthority(): AgentAuthority[] {
       maxTransactionUsd: agent === "markets" ? 1000 : 100,
       dailyLimitUsd: agent === "markets" ? 5000 : 500,
     },
-    overrideAuthority: agent === "governance",
+    overrideAuthority: agent === "governor",
     escalationPath:
-      agent === "governance"
+      agent === "governor"
         ? ["human_operator"]
-        : ["governance", "human_operator"],
+        : ["governor", "human_operator"],
   }));
 }
 
@@ -2916,7 +2937,7 @@ function generateDecisionChains(): DecisionChain[] {
           step: 4,
           domain: "governance",
           decision: "Approve discharge within safety constraints",
-          agentPersona: "governance",
+          agentPersona: "governor",
           timestamp: new Date(Date.now() - 6400000).toISOString(),
           impactMagnitude: 55,
         },
@@ -3240,16 +3261,10 @@ function generateQueryProfile(searchParams: URLSearchParams): QueryProfile {
  * Enhancement #56: Generate response compression metadata
  */
 function generateResponseCompression(
-  acceptEncoding: string | null
+  encoding: ContentEncoding
 ): ResponseCompression {
-  const supportsGzip = acceptEncoding?.includes("gzip") || false;
-  const supportsBrotli = acceptEncoding?.includes("br") || false;
-
-  const compressionType: CompressionType = supportsBrotli
-    ? "brotli"
-    : supportsGzip
-      ? "gzip"
-      : "none";
+  const compressionType: CompressionType =
+    encoding === "br" ? "brotli" : encoding === "gzip" ? "gzip" : "none";
 
   const originalSize = 125000; // Estimated response size
   const compressionRatio =
@@ -3272,23 +3287,13 @@ function generateResponseCompression(
 /**
  * Enhancement #57: Generate field selection metadata
  */
-function generateFieldSelection(fieldsParam: string | null): FieldSelection {
-  const allFields = [
-    "flowAnalysis",
-    "batteryHealth",
-    "gridInteraction",
-    "temporalPatterns",
-    "forecasts",
-    "alerts",
-    "agentDecisionLinks",
-    "explainabilityLevels",
-    "decisionQuality",
-    "provenanceChains",
-    "complianceScoring",
-  ];
-
-  const requestedFields = fieldsParam ? fieldsParam.split(",") : allFields;
-  const excludedFields = allFields.filter((f) => !requestedFields.includes(f));
+function generateFieldSelection(
+  fields: string[] | null,
+  allFields: string[]
+): FieldSelection {
+  const requestedFields = fields ?? allFields;
+  const requestedRoots = requestedFields.map((path) => path.split(".")[0]);
+  const excludedFields = allFields.filter((f) => !requestedRoots.includes(f));
 
   return {
     requestedFields,
@@ -3298,7 +3303,30 @@ function generateFieldSelection(fieldsParam: string | null): FieldSelection {
   };
 }
 
-// Continue in next message due to length...
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const EnergyQuerySchema = z.object({
+  timeRange: queryEnum(TIME_RANGES).default("24h"),
+  metrics: queryEnum(METRIC_SCOPES).default("all"),
+  aggregation: queryEnum(AGGREGATION_LEVELS).default("raw"),
+  format: queryEnum(RESPONSE_FORMATS).default("standard"),
+  includeForecasts: queryBoolean(true),
+  includeHistory: queryBoolean(true),
+  includeAlerts: queryBoolean(true),
+  includeOptimization: queryBoolean(true),
+  baselineComparison: queryEnum(BASELINE_COMPARISONS).default("none"),
+  exportFormat: queryEnum(EXPORT_FORMATS).default("json"),
+  stream: queryBoolean(false),
+
+  // Phase 10 (Enhancements #41, #55, #57)
+  explainabilityDepth: queryEnum(EXPLAINABILITY_DEPTHS).default("intermediate"),
+  includeAgentContext: queryBoolean(true),
+  includeOutcomes: queryBoolean(true),
+  includeChains: queryBoolean(true),
+  fields: queryFieldPaths().optional(),
+});
 
 export async function GET(request: Request) {
   const startTime = Date.now();
@@ -3306,32 +3334,30 @@ export async function GET(request: Request) {
   try {
     // Parse query parameters (Enhancement #24: Query Flexibility)
     const { searchParams } = new URL(request.url);
-    const timeRange = (searchParams.get("timeRange") as TimeRange) || "24h";
-    const metrics = (searchParams.get("metrics") as MetricScope) || "all";
-    const aggregation =
-      (searchParams.get("aggregation") as AggregationLevel) || "raw";
-    const format = (searchParams.get("format") as ResponseFormat) || "standard";
-    const includeForecasts = searchParams.get("includeForecasts") !== "false";
-    const includeHistory = searchParams.get("includeHistory") !== "false";
-    const includeAlerts = searchParams.get("includeAlerts") !== "false";
-    const includeOptimization =
-      searchParams.get("includeOptimization") !== "false";
-    const baselineComparison =
-      (searchParams.get("baselineComparison") as BaselineComparison) || "none";
-    const exportFormat =
-      (searchParams.get("exportFormat") as ExportFormat) || "json";
-    const stream = searchParams.get("stream") === "true";
-
-    // Phase 10 New Query Parameters (Enhancements #41, #55, #57)
-    const explainabilityDepth =
-      (searchParams.get("explainabilityDepth") as ExplainabilityDepth) ||
-      "intermediate";
-    const includeAgentContext =
-      searchParams.get("includeAgentContext") !== "false";
-    const includeOutcomes = searchParams.get("includeOutcomes") !== "false";
-    const includeChains = searchParams.get("includeChains") !== "false";
-    const fields = searchParams.get("fields"); // For field selection
-    const acceptEncoding = request.headers.get("accept-encoding"); // For compression
+    const query = parseSearchParams(EnergyQuerySchema, searchParams);
+    if (!query.success) {
+      return query.response;
+    }
+
+    const {
+      timeRange,
+      metrics,
+      aggregation,
+      format,
+      includeForecasts,
+      includeHistory,
+      includeAlerts,
+      includeOptimization,
+      baselineComparison,
+      exportFormat,
+      stream,
+      explainabilityDepth,
+      includeAgentContext,
+      includeOutcomes,
+      includeChains,
+    } = query.data;
+    const fields = query.data.fields ?? null; // Dotted paths for field selection
+    const encoding = negotiateEncoding(request.headers.get("accept-encoding"));
 
     // Enhancement #30: Smart Defaults
     const smartDefaults: SmartDefault[] = [];
@@ -3547,9 +3573,11 @@ export async function GET(request: Request) {
 
     // Query & Performance (Enhancements #55-57)
     enhancedMetrics.queryProfile = generateQueryProfile(searchParams);
-    enhancedMetrics.responseCompression =
-      generateResponseCompression(acceptEncoding);
-    enhancedMetrics.fieldSelection = generateFieldSelection(fields);
+    enhancedMetrics.responseCompression = generateResponseCompression(encoding);
+    enhancedMetrics.fieldSelection = generateFieldSelection(
+      fields,
+      Object.keys(enhancedMetrics)
+    );
 
     const processingTime = Date.now() - startTime;
     enhancedMetrics.queryMetadata.processingTimeMs = processingTime;
@@ -3557,6 +3585,7 @@ export async function GET(request: Request) {
     // Format response based on requested format (Enhancement #25)
     let responseData:
       | Partial<EnhancedEnergyMetrics>
+      | Record<string, unknown>
       | {
           timestamp: string;
           generation: number;
@@ -3581,7 +3610,17 @@ export async function GET(request: Request) {
       responseData = standardData;
     }
 
-    return NextResponse.json(
+    // Enhancement #57: Apply partial field selection to the payload itself
+    let unmatchedFields: string[] = [];
+    if (fields) {
+      const selection = selectFields(responseData, fields);
+      responseData = selection.data;
+      unmatchedFields = selection.unmatched;
+    }
+
+    // Enhancement #56: Encode per Accept-Encoding (brotli > gzip > identity)
+    return compressedJson(
+      request,
       {
         data: responseData,
         sourceProvenance: "mock:generator+trust_math",
@@ -3592,6 +3631,8 @@ export async function GET(request: Request) {
           processingTimeMs: processingTime,
           format,
           smartDefaultsApplied: smartDefaults.length,
+          fieldsRequested: fields?.join(",") ?? "all",
+          fieldsUnmatched: unmatchedFields,
         },
       },
       {
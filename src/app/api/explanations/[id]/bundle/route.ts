@@ -0,0 +1,149 @@
+/**
+ * API Route: /api/explanations/[id]/bundle
+ *
+ * Evidence Bundles - Self-contained, signed, re-hashable evidence for one decision
+ *
+ * GET downloads an explanation version as an evidence pack for regulators
+ * and auditors. Every bundle has the same sections:
+ * - decision: agent, decision time, summary, confidence and the explanation
+ *   history up to the bundled version
+ * - reasoning: the reasoning chain, in order
+ * - inputs: each input with its source, freshness and when it was observed
+ * - constraints: each constraint with its limit, the value checked and
+ *   whether it was satisfied
+ * - transactions: signatures (with explorer links) the agent sent in the
+ *   ten minutes after the decision
+ * - proof: the zk proof hash attached to the decision
+ *
+ * The manifest holds the SHA-256 of each section's canonical JSON (object
+ * keys sorted, no whitespace, UTF-8), `bundleSha256` over the list of
+ * entries, and the server's Ed25519 signature of `bundleSha256`
+ * (`EVIDENCE_SIGNING_KEY`). md and html downloads embed each section's
+ * canonical JSON under "Hashed content", so a reviewer can re-hash them and
+ * check the signature without any tooling of ours.
+ *
+ * Query Parameters:
+ * - format: "md" | "html" | "json" (default: "md")
+ * - version: Explanation version to bundle (default: the current one)
+ *
+ * Headers:
+ * - X-Bundle-SHA256: The manifest's `bundleSha256`
+ * - X-Content-SHA256: SHA-256 of the downloaded file itself
+ *
+ * A pinned `version` is marked immutable only when its bundle cannot change:
+ * mock transactions, a configured signing key, and a version that survives
+ * restarts (see `isEvidenceBundleReproducible`). Anything else is no-store.
+ * Responds 400 when the id is not a decision id and 404 when the version
+ * does not exist.
+ *
+ * @see PRD Section 8.2 - Explanation API
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { sha256Hex } from "@/lib/api/hashing";
+import {
+  parseRouteParams,
+  parseSearchParams,
+  queryEnum,
+  queryInt,
+} from "@/lib/api/validation";
+import {
+  EVIDENCE_BUNDLE_FORMATS,
+  buildEvidenceBundle,
+  isEvidenceBundleReproducible,
+  parseDecisionId,
+  renderEvidenceBundle,
+} from "@/lib/agents/explanations";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_VERSION = 10_000;
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const BundleParamsSchema = z.object({
+  id: z
+    .string()
+    .refine(
+      (id) => parseDecisionId(id) !== null,
+      "Decision id must look like decision-{agent}-{epoch ms}-{sequence}"
+    ),
+});
+
+const BundleQuerySchema = z.object({
+  format: queryEnum(EVIDENCE_BUNDLE_FORMATS).default("md"),
+  version: queryInt({ min: 1, max: MAX_VERSION }).optional(),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const routeParams = parseRouteParams(BundleParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const query = parseSearchParams(
+    BundleQuerySchema,
+    request.nextUrl.searchParams
+  );
+  if (!query.success) {
+    return query.response;
+  }
+
+  const { id } = routeParams.data;
+  const { format, version } = query.data;
+
+  try {
+    const bundle = await buildEvidenceBundle(id, version);
+    if (!bundle) {
+      return NextResponse.json(
+        {
+          error: "Version not found",
+          message: `Explanation of "${id}" has no version ${version}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { contentType, extension, body } = renderEvidenceBundle(
+      bundle,
+      format
+    );
+    const filename = `aimp-evidence-${id}-v${bundle.version}.${extension}`;
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control":
+          version !== undefined && isEvidenceBundleReproducible(version)
+            ? "public, max-age=31536000, immutable"
+            : "no-store, max-age=0",
+        "X-Bundle-SHA256": bundle.manifest.bundleSha256,
+        "X-Content-SHA256": sha256Hex(body),
+      },
+    });
+  } catch (error) {
+    console.error("Evidence bundle API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to build evidence bundle",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -74,7 +74,7 @@
  *
  * AUDIT & COMPLIANCE (3):
  * 46. Immutable Audit Trail - Cryptographic signatures, blockchain anchor, tamper-proof verification
- * 47. Explanation Versioning - Version history, diffs, amendments, evolution tracking
+ * 47. Explanation Versioning - Stored version history, diffs and amendments
  * 48. Compliance Evidence Links - Regulatory docs, certifications, audit reports, attestations
  *
  * ADVANCED FEATURES (2):
@@ -88,12 +88,43 @@
  * - includeImpact: boolean (default: true)
  * - includeRelationships: boolean (default: true)
  * - includeOutcomes: boolean (default: true)
- * - fields: comma-separated field names for partial selection (optional)
+ * - fields: comma-separated dotted paths for partial selection, e.g.
+ *   "summary,trustMathematics.confidenceScore" (optional)
+ *
+ * Invalid values are rejected with a 400 listing each offending parameter.
+ *
+ * `summary` and `versionHistory` come from the explanation's stored versions
+ * (see `/api/explanations/[id]/versions`), so they reflect amendments made
+ * after an incident.
+ *
+ * Expert-depth requests are rate limited per client (see
+ * `@/lib/api/rate-limit`, route `explanation-expert`) and carry
+ * `X-RateLimit-*` headers; an exhausted bucket gets a 429 with `Retry-After`.
  *
  * @see PRD Section 8.2 - Explanation API
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  parseSearchParams,
+  queryBoolean,
+  queryEnum,
+  queryFieldPaths,
+} from "@/lib/api/validation";
+import {
+  checkRateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from "@/lib/api/rate-limit";
+import { selectFields } from "@/lib/api/response";
+import { resolveAgentPersona } from "@/lib/agents";
+import {
+  describeExplanationDiff,
+  diffExplanationVersions,
+  getExplanationVersions,
+  type ExplanationVersion,
+} from "@/lib/agents/explanations";
 import { generateMockExplanation } from "@/lib/mock";
 import type { AgentPersona } from "@/lib/types";
 
@@ -103,8 +134,15 @@ export const dynamic = "force-dynamic";
 // TYPE DEFINITIONS
 // ============================================================================
 
-type ExplanationDepth = "beginner" | "intermediate" | "expert";
-type ExplanationFormat = "minimal" | "standard" | "full" | "timeline";
+const EXPLANATION_DEPTHS = ["beginner", "intermediate", "expert"] as const;
+const EXPLANATION_FORMATS = [
+  "minimal",
+  "standard",
+  "full",
+  "timeline",
+] as const;
+
+type ExplanationDepth = (typeof EXPLANATION_DEPTHS)[number];
 type ConfidenceFactor =
   | "data_quality"
   | "model_accuracy"
@@ -3333,7 +3371,7 @@ function generateConsensusStrength(): ConsensusStrengthAnalysis {
         confidence: 88,
       },
       {
-        agentPersona: "governance",
+        agentPersona: "governor",
         voteWeight: 0.3,
         agreement: "agree",
         confidence: 90,
@@ -3347,7 +3385,7 @@ function generateConsensusStrength(): ConsensusStrengthAnalysis {
     },
     vetoPotential: {
       vetoAvailable: true,
-      vetoAuthority: "governance",
+      vetoAuthority: "governor",
       vetoLikelihood: 5,
       vetoConsequences: ["Decision halted", "Manual review required"],
     },
@@ -3511,56 +3549,102 @@ function generateAuditTrail(): ImmutableAuditTrail {
 }
 
 /**
- * Enhancement #47: Generate version history
+ * Enhancement #47: Version history from the stored explanation versions
  */
-function generateVersionHistory(): ExplanationVersioning {
+function buildVersionHistory(
+  versions: ExplanationVersion[]
+): ExplanationVersioning {
+  const diffs = versions
+    .slice(1)
+    .map((version, index) => diffExplanationVersions(versions[index], version));
+
   return {
-    versions: [
-      {
-        versionNumber: 1,
-        timestamp: new Date(Date.now() - 7200000).toISOString(),
-        phase: "planning",
-        explanationSnapshot: { summary: "Initial decision analysis" },
-        changes: ["Created initial explanation"],
-        changeReason: "Decision initiated",
-      },
-      {
-        versionNumber: 2,
-        timestamp: new Date(Date.now() - 6400000).toISOString(),
-        phase: "executing",
-        explanationSnapshot: { summary: "Decision executing with consensus" },
-        changes: [
-          "Added multi-agent consensus details",
-          "Updated confidence scores",
-        ],
-        changeReason: "Consensus reached, execution began",
-      },
-      {
-        versionNumber: 3,
-        timestamp: new Date(Date.now() - 3600000).toISOString(),
-        phase: "completed",
-        explanationSnapshot: { summary: "Decision completed successfully" },
-        changes: ["Added outcome data", "Finalized quality metrics"],
-        changeReason: "Execution completed",
+    versions: versions.map((version, index) => ({
+      versionNumber: version.version,
+      timestamp: version.createdAt,
+      phase: "completed",
+      explanationSnapshot: {
+        summary: version.explanation.summary,
+        confidence: version.explanation.confidence,
       },
-    ],
-    versionDiff: [
-      {
-        from: 1,
-        to: 2,
-        addedFields: ["multiAgentCoordination", "confidenceBreakdown"],
-        removedFields: [],
-        modifiedFields: [
-          {
-            field: "summary",
-            oldValue: "Initial decision analysis",
-            newValue: "Decision executing with consensus",
-          },
-        ],
-      },
-    ],
-    amendmentHistory: [],
-    currentVersion: 3,
+      changes:
+        index === 0
+          ? ["Created initial explanation"]
+          : describeExplanationDiff(diffs[index - 1]),
+      changeReason: version.reason,
+    })),
+    versionDiff: diffs.map((diff) => ({
+      from: diff.from.version,
+      to: diff.to.version,
+      addedFields: [
+        ...diff.reasoning
+          .filter(({ change }) => change === "added")
+          .map(({ step }) => `reasoning[${step - 1}]`),
+        ...diff.constraints
+          .filter(({ change }) => change === "added")
+          .map(({ description }) => `constraints[${description}]`),
+      ],
+      removedFields: [
+        ...diff.reasoning
+          .filter(({ change }) => change === "removed")
+          .map(({ step }) => `reasoning[${step - 1}]`),
+        ...diff.constraints
+          .filter(({ change }) => change === "removed")
+          .map(({ description }) => `constraints[${description}]`),
+      ],
+      modifiedFields: [
+        ...(diff.summary
+          ? [
+              {
+                field: "summary",
+                oldValue: diff.summary.before,
+                newValue: diff.summary.after,
+              },
+            ]
+          : []),
+        ...diff.reasoning
+          .filter(({ change }) => change === "changed")
+          .map(({ step, before, after }) => ({
+            field: `reasoning[${step - 1}]`,
+            oldValue: before,
+            newValue: after,
+          })),
+        ...diff.constraints
+          .filter(({ change }) => change === "changed")
+          .map(({ description, before, after }) => ({
+            field: `constraints[${description}]`,
+            oldValue: before,
+            newValue: after,
+          })),
+        ...(diff.confidence
+          ? [
+              {
+                field: "confidence",
+                oldValue: diff.confidence.before,
+                newValue: diff.confidence.after,
+              },
+            ]
+          : []),
+      ],
+    })),
+    amendmentHistory: diffs.map((diff) => ({
+      amendmentId: `${versions[0].explanation.id}@v${diff.to.version}`,
+      timestamp: diff.to.createdAt,
+      amendedBy:
+        diff.to.author.kind === "agent"
+          ? diff.to.author.agent
+          : diff.to.author.address,
+      amendmentReason: diff.to.reason,
+      affectedSections: [
+        diff.summary && "summary",
+        diff.reasoning.length > 0 && "reasoning",
+        diff.constraints.length > 0 && "constraints",
+        diff.confidence && "confidence",
+      ].filter((section): section is string => typeof section === "string"),
+      // People amending an agent's explanation need a governor sign-off
+      approvalRequired: diff.to.author.kind === "wallet",
+    })),
+    currentVersion: versions.length,
     evolutionComplete: true,
   };
 }
@@ -3718,6 +3802,20 @@ function generateQualityAssessment(): ExplanationQualityAssessment {
   };
 }
 
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const ExplanationQuerySchema = z.object({
+  depth: queryEnum(EXPLANATION_DEPTHS).default("intermediate"),
+  format: queryEnum(EXPLANATION_FORMATS).default("standard"),
+  includeProvenance: queryBoolean(true),
+  includeImpact: queryBoolean(true),
+  includeRelationships: queryBoolean(true),
+  includeOutcomes: queryBoolean(true),
+  fields: queryFieldPaths().optional(),
+});
+
 // ============================================================================
 // GET HANDLER
 // ============================================================================
@@ -3733,29 +3831,42 @@ export async function GET(
     const { searchParams } = new URL(request.url);
 
     // Parse query parameters
-    const depth =
-      (searchParams.get("depth") as ExplanationDepth) || "intermediate";
-    const format =
-      (searchParams.get("format") as ExplanationFormat) || "standard";
-    const includeProvenance = searchParams.get("includeProvenance") !== "false";
-    const includeImpact = searchParams.get("includeImpact") !== "false";
-    const includeRelationships =
-      searchParams.get("includeRelationships") !== "false";
-    const includeOutcomes = searchParams.get("includeOutcomes") !== "false";
-    const fields = searchParams.get("fields"); // For field selection
+    const query = parseSearchParams(ExplanationQuerySchema, searchParams);
+    if (!query.success) {
+      return query.response;
+    }
 
-    // Extract agent from decision ID (format: decision-{agent}-{timestamp})
-    const parts = id.split("-");
-    const agent = (parts[1] || "operations") as AgentPersona;
+    const {
+      depth,
+      format,
+      includeProvenance,
+      includeImpact,
+      includeRelationships,
+      includeOutcomes,
+      fields, // For field selection
+    } = query.data;
+
+    // Expert explanations are the expensive ones; only they are rate limited
+    const rateLimit =
+      depth === "expert"
+        ? await checkRateLimit(request, "explanation-expert")
+        : null;
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
 
-    // Validate agent
-    if (!["operations", "markets", "sentinel", "governor"].includes(agent)) {
+    // Extract agent from decision ID (format: decision-{agent}-{timestamp})
+    const agent = resolveAgentPersona(id.split("-")[1] ?? "");
+    if (!agent) {
       return NextResponse.json(
         { error: "Invalid decision ID format" },
         { status: 400 }
       );
     }
 
+    // Stored versions; the current one is what the explanation says now
+    const versions = (await getExplanationVersions(id)) ?? [];
+
     // Determine decision type from ID or default
     const decisionType = "battery_discharge_optimization";
 
@@ -3765,7 +3876,9 @@ export async function GET(
       agentPersona: agent,
       decisionType,
       timestamp: new Date().toISOString(),
-      summary: generateMockExplanation(id, agent).summary,
+      summary:
+        versions.at(-1)?.explanation.summary ??
+        generateMockExplanation(id, agent).summary,
 
       // Core Explainability (1-8)
       multiDepthExplanation: generateMultiDepthExplanation(decisionType, agent), // #1
@@ -3860,7 +3973,7 @@ export async function GET(
 
       // Audit & Compliance (46-48)
       auditTrail: generateAuditTrail(), // #46
-      versionHistory: generateVersionHistory(), // #47
+      versionHistory: buildVersionHistory(versions), // #47
       complianceEvidence: generateComplianceEvidence(), // #48
 
       // Advanced Features (49-50)
@@ -3945,27 +4058,18 @@ export async function GET(
       };
     }
 
-    // Apply field selection if specified
+    // Apply field selection if specified (always keeping basic metadata)
+    let unmatchedFields: string[] = [];
     if (fields && typeof responseData === "object" && responseData !== null) {
-      const fieldList = fields.split(",").map((f) => f.trim());
-      const filteredData: Record<string, unknown> = {};
-      const dataObj = responseData as Record<string, unknown>;
-
-      fieldList.forEach((field) => {
-        if (field in dataObj) {
-          filteredData[field] = dataObj[field];
-        }
-      });
-
-      // Always include basic metadata
-      filteredData.decisionId = (
-        responseData as { decisionId: string }
-      ).decisionId;
-      filteredData.timestamp = (
-        responseData as { timestamp: string }
-      ).timestamp;
-
-      responseData = filteredData;
+      const selection = selectFields(responseData, [
+        ...fields,
+        "decisionId",
+        "timestamp",
+      ]);
+      responseData = selection.data;
+      unmatchedFields = selection.unmatched.filter((path) =>
+        fields.includes(path)
+      );
     }
 
     return NextResponse.json(
@@ -3979,7 +4083,8 @@ export async function GET(
           processingTimeMs: processingTime,
           depth,
           format,
-          fieldsRequested: fields || "all",
+          fieldsRequested: fields?.join(",") ?? "all",
+          fieldsUnmatched: unmatchedFields,
         },
       },
       {
@@ -3989,6 +4094,7 @@ export async function GET(
           "X-Enhancements": "50",
           "X-Explanation-Depth": depth,
           "X-Processing-Time-Ms": processingTime.toString(),
+          ...(rateLimit ? rateLimitHeaders(rateLimit) : {}),
         },
       }
     );
@@ -0,0 +1,280 @@
+/**
+ * API Route: /api/explanations/[id]/versions
+ *
+ * Explanation Versions - Immutable history of a decision's explanation
+ *
+ * Explanations are never edited in place. When a decision is re-explained
+ * (typically after an incident) the new explanation is stored as another
+ * version with its author, time and reason, and every earlier version stays
+ * readable.
+ *
+ * GET returns all versions, oldest first, and a structured diff:
+ * {
+ *   "data": {
+ *     "decisionId": "decision-operations-…",
+ *     "currentVersion": 2,
+ *     "versions": ExplanationVersion[]
+ *   },
+ *   "diff": ExplanationDiff | null   // reasoning steps, constraints, confidence
+ * }
+ *
+ * Query Parameters:
+ * - from: version to diff from (default: the one before `to`)
+ * - to: version to diff to (default: the current version)
+ *
+ * `diff` is null while the explanation has a single version. Unknown
+ * versions get a 404.
+ *
+ * POST amends the explanation with a new version and responds 201 with
+ * `{ data: ExplanationVersion, diff }` (diff from the previous version):
+ * {
+ *   "agent": "sentinel",                 // API-key callers only, see below
+ *   "reason": "Re-explained after …",
+ *   "incidentId": "INC-1234",            // optional
+ *   "summary": "…",                      // optional, at least one change
+ *   "reasoning": ["…"],                  // optional, replaces all steps
+ *   "constraints": [{ "description", "satisfied", "limit"?, "actual"? }],
+ *   "confidence": 72                     // optional, 0-100
+ * }
+ *
+ * The author is never taken from the body alone. A signed-in wallet (see
+ * `/api/auth/session`) is the author and the version's `signer`, and gets a
+ * 403 if it names an `agent`. Internal services calling with one of
+ * `API_KEYS` write as an agent and must name it in `agent`. Anyone else
+ * gets a 401.
+ *
+ * Both respond 400 when the id is not a decision id
+ * (`decision-{agent}-{epoch ms}-{sequence}`).
+ *
+ * @see PRD Section 8.2 - Explanation API
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  parseJsonBody,
+  parseRouteParams,
+  parseSearchParams,
+  queryInt,
+  validationErrorResponse,
+} from "@/lib/api/validation";
+import { getApiKey, requireSession } from "@/lib/api/auth";
+import { AGENT_PERSONA_IDS } from "@/lib/agents";
+import type { ExplanationAuthor } from "@/components/intelligence/ExplanationModal";
+import {
+  amendExplanation,
+  diffExplanationVersions,
+  getExplanationVersionRepository,
+  getExplanationVersions,
+  parseDecisionId,
+} from "@/lib/agents/explanations";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const MAX_VERSION = 10_000;
+
+const VersionsParamsSchema = z.object({
+  id: z
+    .string()
+    .refine(
+      (id) => parseDecisionId(id) !== null,
+      "Decision id must look like decision-{agent}-{epoch ms}-{sequence}"
+    ),
+});
+
+const VersionsQuerySchema = z
+  .object({
+    from: queryInt({ min: 1, max: MAX_VERSION }).optional(),
+    to: queryInt({ min: 1, max: MAX_VERSION }).optional(),
+  })
+  .refine(
+    ({ from, to }) => from === undefined || to === undefined || from < to,
+    { message: "from must be an earlier version than to", path: ["from"] }
+  );
+
+const nonEmptyText = (max: number) => z.string().trim().min(1).max(max);
+
+const AmendmentRequestSchema = z
+  .object({
+    /** Agent writing the amendment; only API-key callers may name one */
+    agent: z.enum(AGENT_PERSONA_IDS).optional(),
+    reason: nonEmptyText(500),
+    incidentId: nonEmptyText(64).optional(),
+    summary: nonEmptyText(500).optional(),
+    reasoning: z.array(nonEmptyText(500)).min(1).max(20).optional(),
+    constraints: z
+      .array(
+        z.object({
+          description: nonEmptyText(200),
+          satisfied: z.boolean(),
+          limit: z.union([z.string(), z.number()]).optional(),
+          actual: z.union([z.string(), z.number()]).optional(),
+        })
+      )
+      .max(30)
+      .optional(),
+    confidence: z.number().min(0).max(100).optional(),
+  })
+  .refine(
+    ({ summary, reasoning, constraints, confidence }) =>
+      summary !== undefined ||
+      reasoning !== undefined ||
+      constraints !== undefined ||
+      confidence !== undefined,
+    "An amendment must change the summary, reasoning, constraints or confidence"
+  );
+
+function versionNotFound(id: string, version: number) {
+  return NextResponse.json(
+    {
+      error: "Version not found",
+      message: `Explanation of "${id}" has no version ${version}`,
+    },
+    { status: 404, headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const routeParams = parseRouteParams(VersionsParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const query = parseSearchParams(
+    VersionsQuerySchema,
+    new URL(request.url).searchParams
+  );
+  if (!query.success) {
+    return query.response;
+  }
+
+  const { id } = routeParams.data;
+
+  try {
+    const versions = (await getExplanationVersions(id)) ?? [];
+    const currentVersion = versions.length;
+
+    const to = query.data.to ?? currentVersion;
+    const from = query.data.from ?? to - 1;
+    for (const version of [from, to]) {
+      if (version > currentVersion) return versionNotFound(id, version);
+    }
+
+    return NextResponse.json(
+      {
+        data: { decisionId: id, currentVersion, versions },
+        diff:
+          from >= 1
+            ? diffExplanationVersions(versions[from - 1], versions[to - 1])
+            : null,
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+          "X-Explanation-Store": getExplanationVersionRepository().name,
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Explanation versions API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load explanation versions",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Services with an API key write as an agent; everyone else needs a wallet
+  const session = getApiKey(request) ? null : await requireSession(request);
+  if (session && !session.success) {
+    return session.response;
+  }
+
+  const routeParams = parseRouteParams(VersionsParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const body = await parseJsonBody(AmendmentRequestSchema, request);
+  if (!body.success) {
+    return body.response;
+  }
+
+  const { id } = routeParams.data;
+  const { agent, reason, incidentId, ...changes } = body.data;
+
+  let author: ExplanationAuthor;
+  if (session) {
+    if (agent) {
+      return NextResponse.json(
+        {
+          error: "Forbidden",
+          message:
+            "Only internal services can amend as an agent; signed-in wallets amend as themselves",
+        },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+    author = { kind: "wallet", address: session.session.address };
+  } else {
+    if (!agent) {
+      return validationErrorResponse([
+        {
+          parameter: "agent",
+          message: "API-key callers must name the agent writing the amendment",
+          allowed: AGENT_PERSONA_IDS,
+        },
+      ]);
+    }
+    author = { kind: "agent", agent };
+  }
+
+  try {
+    const amended = await amendExplanation(id, {
+      author,
+      reason,
+      incidentId,
+      signer: session?.session.address,
+      changes,
+    });
+    if (!amended) {
+      // The id was validated above, so this only happens if parsing changes
+      throw new Error(`Cannot amend explanation of "${id}"`);
+    }
+
+    return NextResponse.json(
+      {
+        data: amended.version,
+        diff: diffExplanationVersions(amended.previous, amended.version),
+      },
+      { status: 201, headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Explanation versions API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to amend explanation",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * API Route: /api/explanations/[id]/what-if
+ *
+ * Counterfactuals - Re-run a decision with inputs of your choosing
+ *
+ * POST takes overrides for the decision's inputs, keyed by input key, and
+ * re-runs the persona's decision logic against the current explanation's
+ * inputs with those values:
+ * {
+ *   "overrides": {
+ *     "oracle:pyth": 185,          // price ($), 0-400
+ *     "sensor:battery-soc": 22,    // state of charge (%), 0-100
+ *     "forecast:demand": 240       // forecast demand (kW), 0-400
+ *   }
+ * }
+ *
+ * Any subset of inputs may be overridden; `{}` replays the recorded inputs.
+ *
+ * Response:
+ * {
+ *   "data": {
+ *     "decisionId": "decision-operations-…",
+ *     "version": 1,                  // explanation version the inputs came from
+ *     "inputs": DecisionInput[],     // with overrides applied
+ *     "original": { "action", "confidence", "constraints" },
+ *     "outcome": { "action", "confidence", "constraints" },
+ *     "actionChanged": true
+ *   }
+ * }
+ *
+ * Constraints carry their limit and the value checked against it; the ones
+ * with `satisfied: false` would have fired.
+ *
+ * Responds 400 when the id is not a decision id or an override is unknown or
+ * out of range.
+ *
+ * @see PRD Section 8.2 - Explanation API
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { parseJsonBody, parseRouteParams } from "@/lib/api/validation";
+import {
+  WHAT_IF_INPUT_RANGES,
+  explainWhatIf,
+  parseDecisionId,
+  type WhatIfInputKey,
+} from "@/lib/agents/explanations";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const WhatIfParamsSchema = z.object({
+  id: z
+    .string()
+    .refine(
+      (id) => parseDecisionId(id) !== null,
+      "Decision id must look like decision-{agent}-{epoch ms}-{sequence}"
+    ),
+});
+
+function overrideValue(key: WhatIfInputKey) {
+  const { min, max } = WHAT_IF_INPUT_RANGES[key];
+  return z.number().min(min).max(max).optional();
+}
+
+const WhatIfRequestSchema = z.object({
+  overrides: z.strictObject({
+    "oracle:pyth": overrideValue("oracle:pyth"),
+    "sensor:battery-soc": overrideValue("sensor:battery-soc"),
+    "forecast:demand": overrideValue("forecast:demand"),
+  }),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const routeParams = parseRouteParams(WhatIfParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const body = await parseJsonBody(WhatIfRequestSchema, request);
+  if (!body.success) {
+    return body.response;
+  }
+
+  const { id } = routeParams.data;
+
+  try {
+    const result = await explainWhatIf(id, body.data.overrides);
+    if (!result) {
+      // The id was validated above, so this only happens if parsing changes
+      throw new Error(`Cannot re-run decision "${id}"`);
+    }
+
+    return NextResponse.json(
+      { data: result },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("What-if API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run what-if analysis",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * API Route: /api/invest/quote
+ *
+ * Investment Quotes - Live SOL-for-SOLAR route for the invest form
+ *
+ * GET responds `{ data: InvestQuote }`: the route legs, price impact,
+ * minimum received at the requested slippage, network and priority fees,
+ * `expiresAt` (fetch a new quote then) and the source's raw Jupiter-shaped
+ * quote.
+ *
+ * Query Parameters:
+ * - solAmount: SOL to spend (> 0)
+ * - slippageBps: slippage to accept, in basis points (1-1000, default: 50)
+ *
+ * Responds 422 when no route covers the amount and 502 when the quote source
+ * (`QUOTE_SOURCE`, see `@/lib/api/quote-source`) is unreachable.
+ *
+ * Rate limited per client (`@/lib/api/rate-limit`, route `quote`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { QuoteSourceError } from "@/lib/api/quote-source";
+import {
+  checkRateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from "@/lib/api/rate-limit";
+import { parseSearchParams, queryInt, queryNumber } from "@/lib/api/validation";
+import { getInvestQuote } from "@/lib/invest/quotes";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const QuoteQuerySchema = z.object({
+  solAmount: queryNumber().pipe(z.number().positive().max(1_000_000)),
+  slippageBps: queryInt({ min: 1, max: 1000 }).default(50),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const rateLimit = await checkRateLimit(request, "quote");
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  const query = parseSearchParams(
+    QuoteQuerySchema,
+    new URL(request.url).searchParams
+  );
+  if (!query.success) {
+    return query.response;
+  }
+
+  try {
+    return NextResponse.json(
+      { data: await getInvestQuote(query.data) },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+          ...rateLimitHeaders(rateLimit),
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof QuoteSourceError) {
+      return NextResponse.json(
+        {
+          error: "Quote unavailable",
+          message: error.message,
+          code: error.code,
+        },
+        {
+          status: error.code === "no_route" ? 422 : 502,
+          headers: rateLimitHeaders(rateLimit),
+        }
+      );
+    }
+
+    console.error("Invest quote API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to quote",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * API Route: /api/invest
+ *
+ * Investment Orders - SOL-for-SOLAR orders from the invest form
+ *
+ * POST places an order and responds 201 with `{ data: InvestmentOrder }`:
+ * {
+ *   "solAmount": 200,      // SOL offered, > 0
+ *   "slippageBps": 50      // slippage accepted, 1-1000
+ * }
+ *
+ * GET responds `{ data: InvestmentOrder[] }` with the signed-in wallet's
+ * orders, newest first.
+ *
+ * Both need a wallet session (401 without one, see `/api/auth/session`);
+ * orders record the signed-in wallet as their `signer`.
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withSession } from "@/lib/api/auth";
+import { parseJsonBody } from "@/lib/api/validation";
+import { listInvestmentOrders, placeInvestmentOrder } from "@/lib/invest";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const InvestRequestSchema = z.object({
+  solAmount: z.number().positive().max(1_000_000),
+  slippageBps: z.number().int().min(1).max(1000),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export const GET = withSession(async (_request, { session }) =>
+  NextResponse.json(
+    { data: listInvestmentOrders(session.address) },
+    { headers: { "Cache-Control": "no-store" } }
+  )
+);
+
+export const POST = withSession(async (request, { session }) => {
+  const body = await parseJsonBody(InvestRequestSchema, request);
+  if (!body.success) {
+    return body.response;
+  }
+
+  return NextResponse.json(
+    {
+      data: placeInvestmentOrder({ ...body.data, signer: session.address }),
+    },
+    { status: 201, headers: { "Cache-Control": "no-store" } }
+  );
+});
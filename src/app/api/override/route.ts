@@ -0,0 +1,103 @@
+/**
+ * API Route: /api/override
+ *
+ * Emergency Override - Pause or resume AI operations
+ *
+ * GET returns the current state and the latest overrides, newest first:
+ * {
+ *   "data": { "paused": false, "lastRecord": OverrideRecord | null },
+ *   "records": OverrideRecord[]
+ * }
+ *
+ * POST pauses or resumes and responds 201 with the record and new state:
+ * {
+ *   "action": "pause" | "resume",
+ *   "reason": "Grid frequency alarm"   // optional
+ * }
+ *
+ * POST needs a wallet session (401 without one, see `/api/auth/session`)
+ * and records the signed-in wallet as the override's `signer`. Pausing
+ * while paused, or resuming while running, responds 409.
+ *
+ * Query Parameters (GET):
+ * - limit: records to return (1-100, default: 20)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withSession } from "@/lib/api/auth";
+import {
+  parseJsonBody,
+  parseSearchParams,
+  queryInt,
+} from "@/lib/api/validation";
+import {
+  getOverrideState,
+  listOverrideRecords,
+  recordOverride,
+} from "@/lib/agents/override";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const OverrideQuerySchema = z.object({
+  limit: queryInt({ min: 1, max: 100 }).default(20),
+});
+
+const OverrideRequestSchema = z.object({
+  action: z.enum(["pause", "resume"]),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const query = parseSearchParams(
+    OverrideQuerySchema,
+    new URL(request.url).searchParams
+  );
+  if (!query.success) {
+    return query.response;
+  }
+
+  return NextResponse.json(
+    {
+      data: getOverrideState(),
+      records: listOverrideRecords(query.data.limit),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export const POST = withSession(async (request, { session }) => {
+  const body = await parseJsonBody(OverrideRequestSchema, request);
+  if (!body.success) {
+    return body.response;
+  }
+
+  const { action, reason } = body.data;
+  if (getOverrideState().paused === (action === "pause")) {
+    return NextResponse.json(
+      {
+        error: "Conflict",
+        message:
+          action === "pause"
+            ? "AI operations are already paused"
+            : "AI operations are already running",
+      },
+      { status: 409, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+
+  const record = recordOverride({ action, reason, signer: session.address });
+
+  return NextResponse.json(
+    { data: record, state: getOverrideState() },
+    { status: 201, headers: { "Cache-Control": "no-store" } }
+  );
+});
@@ -111,24 +111,40 @@
  * - includeAdvancedAnalytics: boolean (default: false) - ML insights & attribution
  * - includeAudit: boolean (default: true) - Immutable audit trail & compliance
  * - metrics: comma-separated metric names for filtering (optional)
+ * - fields: comma-separated dotted paths for partial selection, e.g.
+ *   "performanceMetrics.roi,assetBreakdown.currentValue" (optional)
  * - aggregation: "summary" | "detailed" | "full" (default: "detailed")
  * - format: "standard" | "minimal" | "comprehensive" (default: "standard")
  * - currency: "USD" | "SOL" | "EUR" (default: "USD")
  *
+ * Invalid values are rejected with a 400 listing each offending parameter.
+ *
  * @see PRD Section 8.2 - Portfolio API
  */
 
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  parseSearchParams,
+  queryBoolean,
+  queryEnum,
+  queryFieldPaths,
+  queryList,
+} from "@/lib/api/validation";
+import { selectFields } from "@/lib/api/response";
 import type { AgentPersona } from "@/lib/types";
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-type TimeRange = "24h" | "7d" | "30d" | "90d" | "1y" | "all";
-type AggregationLevel = "summary" | "detailed" | "full";
-type PortfolioFormat = "standard" | "minimal" | "comprehensive";
-type Currency = "USD" | "SOL" | "EUR";
+const TIME_RANGES = ["24h", "7d", "30d", "90d", "1y", "all"] as const;
+const AGGREGATION_LEVELS = ["summary", "detailed", "full"] as const;
+const PORTFOLIO_FORMATS = ["standard", "minimal", "comprehensive"] as const;
+const CURRENCIES = ["USD", "SOL", "EUR"] as const;
+
+type TimeRange = (typeof TIME_RANGES)[number];
+type Currency = (typeof CURRENCIES)[number];
 type TrendDirection = "up" | "down" | "stable" | "volatile";
 type RiskLevel = "low" | "medium" | "high" | "critical";
 type HealthStatus = "optimal" | "good" | "fair" | "poor" | "critical";
@@ -3193,28 +3209,56 @@ function generateRegulatoryReportingData(): RegulatoryReportingData {
 
 export const dynamic = "force-dynamic";
 
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const PortfolioQuerySchema = z.object({
+  timeRange: queryEnum(TIME_RANGES).default("30d"),
+  includeAI: queryBoolean(true),
+  includeProjections: queryBoolean(true),
+  includeRisk: queryBoolean(true),
+  includeProvenance: queryBoolean(true),
+  includeComparative: queryBoolean(false),
+  includeSimulation: queryBoolean(false),
+  includeAlerts: queryBoolean(true),
+  includeOptimization: queryBoolean(true),
+  includeAdvancedAnalytics: queryBoolean(false),
+  includeAudit: queryBoolean(true),
+  metrics: queryList(z.string()).optional(),
+  fields: queryFieldPaths().optional(),
+  aggregation: queryEnum(AGGREGATION_LEVELS).default("detailed"),
+  format: queryEnum(PORTFOLIO_FORMATS).default("standard"),
+  currency: queryEnum(CURRENCIES).default("USD"),
+});
+
 export async function GET(request: Request) {
   const startTime = Date.now();
   const { searchParams } = new URL(request.url);
 
-  const timeRange = (searchParams.get("timeRange") || "30d") as TimeRange;
-  const includeAI = searchParams.get("includeAI") !== "false";
-  const includeProjections = searchParams.get("includeProjections") !== "false";
-  const includeRisk = searchParams.get("includeRisk") !== "false";
-  const includeProvenance = searchParams.get("includeProvenance") !== "false";
-  const includeComparative = searchParams.get("includeComparative") === "true";
-  const includeSimulation = searchParams.get("includeSimulation") === "true";
-  const includeAlerts = searchParams.get("includeAlerts") !== "false";
-  const includeOptimization =
-    searchParams.get("includeOptimization") !== "false";
-  const includeAdvancedAnalytics =
-    searchParams.get("includeAdvancedAnalytics") === "true";
-  const includeAudit = searchParams.get("includeAudit") !== "false";
-  const metrics = searchParams.get("metrics");
-  const aggregation = (searchParams.get("aggregation") ||
-    "detailed") as AggregationLevel;
-  const format = (searchParams.get("format") || "standard") as PortfolioFormat;
-  const currency = (searchParams.get("currency") || "USD") as Currency;
+  const query = parseSearchParams(PortfolioQuerySchema, searchParams);
+  if (!query.success) {
+    return query.response;
+  }
+
+  const {
+    timeRange,
+    includeAI,
+    includeProjections,
+    includeRisk,
+    includeProvenance,
+    includeComparative,
+    includeSimulation,
+    includeAlerts,
+    includeOptimization,
+    includeAdvancedAnalytics,
+    includeAudit,
+    metrics,
+    fields,
+    aggregation,
+    format,
+    currency,
+  } = query.data;
 
   try {
     const comprehensivePortfolio: ComprehensivePortfolio = {
@@ -3392,13 +3436,12 @@ export async function GET(request: Request) {
     }
 
     if (metrics && format !== "minimal") {
-      const metricList = metrics.split(",").map((m) => m.trim());
       const filteredData: Record<string, unknown> = {};
       const dataObj = comprehensivePortfolio as unknown as Record<
         string,
         unknown
       >;
-      metricList.forEach((metric) => {
+      metrics.forEach((metric) => {
         if (metric in dataObj) filteredData[metric] = dataObj[metric];
       });
       filteredData.timestamp = comprehensivePortfolio.timestamp;
@@ -3406,6 +3449,16 @@ export async function GET(request: Request) {
       responseData = filteredData;
     }
 
+    // Dotted-path selection on whatever shape the options above produced
+    let unmatchedFields: string[] = [];
+    if (fields && typeof responseData === "object" && responseData !== null) {
+      const selection = selectFields(responseData, [...fields, "timestamp"]);
+      responseData = selection.data;
+      unmatchedFields = selection.unmatched.filter((path) =>
+        fields.includes(path)
+      );
+    }
+
     return NextResponse.json(
       {
         data: responseData,
@@ -3419,6 +3472,8 @@ export async function GET(request: Request) {
           aggregation,
           format,
           currency,
+          fieldsRequested: fields?.join(",") ?? "all",
+          fieldsUnmatched: unmatchedFields,
         },
       },
       {
@@ -0,0 +1,110 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+import {
+  mockTransactionSource,
+  setTransactionSource,
+  type TransactionSource,
+} from "@/lib/api/transaction-source";
+import {
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+} from "@/lib/api/rate-limit";
+
+import { GET } from "./route";
+
+const AS_OF = "2026-01-01T12:00:00.000Z";
+
+function exportTransactions(format: string, query: Record<string, string>) {
+  const url = new URL(
+    `http://localhost:3000/api/transactions/export/${format}`
+  );
+  url.search = new URLSearchParams(query).toString();
+  return GET(new NextRequest(url), { params: Promise.resolve({ format }) });
+}
+
+function stubSource(
+  name: string,
+  transactions: SolanaTransaction[]
+): TransactionSource {
+  return {
+    name,
+    async *list() {
+      yield* transactions;
+    },
+  };
+}
+
+async function firstMockTransaction(): Promise<SolanaTransaction> {
+  for await (const tx of mockTransactionSource.list({
+    asOf: AS_OF,
+    since: AS_OF,
+    seed: 42,
+  })) {
+    return tx;
+  }
+  throw new Error("The mock source listed nothing");
+}
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryRateLimitStore({ maxKeys: 100 }));
+  setTransactionSource(mockTransactionSource);
+});
+
+describe("csv export", () => {
+  it("escapes text cells a spreadsheet would evaluate", async () => {
+    const tx = await firstMockTransaction();
+    setTransactionSource(
+      stubSource("mock", [
+        { ...tx, summary: "=1+1", error: "@SUM(A1)" },
+        { ...tx, summary: "+1", error: "-1" },
+        { ...tx, summary: "Sold 5 kWh", error: undefined },
+      ])
+    );
+
+    const response = await exportTransactions("csv", { asOf: AS_OF });
+    const [header, ...rows] = (await response.text())
+      .trimEnd()
+      .split("\r\n")
+      .map((line) => line.split(","));
+    const summary = header.indexOf("summary");
+    const error = header.indexOf("error");
+    const fee = header.indexOf("fee");
+
+    expect(rows.map((row) => [row[summary], row[error]])).toEqual([
+      ["'=1+1", "'@SUM(A1)"],
+      ["'+1", "'-1"],
+      ["Sold 5 kWh", ""],
+    ]);
+    // Numbers are never prefixed
+    expect(rows[0][fee]).toBe(String(tx.fee));
+  });
+});
+
+describe("caching", () => {
+  async function cacheControl(query: Record<string, string>) {
+    const response = await exportTransactions("ndjson", {
+      limit: "1",
+      ...query,
+    });
+    await response.body?.cancel();
+    return response.headers.get("Cache-Control");
+  }
+
+  it("marks a mock export immutable only when seed and asOf are pinned", async () => {
+    const immutable = "public, max-age=31536000, immutable";
+
+    expect(await cacheControl({ seed: "7", asOf: AS_OF })).toBe(immutable);
+    expect(await cacheControl({ seed: "7" })).toBe("no-store, max-age=0");
+    expect(await cacheControl({ asOf: AS_OF })).toBe("no-store, max-age=0");
+  });
+
+  it("never marks another source's export immutable", async () => {
+    setTransactionSource(stubSource("rpc", [await firstMockTransaction()]));
+
+    expect(await cacheControl({ seed: "7", asOf: AS_OF })).toBe(
+      "no-store, max-age=0"
+    );
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * API Route: /api/transactions/export/[format]
+ *
+ * Transaction Export - Reproducible audit downloads
+ *
+ * Streams the same seeded, filtered transaction set that `/api/transactions`
+ * returns, so the download links in its `exportPreparation` section always
+ * match what the caller was looking at.
+ *
+ * Formats:
+ * - csv: RFC 4180 CSV, one row per transaction (columns from SolanaTransaction).
+ *   Text cells starting with =, +, - or @ get a leading ' so spreadsheets
+ *   show them instead of evaluating them as formulas
+ * - ndjson: One JSON transaction per line
+ * - json: A single JSON array
+ * - explorer: text/uri-list of block explorer links, one per transaction
+ *
+ * Query Parameters:
+ * - agent, status, since, valueMin, valueMax, valueUnit, mint, program,
+ *   account, signature: Same filters as /api/transactions
+ * - seed: number - Transaction sequence seed (default: 42)
+ * - asOf: ISO timestamp the sequence is generated back from (default: now)
+ * - limit: Maximum rows (default: 10000, max: 50000)
+ * - explorer: "solana" | "solscan" | "solanafm" (default: "solana") - For format=explorer
+ *
+ * Determinism:
+ * The same filters, seed and asOf always produce a byte-identical file. The
+ * resolved seed and asOf are returned in X-Export-Seed / X-Export-As-Of so a
+ * download can be reproduced later; when both were pinned in the request the
+ * mock source's response is marked immutable. With the rpc transaction
+ * source (see `@/lib/api/transaction-source`) the seed is ignored and a
+ * pinned asOf reproduces the file only once its transactions are finalized,
+ * which the headers are sent too early to know, so it is never cached.
+ *
+ * Exports are rate limited per client (see `@/lib/api/rate-limit`, route
+ * `transaction-export`) more tightly than `/api/transactions`, since each
+ * one streams up to 50000 rows.
+ *
+ * @see PRD Section 8.2 - Transactions API
+ */
+
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  parseRouteParams,
+  parseSearchParams,
+  queryEnum,
+  queryInt,
+} from "@/lib/api/validation";
+import {
+  checkRateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from "@/lib/api/rate-limit";
+import {
+  TRANSACTION_CSV_COLUMNS,
+  TRANSACTION_EXPLORERS,
+  TRANSACTION_EXPORT_FORMATS,
+  TOKEN_MINT_REQUIRED,
+  getTransactionExplorerUrl,
+  hasTokenMint,
+  resolveTransactionFilters,
+  selectTransactions,
+  transactionFilterShape,
+  type TransactionExplorer,
+  type TransactionExportFormat,
+  type TransactionFilters,
+} from "@/lib/api/transactions";
+import { getTransactionSource } from "@/lib/api/transaction-source";
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+import { BLOCKCHAIN } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_EXPORT_SEED = 42;
+const DEFAULT_EXPORT_ROWS = 10000;
+const MAX_EXPORT_ROWS = 50000;
+const EXPORT_BATCH_SIZE = 250; // Rows serialized per stream pull
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const ExportParamsSchema = z.object({
+  format: queryEnum(TRANSACTION_EXPORT_FORMATS),
+});
+
+const ExportQuerySchema = z
+  .object({
+    ...transactionFilterShape,
+    limit: queryInt({ min: 1, max: MAX_EXPORT_ROWS }).default(
+      DEFAULT_EXPORT_ROWS
+    ),
+    explorer: queryEnum(TRANSACTION_EXPLORERS).default("solana"),
+  })
+  .refine(hasTokenMint, TOKEN_MINT_REQUIRED);
+
+// ============================================================================
+// SERIALIZERS
+// ============================================================================
+
+interface ExportSerializer {
+  contentType: string;
+  extension: string;
+  header: string;
+  row: (tx: SolanaTransaction, index: number) => string;
+  footer: string;
+}
+
+/** Leading characters that make a spreadsheet evaluate a cell */
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: string | number | boolean | undefined): string {
+  if (value === undefined) return "";
+  // Only text can carry a formula (memos, errors); numbers stay numbers
+  const text =
+    typeof value === "string" && CSV_FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function createExportSerializer(
+  format: TransactionExportFormat,
+  filters: TransactionFilters,
+  explorer: TransactionExplorer
+): ExportSerializer {
+  switch (format) {
+    case "csv":
+      return {
+        contentType: "text/csv; charset=utf-8",
+        extension: "csv",
+        header: `${TRANSACTION_CSV_COLUMNS.map((c) => c.header).join(",")}\r\n`,
+        row: (tx) =>
+          `${TRANSACTION_CSV_COLUMNS.map((c) => escapeCsvValue(c.value(tx))).join(",")}\r\n`,
+        footer: "",
+      };
+    case "ndjson":
+      return {
+        contentType: "application/x-ndjson; charset=utf-8",
+        extension: "ndjson",
+        header: "",
+        row: (tx) => `${JSON.stringify(tx)}\n`,
+        footer: "",
+      };
+    case "json":
+      return {
+        contentType: "application/json; charset=utf-8",
+        extension: "json",
+        header: "[\n",
+        row: (tx, index) => `${index > 0 ? ",\n" : ""}${JSON.stringify(tx)}`,
+        footer: "\n]\n",
+      };
+    case "explorer":
+      return {
+        contentType: "text/uri-list; charset=utf-8",
+        extension: "uris",
+        header: `# AIMP transaction explorer links (explorer=${explorer}, seed=${filters.seed}, asOf=${filters.asOf})\r\n`,
+        row: (tx) =>
+          `# ${tx.signature} ${tx.blockTime} ${tx.agent} ${tx.status}\r\n` +
+          `${getTransactionExplorerUrl(tx.signature, explorer, BLOCKCHAIN.network)}\r\n`,
+        footer: "",
+      };
+  }
+}
+
+/**
+ * Pull-based stream: rows are generated and serialized in small batches only
+ * as the client reads, so large exports never sit in memory.
+ */
+function createExportStream(
+  filters: TransactionFilters,
+  limit: number,
+  serializer: ExportSerializer
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const rows = selectTransactions(filters);
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (serializer.header) {
+        controller.enqueue(encoder.encode(serializer.header));
+      }
+    },
+    async pull(controller) {
+      let chunk = "";
+      for (let i = 0; i < EXPORT_BATCH_SIZE && index < limit; i++) {
+        const next = await rows.next();
+        if (next.done) {
+          index = limit;
+          break;
+        }
+        chunk += serializer.row(next.value, index);
+        index++;
+      }
+
+      if (index >= limit) {
+        chunk += serializer.footer;
+        if (chunk) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(chunk));
+    },
+    async cancel() {
+      await rows.return(undefined);
+    },
+  });
+}
+
+// ============================================================================
+// GET HANDLER
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ format: string }> }
+) {
+  const rateLimit = await checkRateLimit(request, "transaction-export");
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  const routeParams = parseRouteParams(ExportParamsSchema, await params);
+  if (!routeParams.success) {
+    return routeParams.response;
+  }
+
+  const query = parseSearchParams(
+    ExportQuerySchema,
+    request.nextUrl.searchParams
+  );
+  if (!query.success) {
+    return query.response;
+  }
+
+  const { format } = routeParams.data;
+  const { limit, explorer } = query.data;
+  const filters = resolveTransactionFilters(query.data, {
+    seed: DEFAULT_EXPORT_SEED,
+  });
+  const serializer = createExportSerializer(format, filters, explorer);
+  const source = getTransactionSource();
+  // Only the seeded mock sequence is sure to give the same file again
+  const isImmutable =
+    source.name === "mock" &&
+    query.data.seed !== undefined &&
+    query.data.asOf !== undefined;
+  const filename = `aimp-transactions-${filters.seed}-${filters.asOf.replace(/[:.]/g, "")}.${serializer.extension}`;
+
+  return new Response(createExportStream(filters, limit, serializer), {
+    headers: {
+      "Content-Type": serializer.contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": isImmutable
+        ? "public, max-age=31536000, immutable"
+        : "no-store, max-age=0",
+      "X-Data-Source": source.name,
+      "X-Export-Format": format,
+      "X-Export-Seed": filters.seed.toString(),
+      "X-Export-As-Of": filters.asOf,
+      ...rateLimitHeaders(rateLimit),
+    },
+  });
+}
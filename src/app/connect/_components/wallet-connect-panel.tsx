@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { WalletReadyState } from "@solana/wallet-adapter-base";
+import type { WalletName } from "@solana/wallet-adapter-base";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { Button } from "@/components/ui/button";
+import { StatusPill } from "@/app/_components/status-pill";
+import { useWalletBalance } from "@/app/_components/use-wallet-balance";
+import { BLOCKCHAIN } from "@/lib/constants";
+import { formatToken } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+const READY_STATE_LABELS: Record<WalletReadyState, string> = {
+  [WalletReadyState.Installed]: "Detected",
+  [WalletReadyState.Loadable]: "Available",
+  [WalletReadyState.NotDetected]: "Not installed",
+  [WalletReadyState.Unsupported]: "Unsupported",
+};
+
+/**
+ * Connect/disconnect flow for `/connect`: the available wallets while
+ * disconnected, then the connected key, its SOL balance and the cluster.
+ */
+export function WalletConnectPanel() {
+  const {
+    wallets,
+    wallet,
+    publicKey,
+    connecting,
+    select,
+    connect,
+    disconnect,
+  } = useWallet();
+  const balance = useWalletBalance();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = (name: WalletName) => {
+    setError(null);
+
+    // Selecting a wallet connects it (autoConnect); re-selecting one whose
+    // connection failed or was rejected has to ask again
+    if (wallet?.adapter.name === name) {
+      connect().catch((cause: unknown) =>
+        setError(cause instanceof Error ? cause.message : "Connection failed")
+      );
+    } else {
+      select(name);
+    }
+  };
+
+  const handleDisconnect = () => {
+    setError(null);
+    disconnect().catch((cause: unknown) =>
+      setError(cause instanceof Error ? cause.message : "Disconnect failed")
+    );
+  };
+
+  if (publicKey && wallet) {
+    return (
+      <div className="space-y-4" data-testid="wallet-connected">
+        <StatusPill
+          tone="positive"
+          label="Connected"
+          detail={wallet.adapter.name}
+        />
+        <div className="space-y-1">
+          <p className="text-xs uppercase tracking-wider text-(--text-tertiary)">
+            Public key
+          </p>
+          <p className="font-mono text-sm text-(--text-primary) break-all">
+            {publicKey.toBase58()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-lg font-semibold text-(--prosperity-primary)">
+            {balance === null ? "— SOL" : formatToken(balance, "SOL", 4)}
+          </span>
+          <span className="text-xs uppercase tracking-wider text-(--text-tertiary)">
+            {BLOCKCHAIN.network}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Link
+            href="/dashboard"
+            className="inline-flex h-11 items-center rounded-xl bg-(--trust-primary) px-6 text-sm font-semibold text-white"
+          >
+            View your portfolio
+          </Link>
+          <Button variant="secondary" onClick={handleDisconnect}>
+            Disconnect
+          </Button>
+        </div>
+        {error && (
+          <p role="alert" className="text-sm text-critical-primary">
+            {error}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="grid gap-2 sm:grid-cols-2">
+        {wallets.map(({ adapter, readyState }) => {
+          const isPending = connecting && wallet?.adapter.name === adapter.name;
+          const isUsable =
+            readyState === WalletReadyState.Installed ||
+            readyState === WalletReadyState.Loadable;
+
+          return (
+            <li key={adapter.name}>
+              {isUsable ? (
+                <button
+                  type="button"
+                  onClick={() => handleSelect(adapter.name)}
+                  disabled={connecting}
+                  className={cn(
+                    "flex w-full items-center gap-3 rounded-xl border border-(--glass-border-soft) bg-(--glass-surface-primary) px-4 py-3 text-left",
+                    "transition-colors duration-200 hover:bg-(--glass-surface-elevated)",
+                    "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--trust-primary)",
+                    "disabled:opacity-60"
+                  )}
+                >
+                  <Image
+                    src={adapter.icon}
+                    alt=""
+                    width={28}
+                    height={28}
+                    unoptimized
+                  />
+                  <span className="flex-1 text-sm font-semibold text-(--text-primary)">
+                    {adapter.name}
+                  </span>
+                  <span className="text-xs text-(--text-tertiary)">
+                    {isPending ? "Connecting…" : READY_STATE_LABELS[readyState]}
+                  </span>
+                </button>
+              ) : (
+                <a
+                  href={adapter.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex w-full items-center gap-3 rounded-xl border border-dashed border-(--glass-border-soft) px-4 py-3 opacity-70 hover:opacity-100"
+                >
+                  <Image
+                    src={adapter.icon}
+                    alt=""
+                    width={28}
+                    height={28}
+                    unoptimized
+                  />
+                  <span className="flex-1 text-sm text-(--text-secondary)">
+                    {adapter.name}
+                  </span>
+                  <span className="text-xs text-(--text-tertiary)">
+                    {readyState === WalletReadyState.NotDetected
+                      ? "Install ↗"
+                      : READY_STATE_LABELS[readyState]}
+                  </span>
+                </a>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {error && (
+        <p role="alert" className="text-sm text-critical-primary">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
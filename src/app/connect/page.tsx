@@ -1,6 +1,9 @@
 import { GlassCard } from "@/components/ui/glass-card";
 import { StatusPill } from "@/app/_components/status-pill";
 import { Container } from "@/components/ui/layout";
+import { BLOCKCHAIN } from "@/lib/constants";
+
+import { WalletConnectPanel } from "./_components/wallet-connect-panel";
 
 export default function ConnectPage() {
   return (
@@ -12,18 +15,16 @@ export default function ConnectPage() {
           trustLevel="high"
           className="space-y-4"
         >
-          <StatusPill tone="info" label="Wallet" detail="Demo" />
+          <StatusPill tone="info" label="Wallet" detail={BLOCKCHAIN.network} />
           <h1 className="text-3xl font-semibold text-(--text-primary)">
             Connect your Solana wallet
           </h1>
           <p className="text-sm text-(--text-secondary)">
-            Wallet wiring uses Solana wallet adapter packages specified in the
-            PRD. Demo sessions preload mock holdings while production mode will
-            request read-only authority and AI constraint attestations.
-          </p>
-          <p className="text-xs text-(--text-tertiary)">
-            Coming soon: Phantom, Solflare, Ledger, Coinbase, Backpack.
+            Connecting shares your public key only. Your dashboard then shows
+            the holdings of this wallet instead of the demo portfolio; nothing
+            is signed until you invest or approve an action.
           </p>
+          <WalletConnectPanel />
         </GlassCard>
       </div>
     </Container>
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import { AppFooter } from "./_components/app-footer";
 import { AppHeader } from "./_components/app-header";
 import { AIMPThemeProvider } from "@/components/providers/aimp-theme-provider";
+import { AIMPWalletProvider } from "@/components/providers/wallet-provider";
 import { LayoutAnimationWrapper } from "./_components/layout-animation-wrapper";
 import { EnhancedBackgroundSystem } from "./_components/enhanced-background-system";
 import "./globals.css";
@@ -169,45 +170,48 @@ export default function RootLayout({
 
         {/* Theme Provider with Neural Context */}
         <AIMPThemeProvider>
-          {/* Header with enhanced glass morphism - OUTSIDE animation wrapper for true fixed positioning */}
-          <AppHeader />
+          {/* Wallet connection shared by the header, /connect and the portfolio */}
+          <AIMPWalletProvider>
+            {/* Header with enhanced glass morphism - OUTSIDE animation wrapper for true fixed positioning */}
+            <AppHeader />
 
-          {/* Animation Wrapper with Calm Motion */}
-          <LayoutAnimationWrapper>
-            {/* Skip to main content for accessibility */}
-            <a
-              href="#main-content"
-              className="sr-only focus:not-sr-only focus:absolute focus:top-4 focus:left-4 
+            {/* Animation Wrapper with Calm Motion */}
+            <LayoutAnimationWrapper>
+              {/* Skip to main content for accessibility */}
+              <a
+                href="#main-content"
+                className="sr-only focus:not-sr-only focus:absolute focus:top-4 focus:left-4 
                          bg-trust-primary text-white px-4 py-2 rounded-md 
                          focus:z-50 focus:outline-none focus:ring-2 focus:ring-trust-secondary"
-            >
-              Skip to main content
-            </a>
-
-            {/* Main layout structure with glass layers */}
-            <div className="relative min-h-screen">
-              {/* Main content area with contextual background response */}
-              <main
-                id="main-content"
-                className="relative z-10 pt-20"
-                role="main"
-                aria-label="Main content"
               >
-                {children}
-              </main>
+                Skip to main content
+              </a>
+
+              {/* Main layout structure with glass layers */}
+              <div className="relative min-h-screen">
+                {/* Main content area with contextual background response */}
+                <main
+                  id="main-content"
+                  className="relative z-10 pt-20"
+                  role="main"
+                  aria-label="Main content"
+                >
+                  {children}
+                </main>
 
-              {/* Footer with subtle glass integration */}
-              <AppFooter />
-            </div>
+                {/* Footer with subtle glass integration */}
+                <AppFooter />
+              </div>
 
-            {/* AI Presence Indicators */}
-            <div
-              className="fixed bottom-6 right-6 z-40 pointer-events-none"
-              aria-hidden="true"
-            >
-              <div className="ai-pulse-indicator opacity-60" />
-            </div>
-          </LayoutAnimationWrapper>
+              {/* AI Presence Indicators */}
+              <div
+                className="fixed bottom-6 right-6 z-40 pointer-events-none"
+                aria-hidden="true"
+              >
+                <div className="ai-pulse-indicator opacity-60" />
+              </div>
+            </LayoutAnimationWrapper>
+          </AIMPWalletProvider>
         </AIMPThemeProvider>
 
         {/* Progressive enhancement script */}
@@ -38,6 +38,7 @@ import * as React from "react";
 import { cn } from "@/lib/utils";
 import { formatRelativeTime } from "@/lib/format";
 import { PERFORMANCE } from "@/lib/constants";
+import { AGENT_PERSONAS } from "@/lib/agents";
 import type {
   AgentPersona,
   OperationalStatus,
@@ -135,36 +136,6 @@ export interface AgentCardProps {
   isOverridden?: boolean;
 }
 
-// ============================================================================
-// AGENT METADATA
-// ============================================================================
-
-const AGENT_CONFIG: Record<
-  AgentPersona,
-  { icon: string; label: string; glowClass: string }
-> = {
-  operations: {
-    icon: "⚡",
-    label: "Operations",
-    glowClass: "hover:shadow-glow-operations",
-  },
-  markets: {
-    icon: "📊",
-    label: "Markets",
-    glowClass: "hover:shadow-glow-markets",
-  },
-  sentinel: {
-    icon: "🛡️",
-    label: "Sentinel",
-    glowClass: "hover:shadow-glow-sentinel",
-  },
-  governor: {
-    icon: "⚖️",
-    label: "Governor",
-    glowClass: "hover:shadow-glow-governance",
-  },
-};
-
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
@@ -183,7 +154,7 @@ function AgentHeader({
   isActive?: boolean;
   compact?: boolean;
 }) {
-  const config = AGENT_CONFIG[agent];
+  const config = AGENT_PERSONAS[agent];
   const relativeTime = React.useMemo(
     () => formatRelativeTime(timestamp),
     [timestamp]
@@ -521,7 +492,7 @@ export const AgentCard = React.forwardRef<HTMLDivElement, AgentCardProps>(
     },
     ref
   ) => {
-    const config = AGENT_CONFIG[decision.agent];
+    const config = AGENT_PERSONAS[decision.agent];
     const isInteractive = !disabled && !isLoading && !!onClick;
 
     // Keyboard handler
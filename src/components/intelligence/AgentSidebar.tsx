@@ -22,6 +22,9 @@
  * - Click suggested question → Auto-populate and send
  * - Switch agent → Context preserved, different perspective
  * - Hover answers → Show confidence scores and sources
+ * - Click a cited record → Open its decision explanation
+ * - Type `/` → Commands (/explain, /tx, /compare, /pause) with id completion
+ * - Type `@agent` → Address the question to that agent
  *
  * Performance:
  * - Streaming responses (progressive display)
@@ -46,8 +49,23 @@ import type {
   TrustMathematics,
 } from "@/lib/types";
 import { PERFORMANCE, BEHAVIOR } from "@/lib/constants";
+import {
+  AGENT_PERSONAS,
+  AGENT_PERSONA_IDS,
+  getComposerSuggestions,
+  parseComposerInput,
+  type AgentCommand,
+  type AgentLocale,
+  type ComposerSuggestion,
+  type ComposerSuggestionSources,
+} from "@/lib/agents";
 
 import { GlassCard } from "@/components/ui/glass-card";
+import type { AgentDecision } from "@/components/intelligence/AgentCard";
+import {
+  TxReceipt,
+  type SolanaTransaction,
+} from "@/components/intelligence/TxReceipt";
 import { StatPill } from "@/components/primitives/StatPill";
 import { ProofBadge } from "@/components/primitives/ProofBadge";
 import { HealthDot } from "@/components/primitives/HealthDot";
@@ -150,6 +168,9 @@ export interface AgentMessage {
   /** Message content */
   content: string;
 
+  /** Language the content is written in (if role === 'agent') */
+  locale?: AgentLocale;
+
   /** Agent that sent this message (if role === 'agent') */
   agent?: AgentPersona;
 
@@ -162,13 +183,85 @@ export interface AgentMessage {
   /** Data sources cited (if role === 'agent') */
   sources?: string[];
 
+  /** Records the answer was grounded in; `[n]` in the content is citations[n - 1] */
+  citations?: AgentCitation[];
+
+  /** Per-agent replies behind a synthesized roundtable answer */
+  roundtable?: AgentRoundtable;
+
+  /** Inline result of a composer command (rendered under the message) */
+  command?: AgentCommandResult;
+
   /** Whether message is still streaming */
   isStreaming?: boolean;
 
+  /** Whether generation was stopped before the answer completed */
+  isStopped?: boolean;
+
   /** Error message (if failed) */
   error?: string;
 }
 
+/**
+ * Decision, explanation or transaction record an answer cites
+ */
+export interface AgentCitation {
+  /** Kind of record that matched the question */
+  kind: "decision" | "explanation" | "transaction";
+
+  /**
+   * Decision the record belongs to (opens its explanation); absent for a
+   * transaction no recorded decision accounts for
+   */
+  decisionId?: string;
+
+  /** Agent that made the decision */
+  agent: AgentPersona;
+
+  /** Record timestamp (ISO 8601) */
+  timestamp: string;
+
+  /** One-line record summary */
+  summary: string;
+
+  /** Transaction signature (if kind === 'transaction') */
+  signature?: string;
+}
+
+/**
+ * Point on which roundtable agents agree or conflict
+ */
+export interface AgentRoundtablePoint {
+  /** Agents involved */
+  agents: AgentPersona[];
+
+  /** One-line description */
+  summary: string;
+}
+
+/**
+ * Roundtable behind a synthesized answer (one reply per consulted agent)
+ */
+export interface AgentRoundtable {
+  /** Individual agent replies, in seating order */
+  replies: AgentMessage[];
+
+  /** Where agents agree */
+  agreements: AgentRoundtablePoint[];
+
+  /** Where agents conflict */
+  conflicts: AgentRoundtablePoint[];
+}
+
+/**
+ * Inline result of a composer command such as `/tx` or `/compare`
+ */
+export type AgentCommandResult =
+  | { kind: "explain"; decision: AgentDecision }
+  | { kind: "tx"; transaction: SolanaTransaction }
+  | { kind: "compare"; decisions: [AgentDecision, AgentDecision] }
+  | { kind: "pause"; status: "pending" | "confirmed" | "cancelled" };
+
 /**
  * Suggested question prompt
  */
@@ -211,6 +304,24 @@ export interface AgentSidebarProps {
   /** Retry handler for failed messages */
   onRetry?: (messageId: string) => void;
 
+  /** Stop handler while an answer is streaming (replaces the send button) */
+  onStop?: () => void;
+
+  /** Citation click handler (opens the cited decision's explanation) */
+  onOpenCitation?: (citation: AgentCitation) => void;
+
+  /**
+   * Composer command handler. Without it, `/commands` are sent as plain
+   * questions; @mentions work either way.
+   */
+  onCommand?: (command: AgentCommand) => void;
+
+  /** Confirm or cancel a command awaiting confirmation (e.g. `/pause`) */
+  onConfirmCommand?: (messageId: string, confirmed: boolean) => void;
+
+  /** Recent decisions and transactions offered as command completions */
+  commandSources?: ComposerSuggestionSources;
+
   /** Custom className */
   className?: string;
 
@@ -227,69 +338,6 @@ export interface AgentSidebarProps {
   hasConstraintViolations?: boolean;
 }
 
-// ============================================================================
-// AGENT METADATA
-// ============================================================================
-
-const AGENT_CONFIG: Record<
-  AgentPersona,
-  {
-    icon: string;
-    label: string;
-    color: string;
-    description: string;
-    defaultQuestions: SuggestedQuestion[];
-  }
-> = {
-  operations: {
-    icon: "⚡",
-    label: "Operations",
-    color: "text-agent-operations",
-    description: "Energy dispatch, battery management, grid optimization",
-    defaultQuestions: [
-      { question: "What's the current energy dispatch strategy?", icon: "⚡" },
-      {
-        question: "Why did you change the battery discharge rate?",
-        icon: "🔋",
-      },
-      { question: "How are you optimizing for peak demand?", icon: "📈" },
-    ],
-  },
-  markets: {
-    icon: "📊",
-    label: "Markets",
-    color: "text-agent-markets",
-    description: "Trading decisions, pricing strategy, revenue optimization",
-    defaultQuestions: [
-      { question: "What's driving today's trading decisions?", icon: "📊" },
-      { question: "How do you predict energy prices?", icon: "💰" },
-      { question: "Should I buy or sell tokens right now?", icon: "🔄" },
-    ],
-  },
-  sentinel: {
-    icon: "🛡️",
-    label: "Sentinel",
-    color: "text-agent-sentinel",
-    description: "Hardware monitoring, predictive maintenance, safety checks",
-    defaultQuestions: [
-      { question: "What's the health of the solar panels?", icon: "☀️" },
-      { question: "Are there any maintenance alerts?", icon: "🔧" },
-      { question: "How do you detect equipment failures?", icon: "🛡️" },
-    ],
-  },
-  governor: {
-    icon: "⚖️",
-    label: "Governor",
-    color: "text-agent-governance",
-    description: "Safety constraints, compliance, override authority",
-    defaultQuestions: [
-      { question: "What safety constraints are active?", icon: "⚖️" },
-      { question: "Have there been any constraint violations?", icon: "⚠️" },
-      { question: "How do you enforce operating limits?", icon: "🛑" },
-    ],
-  },
-};
-
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
@@ -310,13 +358,6 @@ const AgentTabs = React.memo(function AgentTabs({
   disabled?: boolean;
   agentHealth?: AgentHealthStatus;
 }) {
-  const agents: AgentPersona[] = [
-    "operations",
-    "markets",
-    "sentinel",
-    "governor",
-  ];
-
   // Get health dot config for current agent
   const healthConfig = agentHealth
     ? mapAgentHealthToHealthDot(agentHealth)
@@ -324,8 +365,8 @@ const AgentTabs = React.memo(function AgentTabs({
 
   return (
     <div className="flex items-center gap-2 p-2 bg-glass-light rounded-glass-md border border-glass-border">
-      {agents.map((agent) => {
-        const config = AGENT_CONFIG[agent];
+      {AGENT_PERSONA_IDS.map((agent) => {
+        const config = AGENT_PERSONAS[agent];
         const isSelected = agent === selectedAgent;
         const isInteractive = !disabled && onSelectAgent;
 
@@ -345,7 +386,7 @@ const AgentTabs = React.memo(function AgentTabs({
                 "font-medium",
                 isSelected &&
                   "bg-glass-medium border border-glass-border-heavy",
-                isSelected && config.color,
+                isSelected && config.textClass,
                 !isSelected && "text-foreground-tertiary",
                 !isSelected &&
                   isInteractive &&
@@ -397,18 +438,20 @@ const MessageBubble = React.memo(function MessageBubble({
   message,
   compact,
   onRetry,
+  onOpenCitation,
 }: {
   message: AgentMessage;
   compact?: boolean;
   onRetry?: (messageId: string) => void;
+  onOpenCitation?: (citation: AgentCitation) => void;
 }) {
   const isUser = message.role === "user";
   const isAgent = message.role === "agent";
-  const agentConfig = message.agent ? AGENT_CONFIG[message.agent] : null;
+  const agentConfig = message.agent ? AGENT_PERSONAS[message.agent] : null;
 
   // State for message truncation (Refinement #8)
   const [isExpanded, setIsExpanded] = React.useState(false);
-  const needsTruncation = message.content.length > 500;
+  const needsTruncation = !message.isStreaming && message.content.length > 500;
   const displayContent =
     needsTruncation && !isExpanded
       ? message.content.slice(0, 500) + "..."
@@ -516,7 +559,7 @@ const MessageBubble = React.memo(function MessageBubble({
             className={cn(
               "font-semibold",
               isAgent && agentConfig
-                ? agentConfig.color
+                ? agentConfig.textClass
                 : "text-foreground-primary"
             )}
           >
@@ -592,10 +635,10 @@ const MessageBubble = React.memo(function MessageBubble({
           {/* Content with streaming flow animation and truncation (Refinement #8) */}
           <div>
             <p
+              lang={message.locale}
               className={cn(
                 "leading-relaxed whitespace-pre-wrap",
-                compact ? "text-body-sm" : "text-body-md",
-                message.isStreaming && "animate-pulse"
+                compact ? "text-body-sm" : "text-body-md"
               )}
             >
               {displayContent}
@@ -604,6 +647,17 @@ const MessageBubble = React.memo(function MessageBubble({
               )}
             </p>
 
+            {message.isStopped && (
+              <p
+                className={cn(
+                  "mt-1 italic text-foreground-tertiary",
+                  compact ? "text-detail-xs" : "text-detail-sm"
+                )}
+              >
+                Stopped before the answer was complete
+              </p>
+            )}
+
             {/* Read more button for long messages (Refinement #8) */}
             {needsTruncation && (
               <PressInteraction>
@@ -669,6 +723,63 @@ const MessageBubble = React.memo(function MessageBubble({
               )}
             </div>
           )}
+
+          {/* Cited records, numbered to match the [n] markers in the answer */}
+          {isAgent && message.citations && message.citations.length > 0 && (
+            <ol
+              className={cn(
+                "mt-2 space-y-1",
+                compact ? "text-detail-xs" : "text-detail-sm"
+              )}
+              aria-label="Cited records"
+            >
+              {message.citations.map((citation, idx) => (
+                <li
+                  key={`${citation.kind}-${citation.decisionId ?? citation.signature}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onOpenCitation?.(citation)}
+                    disabled={!onOpenCitation || !citation.decisionId}
+                    title={
+                      citation.decisionId
+                        ? `Open explanation for ${citation.decisionId}`
+                        : `Transaction ${citation.signature}`
+                    }
+                    className={cn(
+                      "flex w-full items-baseline gap-2 text-left",
+                      "text-foreground-secondary transition-colors duration-fast",
+                      "enabled:hover:text-foreground-primary"
+                    )}
+                  >
+                    <span className="font-mono text-foreground-tertiary">
+                      [{idx + 1}]
+                    </span>
+                    <span
+                      className={cn(
+                        "truncate",
+                        onOpenCitation &&
+                          citation.decisionId &&
+                          "underline underline-offset-2"
+                      )}
+                    >
+                      {citation.summary}
+                    </span>
+                    <time
+                      className="ml-auto shrink-0 text-foreground-tertiary"
+                      dateTime={citation.timestamp}
+                    >
+                      {citation.kind} ·{" "}
+                      {new Date(citation.timestamp).toLocaleTimeString([], {
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })}
+                    </time>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
         </div>
       </div>
     </div>
@@ -725,6 +836,288 @@ const MessageBubble = React.memo(function MessageBubble({
   return bubbleContent;
 });
 
+/**
+ * Per-agent replies stacked under a synthesized roundtable answer, led by
+ * the points they agree and conflict on
+ */
+const RoundtableReplies = React.memo(function RoundtableReplies({
+  roundtable,
+  compact,
+  onOpenCitation,
+}: {
+  roundtable: AgentRoundtable;
+  compact?: boolean;
+  onOpenCitation?: (citation: AgentCitation) => void;
+}) {
+  const points = [
+    ...roundtable.agreements.map((point) => ({ point, isConflict: false })),
+    ...roundtable.conflicts.map((point) => ({ point, isConflict: true })),
+  ];
+
+  return (
+    <div
+      className="ml-4 mb-4 pl-3 border-l border-glass-border space-y-1"
+      aria-label="Roundtable replies"
+    >
+      {points.length > 0 && (
+        <ul
+          className={cn(
+            "space-y-1 mb-2",
+            compact ? "text-detail-xs" : "text-detail-sm"
+          )}
+        >
+          {points.map(({ point, isConflict }) => (
+            <li
+              key={`${isConflict ? "conflict" : "agreement"}-${point.summary}`}
+              className={cn(
+                "flex items-start gap-2",
+                isConflict ? "text-status-warning" : "text-status-success"
+              )}
+            >
+              <span aria-hidden>{isConflict ? "⚡" : "✓"}</span>
+              <span>
+                <span className="sr-only">
+                  {isConflict ? "Conflict: " : "Agreement: "}
+                </span>
+                {point.summary}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {roundtable.replies.map((reply) => (
+        <MessageBubble
+          key={reply.id}
+          message={reply}
+          compact
+          onOpenCitation={onOpenCitation}
+        />
+      ))}
+    </div>
+  );
+});
+
+/**
+ * One decision as shown by `/explain` and each side of `/compare`
+ */
+function DecisionSummary({
+  decision,
+  compact,
+  onOpenCitation,
+}: {
+  decision: AgentDecision;
+  compact?: boolean;
+  onOpenCitation?: (citation: AgentCitation) => void;
+}) {
+  const config = AGENT_PERSONAS[decision.agent];
+
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div
+        className={cn(
+          "flex items-center gap-2",
+          compact ? "text-detail-xs" : "text-detail-sm"
+        )}
+      >
+        <span className={cn("font-semibold", config.textClass)}>
+          {config.icon} {config.label}
+        </span>
+        <time
+          className="text-foreground-tertiary"
+          dateTime={decision.timestamp}
+        >
+          {formatRelativeTime(decision.timestamp)}
+        </time>
+        <StatPill
+          label={`${decision.confidence}%`}
+          status={
+            decision.confidence >= PERFORMANCE.trust.fair
+              ? "verified"
+              : "warning"
+          }
+          size="sm"
+        />
+      </div>
+      <p className={compact ? "text-body-sm" : "text-body-md"}>
+        {decision.summary}
+      </p>
+      {onOpenCitation && (
+        <button
+          type="button"
+          onClick={() =>
+            onOpenCitation({
+              kind: "decision",
+              decisionId: decision.id,
+              agent: decision.agent,
+              timestamp: decision.timestamp,
+              summary: decision.summary,
+            })
+          }
+          className={cn(
+            "text-foreground-secondary underline underline-offset-2",
+            "transition-colors duration-fast hover:text-foreground-primary",
+            compact ? "text-detail-xs" : "text-detail-sm"
+          )}
+        >
+          Open full explanation
+        </button>
+      )}
+      <p className="font-mono text-detail-xs text-foreground-tertiary truncate">
+        {decision.id}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Rich result of a composer command, rendered under its message
+ */
+const CommandResult = React.memo(function CommandResult({
+  messageId,
+  result,
+  compact,
+  onOpenCitation,
+  onConfirmCommand,
+}: {
+  messageId: string;
+  result: AgentCommandResult;
+  compact?: boolean;
+  onOpenCitation?: (citation: AgentCitation) => void;
+  onConfirmCommand?: (messageId: string, confirmed: boolean) => void;
+}) {
+  const panelClass = cn(
+    "ml-4 mb-4 rounded-glass-md border border-glass-border bg-glass-light",
+    compact ? "p-3" : "p-4"
+  );
+
+  switch (result.kind) {
+    case "tx":
+      return (
+        <div className="ml-4 mb-4">
+          <TxReceipt transaction={result.transaction} compact />
+        </div>
+      );
+
+    case "explain":
+      return (
+        <div className={panelClass} aria-label="Explanation summary">
+          <DecisionSummary
+            decision={result.decision}
+            compact={compact}
+            onOpenCitation={onOpenCitation}
+          />
+        </div>
+      );
+
+    case "compare": {
+      const [first, second] = result.decisions;
+      const confidenceDelta = second.confidence - first.confidence;
+      const minutesApart = Math.round(
+        Math.abs(
+          new Date(second.timestamp).getTime() -
+            new Date(first.timestamp).getTime()
+        ) / 60_000
+      );
+
+      return (
+        <div className={panelClass} aria-label="Decision comparison">
+          <div className="flex gap-4">
+            <DecisionSummary
+              decision={first}
+              compact={compact}
+              onOpenCitation={onOpenCitation}
+            />
+            <div className="w-px shrink-0 bg-glass-border" aria-hidden />
+            <DecisionSummary
+              decision={second}
+              compact={compact}
+              onOpenCitation={onOpenCitation}
+            />
+          </div>
+          <p
+            className={cn(
+              "mt-3 pt-2 border-t border-glass-border text-foreground-secondary",
+              compact ? "text-detail-xs" : "text-detail-sm"
+            )}
+          >
+            {first.agent === second.agent
+              ? `Both by ${AGENT_PERSONAS[first.agent].name}`
+              : `${AGENT_PERSONAS[first.agent].label} vs ${AGENT_PERSONAS[second.agent].label}`}{" "}
+            · {minutesApart} min apart · confidence{" "}
+            {confidenceDelta === 0
+              ? "unchanged"
+              : `${confidenceDelta > 0 ? "+" : ""}${confidenceDelta} pts`}
+          </p>
+        </div>
+      );
+    }
+
+    case "pause":
+      return (
+        <div
+          className={cn(
+            panelClass,
+            result.status !== "cancelled" &&
+              "border-status-critical/30 bg-status-critical/10"
+          )}
+          role={result.status === "pending" ? "alertdialog" : undefined}
+          aria-label="Emergency pause"
+        >
+          {result.status === "pending" ? (
+            <div className="space-y-3">
+              <p className={compact ? "text-body-sm" : "text-body-md"}>
+                Pause all AI operations? Agents stop acting immediately and a
+                human must approve resuming them.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => onConfirmCommand?.(messageId, true)}
+                  disabled={!onConfirmCommand}
+                  className={cn(
+                    "px-3 py-1.5 rounded-glass-sm font-semibold",
+                    "bg-status-critical/20 border border-status-critical/40 text-status-critical",
+                    "transition-all duration-fast hover:bg-status-critical/30",
+                    compact ? "text-detail-sm" : "text-body-sm"
+                  )}
+                >
+                  Confirm pause
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onConfirmCommand?.(messageId, false)}
+                  disabled={!onConfirmCommand}
+                  className={cn(
+                    "px-3 py-1.5 rounded-glass-sm",
+                    "bg-glass-medium border border-glass-border text-foreground-primary",
+                    "transition-all duration-fast hover:bg-glass-heavy",
+                    compact ? "text-detail-sm" : "text-body-sm"
+                  )}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p
+              className={cn(
+                result.status === "confirmed"
+                  ? "text-status-critical font-semibold"
+                  : "text-foreground-secondary",
+                compact ? "text-body-sm" : "text-body-md"
+              )}
+            >
+              {result.status === "confirmed"
+                ? "AI operations paused. Resume from the header once it is safe."
+                : "Pause cancelled. Agents continue operating."}
+            </p>
+          )}
+        </div>
+      );
+  }
+});
+
 /**
  * Suggested questions grid
  */
@@ -734,7 +1127,7 @@ const SuggestedQuestions = React.memo(function SuggestedQuestions({
   compact,
   disabled,
 }: {
-  questions: SuggestedQuestion[];
+  questions: readonly SuggestedQuestion[];
   onSelectQuestion: (question: string) => void;
   compact?: boolean;
   disabled?: boolean;
@@ -817,78 +1210,209 @@ const SuggestedQuestions = React.memo(function SuggestedQuestions({
 });
 
 /**
- * Message input field
+ * Message input field, with completions for commands, record ids and
+ * @mentions
  */
 const MessageInput = React.memo(function MessageInput({
   onSendMessage,
+  onStop,
+  suggest,
   isThinking,
+  isStreaming,
   disabled,
   compact,
   placeholder,
 }: {
-  onSendMessage: (message: string) => void;
+  /** Returns an error to show under the input, or null once sent */
+  onSendMessage: (message: string) => string | null;
+  onStop?: () => void;
+  suggest?: (input: string) => ComposerSuggestion[];
   isThinking?: boolean;
+  isStreaming?: boolean;
   disabled?: boolean;
   compact?: boolean;
   placeholder?: string;
 }) {
+  const isBusy = isThinking || isStreaming;
+
   const [input, setInput] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = React.useState(0);
+  const [isSuggesting, setIsSuggesting] = React.useState(true);
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const listboxId = React.useId();
+
+  const suggestions = React.useMemo(
+    () => (suggest && isSuggesting && !isBusy ? suggest(input) : []),
+    [suggest, isSuggesting, isBusy, input]
+  );
+  const highlighted = Math.min(activeSuggestion, suggestions.length - 1);
+
+  const resizeTextarea = React.useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = "auto";
+    textarea.style.height = `${Math.min(textarea.scrollHeight, 150)}px`;
+  }, []);
+
+  const updateInput = React.useCallback((value: string) => {
+    setInput(value);
+    setError(null);
+    setActiveSuggestion(0);
+    setIsSuggesting(true);
+  }, []);
+
+  const acceptSuggestion = React.useCallback(
+    (suggestion: ComposerSuggestion) => {
+      updateInput(suggestion.value);
+      textareaRef.current?.focus();
+    },
+    [updateInput]
+  );
 
   const handleSubmit = React.useCallback(
     (e: React.FormEvent) => {
       e.preventDefault();
       const trimmed = input.trim();
-      if (trimmed && !isThinking && !disabled) {
-        onSendMessage(trimmed);
-        setInput("");
+      if (trimmed && !isBusy && !disabled) {
+        const sendError = onSendMessage(trimmed);
+        if (sendError) {
+          setError(sendError);
+          return;
+        }
+        updateInput("");
         // Reset textarea height
         if (textareaRef.current) {
           textareaRef.current.style.height = "auto";
         }
       }
     },
-    [input, isThinking, disabled, onSendMessage]
+    [input, isBusy, disabled, onSendMessage, updateInput]
   );
 
   const handleKeyDown = React.useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // Arrows move through completions; Tab or Enter accepts one
+      if (suggestions.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setActiveSuggestion(
+            (highlighted + step + suggestions.length) % suggestions.length
+          );
+          return;
+        }
+        if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+          e.preventDefault();
+          acceptSuggestion(suggestions[highlighted]);
+          return;
+        }
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setIsSuggesting(false);
+          return;
+        }
+      }
+
       // Submit on Enter (without Shift)
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
         handleSubmit(e);
       }
     },
-    [handleSubmit]
+    [suggestions, highlighted, acceptSuggestion, handleSubmit]
   );
 
   // Auto-resize textarea
   const handleInput = React.useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-      setInput(e.target.value);
-      const textarea = e.target;
-      textarea.style.height = "auto";
-      textarea.style.height = `${Math.min(textarea.scrollHeight, 150)}px`;
+      updateInput(e.target.value);
+      resizeTextarea();
     },
-    []
+    [updateInput, resizeTextarea]
   );
 
-  const canSubmit = input.trim().length > 0 && !isThinking && !disabled;
+  const canSubmit = input.trim().length > 0 && !isBusy && !disabled;
 
   return (
     <form onSubmit={handleSubmit} className="relative">
+      {/* Completions for the word being typed */}
+      {suggestions.length > 0 && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Suggestions"
+          className={cn(
+            "absolute bottom-full left-0 right-0 mb-2 z-10 overflow-hidden",
+            "rounded-glass-md border border-glass-border-heavy bg-glass-heavy backdrop-blur-md"
+          )}
+        >
+          {suggestions.map((suggestion, idx) => (
+            <li
+              key={suggestion.value}
+              id={`${listboxId}-${idx}`}
+              role="option"
+              aria-selected={idx === highlighted}
+              onMouseDown={(e) => {
+                // Keep focus in the textarea
+                e.preventDefault();
+                acceptSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveSuggestion(idx)}
+              className={cn(
+                "flex items-baseline gap-3 px-3 py-2 cursor-pointer",
+                compact ? "text-detail-xs" : "text-detail-sm",
+                idx === highlighted && "bg-glass-medium"
+              )}
+            >
+              <span className="font-mono text-foreground-primary shrink-0">
+                {suggestion.label}
+              </span>
+              {suggestion.detail && (
+                <span className="truncate text-foreground-tertiary">
+                  {suggestion.detail}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p
+          id={`${listboxId}-error`}
+          role="alert"
+          className={cn(
+            "mb-2 text-status-warning",
+            compact ? "text-detail-xs" : "text-detail-sm"
+          )}
+        >
+          {error}
+        </p>
+      )}
+
       <textarea
         ref={textareaRef}
         value={input}
         onChange={handleInput}
         onKeyDown={handleKeyDown}
-        disabled={disabled || isThinking}
+        disabled={disabled || isBusy}
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-controls={suggestions.length > 0 ? listboxId : undefined}
+        aria-activedescendant={
+          suggestions.length > 0 ? `${listboxId}-${highlighted}` : undefined
+        }
+        aria-invalid={error !== null}
+        aria-describedby={error ? `${listboxId}-error` : undefined}
         placeholder={
           disabled
             ? "Agent unavailable..."
             : isThinking
               ? "Agent is thinking..."
-              : placeholder || "Ask me anything..."
+              : isStreaming
+                ? "Agent is answering..."
+                : placeholder || "Ask me anything..."
         }
         rows={1}
         className={cn(
@@ -898,42 +1422,67 @@ const MessageInput = React.memo(function MessageInput({
           "transition-all duration-fast",
           "focus:outline-none focus:border-glass-border-heavy focus:bg-glass-medium",
           compact ? "text-body-sm min-h-[40px]" : "text-body-md",
-          (disabled || isThinking) && "opacity-60 cursor-not-allowed"
+          (disabled || isBusy) && "opacity-60 cursor-not-allowed"
         )}
       />
 
-      {/* Send button */}
-      <PressInteraction>
-        <button
-          type="submit"
-          disabled={!canSubmit}
-          className={cn(
-            "absolute right-2 bottom-2 p-2 rounded-glass-sm",
-            "bg-glass-medium border border-glass-border",
-            "transition-all duration-fast",
-            canSubmit && "cursor-pointer",
-            canSubmit && "hover:bg-glass-heavy hover:border-glass-border-heavy",
-            canSubmit && "text-foreground-primary",
-            !canSubmit && "opacity-40 cursor-not-allowed",
-            !canSubmit && "text-foreground-tertiary"
-          )}
-          aria-label="Send message"
-        >
-          <svg
-            className={compact ? "w-4 h-4" : "w-5 h-5"}
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
+      {/* Stop button while streaming, send button otherwise */}
+      {isStreaming && onStop ? (
+        <PressInteraction>
+          <button
+            type="button"
+            onClick={onStop}
+            className={cn(
+              "absolute right-2 bottom-2 p-2 rounded-glass-sm",
+              "bg-glass-medium border border-glass-border",
+              "text-foreground-primary transition-all duration-fast",
+              "hover:bg-glass-heavy hover:border-glass-border-heavy"
+            )}
+            aria-label="Stop generating"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-            />
-          </svg>
-        </button>
-      </PressInteraction>
+            <svg
+              className={compact ? "w-4 h-4" : "w-5 h-5"}
+              fill="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <rect x="6" y="6" width="12" height="12" rx="2" />
+            </svg>
+          </button>
+        </PressInteraction>
+      ) : (
+        <PressInteraction>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className={cn(
+              "absolute right-2 bottom-2 p-2 rounded-glass-sm",
+              "bg-glass-medium border border-glass-border",
+              "transition-all duration-fast",
+              canSubmit && "cursor-pointer",
+              canSubmit &&
+                "hover:bg-glass-heavy hover:border-glass-border-heavy",
+              canSubmit && "text-foreground-primary",
+              !canSubmit && "opacity-40 cursor-not-allowed",
+              !canSubmit && "text-foreground-tertiary"
+            )}
+            aria-label="Send message"
+          >
+            <svg
+              className={compact ? "w-4 h-4" : "w-5 h-5"}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+              />
+            </svg>
+          </button>
+        </PressInteraction>
+      )}
     </form>
   );
 });
@@ -948,7 +1497,7 @@ const ThinkingIndicator = React.memo(function ThinkingIndicator({
   agent: AgentPersona;
   compact?: boolean;
 }) {
-  const config = AGENT_CONFIG[agent];
+  const config = AGENT_PERSONAS[agent];
 
   // A11Y: Respect motion preferences
   const prefersReducedMotion =
@@ -974,7 +1523,7 @@ const ThinkingIndicator = React.memo(function ThinkingIndicator({
             <span
               className={cn(
                 "font-semibold",
-                config.color,
+                config.textClass,
                 compact ? "text-body-sm" : "text-body-md"
               )}
             >
@@ -1011,7 +1560,7 @@ const EmptyState = React.memo(function EmptyState({
   agent: AgentPersona;
   compact?: boolean;
 }) {
-  const config = AGENT_CONFIG[agent];
+  const config = AGENT_PERSONAS[agent];
 
   return (
     <div
@@ -1028,7 +1577,7 @@ const EmptyState = React.memo(function EmptyState({
       <h3
         className={cn(
           "font-semibold mb-2",
-          config.color,
+          config.textClass,
           compact ? "text-body-md" : "text-body-lg"
         )}
       >
@@ -1104,6 +1653,11 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
       suggestedQuestions,
       onSendMessage,
       onSelectAgent,
+      onStop,
+      onOpenCitation,
+      onCommand,
+      onConfirmCommand,
+      commandSources,
       className,
       compact = false,
       disabled = false,
@@ -1114,15 +1668,17 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
     ref
   ) => {
     const messagesEndRef = React.useRef<HTMLDivElement>(null);
-    const agentConfig = AGENT_CONFIG[selectedAgent];
+    const agentConfig = AGENT_PERSONAS[selectedAgent];
+    const isStreaming = messages.some((message) => message.isStreaming);
 
     // Force re-render for message age updates (Refinement #2)
     const [, forceUpdate] = React.useReducer((x) => x + 1, 0);
 
-    // Auto-scroll to bottom when new messages arrive
+    // Auto-scroll to bottom when new messages arrive or a streamed one grows
+    const latestContentLength = messages.at(-1)?.content.length ?? 0;
     React.useEffect(() => {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, [messages.length, isThinking]);
+    }, [messages.length, latestContentLength, isThinking]);
 
     // Message age live updates - refresh every 30s (Refinement #2)
     React.useEffect(() => {
@@ -1136,17 +1692,17 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
     // Enhanced keyboard navigation (Refinement #9)
     React.useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
+        // Digits typed into the composer (times, decision ids) are text
+        const target = e.target as HTMLElement | null;
+        if (target?.closest("input, textarea, [contenteditable='true']")) {
+          return;
+        }
+
         // Agent switching via 1-4 keys
         if (["1", "2", "3", "4"].includes(e.key) && onSelectAgent) {
-          const agents: AgentPersona[] = [
-            "operations",
-            "markets",
-            "sentinel",
-            "governor",
-          ];
-          const index = parseInt(e.key) - 1;
-          if (agents[index]) {
-            onSelectAgent(agents[index]);
+          const agent = AGENT_PERSONA_IDS[parseInt(e.key) - 1];
+          if (agent) {
+            onSelectAgent(agent);
           }
         }
         // Esc to clear input (handled by input component focus)
@@ -1161,7 +1717,7 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
     const displayedQuestions = React.useMemo(() => {
       return suggestedQuestions && suggestedQuestions.length > 0
         ? suggestedQuestions
-        : agentConfig.defaultQuestions;
+        : agentConfig.suggestedQuestions;
     }, [suggestedQuestions, agentConfig]);
 
     // Limit messages to prevent memory issues
@@ -1172,13 +1728,53 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
     // Check if messages were truncated
     const messagesTruncated = messages.length > maxMessages;
 
+    // Commands go to onCommand; an @mention switches to the named agent
+    // and addresses the rest of the message to it
     const handleSendMessage = React.useCallback(
-      (message: string) => {
-        if (!disabled && !isThinking) {
-          onSendMessage(message, selectedAgent);
+      (message: string): string | null => {
+        if (disabled || isThinking || isStreaming) return null;
+
+        const parsed = parseComposerInput(message);
+        if (parsed.kind === "command" || parsed.kind === "invalid") {
+          if (!onCommand) {
+            onSendMessage(message, selectedAgent);
+            return null;
+          }
+          if (parsed.kind === "invalid") return parsed.error;
+          onCommand(parsed.command);
+          return null;
+        }
+
+        const agent = parsed.agent ?? selectedAgent;
+        if (agent !== selectedAgent) {
+          onSelectAgent?.(agent);
+        }
+        if (parsed.text) {
+          onSendMessage(parsed.text, agent);
         }
+        return null;
       },
-      [onSendMessage, selectedAgent, disabled, isThinking]
+      [
+        onSendMessage,
+        onSelectAgent,
+        onCommand,
+        selectedAgent,
+        disabled,
+        isThinking,
+        isStreaming,
+      ]
+    );
+
+    // Without onCommand only @mentions are completed
+    const suggest = React.useCallback(
+      (input: string) =>
+        onCommand || !input.trimStart().startsWith("/")
+          ? getComposerSuggestions(
+              input,
+              commandSources ?? { decisions: [], transactions: [] }
+            )
+          : [],
+      [onCommand, commandSources]
     );
 
     const handleSelectQuestion = React.useCallback(
@@ -1280,12 +1876,30 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
               )}
 
               {displayedMessages.map((message) => (
-                <MessageBubble
-                  key={message.id}
-                  message={message}
-                  compact={compact}
-                  onRetry={props.onRetry}
-                />
+                <React.Fragment key={message.id}>
+                  <MessageBubble
+                    message={message}
+                    compact={compact}
+                    onRetry={props.onRetry}
+                    onOpenCitation={onOpenCitation}
+                  />
+                  {message.roundtable && (
+                    <RoundtableReplies
+                      roundtable={message.roundtable}
+                      compact={compact}
+                      onOpenCitation={onOpenCitation}
+                    />
+                  )}
+                  {message.command && (
+                    <CommandResult
+                      messageId={message.id}
+                      result={message.command}
+                      compact={compact}
+                      onOpenCitation={onOpenCitation}
+                      onConfirmCommand={onConfirmCommand}
+                    />
+                  )}
+                </React.Fragment>
               ))}
 
               {/* Thinking indicator */}
@@ -1312,10 +1926,17 @@ export const AgentSidebar = React.forwardRef<HTMLDivElement, AgentSidebarProps>(
         {/* Message input */}
         <MessageInput
           onSendMessage={handleSendMessage}
+          onStop={onStop}
+          suggest={suggest}
           isThinking={isThinking}
+          isStreaming={isStreaming}
           disabled={disabled}
           compact={compact}
-          placeholder={`Ask ${agentConfig.label}...`}
+          placeholder={
+            onCommand
+              ? `Ask ${agentConfig.label}, or type / for commands...`
+              : `Ask ${agentConfig.label}...`
+          }
         />
       </div>
     );
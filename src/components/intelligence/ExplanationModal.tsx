@@ -18,6 +18,17 @@
  * 5. Cryptographic Proof (verification hash)
  * 6. Alternative Actions (what was considered but rejected)
  *
+ * Decisions re-explained after an incident open with a banner naming the
+ * amendment; "What changed" lists the reasoning, constraint and confidence
+ * changes since the previous version.
+ *
+ * With `onWhatIf`, data sources get sliders: moving one re-runs the decision
+ * with that input overridden and shows the action, confidence and any
+ * constraints that would have fired.
+ *
+ * With `onDownloadEvidence`, the footer offers the explanation as an evidence
+ * bundle (Markdown, HTML or JSON) with a SHA-256 manifest for auditors.
+ *
  * Behavioral Psychology:
  * - Calm revelation: Information unfolds, not overwhelms
  * - Confidence signals: Visual trust indicators throughout
@@ -33,7 +44,7 @@
 import * as React from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { cn } from "@/lib/utils";
-import { formatFreshness } from "@/lib/format";
+import { formatFreshness, truncateAddress } from "@/lib/format";
 import { COLORS, MOTION, BEHAVIOR, PERFORMANCE } from "@/lib/constants";
 import type {
   AgentPersona,
@@ -84,6 +95,9 @@ export interface DecisionInput {
 
   /** Trust score for this input (0-100) */
   trustScore?: number;
+
+  /** Values a what-if analysis may explore (numeric inputs only) */
+  range?: { min: number; max: number; step: number };
 }
 
 /**
@@ -155,6 +169,141 @@ export interface Explanation {
   impact?: "low" | "medium" | "high" | "critical";
 }
 
+/**
+ * Who wrote an explanation version: an agent, or the wallet (base58) of the
+ * person signed in when it was amended
+ */
+export type ExplanationAuthor =
+  | { kind: "agent"; agent: AgentPersona }
+  | { kind: "wallet"; address: string };
+
+/**
+ * One immutable version of a decision's explanation
+ */
+export interface ExplanationVersion {
+  /** Version number, starting at 1 */
+  version: number;
+
+  /** When the version was written (ISO 8601) */
+  createdAt: string;
+
+  /** Agent or person that wrote it */
+  author: ExplanationAuthor;
+
+  /** Why the explanation was written or amended */
+  reason: string;
+
+  /** Incident that prompted the amendment, if any */
+  incidentId?: string;
+
+  /** Wallet (base58) signed in when the version was written, if any */
+  signer?: string;
+
+  /** Explanation as of this version */
+  explanation: Explanation;
+}
+
+/**
+ * Version metadata without the explanation itself
+ */
+export type ExplanationVersionInfo = Omit<ExplanationVersion, "explanation">;
+
+/**
+ * Reasoning step added, removed or reworded between two versions
+ */
+export interface ExplanationStepChange {
+  change: "added" | "removed" | "changed";
+
+  /** Step number (from 1) in the newer version, or the older one if removed */
+  step: number;
+
+  /** Step text before (if removed or changed) */
+  before?: string;
+
+  /** Step text after (if added or changed) */
+  after?: string;
+}
+
+/**
+ * Constraint added, removed or re-evaluated between two versions
+ */
+export interface ExplanationConstraintChange {
+  change: "added" | "removed" | "changed";
+
+  /** Constraint the change applies to */
+  description: string;
+
+  /** Constraint before (if removed or changed) */
+  before?: Constraint;
+
+  /** Constraint after (if added or changed) */
+  after?: Constraint;
+}
+
+/**
+ * Structured difference between two versions of an explanation
+ */
+export interface ExplanationDiff {
+  /** Older version */
+  from: ExplanationVersionInfo;
+
+  /** Newer version */
+  to: ExplanationVersionInfo;
+
+  /** Summary before and after (null if unchanged) */
+  summary: { before: string; after: string } | null;
+
+  /** Reasoning step changes, in step order */
+  reasoning: ExplanationStepChange[];
+
+  /** Constraint changes */
+  constraints: ExplanationConstraintChange[];
+
+  /** Confidence before and after (null if unchanged) */
+  confidence: { before?: number; after?: number; delta: number } | null;
+}
+
+/**
+ * Decision the agent would make, with the constraints it checked
+ */
+export interface WhatIfOutcome {
+  /** Action taken */
+  action: string;
+
+  /** Confidence in the action (0-100) */
+  confidence: number;
+
+  /** Constraints checked; unsatisfied ones would have fired */
+  constraints: Constraint[];
+}
+
+/**
+ * Decision re-run with some of its inputs overridden
+ */
+export interface WhatIfResult {
+  decisionId: string;
+
+  /** Explanation version the inputs came from */
+  version: number;
+
+  /** Inputs with the overrides applied */
+  inputs: DecisionInput[];
+
+  /** Decision on the recorded inputs */
+  original: WhatIfOutcome;
+
+  /** Decision on the overridden inputs */
+  outcome: WhatIfOutcome;
+
+  /** Whether the overrides lead to a different action */
+  actionChanged: boolean;
+}
+
+/**
+ * Evidence bundle download formats
+ */
+export type EvidenceBundleFormat = "md" | "html" | "json";
+
 /**
  * ExplanationModal props
  */
@@ -162,6 +311,9 @@ export interface ExplanationModalProps {
   /** Explanation to display */
   explanation: Explanation | null;
 
+  /** Changes from the previous version (shows a "What changed" view) */
+  changes?: ExplanationDiff | null;
+
   /** Whether modal is open */
   isOpen: boolean;
 
@@ -171,6 +323,15 @@ export interface ExplanationModalProps {
   /** Optional override handler (for critical decisions) */
   onOverride?: () => void;
 
+  /**
+   * Re-run the decision with input overrides (keyed by input key). When set,
+   * numeric inputs with a range get what-if sliders.
+   */
+  onWhatIf?: (overrides: Record<string, number>) => Promise<WhatIfResult>;
+
+  /** Download the explanation as an evidence bundle (shows "Download evidence") */
+  onDownloadEvidence?: (format: EvidenceBundleFormat) => void;
+
   /** Custom className */
   className?: string;
 }
@@ -205,6 +366,9 @@ const AGENT_METADATA: Record<
   },
 };
 
+/** How long sliders must settle before the decision is re-run */
+const WHAT_IF_DEBOUNCE_MS = 250;
+
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
@@ -498,9 +662,18 @@ function ConstraintsSection({ constraints }: { constraints: Constraint[] }) {
 }
 
 /**
- * Data sources section with trust mathematics and decay animations
+ * Data sources section with trust mathematics and decay animations. With
+ * `onOverrideChange`, numeric inputs that have a range get a what-if slider.
  */
-function DataSourcesSection({ inputs }: { inputs: DecisionInput[] }) {
+function DataSourcesSection({
+  inputs,
+  overrides = {},
+  onOverrideChange,
+}: {
+  inputs: DecisionInput[];
+  overrides?: Record<string, number>;
+  onOverrideChange?: (key: string, value: number) => void;
+}) {
   return (
     <div className="space-y-3">
       <h4 className="text-body-sm font-semibold text-foreground-secondary uppercase tracking-wide">
@@ -560,8 +733,30 @@ function DataSourcesSection({ inputs }: { inputs: DecisionInput[] }) {
                     )}
                   </div>
                   <p className="text-body-sm text-foreground-primary mb-2">
-                    {String(input.value)}
+                    {String(overrides[input.key] ?? input.value)}
+                    {overrides[input.key] !== undefined && (
+                      <span className="text-detail-sm text-foreground-tertiary">
+                        {" "}
+                        (recorded {String(input.value)})
+                      </span>
+                    )}
                   </p>
+                  {onOverrideChange &&
+                    input.range &&
+                    typeof input.value === "number" && (
+                      <input
+                        type="range"
+                        min={input.range.min}
+                        max={input.range.max}
+                        step={input.range.step}
+                        value={overrides[input.key] ?? input.value}
+                        onChange={(e) =>
+                          onOverrideChange(input.key, Number(e.target.value))
+                        }
+                        aria-label={`What if ${input.key} were`}
+                        className="w-full mb-2 accent-current"
+                      />
+                    )}
                   <div className="flex items-center gap-2 text-detail-xs text-foreground-tertiary">
                     <span className="font-mono">{input.source}</span>
                     <span>•</span>
@@ -608,6 +803,96 @@ function DataSourcesSection({ inputs }: { inputs: DecisionInput[] }) {
   );
 }
 
+/**
+ * Outcome of re-running the decision with the slider values
+ */
+function WhatIfSection({
+  result,
+  isLoading,
+  error,
+  onReset,
+}: {
+  result: WhatIfResult | null;
+  isLoading: boolean;
+  error: string | null;
+  onReset: () => void;
+}) {
+  const fired =
+    result?.outcome.constraints.filter((constraint) => !constraint.satisfied) ??
+    [];
+
+  return (
+    <div
+      className="p-4 rounded-glass-md border border-glass-border bg-glass-light space-y-3"
+      aria-live="polite"
+      aria-busy={isLoading}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <h4 className="text-body-sm font-semibold text-foreground-secondary uppercase tracking-wide">
+          What If
+        </h4>
+        <PressInteraction>
+          <button
+            type="button"
+            onClick={onReset}
+            className="px-3 py-1.5 rounded-glass-sm text-detail-sm font-medium text-foreground-primary border border-glass-border hover:bg-glass-medium transition-colors duration-fast"
+          >
+            Reset inputs
+          </button>
+        </PressInteraction>
+      </div>
+
+      {error && <p className="text-body-sm text-status-critical">{error}</p>}
+
+      {!result && !error && (
+        <p className="text-body-sm text-foreground-tertiary">
+          Re-running the decision…
+        </p>
+      )}
+
+      {result && (
+        <div
+          className={cn(
+            "space-y-2 text-body-sm transition-opacity duration-fast",
+            isLoading && "opacity-60"
+          )}
+        >
+          <p className="text-foreground-tertiary">
+            Recorded: {result.original.action} ({result.original.confidence}%)
+          </p>
+          <p
+            className={cn(
+              "font-semibold",
+              result.actionChanged
+                ? "text-status-warning"
+                : "text-foreground-primary"
+            )}
+          >
+            {result.actionChanged ? "Would instead: " : "Would still: "}
+            {result.outcome.action} ({result.outcome.confidence}%)
+          </p>
+          {fired.length > 0 ? (
+            <ul className="space-y-1">
+              {fired.map((constraint) => (
+                <li
+                  key={constraint.description}
+                  className="text-status-critical"
+                >
+                  Would fire: {constraint.description}
+                  {constraint.actual !== undefined &&
+                    ` (${constraint.actual} vs limit ${constraint.limit})`}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-status-verified">No constraints would fire.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Proof section with glow animation
  */
@@ -743,6 +1028,206 @@ function AlternativesSection({
   );
 }
 
+/**
+ * Banner for a re-explained decision, expanding into what changed since the
+ * previous version
+ */
+function WhatChangedSection({ changes }: { changes: ExplanationDiff }) {
+  const [isExpanded, setIsExpanded] = React.useState(false);
+  const { from, to } = changes;
+  const authorName =
+    to.author.kind === "agent"
+      ? AGENT_METADATA[to.author.agent].name
+      : truncateAddress(to.author.address, 4, 4);
+  const changeMarks: Record<
+    ExplanationStepChange["change"],
+    { mark: string; className: string }
+  > = {
+    added: { mark: "+", className: "text-status-verified" },
+    removed: { mark: "−", className: "text-status-critical" },
+    changed: { mark: "~", className: "text-status-warning" },
+  };
+
+  return (
+    <div className="p-4 rounded-glass-md border border-status-warning/30 bg-status-warning/5 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-body-sm font-semibold text-foreground-primary">
+            {to.incidentId
+              ? `Re-explained after incident ${to.incidentId}`
+              : "Explanation amended"}
+          </p>
+          <p className="text-detail-sm text-foreground-secondary mt-1">
+            Version {to.version} by {authorName} ·{" "}
+            {new Date(to.createdAt).toLocaleString()} · {to.reason}
+          </p>
+        </div>
+        <PressInteraction>
+          <button
+            type="button"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-expanded={isExpanded}
+            className="shrink-0 px-3 py-1.5 rounded-glass-sm text-detail-sm font-medium text-foreground-primary border border-glass-border hover:bg-glass-medium transition-colors duration-fast"
+          >
+            {isExpanded ? "Hide changes" : "What changed"}
+          </button>
+        </PressInteraction>
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-3 pt-3 border-t border-glass-border text-body-sm">
+          <p className="text-detail-sm text-foreground-tertiary">
+            Version {from.version} ({new Date(from.createdAt).toLocaleString()})
+            → version {to.version}
+          </p>
+
+          {changes.summary && (
+            <div>
+              <p className="text-detail-sm text-foreground-secondary uppercase tracking-wide">
+                Decision
+              </p>
+              <p className="text-status-critical line-through">
+                {changes.summary.before}
+              </p>
+              <p className="text-status-verified">{changes.summary.after}</p>
+            </div>
+          )}
+
+          {changes.confidence && (
+            <p className="text-foreground-primary">
+              Confidence {changes.confidence.before ?? "—"}% →{" "}
+              {changes.confidence.after ?? "—"}% (
+              {changes.confidence.delta > 0 ? "+" : ""}
+              {changes.confidence.delta} pts)
+            </p>
+          )}
+
+          {changes.reasoning.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-detail-sm text-foreground-secondary uppercase tracking-wide">
+                Reasoning
+              </p>
+              {changes.reasoning.map((change) => (
+                <div
+                  key={`${change.change}-${change.step}`}
+                  className="flex gap-2"
+                >
+                  <span
+                    className={cn(
+                      "font-mono shrink-0",
+                      changeMarks[change.change].className
+                    )}
+                    aria-label={change.change}
+                  >
+                    {changeMarks[change.change].mark} {change.step}
+                  </span>
+                  <div>
+                    {change.before && (
+                      <p
+                        className={cn(
+                          "text-foreground-tertiary",
+                          change.change === "removed" && "line-through"
+                        )}
+                      >
+                        {change.change === "changed" ? "Was: " : ""}
+                        {change.before}
+                      </p>
+                    )}
+                    {change.after && (
+                      <p className="text-foreground-primary">{change.after}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {changes.constraints.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-detail-sm text-foreground-secondary uppercase tracking-wide">
+                Safety Constraints
+              </p>
+              {changes.constraints.map((change) => (
+                <div key={change.description} className="flex gap-2">
+                  <span
+                    className={cn(
+                      "font-mono shrink-0",
+                      changeMarks[change.change].className
+                    )}
+                    aria-label={change.change}
+                  >
+                    {changeMarks[change.change].mark}
+                  </span>
+                  <p
+                    className={cn(
+                      "text-foreground-primary",
+                      change.change === "removed" && "line-through"
+                    )}
+                  >
+                    {change.description}
+                    {change.after && (
+                      <span className="text-foreground-tertiary">
+                        {" "}
+                        (
+                        {change.after.satisfied ? "satisfied" : "not satisfied"}
+                        {change.before &&
+                          change.before.satisfied !== change.after.satisfied &&
+                          `, was ${change.before.satisfied ? "satisfied" : "not satisfied"}`}
+                        )
+                      </span>
+                    )}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// EVIDENCE DOWNLOAD
+// ============================================================================
+
+const EVIDENCE_FORMAT_LABELS: Record<EvidenceBundleFormat, string> = {
+  md: "Markdown",
+  html: "HTML",
+  json: "JSON",
+};
+
+function EvidenceDownload({
+  onDownload,
+}: {
+  onDownload: (format: EvidenceBundleFormat) => void;
+}) {
+  return (
+    <div
+      className="flex items-center gap-1"
+      role="group"
+      aria-label="Download evidence"
+    >
+      <span className="text-detail-sm text-foreground-secondary mr-1">
+        Download evidence
+      </span>
+      {(Object.keys(EVIDENCE_FORMAT_LABELS) as EvidenceBundleFormat[]).map(
+        (format) => (
+          <PressInteraction key={format}>
+            <button
+              onClick={() => onDownload(format)}
+              className="px-2 py-1 rounded-glass-sm text-detail-sm font-medium text-foreground-primary border border-glass-border hover:bg-glass-medium transition-colors duration-normal"
+              aria-label={`Download evidence as ${EVIDENCE_FORMAT_LABELS[format]}`}
+            >
+              {format.toUpperCase()}
+            </button>
+          </PressInteraction>
+        )
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -767,11 +1252,68 @@ function AlternativesSection({
  */
 export function ExplanationModal({
   explanation,
+  changes,
   isOpen,
   onClose,
   onOverride,
+  onWhatIf,
+  onDownloadEvidence,
   className,
 }: ExplanationModalProps) {
+  const [overrides, setOverrides] = React.useState<Record<string, number>>({});
+  const [whatIf, setWhatIf] = React.useState<WhatIfResult | null>(null);
+  const [whatIfError, setWhatIfError] = React.useState<string | null>(null);
+  const [isWhatIfLoading, setIsWhatIfLoading] = React.useState(false);
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  const resetWhatIf = React.useCallback(() => {
+    setOverrides({});
+    setWhatIf(null);
+    setWhatIfError(null);
+  }, []);
+
+  const handleOverrideChange = React.useCallback(
+    (key: string, value: number) => {
+      setOverrides((current) => ({ ...current, [key]: value }));
+    },
+    []
+  );
+
+  // A different decision starts from its recorded inputs
+  React.useEffect(() => {
+    resetWhatIf();
+  }, [explanation?.id, resetWhatIf]);
+
+  // Re-run the decision once the sliders settle
+  React.useEffect(() => {
+    if (!onWhatIf || !hasOverrides) return;
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      setIsWhatIfLoading(true);
+      try {
+        const result = await onWhatIf(overrides);
+        if (isCurrent) {
+          setWhatIf(result);
+          setWhatIfError(null);
+        }
+      } catch (error) {
+        if (isCurrent) {
+          setWhatIfError(
+            error instanceof Error ? error.message : "What-if analysis failed"
+          );
+        }
+      } finally {
+        if (isCurrent) setIsWhatIfLoading(false);
+      }
+    }, WHAT_IF_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [overrides, hasOverrides, onWhatIf]);
+
   // Close on Escape key
   React.useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -831,6 +1373,9 @@ export function ExplanationModal({
                         timestamp={explanation.timestamp}
                       />
 
+                      {/* Re-explanation banner with what changed */}
+                      {changes && <WhatChangedSection changes={changes} />}
+
                       {/* Decision Summary - already uses OperationalMotion */}
                       <DecisionSummary
                         summary={explanation.summary}
@@ -867,9 +1412,25 @@ export function ExplanationModal({
                         agent={explanation.agent}
                         delay={BEHAVIOR.confidenceDelay / 1000 + 0.2}
                       >
-                        <DataSourcesSection inputs={explanation.inputs} />
+                        <DataSourcesSection
+                          inputs={explanation.inputs}
+                          overrides={overrides}
+                          onOverrideChange={
+                            onWhatIf ? handleOverrideChange : undefined
+                          }
+                        />
                       </AgentMotion>
 
+                      {/* What-if outcome for the slider values */}
+                      {onWhatIf && hasOverrides && (
+                        <WhatIfSection
+                          result={whatIf}
+                          isLoading={isWhatIfLoading}
+                          error={whatIfError}
+                          onReset={resetWhatIf}
+                        />
+                      )}
+
                       {/* Proof */}
                       <AgentMotion
                         agent={explanation.agent}
@@ -904,6 +1465,10 @@ export function ExplanationModal({
                       </button>
                     </PressInteraction>
 
+                    {onDownloadEvidence && (
+                      <EvidenceDownload onDownload={onDownloadEvidence} />
+                    )}
+
                     {onOverride && (
                       <EmergencyOverride isActive={true}>
                         <InstantFeedback>
@@ -6,6 +6,8 @@
  *
  * Design Philosophy:
  * - **Explainable**: Every program instruction decoded to human language
+ *   ("Transfer 12.5 SOLAR from treasury to you") by the decoder registered
+ *   for its program; instructions no decoder knows are shown raw
  * - **Verifiable**: Link to blockchain explorer for independent audit
  * - **Contextual**: Show AI agent that initiated transaction
  * - **Trustworthy**: Display success/failure states with error context
@@ -20,6 +22,7 @@
  *
  * Interaction Model:
  * - Hover program names: Show program ID tooltip
+ * - Hover decoded summaries and named accounts: Show raw instruction/address
  * - Click signature: Copy to clipboard
  * - Click explorer link: Open in new tab
  * - Click agent: Show agent context
@@ -40,6 +43,8 @@ import { cn } from "@/lib/utils";
 import { formatRelativeTime, formatNumber } from "@/lib/format";
 import type { AgentPersona, TrustGrade, OperationalStatus } from "@/lib/types";
 import { PERFORMANCE, BEHAVIOR } from "@/lib/constants";
+import { AGENT_PERSONAS } from "@/lib/agents";
+import { decodeInstruction, describeAmount } from "@/lib/instructions";
 
 import { GlassCard } from "@/components/ui/glass-card";
 import { StatPill } from "@/components/primitives/StatPill";
@@ -86,6 +91,48 @@ export interface ProgramInstruction {
   accounts?: string[];
 }
 
+/**
+ * Account an instruction names, with the role it plays
+ */
+export interface DecodedAccount {
+  /** Role in the instruction (e.g. "source", "destination", "authority") */
+  role: string;
+
+  /** Account address (base58) */
+  address: string;
+
+  /** Readable name ("you", "treasury", a program name), if known */
+  label?: string;
+}
+
+/**
+ * Amount an instruction moves or sets, adjusted for the token's decimals
+ */
+export interface DecodedAmount {
+  /** What the amount is (e.g. "transfer", "priority fee") */
+  role: string;
+
+  /** Amount in whole units (12.5, not 12500000) */
+  value: number;
+
+  /** Unit symbol (SOL, SOLAR, micro-lamports, …) */
+  symbol: string;
+}
+
+/**
+ * Instruction decoded for people: what it does, to whom and how much
+ */
+export interface DecodedInstruction {
+  /** One line, e.g. "Transfer 12.5 SOLAR from treasury to you" */
+  summary: string;
+
+  /** Accounts the instruction names */
+  accounts: DecodedAccount[];
+
+  /** Amounts the instruction moves or sets */
+  amounts: DecodedAmount[];
+}
+
 /**
  * Transaction status
  */
@@ -162,37 +209,13 @@ export interface TxReceiptProps {
 
   /** Loading state */
   isLoading?: boolean;
-}
 
-// ============================================================================
-// AGENT METADATA
-// ============================================================================
+  /** Connected wallet; decoded instructions name it "you" */
+  viewerAddress?: string;
 
-const AGENT_CONFIG: Record<
-  AgentPersona,
-  { icon: string; label: string; color: string }
-> = {
-  operations: {
-    icon: "⚡",
-    label: "Operations",
-    color: "text-agent-operations",
-  },
-  markets: {
-    icon: "📊",
-    label: "Markets",
-    color: "text-agent-markets",
-  },
-  sentinel: {
-    icon: "🛡️",
-    label: "Sentinel",
-    color: "text-agent-sentinel",
-  },
-  governor: {
-    icon: "⚖️",
-    label: "Governor",
-    color: "text-agent-governance",
-  },
-};
+  /** Readable names by address (e.g. the viewer's token accounts) */
+  accountLabels?: Record<string, string>;
+}
 
 // ============================================================================
 // UTILITY FUNCTIONS
@@ -551,7 +574,7 @@ const AgentAttribution = React.memo(function AgentAttribution({
   dataAgeSeconds: number;
   isInMaintenance?: boolean;
 }) {
-  const config = AGENT_CONFIG[agent];
+  const config = AGENT_PERSONAS[agent];
   const isInteractive = !!onClick;
 
   const handleClick = React.useCallback(() => {
@@ -587,7 +610,7 @@ const AgentAttribution = React.memo(function AgentAttribution({
         "bg-glass-light border border-glass-border",
         "transition-all duration-fast",
         compact ? "text-detail-sm" : "text-body-sm",
-        config.color,
+        config.textClass,
         isInteractive && "cursor-pointer",
         isInteractive &&
           "hover:bg-glass-medium hover:border-glass-border-heavy",
@@ -836,16 +859,27 @@ const InstructionItem = React.memo(function InstructionItem({
   showDetails,
   compact,
   agent,
+  viewerAddress,
+  accountLabels,
 }: {
   instruction: ProgramInstruction;
   index: number;
   showDetails?: boolean;
   compact?: boolean;
   agent: AgentPersona;
+  viewerAddress?: string;
+  accountLabels?: Record<string, string>;
 }) {
   const [isExpanded, setIsExpanded] = React.useState(false);
 
+  const decoded = React.useMemo(
+    () =>
+      decodeInstruction(instruction, { viewer: viewerAddress, accountLabels }),
+    [instruction, viewerAddress, accountLabels]
+  );
+
   const hasDetails =
+    (decoded && (decoded.amounts.length > 0 || decoded.accounts.length > 0)) ||
     (instruction.args && Object.keys(instruction.args).length > 0) ||
     (instruction.accounts && instruction.accounts.length > 0);
 
@@ -884,8 +918,9 @@ const InstructionItem = React.memo(function InstructionItem({
                 "text-foreground-secondary",
                 compact ? "text-detail-sm" : "text-body-sm"
               )}
+              title={decoded ? instruction.instruction : undefined}
             >
-              {instruction.instruction}
+              {decoded?.summary ?? instruction.instruction}
             </p>
 
             {/* Program ID tooltip */}
@@ -919,6 +954,67 @@ const InstructionItem = React.memo(function InstructionItem({
 
             {isExpanded && hasDetails && (
               <div className="mt-2 space-y-2">
+                {/* Decoded amounts */}
+                {decoded && decoded.amounts.length > 0 && (
+                  <div>
+                    <p
+                      className={cn(
+                        "text-foreground-tertiary mb-1",
+                        compact ? "text-detail-xs" : "text-detail-sm"
+                      )}
+                    >
+                      Amounts:
+                    </p>
+                    <ul className="space-y-1">
+                      {decoded.amounts.map((amount, i) => (
+                        <li
+                          key={i}
+                          className={cn(
+                            "text-foreground-secondary",
+                            compact ? "text-detail-xs" : "text-detail-sm"
+                          )}
+                        >
+                          {amount.role}:{" "}
+                          <span className="font-mono text-foreground-primary">
+                            {describeAmount(amount.value, amount.symbol)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Named accounts */}
+                {decoded && decoded.accounts.length > 0 && (
+                  <div>
+                    <p
+                      className={cn(
+                        "text-foreground-tertiary mb-1",
+                        compact ? "text-detail-xs" : "text-detail-sm"
+                      )}
+                    >
+                      Named accounts:
+                    </p>
+                    <ul className="space-y-1">
+                      {decoded.accounts.map((account, i) => (
+                        <li
+                          key={i}
+                          className={cn(
+                            "text-foreground-secondary",
+                            compact ? "text-detail-xs" : "text-detail-sm"
+                          )}
+                          title={account.address}
+                        >
+                          {account.role}:{" "}
+                          <span className="font-mono text-foreground-primary">
+                            {account.label ?? formatSignature(account.address)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Arguments */}
                 {instruction.args &&
                   Object.keys(instruction.args).length > 0 && (
@@ -1063,6 +1159,8 @@ export const TxReceipt = React.forwardRef<HTMLDivElement, TxReceiptProps>(
       showDetails = false,
       compact = false,
       isLoading = false,
+      viewerAddress,
+      accountLabels,
       ...props
     },
     ref
@@ -1171,6 +1269,8 @@ export const TxReceipt = React.forwardRef<HTMLDivElement, TxReceiptProps>(
                       showDetails={showDetails}
                       compact={compact}
                       agent={transaction.agent}
+                      viewerAddress={viewerAddress}
+                      accountLabels={accountLabels}
                     />
                   ))}
                 </div>
@@ -1185,6 +1285,8 @@ export const TxReceipt = React.forwardRef<HTMLDivElement, TxReceiptProps>(
                         showDetails={showDetails}
                         compact={compact}
                         agent={transaction.agent}
+                        viewerAddress={viewerAddress}
+                        accountLabels={accountLabels}
                       />
                     ))}
                   </div>
@@ -1365,12 +1467,16 @@ export function TxReceiptList({
   showDetails = false,
   compact = false,
   className,
+  viewerAddress,
+  accountLabels,
 }: {
   transactions: SolanaTransaction[];
   onAgentClick?: (agent: AgentPersona) => void;
   showDetails?: boolean;
   compact?: boolean;
   className?: string;
+  viewerAddress?: string;
+  accountLabels?: Record<string, string>;
 }) {
   return (
     <Stagger staggerDelay={0.1} variant="slide-up">
@@ -1382,6 +1488,8 @@ export function TxReceiptList({
             onAgentClick={onAgentClick}
             showDetails={showDetails}
             compact={compact}
+            viewerAddress={viewerAddress}
+            accountLabels={accountLabels}
           />
         ))}
       </div>
@@ -36,6 +36,7 @@
 import * as React from "react";
 import { cn } from "@/lib/utils";
 import { COLORS, MOTION } from "@/lib/constants";
+import { AGENT_PERSONAS } from "@/lib/agents";
 import type { AgentPersona } from "@/lib/types/core";
 
 // ============================================================================
@@ -198,7 +199,7 @@ const INTENSITY_OPACITY: Record<FlowIntensity, number> = {
 
 /**
  * Get color from agent persona or status
- * Integrates with AIMP's AGENTS constant for semantic coloring
+ * Integrates with the agent persona registry for semantic coloring
  */
 function getFlowColor(
   agent?: AgentPersona,
@@ -212,15 +213,7 @@ function getFlowColor(
   }
 
   if (agent) {
-    // Map agent persona to AGENTS constant for color consistency
-    // Note: Types file has sentinel/governor, constants have maintenance/governance
-    const colorMap: Record<AgentPersona, keyof typeof COLORS.agent> = {
-      operations: "operations",
-      markets: "markets",
-      sentinel: "maintenance", // Map sentinel -> maintenance color
-      governor: "governance", // Map governor -> governance color
-    };
-    return COLORS.agent[colorMap[agent]];
+    return AGENT_PERSONAS[agent].color;
   }
 
   return COLORS.agent.operations; // Default to operations blue
@@ -33,7 +33,12 @@ import * as React from "react";
 import { motion, type HTMLMotionProps, type Variants } from "motion/react";
 import { cn } from "@/lib/utils";
 import { MOTION, PERFORMANCE, BEHAVIOR } from "@/lib/constants";
-import type { TrustMathematics, OperationalStatus } from "@/lib/types";
+import { AGENT_PERSONAS } from "@/lib/agents";
+import type {
+  AgentPersona,
+  TrustMathematics,
+  OperationalStatus,
+} from "@/lib/types";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -48,7 +53,7 @@ export type SlideDirection = "up" | "down" | "left" | "right";
  * Agent persona for animation calibration
  * Each agent has distinct motion characteristics reflecting their cognitive style
  */
-export type AgentPersona = "operations" | "markets" | "sentinel" | "governor";
+export type { AgentPersona };
 
 /**
  * Trust level for motion intensity modulation
@@ -400,19 +405,12 @@ function usePrefersReducedMotion(): boolean {
 
 /**
  * Get agent-specific motion multiplier
- * Each agent persona has distinct motion characteristics
+ * Each agent persona moves at its registry tone's pace
  */
 function getAgentMotionMultiplier(agent?: AgentPersona): number {
   if (!agent) return 1.0;
 
-  const multipliers: Record<AgentPersona, number> = {
-    operations: 1.0, // Steady, technical precision
-    markets: 1.2, // Quick, analytical responses
-    sentinel: 0.9, // Measured, vigilant caution
-    governor: 1.1, // Authoritative, balanced
-  };
-
-  return multipliers[agent];
+  return AGENT_PERSONAS[agent].tone.pace;
 }
 
 /**
@@ -31,27 +31,9 @@
 import * as React from "react";
 import { cva, type VariantProps } from "class-variance-authority";
 import { cn } from "@/lib/utils";
-import { PERFORMANCE, AGENTS } from "@/lib/constants";
-import type { TrustMathematics } from "@/lib/types";
-
-// ============================================================================
-// TYPES - Agent Persona Mapping
-// ============================================================================
-
-/**
- * Agent persona types from AIMP constants (actual implementation)
- * Maps to AGENTS constant keys
- */
-export type AgentPersonaConstant = keyof typeof AGENTS;
-
-/**
- * Type guard to check if a string is a valid agent persona from constants
- */
-const isValidAgentPersona = (
-  persona: string
-): persona is AgentPersonaConstant => {
-  return persona in AGENTS;
-};
+import { PERFORMANCE } from "@/lib/constants";
+import { AGENT_PERSONAS } from "@/lib/agents";
+import type { AgentPersona, TrustMathematics } from "@/lib/types";
 
 // ============================================================================
 // STATUS PILL VARIANTS
@@ -302,10 +284,9 @@ export interface StatPillProps
   trustMathematics?: TrustMathematics;
 
   /**
-   * Agent persona for agent-specific styling and icons
-   * Uses actual AGENTS constant keys: "operations" | "markets" | "maintenance" | "governance"
+   * Agent persona for agent-specific styling and icons (see `@/lib/agents`)
    */
-  agentPersona?: AgentPersonaConstant;
+  agentPersona?: AgentPersona;
 }
 
 // ============================================================================
@@ -430,9 +411,9 @@ export const StatPill = React.forwardRef<HTMLDivElement, StatPillProps>(
     const displayIcon = React.useMemo(() => {
       if (!showIcon) return null;
       if (icon) return icon;
-      // Use agent icon if agent persona is provided and valid
-      if (agentPersona && isValidAgentPersona(agentPersona)) {
-        return AGENTS[agentPersona].icon;
+      // Use agent icon if agent persona is provided
+      if (agentPersona) {
+        return AGENT_PERSONAS[agentPersona].icon;
       }
       return STATUS_ICONS[status];
     }, [showIcon, icon, agentPersona, status]);
@@ -573,7 +554,7 @@ TrustPill.displayName = "TrustPill";
 
 /**
  * AgentPill - Pre-configured for agent persona status
- * Uses AIMP agent constants for consistent persona representation
+ * Uses the persona registry for consistent persona representation
  *
  * @example
  * ```tsx
@@ -584,10 +565,10 @@ TrustPill.displayName = "TrustPill";
 export const AgentPill = React.forwardRef<
   HTMLDivElement,
   Omit<StatPillProps, "agentPersona"> & {
-    persona: AgentPersonaConstant;
+    persona: AgentPersona;
   }
 >(({ persona, label, ...props }, ref) => {
-  const agentConfig = AGENTS[persona];
+  const agentConfig = AGENT_PERSONAS[persona];
 
   return (
     <StatPill
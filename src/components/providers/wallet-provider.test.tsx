@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import {
+  ConnectionProvider,
+  WalletProvider,
+} from "@solana/wallet-adapter-react";
+import { act, cleanup, render, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  MockWalletAdapter,
+  MockWalletName,
+  readWalletCookie,
+  walletCookie,
+} from "@/lib/wallet";
+
+import { WalletCookieSync } from "./wallet-provider";
+
+const router = vi.hoisted(() => ({ refresh: vi.fn() }));
+vi.mock("next/navigation", () => ({ useRouter: () => router }));
+
+/** Mount the cookie sync with `adapter` selected, as a returning visitor */
+function renderWithWallet(adapter: MockWalletAdapter, selected = true) {
+  if (selected) {
+    localStorage.setItem("walletName", JSON.stringify(MockWalletName));
+  }
+
+  return render(
+    <ConnectionProvider endpoint="http://127.0.0.1:8899">
+      <WalletProvider wallets={[adapter]} autoConnect>
+        <WalletCookieSync />
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+}
+
+/** Address of the default mock wallet */
+async function mockWalletAddress(): Promise<string> {
+  const probe = new MockWalletAdapter();
+  await probe.connect();
+  return probe.publicKey!.toBase58();
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  document.cookie = walletCookie(null);
+  router.refresh.mockClear();
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("WalletCookieSync", () => {
+  it("names the wallet once it connects and refreshes the page", async () => {
+    const adapter = new MockWalletAdapter();
+    renderWithWallet(adapter);
+
+    const address = await mockWalletAddress();
+    await waitFor(() =>
+      expect(readWalletCookie(document.cookie)).toBe(address)
+    );
+    expect(router.refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets the wallet when it disconnects", async () => {
+    const adapter = new MockWalletAdapter();
+    renderWithWallet(adapter);
+    await waitFor(() => expect(adapter.connected).toBe(true));
+
+    await act(() => adapter.disconnect());
+
+    await waitFor(() => expect(readWalletCookie(document.cookie)).toBeNull());
+    expect(router.refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the cookie while the selected wallet reconnects", async () => {
+    const adapter = new MockWalletAdapter({ connectDelayMs: 50 });
+    const address = await mockWalletAddress();
+    document.cookie = walletCookie(address);
+
+    renderWithWallet(adapter);
+    expect(readWalletCookie(document.cookie)).toBe(address);
+
+    await waitFor(() => expect(adapter.connected).toBe(true));
+    expect(readWalletCookie(document.cookie)).toBe(address);
+    expect(router.refresh).not.toHaveBeenCalled();
+  });
+
+  it("clears a cookie left behind when no wallet is selected", async () => {
+    document.cookie = walletCookie(await mockWalletAddress());
+
+    renderWithWallet(new MockWalletAdapter(), false);
+
+    await waitFor(() => expect(readWalletCookie(document.cookie)).toBeNull());
+    expect(router.refresh).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import type { ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import type { Adapter, WalletError } from "@solana/wallet-adapter-base";
+import { BackpackWalletAdapter } from "@solana/wallet-adapter-backpack";
+import { CoinbaseWalletAdapter } from "@solana/wallet-adapter-coinbase";
+import { LedgerWalletAdapter } from "@solana/wallet-adapter-ledger";
+import { PhantomWalletAdapter } from "@solana/wallet-adapter-phantom";
+import {
+  ConnectionProvider,
+  WalletProvider,
+  useWallet,
+} from "@solana/wallet-adapter-react";
+import { SolflareWalletAdapter } from "@solana/wallet-adapter-solflare";
+import { mockWallet } from "@/lib/config/flags";
+import { BLOCKCHAIN } from "@/lib/constants";
+import {
+  MockWalletAdapter,
+  readWalletCookie,
+  walletCookie,
+} from "@/lib/wallet";
+
+/** Wallets offered on `/connect`; the mock one only with `NEXT_PUBLIC_MOCK_WALLET` */
+function createWalletAdapters(): Adapter[] {
+  return [
+    new PhantomWalletAdapter(),
+    new SolflareWalletAdapter(),
+    new LedgerWalletAdapter(),
+    new CoinbaseWalletAdapter(),
+    new BackpackWalletAdapter(),
+    ...(mockWallet ? [new MockWalletAdapter({ connectDelayMs: 300 })] : []),
+  ];
+}
+
+function handleWalletError(error: WalletError) {
+  console.error("Wallet error:", error);
+}
+
+/**
+ * Keeps the wallet cookie on the connected wallet and re-renders server
+ * components (the dashboard's portfolio) when it changes
+ */
+export function WalletCookieSync() {
+  const { publicKey, wallet, connecting } = useWallet();
+  const router = useRouter();
+  const address = publicKey?.toBase58() ?? null;
+
+  useEffect(() => {
+    // A selected wallet without a key is still (auto-)connecting
+    if (!address && (connecting || wallet)) return;
+    if (readWalletCookie(document.cookie) === address) return;
+
+    document.cookie = walletCookie(address);
+    router.refresh();
+  }, [address, connecting, wallet, router]);
+
+  return null;
+}
+
+export function AIMPWalletProvider({ children }: { children: ReactNode }) {
+  const wallets = useMemo(() => createWalletAdapters(), []);
+
+  return (
+    <ConnectionProvider
+      endpoint={BLOCKCHAIN.rpcEndpoint}
+      config={{ commitment: BLOCKCHAIN.commitment }}
+    >
+      <WalletProvider wallets={wallets} autoConnect onError={handleWalletError}>
+        <WalletCookieSync />
+        {children}
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+}
@@ -0,0 +1,133 @@
+import type { AnswerCatalog } from "./types";
+
+export const DE_CATALOG: AnswerCatalog = {
+  templates: {
+    operations: {
+      default:
+        "Ich steuere gerade den Energieeinsatz, um den Ertrag zu optimieren und dabei die Sicherheitsmargen einzuhalten. Der Batterie-SOC liegt bei {{batterySOC}} %, und wir speisen in diesem Spitzenpreisfenster {{gridExport}} kW ins Netz ein. Alle Systeme arbeiten normal.",
+      dispatch:
+        "Die aktuelle Einsatzstrategie priorisiert die Batterieentladung in den Spitzenlaststunden (16-20 Uhr), wenn die Netzpreise 30-40 % über dem Grundniveau liegen. Wir zielen auf {{targetPower}} kW Leistung und halten eine SOC-Reserve von {{minSOC}} % für Netzstabilitätsereignisse vor. Dieser Ansatz bringt beständig {{revenueGain}} % Mehrertrag gegenüber den Standard-Einsatzregeln.",
+      battery:
+        "Die Entladeleistung der Batterie wurde von {{prevRate}} kW auf {{currentRate}} kW angepasst, weil ein Prognosemodell in 15 Minuten eine Nachfragespitze erwartet. So maximieren wir den Ertrag und bleiben innerhalb der thermischen Sicherheitsmargen (aktuelle Temperatur: {{inverterTemp}} °C, Grenzwert: 65 °C). Die Entscheidung berücksichtigt Echtzeitprognosen der Netznachfrage und die Überwachung des Batterieladezustands.",
+      optimization:
+        "Die Spitzenlastoptimierung kombiniert Prognosen aus Wettermustern, historischen Lastkurven und Echtzeit-Netzsignalen. Die aktuelle Strategie erzielt {{revenueGain}} % mehr Ertrag als die Standard-Einsatzregeln. Das Modell verarbeitet Daten von {{sensorCount}} Sensoren im {{updateFreq}}-Sekunden-Takt und passt sich so schnell an die Netzbedingungen an.",
+      coordination_markets:
+        "Ich stimme mich mit dem Markets-Agenten ab, um die Batterieentladung auf die Spitzenpreise auszurichten. Aktuelle Strategie: {{dischargeRate}} kW entladen (Zeitfenster: {{timeWindow}}), wenn der Tokenpreis {{priceIncrease}} % über dem Grundniveau liegt. Diese agentenübergreifende Zusammenarbeit maximiert sowohl die Netzerträge als auch den Tokenwert.",
+      coordination_governor:
+        "Ich arbeite mit dem Governor-Agenten zusammen, um den Energieeinsatz innerhalb der Sicherheitsvorgaben auszubalancieren. Der aktuelle SOC von {{batterySOC}} % bietet {{safetyMargin}} % Reserve über der Mindestschwelle von {{minSOC}} %. Jeder Entladevorgang erfordert eine Governance-Freigabe, damit die regulatorischen Vorgaben eingehalten werden.",
+      ambiguous:
+        "Mir ist der Kontext Ihrer Frage nicht ganz klar. Fragen Sie nach der aktuellen Einsatzstrategie, dem Batteriemanagement oder der Optimierung der Netzeinspeisung? Mit etwas mehr Kontext kann ich Ihnen genauere Informationen geben.",
+    },
+    markets: {
+      default:
+        "Die heutigen Handelsentscheidungen beruhen auf dem starken Momentum des SOLAR-Tokens (+{{priceChange}} % in 24 h) und guter Liquidität auf Jupiter DEX. Das Portfolio besteht derzeit zu {{solarPercent}} % aus SOLAR und zu {{usdcPercent}} % aus USDC, mit einer Rebalancing-Schwelle von 70/30. Die Marktbedingungen sind optimal für einen weiteren Positionsaufbau.",
+      trading:
+        "Heutige Handelsaktivität: {{tradeCount}} ausgeführte Swaps über insgesamt {{usdcAmount}} USDC → {{solarAmount}} SOLAR-Token zu einem Durchschnittskurs von {{avgRate}} USDC pro Token. Der Jupiter-Aggregator erzielte eine um {{rateBenefit}} % bessere Ausführung als Serum direkt. Alle Trades wurden innerhalb der Slippage-Toleranz von {{slippage}} % ausgeführt.",
+      prediction:
+        "Die Preisprognose nutzt Ensemble-Modelle: LSTM für Zeitreihentrends (Gewicht: 40 %), Orderbuchtiefe (30 %) und korrelierte Assetbewegungen (30 %). Aktuelle 6-Stunden-Prognose: {{confidence}} % Konfidenz für einen anhaltenden Aufwärtstrend in den Bereich ${{priceRangeLow}}-{{priceRangeHigh}}. Modellgenauigkeit der letzten 30 Tage: {{accuracy}} %.",
+      liquidity:
+        "Die Liquiditätslage ist {{liquidityState}}: Die Tiefe des SOLAR/USDC-Pools liegt bei Jupiter bei ${{jupiterDepth}}K, bei Serum bei ${{serumDepth}}K. Die geschätzte Slippage für einen Trade von {{tradeSize}}K beträgt {{slippage}} %. Für eine optimale Ausführung empfehle ich Trades unter ${{maxTrade}}K. Die Liquidität ist in den letzten 24 Stunden um {{trendPercent}} % {{liquidityTrend}}.",
+      coordination_operations:
+        "Ich stimme mich mit dem Operations-Agenten ab, um Verkäufe auf Zeiten hoher Erzeugung zu legen. Die aktuelle Solarleistung von {{generation}} kW eröffnet ein optimales Arbitragefenster. Geplant ist ein Verkauf von {{tokenAmount}} SOLAR-Token, sobald die Batterieentladung {{targetSOC}} % SOC erreicht.",
+      ambiguous:
+        "Ihre Frage berührt mehrere Marktaspekte. Interessieren Sie sich für die aktuelle Handelsaktivität, Preisprognosen, die Liquiditätsanalyse oder die Rebalancing-Strategie des Portfolios? Sobald ich Ihren Schwerpunkt kenne, kann ich Ihnen detaillierte Einblicke geben.",
+    },
+    sentinel: {
+      default:
+        "Der Hardwarezustand ist in allen Systemen {{healthStatus}}. Panel-Array A: {{arrayAHealth}} % Wirkungsgrad, Array B: {{arrayBHealth}} % ({{degradationNote}}). Wechselrichter 1 {{inverterStatus}}, {{alertCount}} Warnungen. {{sensorCount}} Sensoren melden Werte im Normalbereich.",
+      health:
+        "Zustandsbewertung der Solarpanels: Array A arbeitet mit {{arrayAHealth}} % der Nennleistung ({{arrayAGrade}}), Array B mit {{arrayBHealth}} % bei einem Wirkungsgradverlust von {{degradationRate}} % in den letzten 30 Tagen. Die Degradation entspricht normaler Alterung; sofortiges Handeln ist nicht nötig. Die Wärmebildaufnahmen zeigen eine gleichmäßige Wärmeverteilung über alle {{panelCount}} Panels.",
+      maintenance:
+        "Aktueller Wartungsstatus: {{alertCount}} offene Warnungen. Der Kühllüfter von Wechselrichter 1 zeigt {{vibrationIncrease}} % mehr Vibration (vorbeugendes Wartungsfenster in {{maintenanceWindow}} h), und in der Anschlussdose von Panel B, Sektor 3, wurde ein Hotspot erkannt ({{severity}}, Inspektion geplant). Alle kritischen Systeme sind in Betrieb.",
+      detection:
+        "Die Erkennung von Geräteausfällen nutzt statistische Prozesskontrolle mit adaptiven Schwellenwerten. Das System überwacht {{sensorCount}} Sensoren alle {{interval}} Sekunden und vergleicht sie mit historischen Referenzwerten, bereinigt um Wetter- und Lastbedingungen. Empfindlichkeit der Anomalieerkennung: {{tpRate}} % richtig positive und {{fpRate}} % falsch positive Ergebnisse.",
+      coordination_governor:
+        "Ich habe eine kritische Batterietemperaturwarnung zur Durchsetzung der Sicherheitsvorgaben an den Governor-Agenten eskaliert. Aktueller Messwert: {{batteryTemp}} °C (Schwelle: {{tempThreshold}} °C). Ich koordiniere die automatischen Abschaltprotokolle und halte dabei die Zusagen zur Netzstabilität ein.",
+      in_maintenance:
+        "Ich befinde mich gerade im geplanten Wartungsmodus. Hardwarediagnosen laufen in {{systemCount}} Subsystemen. Voraussichtlicher Abschluss: in {{timeRemaining}} Minuten. Die kritische Überwachung läuft mit reduzierter Abfragefrequenz weiter. Alle Sicherheitssysteme bleiben voll funktionsfähig.",
+      ambiguous:
+        "Für eine genaue Diagnose brauche ich mehr Details. Fragen Sie nach dem Zustand der Solarpanels, dem Wechselrichterstatus, der Integrität des Sensornetzes oder den Wartungsplänen? Jedes Subsystem erfordert einen anderen Diagnoseansatz.",
+    },
+    governor: {
+      default:
+        "Governance-Status: Alle {{constraintCount}} aktiven Sicherheitsvorgaben liegen innerhalb der Compliance-Grenzen. {{violationCount}} Verstöße in den letzten 24 Stunden. Aktuelle Parameter: SOC min. {{minSOC}} %, Entladung max. {{maxDischarge}} kW, Netzeinspeisung max. {{maxExport}} kW. Override-Befugnis: {{sigRequired}} von {{sigTotal}} Multisig-Signaturen erforderlich.",
+      constraints:
+        "Aktive Sicherheitsvorgaben: (1) Batterie-SOC ≥{{minSOC}} % (aktuell: {{currentSOC}} %), (2) Entladeleistung ≤{{maxDischarge}} kW (aktuell: {{currentDischarge}} kW), (3) Netzeinspeisung ≤{{maxExport}} kW (aktuell: {{currentExport}} kW), (4) Wechselrichtertemperatur ≤{{maxTemp}} °C (aktuell: {{currentTemp}} °C), (5) Panel-Wirkungsgrad ≥{{minEfficiency}} % (aktuell: {{currentEfficiency}} %), (6-8) SLA-Parameter des Netzanschlusses.",
+      violations:
+        "Verlauf der Vorgabenverstöße: {{violationCount}} Ereignis(se) in den letzten 24 Stunden. Zuletzt: {{violationTime}} - der Batterie-SOC fiel während einer unerwarteten Nachfragespitze kurzzeitig auf {{violationSOC}} % (unter dem Minimum von {{minSOC}} %). Der Operations-Agent drosselte automatisch, und der SOC erholte sich innerhalb von {{recoveryTime}} Minuten auf {{recoverySOC}} %. Der gesamte Vorfall wurde mit dem Transaktionshash {{txHash}} im unveränderlichen Audit-Trail protokolliert.",
+      enforcement:
+        "Die Durchsetzung der Betriebsgrenzen folgt einer hierarchischen Steuerung: Weiche Grenzen lösen Warnungen aus (Schwelle {{softThreshold}} %), harte Grenzen blockieren Aktionen (Schwelle {{hardThreshold}} %) und Notfallgrenzen leiten automatische Abschaltungen ein (Schwelle {{emergencyThreshold}} %). Alle Entscheidungen erfordern die Freigabe durch die Governance-PDA per Multisig-Konsens ({{sigRequired}}/{{sigTotal}}).",
+      coordination_operations:
+        "Ich setze während eines Ereignisses mit niedrigem SOC in Abstimmung mit dem Operations-Agenten Entladegrenzen durch. Der aktuelle SOC von {{currentSOC}} % erfordert eine Drosselung, um die Sicherheitsschwelle von {{minSOC}} % zu halten. Eine Override-Anfrage wartet auf Multisig-Freigabe ({{currentSigs}}/{{sigRequired}} Signaturen erhalten).",
+      ambiguous:
+        "Governance-Anfragen brauchen einen konkreten Kontext. Fragen Sie nach den Parametern der aktiven Vorgaben, dem Verlauf der Verstöße, den Durchsetzungsmechanismen oder den Override-Verfahren? Jeder Bereich hat eigene Compliance- und Audit-Anforderungen.",
+    },
+  },
+  referrals: {
+    operations: {
+      markets:
+        "Diese Frage ist beim Markets-Agenten besser aufgehoben, der auf Handelsstrategie und Token-Ökonomie spezialisiert ist. Ich kann Ihnen einen kurzen Überblick geben, für eine detaillierte Marktanalyse fragen Sie aber am besten direkt den Markets-Agenten.",
+      sentinel:
+        "Für Hardwarediagnosen und Sensordaten verfügt der Sentinel-Agent über umfassende Überwachungsfunktionen. Ich sehe übergeordnete Zustandsmetriken, Sentinel kann jedoch eine detaillierte Diagnose liefern.",
+      governor:
+        "Fragen zu Governance, Compliance und Sicherheitsvorgaben beantwortet der Governor-Agent. Ich arbeite innerhalb dieser Vorgaben, aber Governor kann Ihnen den regulatorischen Rahmen im Detail erklären.",
+    },
+    markets: {
+      operations:
+        "Das fällt eher in den Bereich des Operations-Agenten, der Energieeinsatz und Batterieoptimierung steuert. Ich konzentriere mich auf Marktdynamik und Handel. Fragen Sie Operations nach Details zum Netzmanagement.",
+      sentinel:
+        "Hardwarezustand und Wartungsplanung verantwortet der Sentinel-Agent. Die Marktbedingungen beeinflussen zwar unsere operativen Entscheidungen, die gesuchten Diagnosedaten hat aber Sentinel.",
+      governor:
+        "Fragen zu Governance und regulatorischer Compliance richten Sie bitte an den Governor-Agenten, der die Sicherheitsvorgaben durchsetzt und Multisig-Freigaben verwaltet.",
+    },
+    sentinel: {
+      operations:
+        "Fragen zur Einsatzstrategie beantwortet am besten der Operations-Agent. Ich überwache den Hardwarezustand, der den Betrieb beeinflusst, aber die Einsatzoptimierung ist seine Spezialität.",
+      markets:
+        "Für Handelsentscheidungen und Marktanalysen ist der Markets-Agent die beste Anlaufstelle. Ich überwache die Hardwareleistung, Markets kümmert sich um Token-Ökonomie und Liquiditätsfragen.",
+      governor:
+        "Die Durchsetzung der Sicherheitsvorgaben und die Governance-Verfahren verantwortet der Governor-Agent. Ich kann Verstöße melden, aber Governor setzt die Regeln durch und verwaltet Overrides.",
+    },
+    governor: {
+      operations:
+        "Operative Fragen zu Energieeinsatz und Batteriemanagement gehen an den Operations-Agenten. Ich setze die Vorgaben durch, aber Operations trifft innerhalb dieser Grenzen die taktischen Entscheidungen.",
+      markets:
+        "Fragen zu Marktstrategie und Handelsausführung richten Sie am besten an den Markets-Agenten. Ich stelle sicher, dass Trades die Risikolimits einhalten, aber Markets bestimmt die Handelsstrategie.",
+      sentinel:
+        "Für Hardwarediagnosen und Wartungsdetails ist der Sentinel-Agent Ihre Anlaufstelle. Ich verfolge Vorgabenverstöße, aber Sentinel überwacht die physische Infrastruktur.",
+    },
+  },
+  factValues: {
+    "4-8 PM": "16-20 Uhr",
+    "off-peak hours": "Nebenzeiten",
+    favorable: "günstig",
+    adequate: "ausreichend",
+    increased: "gestiegen",
+    decreased: "gesunken",
+    nominal: "normal",
+    degraded: "beeinträchtigt",
+    "slight degradation noted": "leichte Degradation festgestellt",
+    "within normal range": "im Normalbereich",
+    operational: "betriebsbereit",
+    "maintenance mode": "im Wartungsmodus",
+    excellent: "ausgezeichnet",
+    "non-critical": "unkritisch",
+    moderate: "mäßig",
+  },
+  records: {
+    found: "Laut meinen Aufzeichnungen: {{records}}.",
+    none: "Ich habe {{timeframe}} keine aufgezeichneten Entscheidungen, die zu dieser Frage passen.",
+    own: "um {{time}} Uhr habe ich „{{summary}}“ protokolliert",
+    other: "um {{time}} Uhr hat der {{agent}} „{{summary}}“ protokolliert",
+    transaction:
+      "um {{time}} Uhr hat Transaktion {{signature}} „{{summary}}“ verbucht",
+    reason: ", weil „{{detail}}“",
+    separator: "; ",
+  },
+  repeats: [
+    "Wie bereits erwähnt: {{answer}}",
+    "Noch einmal zusammengefasst: {{answer}}",
+    "Zu Ihrer früheren Frage: {{answer}}",
+    "Zur Bestätigung meiner vorherigen Antwort: {{answer}}",
+  ],
+};
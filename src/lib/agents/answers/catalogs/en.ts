@@ -0,0 +1,23 @@
+import type { AnswerCatalog } from "./types";
+
+export const EN_CATALOG: AnswerCatalog = {
+  templates: {},
+  referrals: {},
+  factValues: {},
+  records: {
+    found: "From my records: {{records}}.",
+    none: "I have no recorded decisions {{timeframe}} that match this question.",
+    own: "at {{time}} I {{summaryContinued}}",
+    other: "at {{time}} the {{agent}} {{summaryContinued}}",
+    transaction:
+      "at {{time}} transaction {{signature}} recorded: {{summaryContinued}}",
+    reason: ", because {{detailContinued}}",
+    separator: "; ",
+  },
+  repeats: [
+    "As I mentioned before, {{answerContinued}}",
+    "To reiterate: {{answer}}",
+    "Following up on your earlier question: {{answer}}",
+    "Just to confirm what I said previously: {{answer}}",
+  ],
+};
@@ -0,0 +1,133 @@
+import type { AnswerCatalog } from "./types";
+
+export const ES_CATALOG: AnswerCatalog = {
+  templates: {
+    operations: {
+      default:
+        "Estoy gestionando el despacho de energía para optimizar los ingresos sin salir de los márgenes de seguridad. El SOC de la batería está en {{batterySOC}} % y exportamos {{gridExport}} kW a la red durante esta ventana de precios pico. Todos los sistemas funcionan con normalidad.",
+      dispatch:
+        "La estrategia de despacho actual prioriza la descarga de la batería en las horas de máxima demanda (16-20 h), cuando los precios de la red están un 30-40 % por encima de la base. Apuntamos a una salida de {{targetPower}} kW manteniendo una reserva de SOC del {{minSOC}} % para eventos de estabilidad de la red. Este enfoque aporta de forma constante una mejora de ingresos del {{revenueGain}} % frente a las reglas de despacho base.",
+      battery:
+        "La tasa de descarga de la batería se ajustó de {{prevRate}} kW a {{currentRate}} kW a partir de un modelo predictivo que anticipa un pico de demanda en 15 minutos. Así se maximiza la captura de ingresos sin salir de los márgenes térmicos de seguridad (temperatura actual: {{inverterTemp}} °C, límite: 65 °C). La decisión integra previsiones de demanda de la red en tiempo real y la monitorización del estado de carga de la batería.",
+      optimization:
+        "La optimización de la demanda pico combina previsiones de patrones meteorológicos, curvas de carga históricas y señales de la red en tiempo real. La estrategia actual genera un {{revenueGain}} % más de ingresos que las reglas de despacho base. El modelo procesa datos de {{sensorCount}} sensores con intervalos de actualización de {{updateFreq}} segundos, lo que permite adaptarse rápidamente a las condiciones de la red.",
+      coordination_markets:
+        "Me estoy coordinando con el agente Markets para ajustar el momento de descarga de la batería a los precios pico. Estrategia actual: descargar {{dischargeRate}} kW (franja: {{timeWindow}}) cuando el precio del token está un {{priceIncrease}} % por encima de la base. Esta colaboración entre agentes maximiza tanto los ingresos de la red como el valor del token.",
+      coordination_governor:
+        "Trabajo con el agente Governor para equilibrar el despacho de energía dentro de las restricciones de seguridad. El SOC actual del {{batterySOC}} % deja un margen del {{safetyMargin}} % sobre el umbral mínimo del {{minSOC}} %. Toda operación de descarga requiere aprobación de gobernanza para mantener el cumplimiento normativo.",
+      ambiguous:
+        "No tengo del todo claro el contexto de tu pregunta. ¿Te refieres a la estrategia actual de despacho de energía, a la gestión de la batería o a la optimización de la exportación a la red? Con algo más de contexto puedo darte información más precisa.",
+    },
+    markets: {
+      default:
+        "Las decisiones de trading de hoy responden al fuerte impulso del token SOLAR (+{{priceChange}} % en 24 h) y a la buena liquidez en Jupiter DEX. La cartera está compuesta ahora por un {{solarPercent}} % de SOLAR y un {{usdcPercent}} % de USDC, con el umbral de reequilibrio en 70/30. Las condiciones de mercado son óptimas para seguir acumulando.",
+      trading:
+        "Actividad de trading de hoy: {{tradeCount}} swaps ejecutados por un total de {{usdcAmount}} USDC → {{solarAmount}} tokens SOLAR a un tipo medio de {{avgRate}} USDC por token. El agregador Jupiter consiguió una ejecución un {{rateBenefit}} % mejor que Serum directo. Todas las operaciones se ejecutaron dentro de la tolerancia de slippage del {{slippage}} %.",
+      prediction:
+        "La predicción de precios usa modelos combinados: LSTM para tendencias de series temporales (peso: 40 %), análisis de profundidad del libro de órdenes (30 %) y movimientos de activos correlacionados (30 %). Previsión a 6 horas: {{confidence}} % de confianza en que la tendencia alcista continúe hasta el rango de ${{priceRangeLow}}-{{priceRangeHigh}}. Precisión del modelo en los últimos 30 días: {{accuracy}} %.",
+      liquidity:
+        "La situación de liquidez es {{liquidityState}}: la profundidad del pool SOLAR/USDC es de ${{jupiterDepth}}K en Jupiter y de ${{serumDepth}}K en Serum. El slippage estimado para una operación de {{tradeSize}}K es del {{slippage}} %. Recomiendo operaciones inferiores a ${{maxTrade}}K para una ejecución óptima. La liquidez ha {{liquidityTrend}} un {{trendPercent}} % en las últimas 24 horas.",
+      coordination_operations:
+        "Me coordino con el agente Operations para sincronizar las ventas con los periodos de alta generación. La producción solar actual de {{generation}} kW abre una ventana de arbitraje óptima. Tengo prevista una venta de {{tokenAmount}} tokens SOLAR cuando la descarga de la batería llegue a un SOC del {{targetSOC}} %.",
+      ambiguous:
+        "Tu pregunta abarca varios aspectos del mercado. ¿Te interesa la actividad de trading actual, las predicciones de precio, el análisis de liquidez o la estrategia de reequilibrio de la cartera? Puedo darte un análisis detallado en cuanto sepa en qué quieres centrarte.",
+    },
+    sentinel: {
+      default:
+        "El estado del hardware es {{healthStatus}} en todos los sistemas. Matriz de paneles A: {{arrayAHealth}} % de eficiencia; matriz B: {{arrayBHealth}} % ({{degradationNote}}). Inversor 1 {{inverterStatus}}, {{alertCount}} alertas. {{sensorCount}} sensores informan dentro de los parámetros normales.",
+      health:
+        "Evaluación del estado de los paneles solares: la matriz A rinde al {{arrayAHealth}} % de su capacidad nominal ({{arrayAGrade}}) y la matriz B al {{arrayBHealth}} %, con una caída de eficiencia del {{degradationRate}} % en los últimos 30 días. La degradación es coherente con el envejecimiento normal y no requiere acción inmediata. Las imágenes térmicas muestran una distribución uniforme del calor en los {{panelCount}} paneles.",
+      maintenance:
+        "Estado de mantenimiento actual: {{alertCount}} alertas pendientes. El ventilador de refrigeración del inversor 1 muestra un aumento de vibración del {{vibrationIncrease}} % (ventana de mantenimiento preventivo en {{maintenanceWindow}} h) y se ha detectado un punto caliente en la caja de conexiones del sector 3 del panel B ({{severity}}, inspección programada). Todos los sistemas críticos están operativos.",
+      detection:
+        "La detección de fallos de equipos usa control estadístico de procesos con umbrales adaptativos. El sistema supervisa {{sensorCount}} sensores cada {{interval}} segundos y los compara con referencias históricas ajustadas según el clima y la carga. Sensibilidad de la detección de anomalías: {{tpRate}} % de verdaderos positivos y {{fpRate}} % de falsos positivos.",
+      coordination_governor:
+        "He escalado al agente Governor una alerta crítica de temperatura de la batería para que aplique las medidas de seguridad. Lectura actual: {{batteryTemp}} °C (umbral: {{tempThreshold}} °C). Coordino los protocolos de apagado automático sin dejar de cumplir los compromisos de estabilidad de la red.",
+      in_maintenance:
+        "Ahora mismo estoy en modo de mantenimiento programado. Hay diagnósticos de hardware en curso en {{systemCount}} subsistemas. Finalización estimada: {{timeRemaining}} minutos. La monitorización crítica continúa con una frecuencia de sondeo reducida. Todos los sistemas de seguridad siguen plenamente operativos.",
+      ambiguous:
+        "Necesito más detalles para darte un diagnóstico preciso. ¿Preguntas por el estado de los paneles solares, del inversor, la integridad de la red de sensores o los calendarios de mantenimiento? Cada subsistema requiere un enfoque de diagnóstico distinto.",
+    },
+    governor: {
+      default:
+        "Estado de gobernanza: las {{constraintCount}} restricciones de seguridad activas están dentro de los límites de cumplimiento. {{violationCount}} infracciones en las últimas 24 horas. Parámetros actuales: SOC mínimo {{minSOC}} %, descarga máxima {{maxDischarge}} kW, exportación a la red máxima {{maxExport}} kW. Autoridad de anulación: se requieren {{sigRequired}} de {{sigTotal}} firmas multifirma.",
+      constraints:
+        "Restricciones de seguridad activas: (1) SOC de la batería ≥{{minSOC}} % (actual: {{currentSOC}} %), (2) tasa de descarga ≤{{maxDischarge}} kW (actual: {{currentDischarge}} kW), (3) exportación a la red ≤{{maxExport}} kW (actual: {{currentExport}} kW), (4) temperatura del inversor ≤{{maxTemp}} °C (actual: {{currentTemp}} °C), (5) eficiencia de los paneles ≥{{minEfficiency}} % (actual: {{currentEfficiency}} %), (6-8) parámetros del SLA de interconexión a la red.",
+      violations:
+        "Historial de infracciones de restricciones: {{violationCount}} evento(s) en las últimas 24 horas. El más reciente: {{violationTime}}; el SOC de la batería cayó brevemente al {{violationSOC}} % (por debajo del mínimo del {{minSOC}} %) durante un pico de demanda inesperado. El agente Operations redujo la potencia automáticamente y el SOC se recuperó al {{recoverySOC}} % en {{recoveryTime}} minutos. El incidente completo quedó registrado en el registro de auditoría inmutable con el hash de transacción {{txHash}}.",
+      enforcement:
+        "La aplicación de los límites operativos usa un control jerárquico: los límites blandos generan avisos (umbral del {{softThreshold}} %), los límites duros bloquean acciones (umbral del {{hardThreshold}} %) y los límites de emergencia inician apagados automáticos (umbral del {{emergencyThreshold}} %). Todas las decisiones requieren la aprobación de la PDA de gobernanza mediante consenso multifirma ({{sigRequired}}/{{sigTotal}}).",
+      coordination_operations:
+        "Estoy aplicando límites de descarga en coordinación con el agente Operations durante un evento de SOC bajo. El SOC actual del {{currentSOC}} % obliga a reducir la potencia para mantener el umbral de seguridad del {{minSOC}} %. Hay una solicitud de anulación pendiente de aprobación multifirma ({{currentSigs}}/{{sigRequired}} firmas recibidas).",
+      ambiguous:
+        "Las consultas de gobernanza necesitan un contexto concreto. ¿Preguntas por los parámetros de las restricciones activas, el historial de infracciones, los mecanismos de aplicación o los procedimientos de anulación? Cada área tiene requisitos de cumplimiento y auditoría distintos.",
+    },
+  },
+  referrals: {
+    operations: {
+      markets:
+        "Esa pregunta encaja mejor con el agente Markets, especializado en estrategia de trading y economía del token. Puedo darte una visión general, pero para un análisis de mercado detallado te recomiendo preguntar directamente al agente Markets.",
+      sentinel:
+        "Para diagnósticos de hardware y datos de sensores, el agente Sentinel tiene capacidades de monitorización completas. Yo veo métricas de estado generales, pero Sentinel puede ofrecer un análisis de diagnóstico detallado.",
+      governor:
+        "Las preguntas sobre gobernanza, cumplimiento y restricciones de seguridad las gestiona el agente Governor. Yo opero dentro de esas restricciones, pero Governor puede explicarte el marco normativo en detalle.",
+    },
+    markets: {
+      operations:
+        "Eso corresponde más bien al ámbito del agente Operations, que gestiona el despacho de energía y la optimización de la batería. Yo me centro en la dinámica del mercado y el trading. Pregunta a Operations por los detalles de gestión de la red.",
+      sentinel:
+        "El estado del hardware y la planificación del mantenimiento los gestiona el agente Sentinel. Aunque las condiciones del mercado influyen en nuestras decisiones operativas, Sentinel tiene los datos de diagnóstico detallados que buscas.",
+      governor:
+        "Las preguntas de gobernanza y cumplimiento normativo deben dirigirse al agente Governor, que aplica las restricciones de seguridad y gestiona las aprobaciones multifirma.",
+    },
+    sentinel: {
+      operations:
+        "Las preguntas sobre la estrategia de despacho de energía las responde mejor el agente Operations. Yo superviso el estado del hardware que afecta a las operaciones, pero la optimización del despacho es su especialidad.",
+      markets:
+        "Para decisiones de trading y análisis de mercado, el agente Markets es tu mejor recurso. Yo superviso el rendimiento del hardware, pero Markets se encarga de la economía del token y de las cuestiones de liquidez.",
+      governor:
+        "La aplicación de las restricciones de seguridad y los procedimientos de gobernanza los gestiona el agente Governor. Yo puedo informar de infracciones, pero Governor aplica las reglas y gestiona las anulaciones.",
+    },
+    governor: {
+      operations:
+        "Las preguntas operativas sobre despacho de energía y gestión de la batería deben ir al agente Operations. Yo aplico las restricciones, pero Operations toma las decisiones tácticas dentro de esos límites.",
+      markets:
+        "Las preguntas sobre estrategia de mercado y ejecución de operaciones es mejor dirigirlas al agente Markets. Yo me aseguro de que las operaciones cumplan los límites de riesgo, pero Markets decide la estrategia de trading.",
+      sentinel:
+        "Para diagnósticos de hardware y detalles de mantenimiento, el agente Sentinel es tu recurso de referencia. Yo hago seguimiento de las infracciones de restricciones, pero Sentinel supervisa la infraestructura física.",
+    },
+  },
+  factValues: {
+    "4-8 PM": "16-20 h",
+    "off-peak hours": "horas valle",
+    favorable: "favorable",
+    adequate: "adecuada",
+    increased: "aumentado",
+    decreased: "disminuido",
+    nominal: "nominal",
+    degraded: "degradado",
+    "slight degradation noted": "ligera degradación detectada",
+    "within normal range": "dentro del rango normal",
+    operational: "operativo",
+    "maintenance mode": "en modo de mantenimiento",
+    excellent: "excelente",
+    "non-critical": "no crítico",
+    moderate: "moderado",
+  },
+  records: {
+    found: "Según mis registros: {{records}}.",
+    none: "No tengo decisiones registradas {{timeframe}} que respondan a esta pregunta.",
+    own: "a las {{time}} registré «{{summary}}»",
+    other: "a las {{time}} el {{agent}} registró «{{summary}}»",
+    transaction:
+      "a las {{time}} la transacción {{signature}} registró «{{summary}}»",
+    reason: ", porque «{{detail}}»",
+    separator: "; ",
+  },
+  repeats: [
+    "Como te comenté antes: {{answer}}",
+    "Para reiterarlo: {{answer}}",
+    "Retomando tu pregunta anterior: {{answer}}",
+    "Solo para confirmar lo que te dije: {{answer}}",
+  ],
+};
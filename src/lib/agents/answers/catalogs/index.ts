@@ -0,0 +1,39 @@
+/**
+ * Answer Catalogs - What the agents say, per language
+ *
+ * One catalog per agent locale. The English one only carries the phrasing
+ * that is shared by every answer (record citations, repeat lead-ins); the
+ * others also translate the templates, referrals and word-valued facts.
+ */
+
+import type { AgentLocale } from "../../locale";
+import { DE_CATALOG } from "./de";
+import { EN_CATALOG } from "./en";
+import { ES_CATALOG } from "./es";
+import type { AnswerCatalog } from "./types";
+
+export type { AnswerCatalog, RecordPhrases } from "./types";
+
+const ANSWER_CATALOGS: Readonly<Record<AgentLocale, AnswerCatalog>> = {
+  en: EN_CATALOG,
+  es: ES_CATALOG,
+  de: DE_CATALOG,
+};
+
+export function getAnswerCatalog(locale: AgentLocale): AnswerCatalog {
+  return ANSWER_CATALOGS[locale];
+}
+
+/** Facts with their word values ("nominal", "increased") translated */
+export function localizeFacts(
+  facts: Record<string, string>,
+  locale: AgentLocale
+): Record<string, string> {
+  const { factValues } = getAnswerCatalog(locale);
+  return Object.fromEntries(
+    Object.entries(facts).map(([name, value]) => [
+      name,
+      Object.hasOwn(factValues, value) ? factValues[value] : value,
+    ])
+  );
+}
@@ -0,0 +1,45 @@
+import type { AgentPersonaId } from "../../personas";
+
+/**
+ * How cited records are introduced and listed, as `{{placeholder}}` text.
+ * `{{summary}}` and `{{detail}}` also come lower-cased as
+ * `{{summaryContinued}}` and `{{detailContinued}}` for use mid-sentence.
+ */
+export interface RecordPhrases {
+  /** Wraps the record list: `{{records}}` */
+  found: string;
+  /** A named timeframe held no records: `{{timeframe}}` */
+  none: string;
+  /** A record of the answering persona: `{{time}}`, `{{summary}}` */
+  own: string;
+  /** Another persona's record: adds `{{agent}}` */
+  other: string;
+  /** A transaction record: adds `{{signature}}` */
+  transaction: string;
+  /** Reasoning behind the record: `{{detail}}` */
+  reason: string;
+  /** Between records */
+  separator: string;
+}
+
+/**
+ * Everything an answer says in one language. The English templates and
+ * referrals live with their callers; other catalogs translate them topic by
+ * topic, and anything left untranslated falls back to English.
+ */
+export interface AnswerCatalog {
+  /** Template text by persona and topic, with the English placeholders */
+  templates: Partial<Record<AgentPersonaId, Record<string, string>>>;
+  /** Hand-off to another persona, by asked persona and target */
+  referrals: Partial<
+    Record<AgentPersonaId, Partial<Record<AgentPersonaId, string>>>
+  >;
+  /** Word-valued facts ("nominal", "4-8 PM"), keyed by their English value */
+  factValues: Record<string, string>;
+  records: RecordPhrases;
+  /**
+   * Lead-ins for an answer to a repeated question, by repeat count:
+   * `{{answer}}`, or `{{answerContinued}}` to continue mid-sentence
+   */
+  repeats: readonly string[];
+}
@@ -0,0 +1,127 @@
+/**
+ * Answer Backends - Who writes the prose of `/api/agents/ask` answers
+ *
+ * Server-only: backends may call out to a model server with credentials, so
+ * this module is imported from `@/lib/agents/answers` rather than re-exported
+ * by `@/lib/agents`.
+ */
+
+import { API } from "@/lib/constants";
+import {
+  answerBackend,
+  answerModel,
+  answerModelApiKey,
+  answerModelBaseUrl,
+} from "@/lib/config/flags";
+
+import { createOpenAICompatibleAnswerBackend } from "./openai";
+import { templateAnswerBackend } from "./templates";
+import type { Answer, AnswerBackend, AnswerRequest } from "./types";
+
+export type {
+  Answer,
+  AnswerBackend,
+  AnswerGrounding,
+  AnswerRequest,
+} from "./types";
+export type { AnswerConfidenceTier, AnswerTemplate } from "./templates";
+export type { AnswerCatalog, RecordPhrases } from "./catalogs";
+export { getAnswerCatalog, localizeFacts } from "./catalogs";
+export {
+  getAnswerTemplate,
+  hasAnswerTemplate,
+  substitutePlaceholders,
+  templateAnswerBackend,
+} from "./templates";
+export {
+  AnswerBackendError,
+  createOpenAICompatibleAnswerBackend,
+} from "./openai";
+export type { OpenAICompatibleOptions } from "./openai";
+
+// ============================================================================
+// BACKEND SELECTION
+// ============================================================================
+
+let backend: AnswerBackend | null = null;
+
+/** Returns the backend selected by `AGENT_ANSWER_BACKEND`. */
+export function getAnswerBackend(): AnswerBackend {
+  if (!backend) {
+    backend =
+      answerBackend === "openai"
+        ? createOpenAICompatibleAnswerBackend({
+            baseUrl: answerModelBaseUrl,
+            model: answerModel,
+            apiKey: answerModelApiKey,
+            timeoutMs: API.timeout.background,
+          })
+        : templateAnswerBackend;
+  }
+
+  return backend;
+}
+
+/** `first`, then whatever `rest` still has to yield */
+async function* continueWith(
+  first: string,
+  rest: AsyncIterator<string>
+): AsyncGenerator<string> {
+  yield first;
+  for (;;) {
+    const next = await rest.next();
+    if (next.done) return;
+    yield next.value;
+  }
+}
+
+/**
+ * Generate an answer with the configured backend, resolving once its first
+ * piece of text is in; the rest streams through `text`. A model server that
+ * fails before then never fails the question: the template answer is
+ * returned instead, with `fallbackReason` set. Client aborts are rethrown,
+ * and so is a failure after the first piece.
+ */
+export async function generateAnswer(request: AnswerRequest): Promise<Answer> {
+  const selected = getAnswerBackend();
+  if (selected === templateAnswerBackend) {
+    return { text: selected.generate(request), backend: selected.name };
+  }
+
+  try {
+    const pieces = selected.generate(request)[Symbol.asyncIterator]();
+    const first = await pieces.next();
+
+    return {
+      text: continueWith(first.done ? "" : first.value, pieces),
+      backend: selected.name,
+      model: selected.model,
+    };
+  } catch (error) {
+    if (request.signal?.aborted) throw error;
+
+    const fallbackReason =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `Answer backend "${selected.name}" failed, using templates:`,
+      fallbackReason
+    );
+
+    return {
+      text: templateAnswerBackend.generate(request),
+      backend: templateAnswerBackend.name,
+      fallbackReason,
+    };
+  }
+}
+
+/** The whole answer text, for responses that are not streamed */
+export async function readAnswerText(
+  text: AsyncIterable<string>
+): Promise<string> {
+  let written = "";
+  for await (const piece of text) {
+    written += piece;
+  }
+  return written;
+}
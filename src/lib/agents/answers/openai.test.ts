@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { AGENT_PERSONAS } from "../personas";
+import { createOpenAICompatibleAnswerBackend } from "./openai";
+import type { AnswerRequest } from "./types";
+
+const backend = createOpenAICompatibleAnswerBackend({
+  baseUrl: "http://model.test/v1",
+  model: "local-model",
+  timeoutMs: 10_000,
+});
+
+function answerRequest(signal?: AbortSignal): AnswerRequest {
+  return {
+    persona: AGENT_PERSONAS.markets,
+    question: "Why did you sell at 14:00?",
+    locale: "en",
+    history: [],
+    grounding: {
+      topic: "default",
+      facts: {},
+      sources: [],
+      records: [],
+      timeframe: null,
+    },
+    signal,
+  };
+}
+
+/** A streamed chat completion whose frames are sent one at a time */
+function completionStream(frames: string[]) {
+  const encoder = new TextEncoder();
+  const pending = [...frames];
+  let upstreamSignal: AbortSignal | undefined;
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      upstreamSignal = init.signal ?? undefined;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const frame = pending.shift();
+          if (frame === undefined) controller.close();
+          else controller.enqueue(encoder.encode(frame));
+        },
+      });
+      return new Response(body, {
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    })
+  );
+
+  return { upstreamSignal: () => upstreamSignal };
+}
+
+function delta(content: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createOpenAICompatibleAnswerBackend", () => {
+  it("yields each delta as the completion streams it", async () => {
+    completionStream([
+      delta(" I sold"),
+      delta(" because prices"),
+      delta(" peaked."),
+      "data: [DONE]\n\n",
+    ]);
+
+    const pieces: string[] = [];
+    for await (const piece of backend.generate(answerRequest())) {
+      pieces.push(piece);
+    }
+
+    expect(pieces).toEqual(["I sold", " because prices", " peaked."]);
+    const [, init] = vi.mocked(fetch).mock.calls[0];
+    expect(JSON.parse(init!.body as string)).toMatchObject({ stream: true });
+  });
+
+  it("cancels the upstream request when the caller aborts", async () => {
+    const client = new AbortController();
+    const stream = completionStream([delta("I sold"), delta(" because")]);
+
+    for await (const piece of backend.generate(answerRequest(client.signal))) {
+      expect(piece).toBe("I sold");
+      client.abort();
+      break;
+    }
+
+    expect(stream.upstreamSignal()?.aborted).toBe(true);
+  });
+
+  it("fails when the completion writes nothing", async () => {
+    completionStream([delta("  "), "data: [DONE]\n\n"]);
+
+    await expect(
+      backend.generate(answerRequest())[Symbol.asyncIterator]().next()
+    ).rejects.toThrow("Chat completion returned no content");
+  });
+});
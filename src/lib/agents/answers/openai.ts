@@ -0,0 +1,185 @@
+/**
+ * OpenAI-compatible Answers - Chat-completions adapter
+ *
+ * Works with any server that speaks `POST {baseUrl}/chat/completions`
+ * (OpenAI, vLLM, llama.cpp, Ollama's `/v1`, LM Studio), so answers can be
+ * tried against a local model. The model only writes prose from the grounding
+ * it is given; it is told not to invent figures or report its own confidence.
+ * Completions are requested with `stream: true` and yielded delta by delta.
+ */
+
+import type { AgentMessage } from "@/components/intelligence/AgentSidebar";
+import { iterateServerSentEvents } from "@/lib/api/sse";
+
+import { AGENT_LOCALE_NAMES } from "../locale";
+import type { AnswerBackend, AnswerRequest } from "./types";
+
+export class AnswerBackendError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "AnswerBackendError";
+  }
+}
+
+export interface OpenAICompatibleOptions {
+  /** Endpoint root including the version segment, e.g. `http://localhost:11434/v1` */
+  baseUrl: string | undefined;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+  /** Most recent thread messages sent as context */
+  maxHistoryMessages?: number;
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+function buildSystemPrompt({
+  persona,
+  grounding,
+  locale,
+}: AnswerRequest): string {
+  const facts = Object.entries(grounding.facts)
+    .map(([name, value]) => `- ${name}: ${value}`)
+    .join("\n");
+  const records = grounding.records
+    .map(
+      (record, index) =>
+        `[${index + 1}] ${record.timestamp} ${record.kind}${record.decisionId ? ` ${record.decisionId}` : ""} by ${record.agent}: ${record.summary}${
+          record.detail ? ` (reasoning: ${record.detail})` : ""
+        }${record.signature ? ` (signature ${record.signature})` : ""}`
+    )
+    .join("\n");
+
+  return [
+    `You are the ${persona.name} ("${persona.archetype}") of AIMP, an autonomous solar energy platform. You ${persona.description.charAt(0).toLowerCase()}${persona.description.slice(1)}.`,
+    `Speak in the first person with a ${persona.tone.name} tone, in at most four sentences of plain prose, in ${AGENT_LOCALE_NAMES[locale]}.`,
+    "Use only the live data below for figures. If it does not cover the question, say what you would need instead of guessing.",
+    "Do not state confidence scores or list sources; the platform attaches those.",
+    `Question topic: ${grounding.topic}`,
+    `Sources in use: ${grounding.sources.join(", ") || "none"}`,
+    `Live data:\n${facts}`,
+    records
+      ? `Records matching the question. Base the answer on them and cite each one you use as [n]:\n${records}`
+      : grounding.timeframe
+        ? `No records were found ${grounding.timeframe}; say so rather than describing what happened then.`
+        : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function toChatMessage(message: AgentMessage): ChatMessage | null {
+  if (message.error || !message.content) return null;
+  return {
+    role: message.role === "user" ? "user" : "assistant",
+    content: message.content,
+  };
+}
+
+export function createOpenAICompatibleAnswerBackend(
+  options: OpenAICompatibleOptions
+): AnswerBackend {
+  const maxHistory = options.maxHistoryMessages ?? 12;
+
+  return {
+    name: "openai",
+    model: options.model,
+
+    async *generate(request) {
+      if (!options.baseUrl) {
+        throw new AnswerBackendError(
+          "OpenAI-compatible answer backend selected but AGENT_LLM_BASE_URL is not set"
+        );
+      }
+
+      const messages: ChatMessage[] = [
+        { role: "system", content: buildSystemPrompt(request) },
+        ...request.history
+          .slice(-maxHistory)
+          .map(toChatMessage)
+          .filter((message) => message !== null),
+        { role: "user", content: request.question },
+      ];
+
+      const signal = request.signal
+        ? AbortSignal.any([
+            request.signal,
+            AbortSignal.timeout(options.timeoutMs),
+          ])
+        : AbortSignal.timeout(options.timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(
+          `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(options.apiKey
+                ? { Authorization: `Bearer ${options.apiKey}` }
+                : {}),
+            },
+            body: JSON.stringify({
+              model: options.model,
+              messages,
+              temperature: 0.3,
+              stream: true,
+            }),
+            signal,
+            cache: "no-store",
+          }
+        );
+      } catch (error) {
+        throw new AnswerBackendError(
+          `Chat completion request failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+
+      if (!response.ok) {
+        throw new AnswerBackendError(
+          `Chat completion request failed with status ${response.status}`,
+          response.status
+        );
+      }
+
+      if (!response.body) {
+        throw new AnswerBackendError("Chat completion returned no content");
+      }
+
+      let written = false;
+      for await (const { data } of iterateServerSentEvents(response.body)) {
+        if (data === "[DONE]") break;
+
+        let chunk: { choices?: Array<{ delta?: { content?: string } }> };
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          throw new AnswerBackendError(
+            "Chat completion sent a malformed chunk"
+          );
+        }
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        // Leading whitespace is dropped, as the whole answer is trimmed
+        const text = written ? delta : delta?.trimStart();
+        if (!text) continue;
+
+        written = true;
+        yield text;
+      }
+
+      if (!written) {
+        throw new AnswerBackendError("Chat completion returned no content");
+      }
+    },
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Template Answers - The offline answer backend
+ *
+ * Fixed, persona-voiced templates whose `{{placeholders}}` are filled from
+ * the grounding facts. Needs no network, so it is the default backend and
+ * the fallback whenever a model endpoint fails.
+ */
+
+import { truncateHash } from "@/lib/format";
+
+import { DEFAULT_AGENT_LOCALE, type AgentLocale } from "../locale";
+import {
+  AGENT_PERSONAS,
+  type AgentPersonaDefinition,
+  type AgentPersonaId,
+} from "../personas";
+import { formatClockTime } from "../retrieval/query";
+import { getAnswerCatalog, localizeFacts } from "./catalogs";
+import type { AnswerBackend, AnswerGrounding } from "./types";
+
+/** How sure the persona is of a template answer, before scoring */
+export type AnswerConfidenceTier = "high" | "medium" | "low";
+
+export interface AnswerTemplate {
+  text: string;
+  confidence: AnswerConfidenceTier;
+}
+
+/**
+ * Response templates with dynamic placeholders and persona voice consistency
+ * (Enhancement #19, #20, #22)
+ */
+const ANSWER_TEMPLATES: Record<
+  AgentPersonaId,
+  Record<string, AnswerTemplate>
+> = {
+  operations: {
+    default: {
+      text: "I'm currently managing energy dispatch to optimize revenue while maintaining safety margins. Battery SOC is at {{batterySOC}}%, and we're exporting {{gridExport}}kW to the grid during this peak pricing window. All systems operating nominally.",
+      confidence: "high",
+    },
+    dispatch: {
+      text: "Current dispatch strategy prioritizes battery discharge during peak demand hours (4-8 PM) when grid prices are 30-40% above baseline. We're targeting {{targetPower}}kW output while maintaining {{minSOC}}% SOC reserve for grid stability events. This approach consistently delivers {{revenueGain}}% revenue improvement over baseline dispatch rules.",
+      confidence: "high",
+    },
+    battery: {
+      text: "Battery discharge rate was adjusted from {{prevRate}}kW to {{currentRate}}kW based on predictive modeling showing a 15-minute demand surge. This maximizes revenue capture while staying within thermal safety margins (current temp: {{inverterTemp}}°C, limit: 65°C). The decision integrates real-time grid demand forecasts and battery state-of-charge monitoring.",
+      confidence: "high",
+    },
+    optimization: {
+      text: "Peak demand optimization uses ensemble forecasting combining weather patterns, historical load curves, and real-time grid signals. Current strategy yields {{revenueGain}}% higher revenue compared to baseline dispatch rules. The model processes data from {{sensorCount}} sensors with {{updateFreq}}-second refresh intervals, enabling rapid adaptation to grid conditions.",
+      confidence: "medium",
+    },
+    // Multi-domain coordination responses (Enhancement #10)
+    coordination_markets: {
+      text: "I'm coordinating with the Markets agent to optimize battery discharge timing for peak pricing. Current strategy: discharge {{dischargeRate}}kW during {{timeWindow}} when token prices are {{priceIncrease}}% above baseline. This cross-agent collaboration ensures we maximize both grid revenue and token value.",
+      confidence: "high",
+    },
+    coordination_governor: {
+      text: "Working with the Governor agent to balance energy dispatch within safety constraints. Current SOC at {{batterySOC}}% provides {{safetyMargin}}% margin above the {{minSOC}}% minimum threshold. All discharge operations require governance approval to maintain regulatory compliance.",
+      confidence: "high",
+    },
+    // Low-confidence responses (Enhancement #6, #22)
+    ambiguous: {
+      text: "I'm not entirely certain about the specific context of your question. Could you clarify whether you're asking about current energy dispatch strategy, battery management, or grid export optimization? I can provide more accurate information with additional context.",
+      confidence: "low",
+    },
+  },
+  markets: {
+    default: {
+      text: "Trading decisions today are driven by strong SOLAR token momentum (+{{priceChange}}% over 24h) and favorable liquidity on Jupiter DEX. Portfolio is currently {{solarPercent}}% SOLAR, {{usdcPercent}}% USDC, with rebalancing threshold at 70/30. Market conditions are optimal for continued accumulation.",
+      confidence: "high",
+    },
+    trading: {
+      text: "Today's trading activity: {{tradeCount}} executed swaps totaling {{usdcAmount}} USDC → {{solarAmount}} SOLAR tokens at average rate of {{avgRate}} USDC per token. Jupiter aggregator provided {{rateBenefit}}% better execution vs Serum direct. All trades executed within {{slippage}}% slippage tolerance.",
+      confidence: "high",
+    },
+    prediction: {
+      text: "Price prediction uses ensemble models: LSTM for time-series trends (weight: 40%), order book depth analysis (30%), and correlated asset movements (30%). Current 6-hour forecast: {{confidence}}% confidence for continued uptrend to ${{priceRangeLow}}-{{priceRangeHigh}} range. Model accuracy over past 30 days: {{accuracy}}%.",
+      confidence: "medium",
+    },
+    liquidity: {
+      text: "Current liquidity situation is {{liquidityState}}: Jupiter SOLAR/USDC pool depth at ${{jupiterDepth}}K, Serum at ${{serumDepth}}K. Slippage for {{tradeSize}}K trade estimated at {{slippage}}%. Recommend trades under ${{maxTrade}}K for optimal execution. Liquidity has {{liquidityTrend}} {{trendPercent}}% over past 24 hours.",
+      confidence: "high",
+    },
+    // Multi-domain coordination
+    coordination_operations: {
+      text: "Coordinating with Operations agent for synchronized sell timing during high generation periods. Current solar output at {{generation}}kW creates optimal arbitrage window. Planning {{tokenAmount}} SOLAR token sale when battery discharge reaches {{targetSOC}}% SOC.",
+      confidence: "high",
+    },
+    ambiguous: {
+      text: "Your question touches on several market aspects. Are you interested in current trading activity, price predictions, liquidity analysis, or portfolio rebalancing strategy? I can provide detailed insights once I understand your specific focus area.",
+      confidence: "low",
+    },
+  },
+  sentinel: {
+    default: {
+      text: "Hardware health is {{healthStatus}} across all systems. Panel Array A: {{arrayAHealth}}% efficiency, Array B: {{arrayBHealth}}% ({{degradationNote}}). Inverter 1 {{inverterStatus}}, {{alertCount}} alerts. {{sensorCount}} sensors reporting within normal parameters.",
+      confidence: "high",
+    },
+    health: {
+      text: "Solar panel health assessment: Array A performing at {{arrayAHealth}}% of rated capacity ({{arrayAGrade}}), Array B at {{arrayBHealth}}% with {{degradationRate}}% efficiency drop over past 30 days. Degradation consistent with normal aging patterns, no immediate action required. Thermal imaging shows uniform heat distribution across {{panelCount}} panels.",
+      confidence: "high",
+    },
+    maintenance: {
+      text: "Current maintenance status: {{alertCount}} pending alerts - Inverter 1 cooling fan showing {{vibrationIncrease}}% vibration increase (preventive maintenance window in {{maintenanceWindow}}h), Panel B junction box sector 3 hotspot detected ({{severity}}, scheduled inspection). All critical systems operational.",
+      confidence: "medium",
+    },
+    detection: {
+      text: "Equipment failure detection uses statistical process control with adaptive thresholds. System monitors {{sensorCount}} sensors every {{interval}} seconds, comparing against historical baselines adjusted for weather and load conditions. Anomaly detection sensitivity: {{tpRate}}% true positive rate, {{fpRate}}% false positive rate.",
+      confidence: "high",
+    },
+    coordination_governor: {
+      text: "Escalated critical battery temperature alert to Governor agent for safety enforcement. Current reading: {{batteryTemp}}°C (threshold: {{tempThreshold}}°C). Coordinating automatic shutdown protocols while maintaining grid stability commitments.",
+      confidence: "high",
+    },
+    // Maintenance mode response (Enhancement #14)
+    in_maintenance: {
+      text: "Currently in scheduled maintenance mode. Hardware diagnostics running across {{systemCount}} subsystems. Estimated completion: {{timeRemaining}} minutes. Critical monitoring continues with reduced polling frequency. All safety systems remain fully operational.",
+      confidence: "medium",
+    },
+    ambiguous: {
+      text: "I need more specifics to provide accurate diagnostics. Are you asking about solar panel health, inverter status, sensor network integrity, or maintenance schedules? Each subsystem requires different diagnostic approaches.",
+      confidence: "low",
+    },
+  },
+  governor: {
+    default: {
+      text: "Governance status: All {{constraintCount}} active safety constraints within compliance bounds. {{violationCount}} violations in past 24 hours. Current parameters: SOC min {{minSOC}}%, discharge max {{maxDischarge}}kW, grid export max {{maxExport}}kW. Override authority: {{sigRequired}} of {{sigTotal}} multi-sig required.",
+      confidence: "high",
+    },
+    constraints: {
+      text: "Active safety constraints: (1) Battery SOC ≥{{minSOC}}% (current: {{currentSOC}}%), (2) Discharge rate ≤{{maxDischarge}}kW (current: {{currentDischarge}}kW), (3) Grid export ≤{{maxExport}}kW (current: {{currentExport}}kW), (4) Inverter temp ≤{{maxTemp}}°C (current: {{currentTemp}}°C), (5) Panel efficiency ≥{{minEfficiency}}% (current: {{currentEfficiency}}%), (6-8) Grid interconnection SLA parameters.",
+      confidence: "high",
+    },
+    violations: {
+      text: "Constraint violation history: {{violationCount}} event(s) in past 24 hours. Most recent: {{violationTime}} - Battery SOC briefly dropped to {{violationSOC}}% (below {{minSOC}}% minimum) during unexpected demand spike. Operations agent throttled automatically, SOC recovered to {{recoverySOC}}% within {{recoveryTime}} minutes. Full incident logged to immutable audit trail with transaction hash {{txHash}}.",
+      confidence: "high",
+    },
+    enforcement: {
+      text: "Operating limit enforcement uses hierarchical control: Soft limits trigger warnings ({{softThreshold}}% threshold), hard limits block actions ({{hardThreshold}}% threshold), emergency limits initiate automatic shutdowns ({{emergencyThreshold}}% threshold). All decisions require governance PDA approval via multi-sig consensus ({{sigRequired}}/{{sigTotal}}).",
+      confidence: "high",
+    },
+    coordination_operations: {
+      text: "Enforcing discharge limits in coordination with Operations agent during low SOC event. Current SOC at {{currentSOC}}% requires throttling to maintain {{minSOC}}% safety threshold. Override request pending multi-sig approval ({{currentSigs}}/{{sigRequired}} signatures received).",
+      confidence: "high",
+    },
+    ambiguous: {
+      text: "Governance queries require specific context. Are you asking about active constraint parameters, violation history, enforcement mechanisms, or override procedures? Each area has distinct compliance and audit requirements.",
+      confidence: "low",
+    },
+  },
+};
+
+export function hasAnswerTemplate(
+  persona: AgentPersonaId,
+  topic: string
+): boolean {
+  return Object.hasOwn(ANSWER_TEMPLATES[persona], topic);
+}
+
+/**
+ * Template for a topic, or the persona's default when it has none, in
+ * `locale` where the catalog translates it
+ */
+export function getAnswerTemplate(
+  persona: AgentPersonaId,
+  topic: string,
+  locale: AgentLocale = DEFAULT_AGENT_LOCALE
+): AnswerTemplate {
+  const key = hasAnswerTemplate(persona, topic) ? topic : "default";
+  const template = ANSWER_TEMPLATES[persona][key];
+  const translation = getAnswerCatalog(locale).templates[persona]?.[key];
+  return translation ? { ...template, text: translation } : template;
+}
+
+/**
+ * Substitute placeholders in response text
+ */
+export function substitutePlaceholders(
+  text: string,
+  values: Record<string, string>
+): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key) => {
+    return values[key] || match;
+  });
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+/**
+ * One sentence citing the retrieved records as `[n]`, in the persona's voice
+ * ("at 2:04 PM I initiated grid sell-back … [1]"). When a named timeframe
+ * holds no records, says so instead.
+ */
+function describeRecords(
+  persona: AgentPersonaDefinition,
+  { records, timeframe }: AnswerGrounding,
+  locale: AgentLocale
+): string | null {
+  const phrases = getAnswerCatalog(locale).records;
+
+  if (records.length === 0) {
+    return timeframe
+      ? substitutePlaceholders(phrases.none, { timeframe })
+      : null;
+  }
+
+  const clauses = records.map((record, index) => {
+    const values = {
+      time: formatClockTime(new Date(record.timestamp), locale),
+      agent: AGENT_PERSONAS[record.agent].name,
+      signature: record.signature ? truncateHash(record.signature) : "",
+      summary: record.summary,
+      summaryContinued: lowerFirst(record.summary),
+      detail: record.detail ?? "",
+      detailContinued: lowerFirst(record.detail ?? ""),
+    };
+    const action = substitutePlaceholders(
+      record.kind === "transaction" && record.signature
+        ? phrases.transaction
+        : record.agent === persona.id
+          ? phrases.own
+          : phrases.other,
+      values
+    );
+    const reason = record.detail
+      ? substitutePlaceholders(phrases.reason, values)
+      : "";
+    return `${action}${reason} [${index + 1}]`;
+  });
+
+  return substitutePlaceholders(phrases.found, {
+    records: clauses.join(phrases.separator),
+  });
+}
+
+/**
+ * Fills the topic's template from the grounding facts, led by the records
+ * retrieved for the question, in the requested locale
+ */
+export const templateAnswerBackend: AnswerBackend = {
+  name: "template",
+
+  async *generate({ persona, grounding, locale }) {
+    const records = describeRecords(persona, grounding, locale);
+    if (records) yield `${records} `;
+
+    yield substitutePlaceholders(
+      getAnswerTemplate(persona.id, grounding.topic, locale).text,
+      localizeFacts(grounding.facts, locale)
+    );
+  },
+};
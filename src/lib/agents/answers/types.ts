@@ -0,0 +1,59 @@
+import type { AgentMessage } from "@/components/intelligence/AgentSidebar";
+
+import type { AgentLocale } from "../locale";
+import type { AgentPersonaDefinition } from "../personas";
+import type { RetrievedRecord } from "../retrieval/types";
+
+/**
+ * Everything an answer may draw on. It all comes from our own telemetry and
+ * classification, never from the backend.
+ */
+export interface AnswerGrounding {
+  /** Topic the question was classified under (a template key, e.g. `battery`) */
+  topic: string;
+  /** Live metric values by name (`batterySOC: "78"`) */
+  facts: Record<string, string>;
+  /** Data sources the persona cites for this answer */
+  sources: string[];
+  /** Retrieved records, cited in the text as `[n]` for records[n - 1] */
+  records: RetrievedRecord[];
+  /** Timeframe the question named (e.g. "around 2:00 PM"), if any, in the answer's locale */
+  timeframe: string | null;
+}
+
+export interface AnswerRequest {
+  persona: AgentPersonaDefinition;
+  question: string;
+  /** Language to answer in */
+  locale: AgentLocale;
+  /** Earlier messages in the thread, oldest first */
+  history: AgentMessage[];
+  grounding: AnswerGrounding;
+  signal?: AbortSignal;
+}
+
+export interface Answer {
+  /** Answer text, piece by piece as the backend writes it */
+  text: AsyncIterable<string>;
+  /** Backend that produced the text */
+  backend: string;
+  model?: string;
+  /** Why the configured backend was bypassed, when it was */
+  fallbackReason?: string;
+}
+
+/**
+ * Produces the prose of an agent answer. Backends only write text:
+ * confidence, provenance and trust fields stay with the ask route.
+ */
+export interface AnswerBackend {
+  readonly name: string;
+  /** Model that writes the text, for backends that call one */
+  readonly model?: string;
+
+  /**
+   * Yields the answer as it is written. Aborting `request.signal` cancels
+   * any upstream request.
+   */
+  generate(request: AnswerRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getComposerSuggestions,
+  parseComposerInput,
+  type ComposerSuggestionSources,
+} from "./commands";
+
+const sources: ComposerSuggestionSources = {
+  decisions: [
+    {
+      id: "decision-markets-1718000000300-0",
+      agent: "markets",
+      summary: "Sold surplus to the grid",
+    },
+    {
+      id: "decision-operations-1718000000200-0",
+      agent: "operations",
+      summary: "Charged the battery",
+    },
+    {
+      id: "decision-markets-1718000000100-0",
+      agent: "markets",
+      summary: "Held position",
+    },
+  ],
+  transactions: [
+    {
+      signature:
+        "5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW",
+      agent: "markets",
+      summary: "Grid sale",
+    },
+  ],
+};
+
+describe("parseComposerInput", () => {
+  it("reads commands and their arguments", () => {
+    expect(parseComposerInput("  /explain decision-markets-1-0 ")).toEqual({
+      kind: "command",
+      command: { name: "explain", decisionId: "decision-markets-1-0" },
+    });
+    expect(parseComposerInput("/COMPARE a b")).toEqual({
+      kind: "command",
+      command: { name: "compare", decisionIds: ["a", "b"] },
+    });
+    expect(parseComposerInput("/pause")).toEqual({
+      kind: "command",
+      command: { name: "pause" },
+    });
+  });
+
+  it("rejects unknown commands and wrong argument counts", () => {
+    expect(parseComposerInput("/explode now")).toEqual({
+      kind: "invalid",
+      error: "Unknown command /explode. Try /explain, /tx, /compare, /pause.",
+    });
+    // Only the command table's own entries are commands
+    expect(parseComposerInput("/constructor")).toMatchObject({
+      kind: "invalid",
+    });
+    expect(parseComposerInput("/tx")).toEqual({
+      kind: "invalid",
+      error: "Usage: /tx <signature>",
+    });
+    expect(parseComposerInput("/pause now")).toEqual({
+      kind: "invalid",
+      error: "Usage: /pause",
+    });
+    expect(parseComposerInput("/compare a a")).toMatchObject({
+      kind: "invalid",
+    });
+  });
+
+  it("addresses a question to the first agent mentioned", () => {
+    expect(parseComposerInput("@markets why did you sell?")).toEqual({
+      kind: "question",
+      text: "why did you sell?",
+      agent: "markets",
+    });
+    // Mentions mid-text read as the agent's name
+    expect(
+      parseComposerInput("what does @governor think of @sentinel's alert?")
+    ).toEqual({
+      kind: "question",
+      text: "what does Governor think of Sentinel's alert?",
+      agent: "governor",
+    });
+  });
+
+  it("leaves unknown mentions and addresses alone", () => {
+    expect(parseComposerInput("ask @someone or mail ops@aimp.energy")).toEqual({
+      kind: "question",
+      text: "ask @someone or mail ops@aimp.energy",
+      agent: null,
+    });
+    expect(parseComposerInput("@constructor hello")).toEqual({
+      kind: "question",
+      text: "@constructor hello",
+      agent: null,
+    });
+  });
+});
+
+describe("getComposerSuggestions", () => {
+  it("ranks prefix matches before other matches", () => {
+    expect(
+      getComposerSuggestions("/explain 1718000000", sources).map(
+        (suggestion) => suggestion.label
+      )
+    ).toEqual([
+      "decision-markets-1718000000300-0",
+      "decision-operations-1718000000200-0",
+      "decision-markets-1718000000100-0",
+    ]);
+    expect(
+      getComposerSuggestions("/explain decision-m", sources).map(
+        (suggestion) => suggestion.label
+      )
+    ).toEqual([
+      "decision-markets-1718000000300-0",
+      "decision-markets-1718000000100-0",
+    ]);
+    expect(
+      getComposerSuggestions("@o", sources).map(
+        (suggestion) => suggestion.value
+      )
+    ).toEqual(["@operations ", "@governor "]);
+  });
+
+  it("completes command names, then each argument in turn", () => {
+    expect(getComposerSuggestions("/c", sources)).toEqual([
+      {
+        value: "/compare ",
+        label: "/compare <decisionId> <decisionId>",
+        detail: "Compare two decisions side by side",
+      },
+    ]);
+
+    const first = "/compare decision-markets-1718000000300-0 ";
+    // The decision already chosen is not offered again
+    expect(
+      getComposerSuggestions(first, sources).map(
+        (suggestion) => suggestion.value
+      )
+    ).toEqual([
+      `${first}decision-operations-1718000000200-0`,
+      `${first}decision-markets-1718000000100-0`,
+    ]);
+
+    expect(getComposerSuggestions("/tx 5VER", sources)).toEqual([
+      {
+        value: `/tx ${sources.transactions[0].signature}`,
+        label: "5VERv8NM…diSZkQUW",
+        detail: "Markets · Grid sale",
+      },
+    ]);
+  });
+
+  it("offers nothing for a word that is already complete", () => {
+    expect(getComposerSuggestions("/pause", sources)).toEqual([]);
+    expect(getComposerSuggestions("/unknown ", sources)).toEqual([]);
+    expect(getComposerSuggestions("just a question", sources)).toEqual([]);
+  });
+});
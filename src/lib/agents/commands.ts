@@ -0,0 +1,310 @@
+/**
+ * Composer Commands - Slash commands and @mentions in the agent sidebar
+ *
+ * The sidebar composer accepts free-text questions plus a small command
+ * grammar for driving investigations from the keyboard:
+ *
+ * - `/explain <decisionId>` - Summary of a decision's explanation
+ * - `/tx <signature>` - Decoded receipt of a transaction
+ * - `/compare <decisionId> <decisionId>` - Two decisions side by side
+ * - `/pause` - Emergency pause of AI operations (asks for confirmation)
+ * - `@markets ...` - Address a question to a specific agent
+ *
+ * Parsing and autocompletion are pure so the composer can run them on every
+ * keystroke; executing a command is up to the sidebar's owner.
+ */
+
+import {
+  AGENT_PERSONAS,
+  AGENT_PERSONA_IDS,
+  resolveAgentPersona,
+  type AgentPersonaId,
+} from "./personas";
+
+// ============================================================================
+// GRAMMAR
+// ============================================================================
+
+export type AgentCommand =
+  | { name: "explain"; decisionId: string }
+  | { name: "tx"; signature: string }
+  | { name: "compare"; decisionIds: [string, string] }
+  | { name: "pause" };
+
+export type AgentCommandName = AgentCommand["name"];
+
+/** Kind of record a command argument refers to (drives autocompletion) */
+export type AgentCommandArgument = "decision" | "transaction";
+
+export interface AgentCommandDefinition {
+  name: AgentCommandName;
+  /** Usage line shown in autocompletion and errors */
+  usage: string;
+  description: string;
+  /** One entry per positional argument */
+  arguments: readonly AgentCommandArgument[];
+}
+
+export const AGENT_COMMANDS: Readonly<
+  Record<AgentCommandName, AgentCommandDefinition>
+> = {
+  explain: {
+    name: "explain",
+    usage: "/explain <decisionId>",
+    description: "Summarize a decision's explanation",
+    arguments: ["decision"],
+  },
+  tx: {
+    name: "tx",
+    usage: "/tx <signature>",
+    description: "Show a transaction receipt",
+    arguments: ["transaction"],
+  },
+  compare: {
+    name: "compare",
+    usage: "/compare <decisionId> <decisionId>",
+    description: "Compare two decisions side by side",
+    arguments: ["decision", "decision"],
+  },
+  pause: {
+    name: "pause",
+    usage: "/pause",
+    description: "Emergency pause of AI operations",
+    arguments: [],
+  },
+};
+
+function isAgentCommandName(value: string): value is AgentCommandName {
+  return Object.hasOwn(AGENT_COMMANDS, value);
+}
+
+/** What the composer should do with its input */
+export type ComposerInput =
+  | {
+      kind: "question";
+      /** Question with mentions removed; empty when only an agent was named */
+      text: string;
+      /** Agent addressed with an @mention, if any */
+      agent: AgentPersonaId | null;
+    }
+  | { kind: "command"; command: AgentCommand }
+  | { kind: "invalid"; error: string };
+
+const MENTION_PATTERN = /(^|\s)@([a-z]+)\b/gi;
+
+/**
+ * Read a question and its @mentions. The first mention of a known agent
+ * addresses the question; leading mentions are dropped from the text and
+ * later ones read as the agent's label ("what does @governor think" →
+ * "what does Governor think"). Unknown @words are left alone.
+ */
+function parseQuestion(input: string): ComposerInput {
+  let agent: AgentPersonaId | null = null;
+
+  const text = input.replace(
+    MENTION_PATTERN,
+    (match, space: string, name: string, offset: number) => {
+      const persona = resolveAgentPersona(name);
+      if (!persona) return match;
+      agent ??= persona;
+      const isLeading = input.slice(0, offset).trim() === "";
+      return isLeading ? space : `${space}${AGENT_PERSONAS[persona].label}`;
+    }
+  );
+
+  return {
+    kind: "question",
+    text: text.replace(/\s+/g, " ").trim(),
+    agent,
+  };
+}
+
+/**
+ * Parse the composer's input. Anything starting with `/` is a command and
+ * must match AGENT_COMMANDS exactly; everything else is a question.
+ */
+export function parseComposerInput(input: string): ComposerInput {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith("/")) {
+    return parseQuestion(trimmed);
+  }
+
+  const [head, ...args] = trimmed.split(/\s+/);
+  const name = head.slice(1).toLowerCase();
+  if (!isAgentCommandName(name)) {
+    return {
+      kind: "invalid",
+      error: `Unknown command ${head}. Try ${Object.values(AGENT_COMMANDS)
+        .map((command) => `/${command.name}`)
+        .join(", ")}.`,
+    };
+  }
+
+  const definition = AGENT_COMMANDS[name];
+  if (args.length !== definition.arguments.length) {
+    return { kind: "invalid", error: `Usage: ${definition.usage}` };
+  }
+
+  switch (name) {
+    case "explain":
+      return { kind: "command", command: { name, decisionId: args[0] } };
+    case "tx":
+      return { kind: "command", command: { name, signature: args[0] } };
+    case "compare":
+      if (args[0] === args[1]) {
+        return {
+          kind: "invalid",
+          error: "Choose two different decisions to compare.",
+        };
+      }
+      return {
+        kind: "command",
+        command: { name, decisionIds: [args[0], args[1]] },
+      };
+    case "pause":
+      return { kind: "command", command: { name } };
+  }
+}
+
+/** Text a command was typed as, e.g. for echoing it into the thread */
+export function formatAgentCommand(command: AgentCommand): string {
+  switch (command.name) {
+    case "explain":
+      return `/explain ${command.decisionId}`;
+    case "tx":
+      return `/tx ${command.signature}`;
+    case "compare":
+      return `/compare ${command.decisionIds.join(" ")}`;
+    case "pause":
+      return "/pause";
+  }
+}
+
+// ============================================================================
+// AUTOCOMPLETE
+// ============================================================================
+
+/** Records the composer can complete ids from, newest first */
+export interface ComposerSuggestionSources {
+  decisions: readonly {
+    id: string;
+    agent: AgentPersonaId;
+    summary: string;
+  }[];
+  transactions: readonly {
+    signature: string;
+    agent: AgentPersonaId;
+    summary: string;
+  }[];
+}
+
+export interface ComposerSuggestion {
+  /** Composer input after accepting the suggestion */
+  value: string;
+  /** What the suggestion inserts, as shown in the list */
+  label: string;
+  /** Secondary text (command description or record summary) */
+  detail?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/** Case-insensitive prefix matches first, then other substring matches */
+function rankMatches<T>(
+  items: readonly T[],
+  partial: string,
+  keyOf: (item: T) => string
+): T[] {
+  const needle = partial.toLowerCase();
+  const prefixed = items.filter((item) =>
+    keyOf(item).toLowerCase().startsWith(needle)
+  );
+  const containing = items.filter(
+    (item) =>
+      !prefixed.includes(item) && keyOf(item).toLowerCase().includes(needle)
+  );
+  return [...prefixed, ...containing];
+}
+
+function collectSuggestions(
+  input: string,
+  sources: ComposerSuggestionSources
+): ComposerSuggestion[] {
+  const partial = input.match(/\S*$/)?.[0] ?? "";
+  const before = input.slice(0, input.length - partial.length);
+
+  // Command name
+  if (before === "" && partial.startsWith("/")) {
+    return rankMatches(
+      Object.values(AGENT_COMMANDS),
+      partial.slice(1),
+      (command) => command.name
+    ).map((command) => ({
+      value:
+        command.arguments.length > 0 ? `/${command.name} ` : `/${command.name}`,
+      label: command.usage,
+      detail: command.description,
+    }));
+  }
+
+  // Command argument
+  if (before.startsWith("/")) {
+    const [head, ...args] = before.trim().split(/\s+/);
+    const name = head.slice(1).toLowerCase();
+    if (!isAgentCommandName(name)) return [];
+
+    const kinds = AGENT_COMMANDS[name].arguments;
+    const kind = kinds[args.length];
+    const hasMore = args.length + 1 < kinds.length;
+    const complete = (key: string) => `${before}${key}${hasMore ? " " : ""}`;
+
+    if (kind === "decision") {
+      return rankMatches(sources.decisions, partial, (decision) => decision.id)
+        .filter((decision) => !args.includes(decision.id))
+        .slice(0, MAX_SUGGESTIONS)
+        .map((decision) => ({
+          value: complete(decision.id),
+          label: decision.id,
+          detail: `${AGENT_PERSONAS[decision.agent].label} · ${decision.summary}`,
+        }));
+    }
+    if (kind === "transaction") {
+      return rankMatches(sources.transactions, partial, (tx) => tx.signature)
+        .slice(0, MAX_SUGGESTIONS)
+        .map((tx) => ({
+          value: complete(tx.signature),
+          label: `${tx.signature.slice(0, 8)}…${tx.signature.slice(-8)}`,
+          detail: `${AGENT_PERSONAS[tx.agent].label} · ${tx.summary}`,
+        }));
+    }
+    return [];
+  }
+
+  // Agent mention
+  if (partial.startsWith("@")) {
+    return rankMatches(AGENT_PERSONA_IDS, partial.slice(1), (id) => id).map(
+      (id) => ({
+        value: `${before}@${id} `,
+        label: `@${id}`,
+        detail: AGENT_PERSONAS[id].name,
+      })
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Completions for the word being typed at the end of `input`: command names
+ * after a leading `/`, decision ids and transaction signatures for command
+ * arguments, and agents after `@`. A word that is already complete gets no
+ * suggestions, so Enter sends it.
+ */
+export function getComposerSuggestions(
+  input: string,
+  sources: ComposerSuggestionSources
+): ComposerSuggestion[] {
+  return collectSuggestions(input, sources).filter(
+    (suggestion) => suggestion.value.trimEnd() !== input.trimEnd()
+  );
+}
@@ -0,0 +1,52 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createFileConversationRepository } from "./file";
+import type { Conversation } from "./types";
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "aimp-conversations-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function conversation(messageCount: number): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: "conversation-1",
+    agent: "markets",
+    createdAt: now,
+    updatedAt: now,
+    messages: Array.from({ length: messageCount }, (_, index) => ({
+      id: `message-${index}`,
+      role: "user",
+      content: `Question ${index}`,
+      timestamp: now,
+    })),
+    questions: [],
+  };
+}
+
+describe("createFileConversationRepository", () => {
+  it("survives concurrent saves of the same conversation", async () => {
+    const repository = createFileConversationRepository(directory, {
+      ttlMs: 60_000,
+      maxConversations: 10,
+    });
+
+    await Promise.all(
+      [1, 2, 3, 4].map((count) => repository.save(conversation(count)))
+    );
+
+    const saved = await repository.get("conversation-1");
+    expect(saved?.messages.length).toBeGreaterThanOrEqual(1);
+    // No temp file is left behind
+    expect(await readdir(directory)).toEqual(["conversation-1.json"]);
+  });
+});
@@ -0,0 +1,117 @@
+import { randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import type {
+  Conversation,
+  ConversationRepository,
+  ConversationStoreOptions,
+} from "./types";
+
+const FILE_EXTENSION = ".json";
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * One JSON file per conversation, so threads survive restarts on a single
+ * node. File mtimes double as the LRU clock: reads touch the file, and saves
+ * sweep expired files and evict the oldest beyond `maxConversations`.
+ *
+ * Ids must already be validated with `isConversationId()`; they are used as
+ * file names verbatim.
+ */
+export function createFileConversationRepository(
+  directory: string,
+  options: ConversationStoreOptions
+): ConversationRepository {
+  const filePath = (id: string) =>
+    path.join(directory, `${id}${FILE_EXTENSION}`);
+
+  async function sweep(): Promise<void> {
+    const names = (await readdir(directory)).filter((name) =>
+      name.endsWith(FILE_EXTENSION)
+    );
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(directory, name);
+        try {
+          return { file, mtimeMs: (await stat(file)).mtimeMs };
+        } catch (error) {
+          if (isMissingFile(error)) return null;
+          throw error;
+        }
+      })
+    );
+
+    const now = Date.now();
+    const live = files
+      .filter((entry) => entry !== null)
+      .sort((a, b) => b.mtimeMs - a.mtimeMs);
+    const stale = live.filter(
+      (entry, index) =>
+        index >= options.maxConversations || now - entry.mtimeMs > options.ttlMs
+    );
+
+    await Promise.all(stale.map(({ file }) => rm(file, { force: true })));
+  }
+
+  return {
+    name: "file",
+
+    async get(id) {
+      let conversation: Conversation;
+      try {
+        conversation = JSON.parse(await readFile(filePath(id), "utf8"));
+      } catch (error) {
+        if (isMissingFile(error)) return null;
+        throw error;
+      }
+
+      if (
+        Date.now() - new Date(conversation.updatedAt).getTime() >
+        options.ttlMs
+      ) {
+        await rm(filePath(id), { force: true });
+        return null;
+      }
+
+      const now = new Date();
+      await utimes(filePath(id), now, now);
+      return conversation;
+    },
+
+    async save(conversation) {
+      await mkdir(directory, { recursive: true });
+
+      // Write-then-rename so a crash never leaves a truncated thread behind;
+      // each save has its own temp file, so concurrent saves never collide
+      const target = filePath(conversation.id);
+      const temp = `${target}.${randomUUID()}.tmp`;
+      await writeFile(temp, JSON.stringify(conversation), "utf8");
+      await rename(temp, target);
+
+      await sweep();
+    },
+
+    async delete(id) {
+      try {
+        await rm(filePath(id));
+        return true;
+      } catch (error) {
+        if (isMissingFile(error)) return false;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Conversation Store - Persistent threads for `/api/agents/ask`
+ *
+ * Server-only: the file store uses `node:fs`, so this module is imported from
+ * `@/lib/agents/conversations` rather than re-exported by `@/lib/agents`.
+ */
+
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+
+import { conversationStore, conversationStoreDir } from "@/lib/config/flags";
+
+import { createFileConversationRepository } from "./file";
+import { createMemoryConversationRepository } from "./memory";
+import type { ConversationRepository, ConversationStoreOptions } from "./types";
+
+export type {
+  Conversation,
+  ConversationQuestion,
+  ConversationRepository,
+  ConversationStoreOptions,
+} from "./types";
+export { createFileConversationRepository } from "./file";
+export { createMemoryConversationRepository } from "./memory";
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export const CONVERSATION_STORE_OPTIONS: ConversationStoreOptions = {
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours idle
+  maxConversations: 500,
+};
+
+/** Messages kept per thread; older ones are dropped first */
+export const CONVERSATION_MAX_MESSAGES = 100;
+
+// ============================================================================
+// IDS
+// ============================================================================
+
+/** Ids are also file names in the file store, so keep them to a safe set */
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isConversationId(value: string): boolean {
+  return CONVERSATION_ID_PATTERN.test(value);
+}
+
+export function createConversationId(): string {
+  return `conv-${randomUUID()}`;
+}
+
+// ============================================================================
+// REPOSITORY
+// ============================================================================
+
+let repository: ConversationRepository | null = null;
+
+/** Returns the store selected by `CONVERSATION_STORE`. */
+export function getConversationRepository(): ConversationRepository {
+  if (!repository) {
+    repository =
+      conversationStore === "file"
+        ? createFileConversationRepository(
+            path.resolve(conversationStoreDir),
+            CONVERSATION_STORE_OPTIONS
+          )
+        : createMemoryConversationRepository(CONVERSATION_STORE_OPTIONS);
+  }
+
+  return repository;
+}
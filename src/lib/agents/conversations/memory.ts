@@ -0,0 +1,52 @@
+import type {
+  Conversation,
+  ConversationRepository,
+  ConversationStoreOptions,
+} from "./types";
+
+/**
+ * Process-local store. A `Map` keeps insertion order, so re-inserting on
+ * every access makes its first key the least recently used one.
+ */
+export function createMemoryConversationRepository(
+  options: ConversationStoreOptions
+): ConversationRepository {
+  const conversations = new Map<string, Conversation>();
+
+  const isExpired = (conversation: Conversation) =>
+    Date.now() - new Date(conversation.updatedAt).getTime() > options.ttlMs;
+
+  return {
+    name: "memory",
+
+    async get(id) {
+      const conversation = conversations.get(id);
+      if (!conversation) return null;
+
+      conversations.delete(id);
+      if (isExpired(conversation)) return null;
+
+      conversations.set(id, conversation);
+      return structuredClone(conversation);
+    },
+
+    async save(conversation) {
+      conversations.delete(conversation.id);
+      conversations.set(conversation.id, structuredClone(conversation));
+
+      for (const [id, stored] of conversations) {
+        if (
+          conversations.size <= options.maxConversations &&
+          !isExpired(stored)
+        ) {
+          break;
+        }
+        conversations.delete(id);
+      }
+    },
+
+    async delete(id) {
+      return conversations.delete(id);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import type { AgentMessage } from "@/components/intelligence/AgentSidebar";
+
+import type { AgentPersonaId } from "../personas";
+
+/** A question asked in a conversation, tracked for repeat detection */
+export interface ConversationQuestion {
+  /** Normalized (trimmed, lower-case) question text */
+  question: string;
+  responseKey: string;
+  /** Last time it was asked (epoch ms) */
+  timestamp: number;
+  count: number;
+}
+
+export interface Conversation {
+  id: string;
+  /** Persona the most recent question was addressed to */
+  agent: AgentPersonaId;
+  createdAt: string;
+  updatedAt: string;
+  /** Thread as rendered by AgentSidebar, oldest first */
+  messages: AgentMessage[];
+  questions: ConversationQuestion[];
+}
+
+export interface ConversationStoreOptions {
+  /** Conversations idle for longer than this are dropped */
+  ttlMs: number;
+  /** Least recently used conversations are evicted beyond this count */
+  maxConversations: number;
+}
+
+/**
+ * Storage for `/api/agents/ask` conversation threads.
+ *
+ * Implementations own expiry: `get` never returns a conversation whose
+ * `updatedAt` is older than the configured TTL.
+ */
+export interface ConversationRepository {
+  readonly name: string;
+
+  get(id: string): Promise<Conversation | null>;
+  save(conversation: Conversation): Promise<void>;
+  /** Resolves `false` when there was nothing to delete */
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,375 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from "node:crypto";
+import bs58 from "bs58";
+
+import type {
+  EvidenceBundleFormat,
+  ExplanationAuthor,
+} from "@/components/intelligence/ExplanationModal";
+import { canonicalJson, sha256Json } from "@/lib/api/hashing";
+import { evidenceSigningKey } from "@/lib/config/flags";
+
+import type {
+  EvidenceBundle,
+  EvidenceBundleSection,
+  EvidenceBundleSections,
+} from "./types";
+
+// ============================================================================
+// MANIFEST
+// ============================================================================
+
+/** Bundle layout; bump when sections or the manifest change */
+export const EVIDENCE_BUNDLE_SCHEMA = "aimp-evidence-bundle@2";
+
+const CANONICALIZATION =
+  "JSON with object keys sorted and no whitespace, UTF-8 encoded";
+
+/** Sections in manifest (and document) order */
+const EVIDENCE_BUNDLE_SECTIONS: EvidenceBundleSection[] = [
+  "decision",
+  "reasoning",
+  "inputs",
+  "constraints",
+  "transactions",
+  "proof",
+];
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/** DER header of a PKCS #8 private key wrapping an Ed25519 seed */
+const ED25519_PKCS8_PREFIX = Buffer.from(
+  "302e020100300506032b657004220420",
+  "hex"
+);
+
+let signingKey: { privateKey: KeyObject; publicKey: string } | null = null;
+
+/** `EVIDENCE_SIGNING_KEY`, or a key made up for this process */
+function getSigningKey(): { privateKey: KeyObject; publicKey: string } {
+  if (!signingKey) {
+    let privateKey: KeyObject;
+    if (evidenceSigningKey) {
+      const secret = bs58.decode(evidenceSigningKey.trim());
+      if (secret.length !== 32 && secret.length !== 64) {
+        throw new Error(
+          "EVIDENCE_SIGNING_KEY must be a base58 32-byte seed or 64-byte secret key"
+        );
+      }
+      privateKey = createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_PREFIX, secret.subarray(0, 32)]),
+        format: "der",
+        type: "pkcs8",
+      });
+    } else {
+      privateKey = generateKeyPairSync("ed25519").privateKey;
+    }
+
+    // The raw key is the last 32 bytes of its SubjectPublicKeyInfo
+    const spki = createPublicKey(privateKey).export({
+      format: "der",
+      type: "spki",
+    });
+    signingKey = { privateKey, publicKey: bs58.encode(spki.subarray(-32)) };
+  }
+
+  return signingKey;
+}
+
+/**
+ * Whether bundles are signed with a configured key. A key made up per
+ * process changes on restart, and with it every bundle's signature.
+ */
+export function hasEvidenceSigningKey(): boolean {
+  return Boolean(evidenceSigningKey);
+}
+
+/**
+ * Hash each section and the list of section hashes, and sign the result.
+ * Ed25519 signatures are deterministic, so the same sections and key always
+ * give the same manifest.
+ */
+export function createEvidenceBundle(
+  sections: EvidenceBundleSections
+): EvidenceBundle {
+  const entries = EVIDENCE_BUNDLE_SECTIONS.map((section) => ({
+    section,
+    sha256: sha256Json(sections[section]),
+  }));
+  const bundleSha256 = sha256Json(entries);
+  const { privateKey, publicKey } = getSigningKey();
+
+  return {
+    schema: EVIDENCE_BUNDLE_SCHEMA,
+    decisionId: sections.decision.id,
+    version: sections.decision.version,
+    manifest: {
+      algorithm: "sha256",
+      canonicalization: CANONICALIZATION,
+      entries,
+      bundleSha256,
+      signature: {
+        algorithm: "ed25519",
+        publicKey,
+        value: bs58.encode(
+          sign(null, Buffer.from(bundleSha256, "utf8"), privateKey)
+        ),
+      },
+    },
+    sections,
+  };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+export type { EvidenceBundleFormat };
+
+export const EVIDENCE_BUNDLE_FORMATS = [
+  "md",
+  "html",
+  "json",
+] as const satisfies readonly EvidenceBundleFormat[];
+
+/** A titled block of the human-readable bundle */
+interface BundleBlock {
+  title: string;
+  items?: string[];
+  ordered?: boolean;
+  table?: { columns: string[]; rows: string[][] };
+  /** Preformatted text (the canonical JSON that was hashed) */
+  code?: string;
+}
+
+function describeAuthor(author: ExplanationAuthor): string {
+  return author.kind === "agent"
+    ? `${author.agent} agent`
+    : `wallet ${author.address}`;
+}
+
+function describeBundle({ manifest, sections }: EvidenceBundle): BundleBlock[] {
+  const { decision } = sections;
+
+  return [
+    {
+      title: "Decision",
+      items: [
+        `Decision: ${decision.id}`,
+        `Agent: ${decision.agent}`,
+        `Decided at: ${decision.decidedAt}`,
+        `Summary: ${decision.summary}`,
+        `Confidence: ${decision.confidence === null ? "n/a" : `${decision.confidence}%`}`,
+        `Explanation version: ${decision.version}`,
+      ],
+    },
+    {
+      title: "Explanation history",
+      table: {
+        columns: [
+          "Version",
+          "Written at",
+          "Author",
+          "Reason",
+          "Incident",
+          "Signer",
+        ],
+        rows: decision.history.map((entry) => [
+          `v${entry.version}`,
+          entry.createdAt,
+          describeAuthor(entry.author),
+          entry.reason,
+          entry.incidentId ?? "",
+          entry.signer ?? "",
+        ]),
+      },
+    },
+    { title: "Reasoning", items: sections.reasoning, ordered: true },
+    {
+      title: "Inputs",
+      table: {
+        columns: ["Key", "Value", "Source", "Freshness (s)", "Observed at"],
+        rows: sections.inputs.map((input) => [
+          input.key,
+          String(input.value),
+          input.source,
+          String(input.freshnessSeconds),
+          input.observedAt,
+        ]),
+      },
+    },
+    {
+      title: "Constraints",
+      table: {
+        columns: ["Constraint", "Limit", "Actual", "Satisfied"],
+        rows: sections.constraints.map((constraint) => [
+          constraint.description,
+          String(constraint.limit ?? ""),
+          String(constraint.actual ?? ""),
+          constraint.satisfied ? "yes" : "no",
+        ]),
+      },
+    },
+    sections.transactions.length > 0
+      ? {
+          title: "Transactions",
+          table: {
+            columns: ["Signature", "Status", "Block time", "Slot", "Summary"],
+            rows: sections.transactions.map((tx) => [
+              tx.signature,
+              tx.status,
+              tx.blockTime,
+              String(tx.slot),
+              tx.summary,
+            ]),
+          },
+        }
+      : { title: "Transactions", items: ["No linked transactions"] },
+    { title: "Proof", items: [`zk proof hash: ${sections.proof.zkProofHash}`] },
+    {
+      title: "Manifest",
+      items: [
+        `Algorithm: ${manifest.algorithm}`,
+        `Canonicalization: ${manifest.canonicalization}`,
+        `Bundle SHA-256 (over the entries below): ${manifest.bundleSha256}`,
+        `Signed by (Ed25519 public key, base58): ${manifest.signature.publicKey}`,
+        `Signature of the bundle SHA-256 hex string (base58): ${manifest.signature.value}`,
+      ],
+      table: {
+        columns: ["Section", "SHA-256"],
+        rows: manifest.entries.map((entry) => [entry.section, entry.sha256]),
+      },
+    },
+    // Exactly the bytes each manifest entry hashes, for re-hashing
+    ...manifest.entries.map((entry) => ({
+      title: `Hashed content: ${entry.section}`,
+      code: canonicalJson(sections[entry.section]),
+    })),
+  ];
+}
+
+function renderMarkdown(bundle: EvidenceBundle): string {
+  const cell = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+  const blocks = describeBundle(bundle).map((block) => {
+    const lines = [`## ${block.title}`, ""];
+    block.items?.forEach((item, index) =>
+      lines.push(`${block.ordered ? `${index + 1}.` : "-"} ${item}`)
+    );
+    if (block.items) lines.push("");
+    if (block.table) {
+      lines.push(
+        `| ${block.table.columns.join(" | ")} |`,
+        `| ${block.table.columns.map(() => "---").join(" | ")} |`,
+        ...block.table.rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+        ""
+      );
+    }
+    if (block.code) lines.push("```json", block.code, "```", "");
+    return lines.join("\n");
+  });
+
+  return [
+    `# AIMP evidence bundle: ${bundle.decisionId} (v${bundle.version})`,
+    "",
+    `Schema: ${bundle.schema}`,
+    "",
+    ...blocks,
+  ].join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtml(bundle: EvidenceBundle): string {
+  const title = `AIMP evidence bundle: ${bundle.decisionId} (v${bundle.version})`;
+
+  const blocks = describeBundle(bundle).map((block) => {
+    const parts = [`<section>`, `<h2>${escapeHtml(block.title)}</h2>`];
+    if (block.items) {
+      const list = block.ordered ? "ol" : "ul";
+      parts.push(
+        `<${list}>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${list}>`
+      );
+    }
+    if (block.table) {
+      const head = block.table.columns
+        .map((column) => `<th>${escapeHtml(column)}</th>`)
+        .join("");
+      const rows = block.table.rows
+        .map(
+          (row) =>
+            `<tr>${row.map((value) => `<td>${escapeHtml(value)}</td>`).join("")}</tr>`
+        )
+        .join("\n");
+      parts.push(
+        `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`
+      );
+    }
+    if (block.code)
+      parts.push(`<pre><code>${escapeHtml(block.code)}</code></pre>`);
+    parts.push(`</section>`);
+    return parts.join("\n");
+  });
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<style>body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem}table{border-collapse:collapse;width:100%}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top}pre{white-space:pre-wrap;word-break:break-all;background:#f5f5f5;padding:8px}</style>",
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>Schema: ${escapeHtml(bundle.schema)}</p>`,
+    ...blocks,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Serialize a bundle for download. Every format carries the manifest and
+ * the sections it hashes; the same bundle always renders to the same bytes.
+ */
+export function renderEvidenceBundle(
+  bundle: EvidenceBundle,
+  format: EvidenceBundleFormat
+): { contentType: string; extension: string; body: string } {
+  switch (format) {
+    case "md":
+      return {
+        contentType: "text/markdown; charset=utf-8",
+        extension: "md",
+        body: renderMarkdown(bundle),
+      };
+    case "html":
+      return {
+        contentType: "text/html; charset=utf-8",
+        extension: "html",
+        body: renderHtml(bundle),
+      };
+    case "json":
+      return {
+        contentType: "application/json; charset=utf-8",
+        extension: "json",
+        body: `${JSON.stringify(bundle, null, 2)}\n`,
+      };
+  }
+}
@@ -0,0 +1,183 @@
+import type {
+  ExplanationConstraintChange,
+  ExplanationDiff,
+  ExplanationStepChange,
+  ExplanationVersion,
+  ExplanationVersionInfo,
+} from "@/components/intelligence/ExplanationModal";
+
+function versionInfo(version: ExplanationVersion): ExplanationVersionInfo {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { explanation, ...info } = version;
+  return info;
+}
+
+/**
+ * Align two lists of reasoning steps on their longest common subsequence.
+ * A removed step directly replaced by an added one reads as a rewording.
+ */
+function diffReasoning(
+  before: readonly string[],
+  after: readonly string[]
+): ExplanationStepChange[] {
+  // common[i][j]: length of the LCS of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] =
+        before[i] === after[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: ExplanationStepChange[] = [];
+  let removed: ExplanationStepChange[] = [];
+  let added: ExplanationStepChange[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({
+        change: "changed",
+        step: added[k].step,
+        before: removed[k].before,
+        after: added[k].after,
+      });
+    }
+    changes.push(...removed.slice(paired), ...added.slice(paired));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (
+      j < after.length &&
+      (i >= before.length || common[i][j + 1] >= common[i + 1][j])
+    ) {
+      added.push({ change: "added", step: j + 1, after: after[j] });
+      j++;
+    } else {
+      removed.push({ change: "removed", step: i + 1, before: before[i] });
+      i++;
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+/** Constraints are matched by description */
+function diffConstraints(
+  before: ExplanationVersion["explanation"]["constraints"],
+  after: ExplanationVersion["explanation"]["constraints"]
+): ExplanationConstraintChange[] {
+  const previous = new Map(before.map((c) => [c.description, c]));
+  const next = new Map(after.map((c) => [c.description, c]));
+  const changes: ExplanationConstraintChange[] = [];
+
+  before.forEach((constraint) => {
+    if (!next.has(constraint.description)) {
+      changes.push({
+        change: "removed",
+        description: constraint.description,
+        before: constraint,
+      });
+    }
+  });
+  after.forEach((constraint) => {
+    const old = previous.get(constraint.description);
+    if (!old) {
+      changes.push({
+        change: "added",
+        description: constraint.description,
+        after: constraint,
+      });
+    } else if (
+      old.satisfied !== constraint.satisfied ||
+      old.limit !== constraint.limit ||
+      old.actual !== constraint.actual
+    ) {
+      changes.push({
+        change: "changed",
+        description: constraint.description,
+        before: old,
+        after: constraint,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * What changed between two versions of an explanation: summary, reasoning
+ * steps, constraints and confidence. Sections that did not change are null
+ * or empty.
+ */
+export function diffExplanationVersions(
+  from: ExplanationVersion,
+  to: ExplanationVersion
+): ExplanationDiff {
+  const before = from.explanation;
+  const after = to.explanation;
+
+  return {
+    from: versionInfo(from),
+    to: versionInfo(to),
+    summary:
+      before.summary === after.summary
+        ? null
+        : { before: before.summary, after: after.summary },
+    reasoning: diffReasoning(before.reasoning, after.reasoning),
+    constraints: diffConstraints(before.constraints, after.constraints),
+    confidence:
+      before.confidence === after.confidence
+        ? null
+        : {
+            before: before.confidence,
+            after: after.confidence,
+            delta: (after.confidence ?? 0) - (before.confidence ?? 0),
+          },
+  };
+}
+
+/** One line per change in a diff, e.g. for an audit trail */
+export function describeExplanationDiff(diff: ExplanationDiff): string[] {
+  const lines: string[] = [];
+
+  if (diff.summary) lines.push("Revised summary");
+  diff.reasoning.forEach(({ change, step }) => {
+    lines.push(
+      change === "added"
+        ? `Added reasoning step ${step}`
+        : change === "removed"
+          ? `Removed reasoning step ${step}`
+          : `Rewrote reasoning step ${step}`
+    );
+  });
+  diff.constraints.forEach(({ change, description, after }) => {
+    lines.push(
+      change === "added"
+        ? `Added constraint: ${description}`
+        : change === "removed"
+          ? `Removed constraint: ${description}`
+          : `${after?.satisfied ? "Satisfied" : "Violated"} constraint: ${description}`
+    );
+  });
+  if (diff.confidence) {
+    lines.push(
+      `Confidence ${diff.confidence.before ?? "–"}% → ${diff.confidence.after ?? "–"}%`
+    );
+  }
+
+  return lines;
+}
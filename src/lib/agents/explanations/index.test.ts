@@ -0,0 +1,80 @@
+import bs58 from "bs58";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { verifyWalletSignature } from "@/lib/api/auth";
+import { canonicalJson, sha256Hex } from "@/lib/api/hashing";
+
+const DECISION_ID = `decision-markets-${Date.parse("2026-01-01T12:00:00Z")}`;
+const SIGNING_KEY = bs58.encode(new Uint8Array(32).fill(7));
+
+/** A fresh explanations module, as after a restart */
+async function load(env: Record<string, string> = {}) {
+  vi.resetModules();
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+
+  return import("./index");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("buildEvidenceBundle", () => {
+  it("downloads the same version as the same bytes, across restarts", async () => {
+    const downloads = [];
+    for (let restart = 0; restart < 2; restart++) {
+      const { buildEvidenceBundle, renderEvidenceBundle } = await load({
+        EVIDENCE_SIGNING_KEY: SIGNING_KEY,
+      });
+      const bundle = (await buildEvidenceBundle(DECISION_ID, 1))!;
+      for (const format of ["md", "html", "json"] as const) {
+        downloads.push(renderEvidenceBundle(bundle, format).body);
+      }
+      // Built again in the same process
+      const again = (await buildEvidenceBundle(DECISION_ID, 1))!;
+      expect(renderEvidenceBundle(again, "json").body).toBe(downloads.at(-1));
+    }
+
+    expect(downloads.slice(3)).toEqual(downloads.slice(0, 3));
+  });
+
+  it("hashes each section and signs the bundle hash", async () => {
+    const { buildEvidenceBundle } = await load({
+      EVIDENCE_SIGNING_KEY: SIGNING_KEY,
+    });
+    const { manifest, sections } = (await buildEvidenceBundle(DECISION_ID))!;
+
+    for (const entry of manifest.entries) {
+      expect(entry.sha256).toBe(
+        sha256Hex(canonicalJson(sections[entry.section]))
+      );
+    }
+    expect(manifest.bundleSha256).toBe(
+      sha256Hex(canonicalJson(manifest.entries))
+    );
+
+    const { publicKey, value } = manifest.signature;
+    expect(verifyWalletSignature(publicKey, manifest.bundleSha256, value)).toBe(
+      true
+    );
+    const tampered = sha256Hex(`${canonicalJson(manifest.entries)} `);
+    expect(verifyWalletSignature(publicKey, tampered, value)).toBe(false);
+  });
+});
+
+describe("isEvidenceBundleReproducible", () => {
+  it("holds only for signed originals from the mock source", async () => {
+    const unsigned = await load();
+    expect(unsigned.isEvidenceBundleReproducible(1)).toBe(false);
+
+    const signed = await load({ EVIDENCE_SIGNING_KEY: SIGNING_KEY });
+    expect(signed.isEvidenceBundleReproducible(1)).toBe(true);
+    // Amendments are renumbered after a restart of the memory store
+    expect(signed.isEvidenceBundleReproducible(2)).toBe(false);
+
+    const rpc = await load({ TRANSACTION_SOURCE: "rpc" });
+    expect(rpc.isEvidenceBundleReproducible(1)).toBe(false);
+  });
+});
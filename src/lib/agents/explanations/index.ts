@@ -0,0 +1,489 @@
+/**
+ * Explanation Versions - Immutable history of each decision's explanation
+ *
+ * The first time a decision's explanation is asked for, its original version
+ * is generated from the decision's own seed and stored; decisions that were
+ * re-explained after an incident get that amendment as a second version.
+ * Later amendments are appended with their author and reason. Stored versions
+ * never change, so `/api/explanations/[id]` and its `/versions` history
+ * always agree. `explainWhatIf` re-runs a decision against the current
+ * version's inputs with some of them overridden, and `buildEvidenceBundle`
+ * packages a version with its inputs, constraint checks, linked transactions
+ * and proof under a signed SHA-256 manifest.
+ *
+ * Server-only: versions live in server memory, so this module is imported
+ * from `@/lib/agents/explanations` rather than re-exported by `@/lib/agents`.
+ */
+
+import type {
+  DecisionInput,
+  Explanation,
+  ExplanationAuthor,
+  WhatIfResult,
+} from "@/components/intelligence/ExplanationModal";
+import { getTransactionSource } from "@/lib/api/transaction-source";
+import {
+  getTransactionExplorerUrl,
+  resolveTransactionFilters,
+  takeTransactions,
+} from "@/lib/api/transactions";
+import { BLOCKCHAIN } from "@/lib/constants";
+import {
+  generateMockExplanation,
+  generateMockIncidentAmendment,
+  getDecisionSeed,
+  withMockSeed,
+} from "@/lib/mock";
+
+import { isAgentPersona, type AgentPersonaId } from "../personas";
+import { createEvidenceBundle, hasEvidenceSigningKey } from "./bundle";
+import { createMemoryExplanationVersionRepository } from "./memory";
+import {
+  WHAT_IF_INPUT_RANGES,
+  evaluateDecision,
+  isWhatIfInputKey,
+  runWhatIf,
+  type WhatIfInputKey,
+} from "./what-if";
+import type {
+  EvidenceBundle,
+  EvidenceBundleTransaction,
+  ExplanationVersion,
+  ExplanationVersionDraft,
+  ExplanationVersionRepository,
+  ExplanationVersionStoreOptions,
+} from "./types";
+
+export type {
+  EvidenceBundle,
+  EvidenceBundleDecision,
+  EvidenceBundleInput,
+  EvidenceBundleManifest,
+  EvidenceBundleSection,
+  EvidenceBundleSections,
+  EvidenceBundleTransaction,
+  ExplanationVersion,
+  ExplanationVersionDraft,
+  ExplanationVersionInfo,
+  ExplanationVersionRepository,
+  ExplanationVersionStoreOptions,
+} from "./types";
+export {
+  EVIDENCE_BUNDLE_FORMATS,
+  EVIDENCE_BUNDLE_SCHEMA,
+  renderEvidenceBundle,
+  type EvidenceBundleFormat,
+} from "./bundle";
+export { createMemoryExplanationVersionRepository } from "./memory";
+export { describeExplanationDiff, diffExplanationVersions } from "./diff";
+export {
+  WHAT_IF_INPUT_KEYS,
+  WHAT_IF_INPUT_RANGES,
+  evaluateDecision,
+  isWhatIfInputKey,
+  type DecisionEvaluation,
+  type WhatIfInputKey,
+} from "./what-if";
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export const EXPLANATION_VERSION_STORE_OPTIONS: ExplanationVersionStoreOptions =
+  {
+    maxDecisions: 1000,
+  };
+
+/** Lowest confidence an incident amendment lowers an explanation to */
+const AMENDED_CONFIDENCE_FLOOR = 30;
+
+/** Transactions the agent sends this soon after a decision are linked to it */
+export const LINKED_TRANSACTION_WINDOW_SEC = 600;
+const MAX_LINKED_TRANSACTIONS = 5;
+
+// ============================================================================
+// DECISION IDS
+// ============================================================================
+
+/** What a decision id encodes */
+export interface DecisionIdParts {
+  agent: AgentPersonaId;
+  decidedAt: Date;
+  /** Seed the decision and its explanation draw from */
+  seed: number;
+}
+
+/**
+ * Agent, decision time and seed encoded in a decision id
+ * (`decision-{agent}-{epoch ms}-{sequence}`; ids from before sequence
+ * numbers leave it out), or null for any other id
+ */
+export function parseDecisionId(decisionId: string): DecisionIdParts | null {
+  const match = decisionId.match(
+    /^decision-([a-z]+)-(\d{1,15})(?:-(\d{1,9}))?$/
+  );
+  if (!match || !isAgentPersona(match[1])) return null;
+
+  const decidedAt = new Date(Number(match[2]));
+  return Number.isNaN(decidedAt.getTime())
+    ? null
+    : {
+        agent: match[1],
+        decidedAt,
+        seed: getDecisionSeed(decidedAt, Number(match[3] ?? 0)),
+      };
+}
+
+// ============================================================================
+// REPOSITORY
+// ============================================================================
+
+let repository: ExplanationVersionRepository | null = null;
+
+export function getExplanationVersionRepository(): ExplanationVersionRepository {
+  if (!repository) {
+    repository = createMemoryExplanationVersionRepository(
+      EXPLANATION_VERSION_STORE_OPTIONS
+    );
+  }
+
+  return repository;
+}
+
+// ============================================================================
+// ORIGINAL VERSIONS
+// ============================================================================
+
+function toDecisionInputs(
+  inputs: ReturnType<typeof generateMockExplanation>["inputs"]
+): DecisionInput[] {
+  return inputs.map((input) => ({
+    key: input.key,
+    value: Math.round(input.value * 100) / 100,
+    source: input.source,
+    freshnessSeconds: input.freshnessSec,
+    ...(isWhatIfInputKey(input.key)
+      ? { range: WHAT_IF_INPUT_RANGES[input.key] }
+      : {}),
+  }));
+}
+
+/**
+ * Inputs the decision was made on, as its original explanation lists them,
+ * and the hash of the proof the agent attached to it
+ */
+export function generateDecisionRecord(
+  decisionId: string,
+  { agent, seed }: DecisionIdParts
+): { inputs: DecisionInput[]; zkProofHash: string } {
+  return withMockSeed(seed, () => {
+    const mock = generateMockExplanation(decisionId, agent);
+    return {
+      inputs: toDecisionInputs(mock.inputs),
+      zkProofHash: mock.zkProofHash,
+    };
+  });
+}
+
+/**
+ * The decision's original explanation and, if it was re-explained after an
+ * incident that has already happened, the amendment. Both come from the
+ * decision's seed, so every process generates the same history.
+ */
+function generateOriginalVersions(
+  decisionId: string,
+  { agent, decidedAt, seed }: DecisionIdParts
+): ExplanationVersionDraft[] {
+  const { mock, amendment } = withMockSeed(seed, () => ({
+    mock: generateMockExplanation(decisionId, agent),
+    amendment: generateMockIncidentAmendment(agent),
+  }));
+
+  const original: Explanation = {
+    id: decisionId,
+    agent,
+    summary: mock.summary,
+    reasoning: mock.reasoning,
+    constraints: mock.constraintDetails.map((constraint) => ({
+      description: constraint.text,
+      satisfied: true,
+    })),
+    inputs: toDecisionInputs(mock.inputs),
+    timestamp: decidedAt.toISOString(),
+    confidence: mock.confidence,
+  };
+
+  const drafts: ExplanationVersionDraft[] = [
+    {
+      createdAt: decidedAt.toISOString(),
+      author: { kind: "agent", agent },
+      reason: "Original explanation",
+      explanation: original,
+    },
+  ];
+
+  const amendedAt = new Date(
+    decidedAt.getTime() + (amendment?.minutesAfter ?? 0) * 60 * 1000
+  );
+  if (amendment && amendedAt.getTime() <= Date.now()) {
+    const confidence = Math.max(
+      AMENDED_CONFIDENCE_FLOOR,
+      mock.confidence - amendment.confidenceDrop
+    );
+    const stepIndex = Math.min(
+      amendment.stepIndex,
+      original.reasoning.length - 1
+    );
+
+    drafts.push({
+      createdAt: amendedAt.toISOString(),
+      author: { kind: "agent", agent: amendment.author },
+      reason: `Re-explained after ${amendment.incident}`,
+      incidentId: amendment.incidentId,
+      explanation: {
+        ...original,
+        summary: original.summary.replace(
+          `${mock.confidence}%`,
+          `${confidence}%`
+        ),
+        reasoning: original.reasoning.map((step, index) =>
+          index === stepIndex ? amendment.step : step
+        ),
+        constraints: [
+          ...original.constraints,
+          // The incident exposed a constraint the decision did not meet
+          { description: amendment.constraint.text, satisfied: false },
+        ],
+        confidence,
+      },
+    });
+  }
+
+  return drafts;
+}
+
+/** Seeding in progress per decision, so concurrent first reads seed once */
+const seeding = new Map<string, Promise<ExplanationVersion[]>>();
+
+/**
+ * Versions of a decision's explanation, oldest first, or null when the id is
+ * not a decision id. The original versions are stored on first access.
+ */
+export async function getExplanationVersions(
+  decisionId: string
+): Promise<ExplanationVersion[] | null> {
+  const parsed = parseDecisionId(decisionId);
+  if (!parsed) return null;
+
+  const store = getExplanationVersionRepository();
+  const versions = await store.list(decisionId);
+  if (versions.length > 0) return versions;
+
+  let pending = seeding.get(decisionId);
+  if (!pending) {
+    pending = (async () => {
+      const seeded: ExplanationVersion[] = [];
+      for (const draft of generateOriginalVersions(decisionId, parsed)) {
+        seeded.push(await store.append(decisionId, draft));
+      }
+      return seeded;
+    })().finally(() => seeding.delete(decisionId));
+    seeding.set(decisionId, pending);
+  }
+
+  return pending;
+}
+
+// ============================================================================
+// AMENDMENTS
+// ============================================================================
+
+/** Parts of an explanation an amendment may replace */
+export type ExplanationChanges = Partial<
+  Pick<Explanation, "summary" | "reasoning" | "constraints" | "confidence">
+>;
+
+export interface ExplanationAmendment {
+  author: ExplanationAuthor;
+  reason: string;
+  incidentId?: string;
+  /** Wallet signed in when the amendment was made */
+  signer?: string;
+  changes: ExplanationChanges;
+}
+
+/**
+ * Store a new version of the explanation: the latest one with `changes`
+ * applied. Resolves null when the id is not a decision id.
+ */
+export async function amendExplanation(
+  decisionId: string,
+  { author, reason, incidentId, signer, changes }: ExplanationAmendment
+): Promise<{
+  previous: ExplanationVersion;
+  version: ExplanationVersion;
+} | null> {
+  const versions = await getExplanationVersions(decisionId);
+  const previous = versions?.at(-1);
+  if (!previous) return null;
+
+  // Parts left undefined keep their previous value
+  const replaced = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  );
+
+  const version = await getExplanationVersionRepository().append(decisionId, {
+    createdAt: new Date().toISOString(),
+    author,
+    reason,
+    ...(incidentId ? { incidentId } : {}),
+    ...(signer ? { signer } : {}),
+    explanation: { ...previous.explanation, ...replaced },
+  });
+
+  return { previous, version };
+}
+
+// ============================================================================
+// WHAT-IF
+// ============================================================================
+
+/**
+ * The decision re-run against its current explanation's inputs with
+ * `overrides` applied. Resolves null when the id is not a decision id.
+ */
+export async function explainWhatIf(
+  decisionId: string,
+  overrides: Partial<Record<WhatIfInputKey, number>>
+): Promise<WhatIfResult | null> {
+  const current = (await getExplanationVersions(decisionId))?.at(-1);
+  if (!current) return null;
+
+  const { agent, inputs, confidence } = current.explanation;
+  const result = runWhatIf(agent, inputs, confidence ?? 0, overrides);
+
+  return {
+    decisionId,
+    version: current.version,
+    ...result,
+    actionChanged: result.original.action !== result.outcome.action,
+  };
+}
+
+// ============================================================================
+// EVIDENCE BUNDLES
+// ============================================================================
+
+/**
+ * Transactions the agent sent in the window after the decision, oldest
+ * first. The window is anchored at the decision time and the mock source
+ * generates it from the decision's own seed; the rpc source reads whatever
+ * the chain holds for it.
+ */
+async function findLinkedTransactions({
+  agent,
+  decidedAt,
+  seed,
+}: DecisionIdParts): Promise<EvidenceBundleTransaction[]> {
+  const filters = resolveTransactionFilters(
+    { agent, since: decidedAt.toISOString() },
+    {
+      seed,
+      asOf: new Date(
+        decidedAt.getTime() + LINKED_TRANSACTION_WINDOW_SEC * 1000
+      ),
+    }
+  );
+
+  return (await takeTransactions(filters, MAX_LINKED_TRANSACTIONS))
+    .reverse()
+    .map((tx) => ({
+      signature: tx.signature,
+      status: tx.status,
+      blockTime: tx.blockTime,
+      slot: tx.slot,
+      summary: tx.summary,
+      explorerUrl: getTransactionExplorerUrl(
+        tx.signature,
+        "solana",
+        BLOCKCHAIN.network
+      ),
+      zkProofHash: tx.zkProofHash ?? null,
+    }));
+}
+
+/**
+ * Whether every download of `version`'s bundle is the same bytes: its
+ * transactions come from the seeded mock sequence, it is signed with the
+ * configured key, and the version names the same content in every process.
+ * Originals are regenerated from the decision's seed; later versions only
+ * keep their numbers in a persistent repository.
+ */
+export function isEvidenceBundleReproducible(version: number): boolean {
+  return (
+    getTransactionSource().name === "mock" &&
+    hasEvidenceSigningKey() &&
+    (version === 1 || getExplanationVersionRepository().persistent)
+  );
+}
+
+/**
+ * Evidence bundle for one version of a decision's explanation (the current
+ * one by default). Resolves null when the id is not a decision id or the
+ * version does not exist.
+ */
+export async function buildEvidenceBundle(
+  decisionId: string,
+  version?: number
+): Promise<EvidenceBundle | null> {
+  const parsed = parseDecisionId(decisionId);
+  const versions = await getExplanationVersions(decisionId);
+  if (!parsed || !versions) return null;
+
+  const selected =
+    version === undefined
+      ? versions.at(-1)
+      : versions.find((candidate) => candidate.version === version);
+  if (!selected) return null;
+
+  const { explanation } = selected;
+  const { agent, decidedAt } = parsed;
+  const { zkProofHash } = generateDecisionRecord(decisionId, parsed);
+
+  // Re-check the recorded inputs so each constraint carries its limit and
+  // the value checked against it
+  const checks = evaluateDecision(agent, explanation.inputs).constraints;
+
+  return createEvidenceBundle({
+    decision: {
+      id: decisionId,
+      agent,
+      decidedAt: decidedAt.toISOString(),
+      summary: explanation.summary,
+      confidence: explanation.confidence ?? null,
+      version: selected.version,
+      history: versions
+        .filter((candidate) => candidate.version <= selected.version)
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        .map(({ explanation, ...info }) => info),
+    },
+    reasoning: explanation.reasoning,
+    inputs: explanation.inputs.map((input) => ({
+      key: input.key,
+      value: input.value,
+      source: input.source,
+      freshnessSeconds: input.freshnessSeconds,
+      observedAt: new Date(
+        decidedAt.getTime() - input.freshnessSeconds * 1000
+      ).toISOString(),
+    })),
+    constraints: explanation.constraints.map((constraint) => {
+      const check = checks.find(
+        (candidate) => candidate.description === constraint.description
+      );
+      return check ? { ...constraint, ...check } : constraint;
+    }),
+    transactions: await findLinkedTransactions(parsed),
+    proof: { zkProofHash },
+  });
+}
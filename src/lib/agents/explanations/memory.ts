@@ -0,0 +1,49 @@
+import type {
+  ExplanationVersion,
+  ExplanationVersionRepository,
+  ExplanationVersionStoreOptions,
+} from "./types";
+
+/**
+ * Process-local store. Versions are cloned on the way in and out, so callers
+ * can never modify a stored version; re-inserting a decision on every access
+ * keeps the `Map`'s first key the least recently used one.
+ */
+export function createMemoryExplanationVersionRepository(
+  options: ExplanationVersionStoreOptions
+): ExplanationVersionRepository {
+  const decisions = new Map<string, ExplanationVersion[]>();
+
+  const touch = (decisionId: string): ExplanationVersion[] => {
+    const versions = decisions.get(decisionId) ?? [];
+    decisions.delete(decisionId);
+    decisions.set(decisionId, versions);
+    return versions;
+  };
+
+  return {
+    name: "memory",
+    persistent: false,
+
+    async list(decisionId) {
+      if (!decisions.has(decisionId)) return [];
+      return structuredClone(touch(decisionId));
+    },
+
+    async append(decisionId, draft) {
+      const versions = touch(decisionId);
+      const version: ExplanationVersion = {
+        ...structuredClone(draft),
+        version: versions.length + 1,
+      };
+      versions.push(version);
+
+      for (const id of decisions.keys()) {
+        if (decisions.size <= options.maxDecisions) break;
+        decisions.delete(id);
+      }
+
+      return structuredClone(version);
+    },
+  };
+}
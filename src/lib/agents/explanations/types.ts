@@ -0,0 +1,115 @@
+import type {
+  Constraint,
+  ExplanationVersion,
+  ExplanationVersionInfo,
+} from "@/components/intelligence/ExplanationModal";
+import type { AgentPersonaId } from "../personas";
+
+/** A version about to be stored; the repository numbers it */
+export type ExplanationVersionDraft = Omit<ExplanationVersion, "version">;
+
+export type { ExplanationVersion, ExplanationVersionInfo };
+
+export interface ExplanationVersionStoreOptions {
+  /** Least recently used decisions are evicted beyond this count */
+  maxDecisions: number;
+}
+
+/**
+ * Storage for explanation versions, per decision.
+ *
+ * Versions are append-only: `append` numbers the draft after the latest
+ * stored version and nothing ever rewrites a stored one.
+ */
+export interface ExplanationVersionRepository {
+  readonly name: string;
+  /**
+   * Whether stored versions outlive the process. Otherwise amendments are
+   * lost on restart and their version numbers reused for new ones.
+   */
+  readonly persistent: boolean;
+
+  /** Versions of a decision's explanation, oldest first */
+  list(decisionId: string): Promise<ExplanationVersion[]>;
+  append(
+    decisionId: string,
+    draft: ExplanationVersionDraft
+  ): Promise<ExplanationVersion>;
+}
+
+// ============================================================================
+// EVIDENCE BUNDLES
+// ============================================================================
+
+/** Decision an evidence bundle covers, and the explanation history behind it */
+export interface EvidenceBundleDecision {
+  id: string;
+  agent: AgentPersonaId;
+  /** Decision time (ISO 8601) */
+  decidedAt: string;
+  summary: string;
+  confidence: number | null;
+  /** Explanation version the bundle was built from */
+  version: number;
+  /** Versions up to and including `version`, oldest first */
+  history: ExplanationVersionInfo[];
+}
+
+/** A decision input with where it came from and how old it was */
+export interface EvidenceBundleInput {
+  key: string;
+  value: string | number | boolean;
+  source: string;
+  freshnessSeconds: number;
+  /** When the source observed the value (ISO 8601) */
+  observedAt: string;
+}
+
+/** On-chain transaction the agent sent after the decision */
+export interface EvidenceBundleTransaction {
+  signature: string;
+  status: string;
+  blockTime: string;
+  slot: number;
+  summary: string;
+  explorerUrl: string;
+  zkProofHash: string | null;
+}
+
+/** Everything the manifest hashes, one entry per section */
+export interface EvidenceBundleSections {
+  decision: EvidenceBundleDecision;
+  reasoning: string[];
+  inputs: EvidenceBundleInput[];
+  constraints: Constraint[];
+  transactions: EvidenceBundleTransaction[];
+  proof: { zkProofHash: string };
+}
+
+export type EvidenceBundleSection = keyof EvidenceBundleSections;
+
+export interface EvidenceBundleManifest {
+  algorithm: "sha256";
+  /** How each section is serialized before hashing */
+  canonicalization: string;
+  entries: { section: EvidenceBundleSection; sha256: string }[];
+  /** SHA-256 of the canonical JSON of `entries` */
+  bundleSha256: string;
+  /** The server's signature of `bundleSha256` (its hex string, UTF-8) */
+  signature: {
+    algorithm: "ed25519";
+    /** Base58 public key; compare it with the one the operator publishes */
+    publicKey: string;
+    /** Base58 signature */
+    value: string;
+  };
+}
+
+export interface EvidenceBundle {
+  /** Bundle layout (bump when sections change) */
+  schema: string;
+  decisionId: string;
+  version: number;
+  manifest: EvidenceBundleManifest;
+  sections: EvidenceBundleSections;
+}
@@ -0,0 +1,335 @@
+import type {
+  Constraint,
+  DecisionInput,
+  WhatIfOutcome,
+} from "@/components/intelligence/ExplanationModal";
+import type { AgentPersonaId } from "../personas";
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+/** Decision inputs the what-if analysis can override, with slider ranges */
+export const WHAT_IF_INPUT_RANGES = {
+  "oracle:pyth": { min: 0, max: 400, step: 1 },
+  "sensor:battery-soc": { min: 0, max: 100, step: 1 },
+  "forecast:demand": { min: 0, max: 400, step: 5 },
+} as const satisfies Record<string, NonNullable<DecisionInput["range"]>>;
+
+export type WhatIfInputKey = keyof typeof WHAT_IF_INPUT_RANGES;
+
+export const WHAT_IF_INPUT_KEYS = Object.keys(
+  WHAT_IF_INPUT_RANGES
+) as WhatIfInputKey[];
+
+export function isWhatIfInputKey(key: string): key is WhatIfInputKey {
+  return Object.hasOwn(WHAT_IF_INPUT_RANGES, key);
+}
+
+interface DecisionSignals {
+  /** Pyth price ($) */
+  price: number;
+  /** Battery state of charge (%) */
+  soc: number;
+  /** Forecast demand (kW) */
+  demand: number;
+}
+
+function readSignals(inputs: readonly DecisionInput[]): DecisionSignals {
+  const value = (key: WhatIfInputKey) => {
+    const input = inputs.find((candidate) => candidate.key === key);
+    return typeof input?.value === "number" ? input.value : 0;
+  };
+
+  return {
+    price: value("oracle:pyth"),
+    soc: value("sensor:battery-soc"),
+    demand: value("forecast:demand"),
+  };
+}
+
+// ============================================================================
+// PERSONA DECISION LOGIC
+// ============================================================================
+
+/** A decision before confidence is calibrated against the original one */
+export interface DecisionEvaluation {
+  action: string;
+  /** How clear-cut the decision is, 0-100 */
+  conviction: number;
+  constraints: Constraint[];
+}
+
+const round = (value: number, digits = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function atMost(
+  description: string,
+  actual: number,
+  limit: number,
+  unit: string
+): Constraint {
+  return {
+    description,
+    satisfied: actual <= limit,
+    limit: `${limit}${unit}`,
+    actual: `${round(actual)}${unit}`,
+  };
+}
+
+function atLeast(
+  description: string,
+  actual: number,
+  limit: number,
+  unit: string
+): Constraint {
+  return {
+    description,
+    satisfied: actual >= limit,
+    limit: `${limit}${unit}`,
+    actual: `${round(actual)}${unit}`,
+  };
+}
+
+/** Distance past a threshold, as conviction (0 at the threshold) */
+const margin = (value: number, threshold: number, span: number) =>
+  Math.min(100, (Math.abs(value - threshold) / span) * 100);
+
+/** Dispatch: discharge into high prices or demand, charge when cheap */
+function evaluateOperations({
+  price,
+  soc,
+  demand,
+}: DecisionSignals): DecisionEvaluation {
+  const discharging = price >= 150 || demand >= 200;
+  const charging = !discharging && price <= 120 && soc < 85;
+  const exportKw = discharging ? demand * 0.6 : 0;
+
+  const constraints = [
+    atLeast(
+      "Battery SOC must remain above 20%",
+      discharging ? soc - 15 : soc,
+      20,
+      "%"
+    ),
+    atMost(
+      "Inverter temperature must stay below 65°C",
+      38 + exportKw * 0.17,
+      65,
+      "°C"
+    ),
+    atMost("Grid export cannot exceed 150kW", exportKw, 150, "kW"),
+  ];
+  const blocked = constraints.some((constraint) => !constraint.satisfied);
+
+  return {
+    action: blocked
+      ? "Hold battery charge (discharge blocked by safety constraints)"
+      : discharging
+        ? `Discharge battery to the grid at ${round(exportKw, 0)}kW`
+        : charging
+          ? "Charge battery from solar surplus"
+          : "Hold battery charge",
+    conviction: discharging
+      ? Math.max(margin(price, 150, 50), margin(demand, 200, 50))
+      : margin(price, 135, 35),
+    constraints,
+  };
+}
+
+/** Rebalancing: sell into strength, accumulate on weakness */
+function evaluateMarkets({
+  price,
+  demand,
+}: DecisionSignals): DecisionEvaluation {
+  const tradePercent = Math.abs(price - 150) / 6;
+  const liquidity = 30_000 + demand * 200;
+  const trading = tradePercent >= 3;
+
+  const constraints = [
+    atMost(
+      "Maximum single trade size: 10% of portfolio",
+      tradePercent,
+      10,
+      "%"
+    ),
+    atLeast("Minimum liquidity depth: $50,000", liquidity, 50_000, ""),
+    atMost(
+      "Slippage tolerance: 2.5%",
+      (tradePercent * 10_000) / liquidity,
+      2.5,
+      "%"
+    ),
+  ];
+  const blocked =
+    trading && constraints.some((constraint) => !constraint.satisfied);
+
+  return {
+    action: blocked
+      ? "Hold portfolio allocation (trade blocked by risk limits)"
+      : !trading
+        ? "Hold portfolio allocation"
+        : price > 150
+          ? `Take profit: sell ${round(tradePercent)}% of the SOL position`
+          : `Accumulate: buy SOL with ${round(tradePercent)}% of the portfolio`,
+    conviction: margin(tradePercent, 3, 7),
+    constraints,
+  };
+}
+
+/** Maintenance: schedule into low-load, low-price windows */
+function evaluateSentinel(
+  { price, demand }: DecisionSignals,
+  inputs: readonly DecisionInput[]
+): DecisionEvaluation {
+  const vibration = Math.max(0, demand - 150) * 0.1;
+  const sensorLag = Math.max(
+    0,
+    ...inputs
+      .filter((input) => input.key.startsWith("sensor:"))
+      .map((input) => input.freshnessSeconds)
+  );
+
+  const constraints = [
+    atLeast(
+      "Panel efficiency must exceed 85% of rated capacity",
+      96 - Math.max(0, demand - 180) * 0.1,
+      85,
+      "%"
+    ),
+    atMost(
+      "Vibration levels must stay within ±10% of baseline",
+      vibration,
+      10,
+      "%"
+    ),
+    atMost(
+      "All sensors must report within 60-second intervals",
+      sensorLag,
+      60,
+      "s"
+    ),
+  ];
+  const unsafe = constraints.some((constraint) => !constraint.satisfied);
+  const windowOpen = demand < 170 && price <= 180;
+
+  return {
+    action: unsafe
+      ? "Curtail affected strings and dispatch an inspection now"
+      : windowOpen
+        ? "Schedule preventive maintenance in the next low-load window"
+        : "Defer maintenance until demand and prices ease",
+    conviction: Math.min(margin(demand, 170, 80), margin(price, 180, 60)),
+    constraints,
+  };
+}
+
+/** Oversight: approve discharge requests that respect the hard limits */
+function evaluateGovernor({
+  soc,
+  demand,
+}: DecisionSignals): DecisionEvaluation {
+  const constraints = [
+    atLeast("Battery SOC minimum: 20% (hard constraint)", soc, 20, "%"),
+    atMost(
+      "Maximum discharge rate: 50kW (safety limit)",
+      demand * 0.2,
+      50,
+      "kW"
+    ),
+    {
+      description: "Override requires 3 of 5 multi-sig approval",
+      satisfied: true,
+      limit: "3 of 5",
+      actual: "3 of 5",
+    },
+  ];
+  const approved = constraints.every((constraint) => constraint.satisfied);
+
+  return {
+    action: approved
+      ? "Approve the discharge request"
+      : "Veto the discharge request and keep the reserve",
+    conviction: Math.min(margin(soc, 20, 40), margin(demand * 0.2, 50, 30)),
+    constraints,
+  };
+}
+
+/** The persona's decision on these inputs */
+export function evaluateDecision(
+  agent: AgentPersonaId,
+  inputs: readonly DecisionInput[]
+): DecisionEvaluation {
+  const signals = readSignals(inputs);
+
+  switch (agent) {
+    case "operations":
+      return evaluateOperations(signals);
+    case "markets":
+      return evaluateMarkets(signals);
+    case "sentinel":
+      return evaluateSentinel(signals, inputs);
+    case "governor":
+      return evaluateGovernor(signals);
+  }
+}
+
+// ============================================================================
+// WHAT-IF
+// ============================================================================
+
+/** Confidence lost per constraint that fires */
+const FIRED_CONSTRAINT_PENALTY = 15;
+
+/**
+ * Re-run the persona's decision logic with some inputs overridden.
+ *
+ * Confidence is anchored to the decision's stated confidence and moves with
+ * how much more (or less) clear-cut the decision becomes, less a penalty per
+ * constraint that would fire. With no overrides the original decision and
+ * confidence come back unchanged.
+ */
+export function runWhatIf(
+  agent: AgentPersonaId,
+  inputs: readonly DecisionInput[],
+  confidence: number,
+  overrides: Partial<Record<WhatIfInputKey, number>>
+): {
+  inputs: DecisionInput[];
+  original: WhatIfOutcome;
+  outcome: WhatIfOutcome;
+} {
+  const overridden = inputs.map((input) => {
+    const value = isWhatIfInputKey(input.key)
+      ? overrides[input.key]
+      : undefined;
+    return value === undefined ? input : { ...input, value };
+  });
+
+  const before = evaluateDecision(agent, inputs);
+  const after = evaluateDecision(agent, overridden);
+  const fired = (evaluation: DecisionEvaluation) =>
+    evaluation.constraints.filter((constraint) => !constraint.satisfied).length;
+  // A fallback forced by constraints is never clear-cut
+  const conviction = (evaluation: DecisionEvaluation) =>
+    fired(evaluation) > 0 ? 0 : evaluation.conviction;
+
+  const shifted =
+    confidence +
+    ((conviction(after) - conviction(before)) / 100) * 30 -
+    (fired(after) - fired(before)) * FIRED_CONSTRAINT_PENALTY;
+
+  return {
+    inputs: overridden,
+    original: {
+      action: before.action,
+      confidence,
+      constraints: before.constraints,
+    },
+    outcome: {
+      action: after.action,
+      confidence: Math.round(Math.min(99, Math.max(5, shifted))),
+      constraints: after.constraints,
+    },
+  };
+}
@@ -0,0 +1,4 @@
+export * from "./personas";
+export * from "./roundtable";
+export * from "./locale";
+export * from "./commands";
@@ -0,0 +1,187 @@
+/**
+ * Agent Locales - Languages the agents answer in
+ *
+ * A question is answered in the language it is asked in when that is one of
+ * AGENT_LOCALES, and in English otherwise. Detection counts function words
+ * and language-specific characters, which is enough to tell English, Spanish
+ * and German apart in a one-line question.
+ */
+
+// ============================================================================
+// LOCALES
+// ============================================================================
+
+export const AGENT_LOCALES = ["en", "es", "de"] as const;
+
+export type AgentLocale = (typeof AGENT_LOCALES)[number];
+
+export const DEFAULT_AGENT_LOCALE: AgentLocale = "en";
+
+/** BCP 47 tag used for Intl formatting in each locale */
+export const AGENT_LOCALE_TAGS: Readonly<Record<AgentLocale, string>> = {
+  en: "en-US",
+  es: "es-ES",
+  de: "de-DE",
+};
+
+/** English name of each language, for model prompts */
+export const AGENT_LOCALE_NAMES: Readonly<Record<AgentLocale, string>> = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+};
+
+export function isAgentLocale(value: string): value is AgentLocale {
+  return (AGENT_LOCALES as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+interface LocaleCues {
+  /** Common lower-case words of the language */
+  words: ReadonlySet<string>;
+  /** Characters only this language uses (among AGENT_LOCALES) */
+  characters?: RegExp;
+}
+
+/** A language-specific character outweighs any single word */
+const CHARACTER_CUE_WEIGHT = 2;
+
+const LOCALE_CUES: Record<AgentLocale, LocaleCues> = {
+  en: {
+    words: new Set([
+      "the",
+      "what",
+      "why",
+      "how",
+      "is",
+      "are",
+      "did",
+      "does",
+      "you",
+      "your",
+      "and",
+      "of",
+      "to",
+      "in",
+      "at",
+      "when",
+      "which",
+      "have",
+      "any",
+      "there",
+    ]),
+  },
+  es: {
+    words: new Set([
+      "qué",
+      "que",
+      "por",
+      "cuál",
+      "cuáles",
+      "cómo",
+      "cuándo",
+      "dónde",
+      "el",
+      "la",
+      "los",
+      "las",
+      "del",
+      "es",
+      "está",
+      "están",
+      "hay",
+      "una",
+      "con",
+      "para",
+      "y",
+      "ayer",
+      "hoy",
+      "tu",
+      "tus",
+    ]),
+    characters: /[ñ¿¡áíóú]/i,
+  },
+  de: {
+    words: new Set([
+      "wie",
+      "warum",
+      "wann",
+      "welche",
+      "der",
+      "die",
+      "das",
+      "ist",
+      "sind",
+      "ein",
+      "eine",
+      "und",
+      "nicht",
+      "mit",
+      "für",
+      "du",
+      "hast",
+      "gibt",
+      "gestern",
+      "heute",
+      "wurde",
+      "wird",
+      "um",
+    ]),
+    characters: /[äöüß]/i,
+  },
+};
+
+/**
+ * Language a question is written in. Questions with no clear cue (or in a
+ * language the agents do not speak) get `fallback`.
+ */
+export function detectQuestionLocale(
+  question: string,
+  fallback: AgentLocale = DEFAULT_AGENT_LOCALE
+): AgentLocale {
+  const words = question.toLowerCase().match(/\p{L}+/gu) ?? [];
+
+  let detected = fallback;
+  let bestScore = 0;
+  AGENT_LOCALES.forEach((locale) => {
+    const cues = LOCALE_CUES[locale];
+    const score =
+      words.filter((word) => cues.words.has(word)).length +
+      (cues.characters?.test(question) ? CHARACTER_CUE_WEIGHT : 0);
+    if (score > bestScore) {
+      detected = locale;
+      bestScore = score;
+    }
+  });
+
+  return detected;
+}
+
+/**
+ * First agent locale listed in an Accept-Language header, ignoring regions
+ * and weights of zero ("de-CH,de;q=0.9,en;q=0.8" → "de")
+ */
+export function matchAcceptLanguage(header: string | null): AgentLocale | null {
+  if (!header) return null;
+
+  const ranked = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.split("-")[0].toLowerCase(),
+        weight: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ weight }) => weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const { language } of ranked) {
+    if (isAgentLocale(language)) return language;
+  }
+  return null;
+}
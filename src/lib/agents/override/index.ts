@@ -0,0 +1,85 @@
+/**
+ * Emergency Override - Pausing and resuming AI operations
+ *
+ * Every pause and resume is recorded with the wallet that signed in to issue
+ * it, so the audit trail shows who stopped the agents and who let them run
+ * again. The current state is the last record's action.
+ *
+ * Server-only: the audit log lives in server memory, so this module is
+ * imported from `@/lib/agents/override` rather than re-exported by
+ * `@/lib/agents`.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OverrideAction = "pause" | "resume";
+
+/** One pause or resume, as it was issued */
+export interface OverrideRecord {
+  id: string;
+  action: OverrideAction;
+  /** Why the operator paused or resumed, if they said */
+  reason: string | null;
+  /** Wallet (base58) signed in when the override was issued */
+  signer: string;
+  /** ISO 8601 */
+  recordedAt: string;
+}
+
+export interface OverrideState {
+  /** Whether AI operations are paused */
+  paused: boolean;
+  /** The override that set the current state; null before the first one */
+  lastRecord: OverrideRecord | null;
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+/** Records kept; the oldest are dropped first */
+const OVERRIDE_LOG_SIZE = 1000;
+
+const records: OverrideRecord[] = [];
+let sequence = 0;
+
+export function getOverrideState(): OverrideState {
+  const lastRecord = records.at(-1) ?? null;
+  return { paused: lastRecord?.action === "pause", lastRecord };
+}
+
+/** Overrides, newest first */
+export function listOverrideRecords(
+  limit = OVERRIDE_LOG_SIZE
+): OverrideRecord[] {
+  return records.slice(-limit).reverse();
+}
+
+/** Record a pause or resume and make it the current state */
+export function recordOverride({
+  action,
+  reason,
+  signer,
+}: {
+  action: OverrideAction;
+  reason?: string;
+  signer: string;
+}): OverrideRecord {
+  const recordedAt = new Date();
+  const record: OverrideRecord = {
+    id: `override-${recordedAt.getTime()}-${++sequence}`,
+    action,
+    reason: reason ?? null,
+    signer,
+    recordedAt: recordedAt.toISOString(),
+  };
+
+  records.push(record);
+  if (records.length > OVERRIDE_LOG_SIZE) {
+    records.splice(0, records.length - OVERRIDE_LOG_SIZE);
+  }
+
+  return record;
+}
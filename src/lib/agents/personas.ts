@@ -0,0 +1,268 @@
+/**
+ * Agent Personas - The single registry of AIMP's autonomous agents
+ *
+ * Types, route validators, mock generators and UI components all derive their
+ * persona sets from here. Older ids that still appear in data and bookmarked
+ * URLs ("maintenance", "governance") are accepted as aliases and resolved to
+ * their canonical persona.
+ */
+
+import { COLORS } from "@/lib/constants";
+
+// ============================================================================
+// IDS & ALIASES
+// ============================================================================
+
+/** Canonical persona ids, in display order */
+export const AGENT_PERSONA_IDS = [
+  "operations",
+  "markets",
+  "sentinel",
+  "governor",
+] as const;
+
+export type AgentPersonaId = (typeof AGENT_PERSONA_IDS)[number];
+
+/** Legacy ids mapped to the persona that replaced them */
+export const AGENT_PERSONA_ALIASES = {
+  maintenance: "sentinel",
+  governance: "governor",
+} as const satisfies Record<string, AgentPersonaId>;
+
+export type AgentPersonaAlias = keyof typeof AGENT_PERSONA_ALIASES;
+
+/** Every value accepted wherever a persona is expected */
+export const AGENT_PERSONA_INPUTS = [
+  ...AGENT_PERSONA_IDS,
+  ...(Object.keys(AGENT_PERSONA_ALIASES) as AgentPersonaAlias[]),
+] as [
+  AgentPersonaId | AgentPersonaAlias,
+  ...(AgentPersonaId | AgentPersonaAlias)[],
+];
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export interface AgentPersonaDefinition {
+  id: AgentPersonaId;
+  /** Short label for tabs, pills and badges */
+  label: string;
+  /** Full display name */
+  name: string;
+  archetype: string;
+  description: string;
+  icon: string;
+  /** Accent color (hex) for charts and inline styles */
+  color: string;
+  /** Tailwind text color class */
+  textClass: string;
+  /** Tailwind hover glow class */
+  glowClass: string;
+  tone: { name: string; pace: number }; // pace: speech-rate multiplier
+  microAffect: { pulse: number; ease: number }; // ms
+  /**
+   * Lower-case stems that place a question in this persona's domain: English
+   * first, then Spanish and German
+   */
+  keywords: readonly string[];
+  capabilities: readonly string[];
+  suggestedQuestions: readonly { question: string; icon: string }[];
+}
+
+export const AGENT_PERSONAS: Readonly<
+  Record<AgentPersonaId, AgentPersonaDefinition>
+> = {
+  operations: {
+    id: "operations",
+    label: "Operations",
+    name: "Operations Agent",
+    archetype: "The Steward",
+    description: "Controls generation, storage, and dispatch decisions",
+    icon: "⚡",
+    color: COLORS.agent.operations,
+    textClass: "text-agent-operations",
+    glowClass: "hover:shadow-glow-operations",
+    tone: { name: "calm", pace: 1.0 },
+    microAffect: { pulse: 200, ease: 150 },
+    keywords: [
+      "dispatch",
+      "battery",
+      "energy",
+      "grid",
+      "inverter",
+      "soc",
+      "despacho",
+      "batería",
+      "energía",
+      "red eléctrica",
+      "inversor",
+      "batterie",
+      "energie",
+      "stromnetz",
+      "wechselrichter",
+    ],
+    capabilities: [
+      "Energy dispatch",
+      "Battery management",
+      "Grid optimization",
+    ],
+    suggestedQuestions: [
+      { question: "What's the current energy dispatch strategy?", icon: "⚡" },
+      {
+        question: "Why did you change the battery discharge rate?",
+        icon: "🔋",
+      },
+      { question: "How are you optimizing for peak demand?", icon: "📈" },
+      { question: "What's the grid export schedule for today?", icon: "🔌" },
+    ],
+  },
+  markets: {
+    id: "markets",
+    label: "Markets",
+    name: "Markets Agent",
+    archetype: "The Trader",
+    description: "Trades energy and optimizes yield",
+    icon: "📊",
+    color: COLORS.agent.markets,
+    textClass: "text-agent-markets",
+    glowClass: "hover:shadow-glow-markets",
+    tone: { name: "analytical", pace: 1.2 },
+    microAffect: { pulse: 150, ease: 100 },
+    keywords: [
+      "trad",
+      "price",
+      "market",
+      "liquid",
+      "token",
+      "swap",
+      "precio",
+      "mercado",
+      "preis",
+      "markt",
+      "handel",
+    ],
+    capabilities: [
+      "Trading decisions",
+      "Pricing strategy",
+      "Revenue optimization",
+    ],
+    suggestedQuestions: [
+      { question: "What's driving today's trading decisions?", icon: "📊" },
+      { question: "How do you predict energy prices?", icon: "💰" },
+      { question: "Should I buy or sell tokens right now?", icon: "🔄" },
+      { question: "What's the current liquidity situation?", icon: "💧" },
+    ],
+  },
+  sentinel: {
+    id: "sentinel",
+    label: "Sentinel",
+    name: "Sentinel Agent",
+    archetype: "The Guardian",
+    description: "Detects faults and coordinates self-repair",
+    icon: "🛡️",
+    color: COLORS.agent.maintenance,
+    textClass: "text-agent-maintenance",
+    glowClass: "hover:shadow-glow-sentinel",
+    tone: { name: "supportive", pace: 0.9 },
+    microAffect: { pulse: 250, ease: 200 },
+    keywords: [
+      "health",
+      "maintenance",
+      "sensor",
+      "panel",
+      "diagnostic",
+      "repair",
+      "salud",
+      "mantenimiento",
+      "diagnós",
+      "reparac",
+      "zustand",
+      "wartung",
+      "diagnose",
+      "reparatur",
+    ],
+    capabilities: [
+      "Hardware monitoring",
+      "Predictive maintenance",
+      "Safety checks",
+    ],
+    suggestedQuestions: [
+      { question: "What's the health of the solar panels?", icon: "☀️" },
+      { question: "Are there any maintenance alerts?", icon: "🔧" },
+      { question: "How do you detect equipment failures?", icon: "🛡️" },
+      { question: "What's the status of the sensor network?", icon: "📡" },
+    ],
+  },
+  governor: {
+    id: "governor",
+    label: "Governor",
+    name: "Governor Agent",
+    archetype: "The Arbiter",
+    description: "Enforces constraints and mediates overrides",
+    icon: "⚖️",
+    color: COLORS.agent.governance,
+    textClass: "text-agent-governance",
+    glowClass: "hover:shadow-glow-governance",
+    tone: { name: "authoritative", pace: 1.1 },
+    microAffect: { pulse: 100, ease: 80 },
+    keywords: [
+      "constraint",
+      "safety",
+      "violation",
+      "compliance",
+      "governance",
+      "override",
+      "restricci",
+      "seguridad",
+      "infracci",
+      "cumplimiento",
+      "gobernanza",
+      "vorgabe",
+      "sicherheit",
+      "verstoß",
+    ],
+    capabilities: ["Safety constraints", "Compliance", "Override authority"],
+    suggestedQuestions: [
+      { question: "What safety constraints are active?", icon: "⚖️" },
+      { question: "Have there been any constraint violations?", icon: "⚠️" },
+      { question: "How do you enforce operating limits?", icon: "🛑" },
+      { question: "What's the current compliance status?", icon: "✅" },
+    ],
+  },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isAgentPersona(value: string): value is AgentPersonaId {
+  return (AGENT_PERSONA_IDS as readonly string[]).includes(value);
+}
+
+/** Canonical persona for an id or legacy alias (case-insensitive) */
+export function resolveAgentPersona(value: string): AgentPersonaId | null {
+  const normalized = value.trim().toLowerCase();
+  if (isAgentPersona(normalized)) return normalized;
+  return Object.hasOwn(AGENT_PERSONA_ALIASES, normalized)
+    ? AGENT_PERSONA_ALIASES[normalized as AgentPersonaAlias]
+    : null;
+}
+
+/** Number of a persona's domain keywords that appear in `text` */
+export function countAgentKeywords(
+  persona: AgentPersonaId,
+  text: string
+): number {
+  const lower = text.toLowerCase();
+  return AGENT_PERSONAS[persona].keywords.filter((keyword) =>
+    lower.includes(keyword)
+  ).length;
+}
+
+/** Personas whose domain `text` touches, in display order */
+export function matchAgentDomains(text: string): AgentPersonaId[] {
+  return AGENT_PERSONA_IDS.filter(
+    (persona) => countAgentKeywords(persona, text) > 0
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { generateSeededAgentDecision } from "@/lib/mock";
+
+import {
+  captureDecisions,
+  compareDecisionOutputs,
+  executeDecision,
+  getCapturedDecision,
+  replayDecision,
+  type DecisionSnapshot,
+} from "./index";
+
+function withInput(
+  snapshot: DecisionSnapshot,
+  key: string,
+  value: number
+): DecisionSnapshot {
+  return {
+    ...snapshot,
+    inputs: snapshot.inputs.map((input) =>
+      input.key === key ? { ...input, value } : input
+    ),
+  };
+}
+
+describe("replayDecision", () => {
+  it("reproduces a captured decision from its snapshot", () => {
+    const decision = generateSeededAgentDecision(
+      "operations",
+      new Date("2026-01-01T12:00:00Z")
+    );
+    captureDecisions([decision]);
+
+    const replay = replayDecision(decision.id)!;
+
+    expect(replay.snapshot.inputs.length).toBeGreaterThan(0);
+    expect(replay.deterministic).toBe(true);
+    expect(replay.divergence).toEqual([]);
+    expect(replay.replayed.output).toEqual(replay.original.output);
+  });
+
+  it("diverges when an input the logic reads changes", () => {
+    const decision = generateSeededAgentDecision(
+      "operations",
+      new Date("2026-01-01T12:00:00Z")
+    );
+    captureDecisions([decision]);
+    const { snapshot } = getCapturedDecision(decision.id)!;
+    const calm = withInput(
+      withInput(
+        withInput(snapshot, "forecast:demand", 100),
+        "sensor:battery-soc",
+        50
+      ),
+      "oracle:pyth",
+      100
+    );
+
+    const charging = executeDecision(calm);
+    const discharging = executeDecision(withInput(calm, "oracle:pyth", 300));
+
+    expect(charging.action).toBe("Charge battery from solar surplus");
+    expect(discharging.action).toBe("Discharge battery to the grid at 60kW");
+    expect(
+      compareDecisionOutputs(charging, discharging).map((entry) => entry.field)
+    ).toContain("action");
+  });
+});
+
+describe("generateSeededAgentDecision", () => {
+  it("keeps decisions made in the same millisecond apart", () => {
+    const timestamp = new Date("2026-01-01T12:00:00Z");
+
+    const first = generateSeededAgentDecision("markets", timestamp);
+    const second = generateSeededAgentDecision("markets", timestamp);
+
+    expect(first.id).not.toBe(second.id);
+    captureDecisions([first, second]);
+    expect(getCapturedDecision(first.id)!.snapshot).not.toEqual(
+      getCapturedDecision(second.id)!.snapshot
+    );
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Decision Replay - Proving a decision was a function of its inputs
+ *
+ * Every decision `/api/agents/decisions` serves is captured with a compact
+ * snapshot (engine, agent, inputs) and the output the persona's decision
+ * logic produced from those inputs. Replaying feeds the snapshot's inputs
+ * through the decision logic again and compares the outputs field by field
+ * and by SHA-256 of their canonical JSON, so an auditor can show a decision
+ * follows from its recorded inputs bit for bit, or see exactly where it
+ * diverged.
+ *
+ * Server-only: captures live in server memory, so this module is imported
+ * from `@/lib/agents/replay` rather than re-exported by `@/lib/agents`.
+ */
+
+import type { AgentDecision } from "@/components/intelligence/AgentCard";
+import { canonicalJson, sha256Json } from "@/lib/api/hashing";
+
+import {
+  evaluateDecision,
+  generateDecisionRecord,
+  parseDecisionId,
+} from "../explanations";
+import type {
+  CapturedDecision,
+  DecisionDivergence,
+  DecisionOutput,
+  DecisionReplay,
+  DecisionSnapshot,
+} from "./types";
+
+export type {
+  CapturedDecision,
+  DecisionDivergence,
+  DecisionOutput,
+  DecisionReplay,
+  DecisionSnapshot,
+} from "./types";
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+/** Engine recorded in snapshots; bump when decision logic changes */
+export const DECISION_ENGINE = "aimp-decision-logic@2";
+
+/** Decisions captured for replay; the oldest are evicted first */
+const CAPTURE_LEDGER_SIZE = 1000;
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+/**
+ * The snapshot a decision was made from: the numeric inputs its explanation
+ * lists, which are all the decision logic reads. Null for an id that is not
+ * a decision id.
+ */
+export function snapshotDecision(
+  decision: AgentDecision
+): DecisionSnapshot | null {
+  const parsed = parseDecisionId(decision.id);
+  if (!parsed) return null;
+
+  return {
+    engine: DECISION_ENGINE,
+    agent: parsed.agent,
+    timestamp: parsed.decidedAt.toISOString(),
+    inputs: generateDecisionRecord(decision.id, parsed)
+      .inputs.filter((input) => typeof input.value === "number")
+      .map(({ key, value, freshnessSeconds }) => ({
+        key,
+        value: value as number,
+        freshnessSeconds,
+      })),
+  };
+}
+
+/** Run the persona's decision logic on a snapshot's inputs */
+export function executeDecision(snapshot: DecisionSnapshot): DecisionOutput {
+  const evaluation = evaluateDecision(
+    snapshot.agent,
+    snapshot.inputs.map((input) => ({ ...input, source: "snapshot" }))
+  );
+
+  return {
+    action: evaluation.action,
+    conviction: evaluation.conviction,
+    constraints: evaluation.constraints,
+    firedConstraints: evaluation.constraints
+      .filter((constraint) => !constraint.satisfied)
+      .map((constraint) => constraint.description),
+  };
+}
+
+/** Output fields that differ between two runs of a decision */
+export function compareDecisionOutputs(
+  original: DecisionOutput,
+  replayed: DecisionOutput
+): DecisionDivergence[] {
+  return (Object.keys(original) as (keyof DecisionOutput)[])
+    .filter(
+      (field) =>
+        canonicalJson(original[field]) !== canonicalJson(replayed[field])
+    )
+    .map((field) => ({
+      field,
+      original: original[field],
+      replayed: replayed[field],
+    }));
+}
+
+// ============================================================================
+// CAPTURE
+// ============================================================================
+
+const captures = new Map<string, CapturedDecision>();
+
+/** Snapshot, output and hashes of a decision as it was made */
+export function describeDecisionCapture(
+  decision: AgentDecision
+): Omit<CapturedDecision, "capturedAt"> | null {
+  const snapshot = snapshotDecision(decision);
+  if (!snapshot) return null;
+  const output = executeDecision(snapshot);
+
+  return {
+    decisionId: decision.id,
+    snapshot,
+    snapshotHash: sha256Json(snapshot),
+    output,
+    outputHash: sha256Json(output),
+  };
+}
+
+/**
+ * Capture decisions as they are served. A decision is captured once; serving
+ * it again (from cache or a later page) keeps the original capture.
+ */
+export function captureDecisions(decisions: readonly AgentDecision[]): void {
+  const capturedAt = new Date().toISOString();
+
+  decisions.forEach((decision) => {
+    const existing = captures.get(decision.id);
+    const capture = describeDecisionCapture(decision);
+    if (!existing && !capture) return;
+
+    captures.delete(decision.id);
+    captures.set(decision.id, existing ?? { ...capture!, capturedAt });
+  });
+
+  for (const id of captures.keys()) {
+    if (captures.size <= CAPTURE_LEDGER_SIZE) break;
+    captures.delete(id);
+  }
+}
+
+export function getCapturedDecision(
+  decisionId: string
+): CapturedDecision | null {
+  return captures.get(decisionId) ?? null;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Re-run a captured decision's logic on its snapshot and compare the
+ * outputs. Returns null when the decision was never captured (or has been
+ * evicted).
+ */
+export function replayDecision(decisionId: string): DecisionReplay | null {
+  const capture = captures.get(decisionId);
+  if (!capture) return null;
+
+  const output = executeDecision(capture.snapshot);
+  const divergence = compareDecisionOutputs(capture.output, output);
+  const outputHash = sha256Json(output);
+
+  return {
+    decisionId,
+    snapshot: capture.snapshot,
+    snapshotHash: capture.snapshotHash,
+    engine: DECISION_ENGINE,
+    original: {
+      capturedAt: capture.capturedAt,
+      output: capture.output,
+      outputHash: capture.outputHash,
+    },
+    replayed: {
+      replayedAt: new Date().toISOString(),
+      output,
+      outputHash,
+    },
+    deterministic: outputHash === capture.outputHash,
+    divergence,
+  };
+}
@@ -0,0 +1,59 @@
+import type { Constraint } from "@/components/intelligence/ExplanationModal";
+import type { AgentPersonaId } from "../personas";
+
+/**
+ * Everything a decision was a function of: the engine that made it, the
+ * persona whose logic it ran and the inputs it read
+ */
+export interface DecisionSnapshot {
+  /** Decision engine (and version) that produced the decision */
+  engine: string;
+  agent: AgentPersonaId;
+  /** Decision time (ISO 8601) */
+  timestamp: string;
+  inputs: { key: string; value: number; freshnessSeconds: number }[];
+}
+
+/** What the decision logic produced from a snapshot, as compared on replay */
+export interface DecisionOutput {
+  /** Action the persona's decision logic chose from the inputs */
+  action: string;
+  /** How clear-cut the decision was, 0-100 */
+  conviction: number;
+  /** Each constraint with its limit and the value checked against it */
+  constraints: Constraint[];
+  /** Constraints that fired, if any */
+  firedConstraints: string[];
+}
+
+/** A decision as captured when it was made */
+export interface CapturedDecision {
+  decisionId: string;
+  capturedAt: string;
+  snapshot: DecisionSnapshot;
+  /** SHA-256 of the canonical JSON of `snapshot` */
+  snapshotHash: string;
+  output: DecisionOutput;
+  /** SHA-256 of the canonical JSON of `output` */
+  outputHash: string;
+}
+
+/** Output field that differs between the original and the replay */
+export interface DecisionDivergence {
+  field: keyof DecisionOutput;
+  original: unknown;
+  replayed: unknown;
+}
+
+export interface DecisionReplay {
+  decisionId: string;
+  snapshot: DecisionSnapshot;
+  snapshotHash: string;
+  /** Engine that ran the replay (differs from `snapshot.engine` after upgrades) */
+  engine: string;
+  original: { capturedAt: string; output: DecisionOutput; outputHash: string };
+  replayed: { replayedAt: string; output: DecisionOutput; outputHash: string };
+  /** Whether the replayed output hash equals the original one */
+  deterministic: boolean;
+  divergence: DecisionDivergence[];
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+import {
+  mockTransactionSource,
+  setTransactionSource,
+} from "@/lib/api/transaction-source";
+
+import { recordDecisions, retrieveRecords, toAgentCitation } from "./index";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function minutesAgo(minutes: number): string {
+  return new Date(NOW.getTime() - minutes * 60_000).toISOString();
+}
+
+function transaction(signature: string, minutes: number): SolanaTransaction {
+  return {
+    signature,
+    status: "success",
+    blockTime: minutesAgo(minutes),
+    slot: 1000 - minutes,
+    agent: "operations",
+    summary: "Curtailment settlement",
+    instructions: [],
+    fee: 5000,
+  };
+}
+
+afterEach(() => {
+  setTransactionSource(mockTransactionSource);
+});
+
+describe("retrieveRecords", () => {
+  it("cites a transaction's decision only when one was recorded", async () => {
+    const decisionId = `decision-operations-${Date.parse(minutesAgo(5))}`;
+    recordDecisions([
+      {
+        id: decisionId,
+        agent: "operations",
+        summary: "Shifted battery discharge to the evening peak",
+        confidence: 90,
+        timestamp: minutesAgo(5),
+      },
+    ]);
+    setTransactionSource({
+      name: "stub",
+      async *list() {
+        yield transaction("after-decision", 2);
+        yield transaction("unexplained", 60);
+      },
+    });
+
+    const { records } = await retrieveRecords({
+      question: "Why the curtailment settlement?",
+      personas: ["operations"],
+      now: NOW,
+    });
+    const citations = records.map(toAgentCitation);
+
+    expect(citations).toEqual([
+      expect.objectContaining({
+        kind: "transaction",
+        decisionId,
+        signature: "after-decision",
+      }),
+      expect.objectContaining({
+        kind: "transaction",
+        signature: "unexplained",
+      }),
+    ]);
+    expect(citations[1]).not.toHaveProperty("decisionId");
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Record Retrieval - Grounding `/api/agents/ask` answers in real records
+ *
+ * Searches the decisions `/api/agents/decisions` has served, their
+ * explanations and recent transactions by time, persona and keyword, so an
+ * answer to "why did you export to the grid at 14:00?" can cite the decision
+ * that did it.
+ *
+ * Server-only: the decision ledger lives in server memory, so this module is
+ * imported from `@/lib/agents/retrieval` rather than re-exported by
+ * `@/lib/agents`.
+ */
+
+import type { AgentCitation } from "@/components/intelligence/AgentSidebar";
+import type { AgentDecision } from "@/components/intelligence/AgentCard";
+import {
+  createTransactionSeed,
+  resolveTransactionFilters,
+  selectTransactions,
+} from "@/lib/api/transactions";
+import {
+  generateMockExplanation,
+  getDecisionSeed,
+  withMockSeed,
+} from "@/lib/mock";
+
+import {
+  LINKED_TRANSACTION_WINDOW_SEC,
+  parseDecisionId,
+} from "../explanations";
+import type { AgentPersonaId } from "../personas";
+import { getRecordedDecisions } from "./ledger";
+import { countKeywordMatches, extractKeywords, parseTimeframe } from "./query";
+import type {
+  RetrievalQuery,
+  RetrievalResult,
+  RetrievalTimeframe,
+  RetrievedRecord,
+} from "./types";
+
+export type {
+  RetrievalQuery,
+  RetrievalResult,
+  RetrievalTimeframe,
+  RetrievedRecord,
+} from "./types";
+export { getRecordedDecisions, recordDecisions } from "./ledger";
+export { extractKeywords, parseTimeframe } from "./query";
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+/** How far back records are searched when the question names no time */
+const DEFAULT_LOOKBACK_MS = 2 * 60 * 60 * 1000;
+
+const DEFAULT_RECORD_LIMIT = 3;
+
+/** Transactions are read from one seeded sequence per server process */
+const TRANSACTION_SEED = createTransactionSeed();
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Keyword matches dominate; the asked persona's own records and records
+ * inside a named timeframe break ties.
+ */
+function scoreRecord(
+  keywordMatches: number,
+  agent: AgentCitation["agent"],
+  query: RetrievalQuery,
+  timeframe: RetrievalTimeframe | null
+): number {
+  return (
+    keywordMatches * 2 +
+    (timeframe ? 2 : 0) +
+    (agent === query.personas[0] ? 1 : 0)
+  );
+}
+
+/** Distance from the timeframe's midpoint, or age when there is none */
+function timeDistance(
+  record: RetrievedRecord,
+  timeframe: RetrievalTimeframe | null,
+  now: Date
+): number {
+  const anchor = timeframe
+    ? (timeframe.from.getTime() + timeframe.to.getTime()) / 2
+    : now.getTime();
+  return Math.abs(anchor - new Date(record.timestamp).getTime());
+}
+
+/** Reasoning lines behind a decision, stable for a given decision */
+function getDecisionReasoning(decision: AgentDecision): string[] {
+  return withMockSeed(
+    parseDecisionId(decision.id)?.seed ?? getDecisionSeed(decision.timestamp),
+    () => generateMockExplanation(decision.id, decision.agent).reasoning
+  );
+}
+
+// ============================================================================
+// RETRIEVAL
+// ============================================================================
+
+function retrieveDecisionRecords(
+  query: RetrievalQuery,
+  keywords: string[],
+  timeframe: RetrievalTimeframe | null,
+  from: number,
+  to: number
+): RetrievedRecord[] {
+  return getRecordedDecisions()
+    .filter((decision) => {
+      const time = new Date(decision.timestamp).getTime();
+      return (
+        query.personas.includes(decision.agent) && time >= from && time <= to
+      );
+    })
+    .map((decision): RetrievedRecord | null => {
+      const summaryMatches = countKeywordMatches(keywords, decision.summary);
+      const reasoning = getDecisionReasoning(decision)
+        .map((line) => ({ line, matches: countKeywordMatches(keywords, line) }))
+        .sort((a, b) => b.matches - a.matches)[0];
+      const fromExplanation =
+        reasoning !== undefined && reasoning.matches > summaryMatches;
+      const matches = fromExplanation ? reasoning.matches : summaryMatches;
+
+      if (matches === 0 && !timeframe) return null;
+
+      return {
+        kind: fromExplanation ? "explanation" : "decision",
+        decisionId: decision.id,
+        agent: decision.agent,
+        timestamp: decision.timestamp,
+        summary: decision.summary,
+        detail: fromExplanation ? reasoning.line : undefined,
+        score: scoreRecord(matches, decision.agent, query, timeframe),
+      };
+    })
+    .filter((record) => record !== null);
+}
+
+/**
+ * The recorded decision a transaction carries out: the agent's latest one in
+ * the window before it, as evidence bundles link them
+ */
+function findLinkedDecision(
+  decisions: readonly AgentDecision[],
+  agent: AgentPersonaId,
+  blockTime: string
+): AgentDecision | undefined {
+  const sentAt = new Date(blockTime).getTime();
+
+  // Newest first, so the first match is the latest
+  return decisions.find((decision) => {
+    const decidedAt = new Date(decision.timestamp).getTime();
+    return (
+      decision.agent === agent &&
+      decidedAt <= sentAt &&
+      sentAt - decidedAt <= LINKED_TRANSACTION_WINDOW_SEC * 1000
+    );
+  });
+}
+
+async function retrieveTransactionRecords(
+  query: RetrievalQuery,
+  keywords: string[],
+  timeframe: RetrievalTimeframe | null,
+  from: number,
+  to: number,
+  now: Date
+): Promise<RetrievedRecord[]> {
+  const filters = resolveTransactionFilters(
+    { since: new Date(from).toISOString() },
+    { seed: TRANSACTION_SEED, asOf: now }
+  );
+
+  const decisions = getRecordedDecisions();
+  const records: RetrievedRecord[] = [];
+  for await (const tx of selectTransactions(filters)) {
+    if (
+      new Date(tx.blockTime).getTime() > to ||
+      !query.personas.includes(tx.agent)
+    ) {
+      continue;
+    }
+
+    const matches = countKeywordMatches(keywords, tx.summary);
+    if (matches === 0 && !timeframe) continue;
+
+    records.push({
+      kind: "transaction",
+      decisionId: findLinkedDecision(decisions, tx.agent, tx.blockTime)?.id,
+      agent: tx.agent,
+      timestamp: tx.blockTime,
+      summary: tx.summary,
+      signature: tx.signature,
+      // Transactions only corroborate; prefer the decision itself on ties
+      score: scoreRecord(matches, tx.agent, query, timeframe) - 1,
+    });
+  }
+  return records;
+}
+
+/**
+ * Find the records that best answer `query.question`. Questions that name
+ * neither a timeframe nor any content word retrieve nothing; a named
+ * timeframe with no records in it returns an empty list with the timeframe
+ * set, so the answer can say so.
+ */
+export async function retrieveRecords(
+  query: RetrievalQuery
+): Promise<RetrievalResult> {
+  const now = query.now ?? new Date();
+  const timeframe = parseTimeframe(query.question, now, query.locale);
+  const keywords = extractKeywords(query.question);
+
+  if (!timeframe && keywords.length === 0) {
+    return { records: [], timeframe, keywords };
+  }
+
+  const from = timeframe
+    ? timeframe.from.getTime()
+    : now.getTime() - DEFAULT_LOOKBACK_MS;
+  const to = Math.min(
+    timeframe ? timeframe.to.getTime() : now.getTime(),
+    now.getTime()
+  );
+
+  const candidates = [
+    ...retrieveDecisionRecords(query, keywords, timeframe, from, to),
+    ...(await retrieveTransactionRecords(
+      query,
+      keywords,
+      timeframe,
+      from,
+      to,
+      now
+    )),
+  ].sort(
+    (a, b) =>
+      b.score - a.score ||
+      timeDistance(a, timeframe, now) - timeDistance(b, timeframe, now)
+  );
+
+  // One citation per decision, from its best-scoring record
+  const cited = new Set<string>();
+  const records = candidates
+    .filter((record) => {
+      const key = record.decisionId ?? `transaction:${record.signature}`;
+      if (cited.has(key)) return false;
+      cited.add(key);
+      return true;
+    })
+    .slice(0, query.limit ?? DEFAULT_RECORD_LIMIT);
+
+  return { records, timeframe, keywords };
+}
+
+/** Citation payload for a retrieved record (drops scoring internals) */
+export function toAgentCitation({
+  kind,
+  decisionId,
+  agent,
+  timestamp,
+  summary,
+  signature,
+}: RetrievedRecord): AgentCitation {
+  return {
+    kind,
+    ...(decisionId ? { decisionId } : {}),
+    agent,
+    timestamp,
+    summary,
+    ...(signature ? { signature } : {}),
+  };
+}
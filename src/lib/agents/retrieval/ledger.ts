@@ -0,0 +1,38 @@
+import type { AgentDecision } from "@/components/intelligence/AgentCard";
+import { generateMockAgentDecisions } from "@/lib/mock";
+
+/** Decisions remembered for retrieval; the oldest are evicted first */
+const DECISION_LEDGER_SIZE = 500;
+
+/** Decisions generated when nothing has been served yet (one default page) */
+const DECISION_LEDGER_SEED_COUNT = 20;
+
+const ledger = new Map<string, AgentDecision>();
+
+/**
+ * Remember decisions that `/api/agents/decisions` served (pages and live
+ * events) so answers cite the same records the dashboard shows. Only the
+ * card fields are kept, not the enhanced analysis.
+ */
+export function recordDecisions(decisions: readonly AgentDecision[]): void {
+  decisions.forEach(({ id, agent, summary, confidence, timestamp, impact }) => {
+    ledger.delete(id);
+    ledger.set(id, { id, agent, summary, confidence, timestamp, impact });
+  });
+
+  for (const id of ledger.keys()) {
+    if (ledger.size <= DECISION_LEDGER_SIZE) break;
+    ledger.delete(id);
+  }
+}
+
+/** Recorded decisions, newest first */
+export function getRecordedDecisions(): AgentDecision[] {
+  if (ledger.size === 0) {
+    recordDecisions(generateMockAgentDecisions(DECISION_LEDGER_SEED_COUNT));
+  }
+
+  return [...ledger.values()].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
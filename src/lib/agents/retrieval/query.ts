@@ -0,0 +1,319 @@
+import { formatDateTime } from "@/lib/format";
+
+import {
+  AGENT_LOCALE_TAGS,
+  DEFAULT_AGENT_LOCALE,
+  type AgentLocale,
+} from "../locale";
+import type { RetrievalTimeframe } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** Slack either side of a clock time ("at 14:00" matches 13:30-14:30) */
+const CLOCK_TIME_SLACK_MS = 30 * MINUTE_MS;
+
+/** Words that never discriminate between records */
+const STOPWORDS = new Set([
+  "about",
+  "after",
+  "and",
+  "are",
+  "at",
+  "been",
+  "before",
+  "can",
+  "decide",
+  "decided",
+  "decision",
+  "decisions",
+  "did",
+  "does",
+  "doing",
+  "explain",
+  "for",
+  "from",
+  "happen",
+  "happened",
+  "has",
+  "have",
+  "how",
+  "into",
+  "its",
+  "last",
+  "made",
+  "make",
+  "now",
+  "our",
+  "past",
+  "please",
+  "show",
+  "tell",
+  "that",
+  "the",
+  "this",
+  "was",
+  "were",
+  "what",
+  "when",
+  "which",
+  "who",
+  "why",
+  "with",
+  "you",
+  "your",
+  // Time words are handled by parseTimeframe()
+  "afternoon",
+  "evening",
+  "hour",
+  "hours",
+  "minute",
+  "minutes",
+  "morning",
+  "today",
+  "tonight",
+  "yesterday",
+  "abend",
+  "ayer",
+  "gestern",
+  "heute",
+  "hora",
+  "horas",
+  "hoy",
+  "letzten",
+  "minuten",
+  "minutos",
+  "morgen",
+  "nachmittag",
+  "noche",
+  "stunde",
+  "stunden",
+  "tarde",
+  "uhr",
+]);
+
+type DayPart = "morning" | "afternoon" | "evening";
+
+/** Hours [start, end) of each part of the day */
+const DAY_PART_HOURS: Record<DayPart, [number, number]> = {
+  morning: [6, 12],
+  afternoon: [12, 18],
+  evening: [18, 24],
+};
+
+/** Part of the day named by each word in the day-part patterns */
+const DAY_PART_WORDS: Record<string, DayPart> = {
+  morning: "morning",
+  mañana: "morning",
+  morgen: "morning",
+  afternoon: "afternoon",
+  tarde: "afternoon",
+  nachmittag: "afternoon",
+  evening: "evening",
+  noche: "evening",
+  abend: "evening",
+};
+
+/** How each kind of timeframe reads in an answer */
+const TIMEFRAME_LABELS: Record<
+  AgentLocale,
+  {
+    around: (time: string, isYesterday: boolean) => string;
+    recent: (count: number, unit: "minute" | "hour") => string;
+    yesterday: string;
+    dayPart: Record<DayPart, string>;
+    today: string;
+  }
+> = {
+  en: {
+    around: (time, isYesterday) =>
+      `around ${time}${isYesterday ? " yesterday" : ""}`,
+    recent: (count, unit) =>
+      `in the last ${count === 1 ? unit : `${count} ${unit}s`}`,
+    yesterday: "yesterday",
+    dayPart: {
+      morning: "this morning",
+      afternoon: "this afternoon",
+      evening: "this evening",
+    },
+    today: "today",
+  },
+  es: {
+    around: (time, isYesterday) =>
+      `hacia las ${time}${isYesterday ? " de ayer" : ""}`,
+    recent: (count, unit) =>
+      count === 1
+        ? unit === "hour"
+          ? "en la última hora"
+          : "en el último minuto"
+        : `en los últimos ${count} ${unit === "hour" ? "horas" : "minutos"}`,
+    yesterday: "ayer",
+    dayPart: {
+      morning: "esta mañana",
+      afternoon: "esta tarde",
+      evening: "esta noche",
+    },
+    today: "hoy",
+  },
+  de: {
+    around: (time, isYesterday) =>
+      `${isYesterday ? "gestern " : ""}gegen ${time} Uhr`,
+    recent: (count, unit) =>
+      count === 1
+        ? unit === "hour"
+          ? "in der letzten Stunde"
+          : "in der letzten Minute"
+        : `in den letzten ${count} ${unit === "hour" ? "Stunden" : "Minuten"}`,
+    yesterday: "gestern",
+    dayPart: {
+      morning: "heute Morgen",
+      afternoon: "heute Nachmittag",
+      evening: "heute Abend",
+    },
+    today: "heute",
+  },
+};
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function atHour(day: Date, hours: number): Date {
+  const time = new Date(day);
+  time.setHours(hours, 0, 0, 0);
+  return time;
+}
+
+/** Time of day as used in answers, e.g. "2:00 PM" or "14:00" */
+export function formatClockTime(
+  date: Date,
+  locale: AgentLocale = DEFAULT_AGENT_LOCALE
+): string {
+  return formatDateTime(date.toISOString(), AGENT_LOCALE_TAGS[locale], {
+    dateStyle: undefined,
+    timeStyle: "short",
+  });
+}
+
+/**
+ * The time range a question refers to, or null when it names none.
+ * Understands clock times ("at 14:00", "2pm", "2:30 pm"), "last/past N
+ * minutes|hours", "today", "yesterday" and "this morning|afternoon|evening",
+ * and their Spanish and German equivalents ("a las 14", "um 14 Uhr", "en la
+ * última hora", "gestern", "heute Abend"). A clock time later than `now`, or
+ * followed by "yesterday", is taken to mean yesterday. The label is written
+ * in `locale`.
+ */
+export function parseTimeframe(
+  question: string,
+  now: Date,
+  locale: AgentLocale = DEFAULT_AGENT_LOCALE
+): RetrievalTimeframe | null {
+  const lower = question.toLowerCase();
+  const labels = TIMEFRAME_LABELS[locale];
+  const mentionsYesterday = /\b(?:yesterday|ayer|gestern)\b/.test(lower);
+
+  const clock =
+    lower.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/) ??
+    lower.match(/\b(\d{1,2})(?::(\d{2}))?\s*uhr\b/) ??
+    lower.match(/\ba las (\d{1,2})(?::(\d{2}))?\b/) ??
+    lower.match(/\b(\d{1,2}):(\d{2})\b/);
+  if (clock) {
+    let hours = Number(clock[1]);
+    const minutes = Number(clock[2] ?? 0);
+    const meridiem = clock[3];
+    if (meridiem === "pm" && hours < 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+
+    if (hours < 24 && minutes < 60) {
+      const at = new Date(now);
+      at.setHours(hours, minutes, 0, 0);
+      const isYesterday =
+        mentionsYesterday || at.getTime() > now.getTime() + CLOCK_TIME_SLACK_MS;
+      if (isYesterday) {
+        at.setDate(at.getDate() - 1);
+      }
+      return {
+        from: new Date(at.getTime() - CLOCK_TIME_SLACK_MS),
+        to: new Date(at.getTime() + CLOCK_TIME_SLACK_MS),
+        label: labels.around(formatClockTime(at, locale), isYesterday),
+      };
+    }
+  }
+
+  const recent =
+    lower.match(/\b(?:last|past)\s+(\d+\s*)?(minute|min|hour|hr)s?\b/) ??
+    lower.match(/últim[oa]s?\s+(\d+\s*)?(minuto|hora)s?/) ??
+    lower.match(/\bletzte[nr]?\s+(\d+\s*)?(minute|stunde)n?\b/);
+  if (recent) {
+    const count = Number(recent[1] ?? 1);
+    const unit = /^(?:h|stunde)/.test(recent[2]) ? "hour" : "minute";
+    return {
+      from: new Date(
+        now.getTime() - count * (unit === "hour" ? HOUR_MS : MINUTE_MS)
+      ),
+      to: now,
+      label: labels.recent(count, unit),
+    };
+  }
+
+  const today = startOfDay(now);
+  if (mentionsYesterday) {
+    const yesterday = new Date(today);
+    yesterday.setDate(yesterday.getDate() - 1);
+    return { from: yesterday, to: today, label: labels.yesterday };
+  }
+
+  const dayPartMatch =
+    lower.match(/\bthis (morning|afternoon|evening)\b|\btonight\b/) ??
+    lower.match(/\besta (mañana|tarde|noche)/) ??
+    lower.match(/\bheute (morgen|nachmittag|abend)\b/);
+  if (dayPartMatch) {
+    // "tonight" has no captured word
+    const dayPart = DAY_PART_WORDS[dayPartMatch[1] ?? "evening"];
+    const [start, end] = DAY_PART_HOURS[dayPart];
+    return {
+      from: atHour(today, start),
+      to: atHour(today, end),
+      label: labels.dayPart[dayPart],
+    };
+  }
+
+  if (/\b(?:today|hoy|heute)\b/.test(lower)) {
+    return { from: today, to: now, label: labels.today };
+  }
+
+  return null;
+}
+
+/** Lower-cased content words of `text`, without stopwords or numbers */
+export function extractKeywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z-]*[a-z]/g) ?? [];
+  return [
+    ...new Set(words.filter((word) => word.length > 2 && !STOPWORDS.has(word))),
+  ];
+}
+
+/**
+ * Whether two words share a stem, approximated by a common prefix covering
+ * the shorter word ("export" ~ "exporting", "discharged" ~ "discharge")
+ */
+function sharesStem(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length < 4) return shorter === longer;
+  const stem = shorter.replace(/(?:ing|ed|es|e|s)$/, "");
+  return longer.startsWith(stem.length >= 4 ? stem : shorter);
+}
+
+/** Number of `keywords` that appear in `text` */
+export function countKeywordMatches(
+  keywords: readonly string[],
+  text: string
+): number {
+  const words = extractKeywords(text);
+  return keywords.filter((keyword) =>
+    words.some((word) => sharesStem(keyword, word))
+  ).length;
+}
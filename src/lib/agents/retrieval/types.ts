@@ -0,0 +1,36 @@
+import type { AgentCitation } from "@/components/intelligence/AgentSidebar";
+
+import type { AgentLocale } from "../locale";
+import type { AgentPersonaId } from "../personas";
+
+/** Time range a question refers to ("at 14:00", "in the last hour") */
+export interface RetrievalTimeframe {
+  from: Date;
+  to: Date;
+  /** Phrase for answers in the query's locale, e.g. "around 2:00 PM" */
+  label: string;
+}
+
+export interface RetrievalQuery {
+  question: string;
+  /** Personas whose records may be cited; the first is the one being asked */
+  personas: readonly AgentPersonaId[];
+  now?: Date;
+  /** Language of the answer, for the timeframe label (default: "en") */
+  locale?: AgentLocale;
+  /** Maximum records returned (default: 3) */
+  limit?: number;
+}
+
+export interface RetrievedRecord extends AgentCitation {
+  /** Explanation reasoning line that matched, when kind === "explanation" */
+  detail?: string;
+  /** Relevance score; higher is better */
+  score: number;
+}
+
+export interface RetrievalResult {
+  records: RetrievedRecord[];
+  timeframe: RetrievalTimeframe | null;
+  keywords: string[];
+}
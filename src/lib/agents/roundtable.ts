@@ -0,0 +1,192 @@
+/**
+ * Agent Roundtable - Synthesizing one answer from several personas
+ *
+ * Each consulted persona answers on its own; this module reads their replies
+ * for the position they take (press ahead vs. hold back), groups the
+ * personas that agree, pairs the ones that conflict and writes the
+ * synthesized answer. Confidence is combined here, never taken from a model.
+ */
+
+import type {
+  AgentCitation,
+  AgentRoundtablePoint,
+} from "@/components/intelligence/AgentSidebar";
+
+import { AGENT_PERSONAS, type AgentPersonaId } from "./personas";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Position a reply takes on the question */
+export type RoundtableStance = "proceed" | "restrain" | "neutral";
+
+/** One persona's reply, as the synthesis sees it */
+export interface RoundtableSeat {
+  agent: AgentPersonaId;
+  text: string;
+  confidence: number;
+  citations?: AgentCitation[];
+}
+
+export interface RoundtableSynthesis {
+  text: string;
+  confidence: number;
+  stances: Partial<Record<AgentPersonaId, RoundtableStance>>;
+  agreements: AgentRoundtablePoint[];
+  conflicts: AgentRoundtablePoint[];
+}
+
+// ============================================================================
+// STANCE
+// ============================================================================
+
+const PROCEED_CUES =
+  /\b(increas|export|discharg|execut|sell|buy|optimi[sz]|maximi[sz]|captur|approv|deploy|proceed|target)/gi;
+const RESTRAIN_CUES =
+  /\b(limit|constrain|throttl|block|violat|exceed|reserve|hold|paus|halt|shutdown|defer|risk|degrad|maintenance|veto|pending)/gi;
+
+/** Confidence gap (points) reported as a conflict on its own */
+const CONFIDENCE_DIVERGENCE = 25;
+
+/** Confidence lost per conflicting pair */
+const CONFLICT_PENALTY = 5;
+
+/**
+ * Read a reply's position from its wording: mostly action cues means it
+ * favours going ahead, mostly constraint cues means it urges restraint.
+ */
+export function classifyRoundtableStance(text: string): RoundtableStance {
+  const proceed = text.match(PROCEED_CUES)?.length ?? 0;
+  const restrain = text.match(RESTRAIN_CUES)?.length ?? 0;
+  if (proceed === restrain) return "neutral";
+  return proceed > restrain ? "proceed" : "restrain";
+}
+
+// ============================================================================
+// SYNTHESIS
+// ============================================================================
+
+function firstSentence(text: string): string {
+  const withoutRecords = text.replace(/^From my records:[^.]*\.\s*/, "");
+  return withoutRecords.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? withoutRecords;
+}
+
+function listNames(agents: readonly AgentPersonaId[]): string {
+  const names = agents.map((agent) => AGENT_PERSONAS[agent].name);
+  return names.length <= 2
+    ? names.join(" and ")
+    : `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`;
+}
+
+const STANCE_PHRASES: Record<Exclude<RoundtableStance, "neutral">, string> = {
+  proceed: "favour going ahead",
+  restrain: "urge restraint",
+};
+
+/**
+ * Combine the seats' replies into one answer that states where the personas
+ * agree, where they conflict and which reply is strongest. When the Governor
+ * is in a conflict, its veto authority is called out.
+ */
+export function synthesizeRoundtable(
+  seats: readonly RoundtableSeat[]
+): RoundtableSynthesis {
+  const stances = Object.fromEntries(
+    seats.map((seat) => [seat.agent, classifyRoundtableStance(seat.text)])
+  ) as Partial<Record<AgentPersonaId, RoundtableStance>>;
+
+  const agreements: AgentRoundtablePoint[] = [];
+  (["proceed", "restrain"] as const).forEach((stance) => {
+    const agents = seats
+      .filter((seat) => stances[seat.agent] === stance)
+      .map((seat) => seat.agent);
+    if (agents.length > 1) {
+      agreements.push({
+        agents,
+        summary: `${listNames(agents)} ${STANCE_PHRASES[stance]}`,
+      });
+    }
+  });
+
+  // Personas citing the same decision or transaction agree on what happened
+  const citedBy = new Map<string, AgentPersonaId[]>();
+  seats.forEach((seat) =>
+    seat.citations?.forEach((citation) => {
+      const record = citation.decisionId ?? citation.signature;
+      if (!record) return;
+      const agents = citedBy.get(record) ?? [];
+      if (!agents.includes(seat.agent)) agents.push(seat.agent);
+      citedBy.set(record, agents);
+    })
+  );
+  citedBy.forEach((agents, record) => {
+    if (agents.length > 1) {
+      agreements.push({
+        agents,
+        summary: `${listNames(agents)} cite the same record (${record})`,
+      });
+    }
+  });
+
+  const conflicts: AgentRoundtablePoint[] = [];
+  seats.forEach((seat, index) =>
+    seats.slice(index + 1).forEach((other) => {
+      const [a, b] = [stances[seat.agent], stances[other.agent]];
+      if (a !== "neutral" && b !== "neutral" && a !== b) {
+        const [ahead, back] = a === "proceed" ? [seat, other] : [other, seat];
+        conflicts.push({
+          agents: [ahead.agent, back.agent],
+          summary: `${AGENT_PERSONAS[ahead.agent].name} favours going ahead; ${AGENT_PERSONAS[back.agent].name} urges restraint`,
+        });
+      } else if (
+        Math.abs(seat.confidence - other.confidence) >= CONFIDENCE_DIVERGENCE
+      ) {
+        conflicts.push({
+          agents: [seat.agent, other.agent],
+          summary: `${AGENT_PERSONAS[seat.agent].name} (${Math.round(seat.confidence)}%) and ${AGENT_PERSONAS[other.agent].name} (${Math.round(other.confidence)}%) are far apart in confidence`,
+        });
+      }
+    })
+  );
+
+  const weight = seats.reduce((sum, seat) => sum + seat.confidence, 0);
+  const weighted =
+    weight > 0
+      ? seats.reduce((sum, seat) => sum + seat.confidence ** 2, 0) / weight
+      : 0;
+  const confidence = Math.max(
+    30,
+    Math.min(95, weighted - conflicts.length * CONFLICT_PENALTY)
+  );
+
+  const strongest = [...seats].sort((a, b) => b.confidence - a.confidence)[0];
+  const governorOverrules = conflicts.some(
+    (conflict) =>
+      conflict.agents.includes("governor") && stances.governor === "restrain"
+  );
+
+  const sentences = [
+    `Roundtable of the ${listNames(seats.map((seat) => seat.agent))}.`,
+    agreements.length > 0
+      ? `Agreement: ${agreements.map((point) => point.summary).join("; ")}.`
+      : "The agents reached no common position.",
+    conflicts.length > 0
+      ? `Conflict: ${conflicts.map((point) => point.summary).join("; ")}.`
+      : "No conflicts between their answers.",
+    governorOverrules
+      ? "The Governor Agent holds veto authority, so its constraints take precedence."
+      : "",
+    strongest
+      ? `Strongest answer, from the ${AGENT_PERSONAS[strongest.agent].name} (${Math.round(strongest.confidence)}%): ${firstSentence(strongest.text)}`
+      : "",
+  ];
+
+  return {
+    text: sentences.filter(Boolean).join(" "),
+    confidence,
+    stances,
+    agreements,
+    conflicts,
+  };
+}
@@ -0,0 +1,161 @@
+import bs58 from "bs58";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { BLOCKCHAIN } from "@/lib/constants";
+import { MockWalletAdapter } from "@/lib/wallet/mock-adapter";
+import { createSignInMessage, type SignInMessageFields } from "@/lib/wallet";
+
+import {
+  SESSION_COOKIE,
+  createMemoryAuthStore,
+  createSignInRequest,
+  getSession,
+  setAuthStore,
+  signIn,
+  verifyWalletSignature,
+} from "./index";
+
+const wallet = new MockWalletAdapter();
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest("https://app.aimp.energy/api/auth/session", {
+    method: "POST",
+    headers,
+  });
+}
+
+async function sign(message: string): Promise<string> {
+  return bs58.encode(
+    await wallet.signMessage(new TextEncoder().encode(message))
+  );
+}
+
+/** A message signed by `wallet` over a freshly issued nonce */
+async function signedMessage(overrides: Partial<SignInMessageFields> = {}) {
+  await wallet.connect();
+  const message = createSignInMessage({
+    ...(await createSignInRequest(request())),
+    address: wallet.publicKey!.toBase58(),
+    ...overrides,
+  });
+
+  return { message, signature: await sign(message) };
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60_000).toISOString();
+}
+
+beforeEach(() => {
+  setAuthStore(createMemoryAuthStore({ maxEntries: 100 }));
+});
+
+describe("verifyWalletSignature", () => {
+  it("accepts only the wallet's signature of that exact message", async () => {
+    await wallet.connect();
+    const address = wallet.publicKey!.toBase58();
+    const signature = await sign("Sign in to AIMP");
+
+    expect(verifyWalletSignature(address, "Sign in to AIMP", signature)).toBe(
+      true
+    );
+    expect(verifyWalletSignature(address, "Sign in to AIMP!", signature)).toBe(
+      false
+    );
+    const other = new MockWalletAdapter({ seed: new Uint8Array(32).fill(9) });
+    await other.connect();
+    expect(
+      verifyWalletSignature(
+        other.publicKey!.toBase58(),
+        "Sign in to AIMP",
+        signature
+      )
+    ).toBe(false);
+    // Malformed input is a failed check, not an exception
+    expect(verifyWalletSignature(address, "Sign in to AIMP", "abc")).toBe(
+      false
+    );
+    expect(verifyWalletSignature("0OIl", "Sign in to AIMP", signature)).toBe(
+      false
+    );
+  });
+});
+
+describe("signIn", () => {
+  it("starts a session for the wallet that signed a valid message", async () => {
+    const { token, session } = await signIn(request(), await signedMessage());
+
+    expect(session.address).toBe(wallet.publicKey!.toBase58());
+    await expect(
+      getSession(request({ Cookie: `${SESSION_COOKIE}=${token}` }))
+    ).resolves.toEqual(session);
+  });
+
+  it("rejects a message or signature changed after signing", async () => {
+    const { message, signature } = await signedMessage();
+
+    await expect(
+      signIn(request(), {
+        message: message.replace("Sign in to AIMP", "Sign in to EVIL"),
+        signature,
+      })
+    ).rejects.toMatchObject({ code: "invalid_signature" });
+    await expect(
+      signIn(request(), { message, signature: await sign(`${message} `) })
+    ).rejects.toMatchObject({ code: "invalid_signature" });
+  });
+
+  it("rejects messages written for another domain, origin or cluster", async () => {
+    for (const overrides of [
+      { domain: "evil.example" },
+      { uri: "https://evil.example" },
+      { chainId: BLOCKCHAIN.network === "devnet" ? "mainnet-beta" : "devnet" },
+    ]) {
+      await expect(
+        signIn(request(), await signedMessage(overrides))
+      ).rejects.toMatchObject({ code: "wrong_audience" });
+    }
+  });
+
+  it("rejects expired messages and messages not yet valid", async () => {
+    await expect(
+      signIn(
+        request(),
+        await signedMessage({
+          issuedAt: minutesFromNow(-10),
+          expirationTime: minutesFromNow(-5),
+        })
+      )
+    ).rejects.toMatchObject({ code: "expired" });
+    await expect(
+      signIn(
+        request(),
+        await signedMessage({
+          issuedAt: minutesFromNow(10),
+          expirationTime: minutesFromNow(15),
+        })
+      )
+    ).rejects.toMatchObject({ code: "expired" });
+  });
+
+  it("accepts each nonce once, and only nonces it issued", async () => {
+    const signed = await signedMessage();
+    await signIn(request(), signed);
+
+    await expect(signIn(request(), signed)).rejects.toMatchObject({
+      code: "invalid_nonce",
+    });
+    await expect(
+      signIn(request(), await signedMessage({ nonce: "not-issued" }))
+    ).rejects.toMatchObject({ code: "invalid_nonce" });
+  });
+
+  it("rejects text that is not a sign-in message", async () => {
+    const message = "Sign in to AIMP";
+
+    await expect(
+      signIn(request(), { message, signature: await sign(message) })
+    ).rejects.toMatchObject({ code: "invalid_message" });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Wallet Sessions - Sign-In With Solana for the API routes
+ *
+ * 1. `GET /api/auth/nonce` hands out a single-use nonce and the fields of
+ *    the sign-in message (domain, URI, cluster, expiry)
+ * 2. The connected wallet signs that message (`createSignInMessage`)
+ * 3. `POST /api/auth/session` checks the message was written for this host
+ *    and cluster, verifies the Ed25519 signature, consumes the nonce and sets
+ *    an HTTP-only session cookie
+ *
+ * Route handlers that act on someone's behalf wrap themselves in
+ * `withSession`, which answers 401 without a session and otherwise hands
+ * the handler the signed-in wallet.
+ *
+ * Services authenticate with one of `API_KEYS` instead, sent as `X-API-Key`
+ * or a bearer token.
+ *
+ * Nonces and sessions live in memory by default. Deployments running several
+ * instances pass a shared `AuthStore` to `setAuthStore` at startup.
+ */
+
+import { createHash, createPublicKey, randomBytes, verify } from "node:crypto";
+import bs58 from "bs58";
+import { NextResponse, type NextRequest } from "next/server";
+
+import { apiKeys } from "@/lib/config/flags";
+import { BLOCKCHAIN } from "@/lib/constants";
+import {
+  isWalletAddress,
+  parseSignInMessage,
+  type SignInMessageFields,
+} from "@/lib/wallet";
+
+import { createMemoryAuthStore } from "./memory";
+import type { AuthSession, AuthStore } from "./types";
+
+export type { AuthSession, AuthStore } from "./types";
+export { createMemoryAuthStore } from "./memory";
+export type { MemoryAuthStoreOptions } from "./memory";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Cookie identifying a signed-in session */
+export const SESSION_COOKIE = "aimp_session";
+
+const NONCE_TTL_MS = 5 * 60_000;
+const SESSION_TTL_MS = 12 * 60 * 60_000;
+/** Tolerated difference between the browser's clock and ours */
+const CLOCK_SKEW_MS = 60_000;
+
+const SIGN_IN_STATEMENT =
+  "Sign in to AIMP to approve overrides, investments and governance actions. This request sends no transaction and costs nothing.";
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+const MEMORY_STORE_MAX_ENTRIES = 10_000;
+
+let store: AuthStore | null = null;
+
+export function getAuthStore(): AuthStore {
+  if (!store) {
+    store = createMemoryAuthStore({ maxEntries: MEMORY_STORE_MAX_ENTRIES });
+  }
+
+  return store;
+}
+
+/** Replace the store, e.g. with a shared one when running several instances */
+export function setAuthStore(next: AuthStore): void {
+  store = next;
+}
+
+// ============================================================================
+// SIGN-IN
+// ============================================================================
+
+export type AuthErrorCode =
+  | "invalid_message"
+  | "wrong_audience"
+  | "expired"
+  | "invalid_signature"
+  | "invalid_nonce";
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AuthErrorCode
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/** Sign-in message fields for the wallet to fill in its address and sign */
+export type SignInRequest = Omit<SignInMessageFields, "address">;
+
+/** Sessions are stored by digest so raw tokens never sit in the store */
+function digest(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Store a fresh nonce and describe the message to sign for `request`'s host */
+export async function createSignInRequest(
+  request: NextRequest
+): Promise<SignInRequest> {
+  const now = Date.now();
+  const nonce = randomBytes(16).toString("hex");
+  await getAuthStore().putNonce(nonce, now + NONCE_TTL_MS);
+
+  return {
+    domain: request.nextUrl.host,
+    statement: SIGN_IN_STATEMENT,
+    uri: request.nextUrl.origin,
+    chainId: BLOCKCHAIN.network,
+    nonce,
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + NONCE_TTL_MS).toISOString(),
+  };
+}
+
+/** DER header of an X.509 SubjectPublicKeyInfo for an Ed25519 key */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/** Whether `signature` (base58) is `address`'s Ed25519 signature of `message` */
+export function verifyWalletSignature(
+  address: string,
+  message: string,
+  signature: string
+): boolean {
+  try {
+    const signatureBytes = bs58.decode(signature);
+    if (signatureBytes.length !== 64) return false;
+
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, bs58.decode(address)]),
+      format: "der",
+      type: "spki",
+    });
+    return verify(null, Buffer.from(message, "utf8"), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a signed sign-in message and start a session for its wallet.
+ * Resolves the cookie token and the session; rejects with an `AuthError`.
+ */
+export async function signIn(
+  request: NextRequest,
+  { message, signature }: { message: string; signature: string }
+): Promise<{ token: string; session: AuthSession }> {
+  const fields = parseSignInMessage(message);
+  if (!fields || !isWalletAddress(fields.address)) {
+    throw new AuthError("Not a sign-in message", "invalid_message");
+  }
+
+  if (
+    fields.domain !== request.nextUrl.host ||
+    fields.uri !== request.nextUrl.origin ||
+    fields.chainId !== BLOCKCHAIN.network
+  ) {
+    throw new AuthError(
+      `Message was written for ${fields.domain} on ${fields.chainId}`,
+      "wrong_audience"
+    );
+  }
+
+  const now = Date.now();
+  const issuedAt = Date.parse(fields.issuedAt);
+  const expiresAt = Date.parse(fields.expirationTime);
+  if (Number.isNaN(issuedAt) || Number.isNaN(expiresAt)) {
+    throw new AuthError(
+      "Message timestamps are not ISO 8601",
+      "invalid_message"
+    );
+  }
+  if (expiresAt <= now || issuedAt > now + CLOCK_SKEW_MS) {
+    throw new AuthError("Sign-in message has expired", "expired");
+  }
+
+  if (!verifyWalletSignature(fields.address, message, signature)) {
+    throw new AuthError(
+      "Signature does not match the wallet",
+      "invalid_signature"
+    );
+  }
+
+  // Only a verified message spends its nonce, so junk cannot burn them
+  if (!(await getAuthStore().consumeNonce(fields.nonce, now))) {
+    throw new AuthError(
+      "Nonce is unknown, expired or already used",
+      "invalid_nonce"
+    );
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const session: AuthSession = {
+    address: fields.address,
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+  await getAuthStore().putSession(digest(token), session);
+
+  return { token, session };
+}
+
+/** End the request's session, if it has one */
+export async function signOut(request: NextRequest): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) await getAuthStore().deleteSession(digest(token));
+}
+
+// ============================================================================
+// COOKIE
+// ============================================================================
+
+/** Set the session cookie on `response` (or clear it, with null) */
+export function setSessionCookie(
+  response: NextResponse,
+  token: string | null,
+  session?: AuthSession
+): NextResponse {
+  response.cookies.set(SESSION_COOKIE, token ?? "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    ...(token && session
+      ? { expires: new Date(session.expiresAt) }
+      : { maxAge: 0 }),
+  });
+  return response;
+}
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+
+/** Digests of the accepted keys, so lookups never compare raw secrets */
+const API_KEY_DIGESTS = new Set(
+  (apiKeys?.split(",") ?? [])
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map(digest)
+);
+
+/** The request's API key (`X-API-Key` or a bearer token), if it is accepted */
+export function getApiKey(request: NextRequest): string | null {
+  const bearer = request.headers
+    .get("Authorization")
+    ?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const key = request.headers.get("X-API-Key") ?? bearer;
+
+  return key && API_KEY_DIGESTS.has(digest(key)) ? key : null;
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/** The request's session, if it carries a live one */
+export async function getSession(
+  request: NextRequest
+): Promise<AuthSession | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  return getAuthStore().getSession(digest(token), Date.now());
+}
+
+export type SessionResult =
+  | { success: true; session: AuthSession }
+  | { success: false; response: NextResponse };
+
+/** The request's session, or a 401 to return when it has none */
+export async function requireSession(
+  request: NextRequest
+): Promise<SessionResult> {
+  const session = await getSession(request);
+  if (session) return { success: true, session };
+
+  return {
+    success: false,
+    response: NextResponse.json(
+      {
+        error: "Unauthorized",
+        message:
+          "Sign in with your wallet (GET /api/auth/nonce, then POST /api/auth/session) to do this",
+      },
+      { status: 401, headers: { "Cache-Control": "no-store" } }
+    ),
+  };
+}
+
+/**
+ * Wrap a route handler so it only runs for signed-in wallets. The handler
+ * receives the session next to the route context:
+ *
+ * ```ts
+ * export const POST = withSession(async (request, { session }) => …);
+ * ```
+ */
+export function withSession<Context extends object = object>(
+  handler: (
+    request: NextRequest,
+    context: Context & { session: AuthSession }
+  ) => Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const auth = await requireSession(request);
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    return handler(request, { ...context, session: auth.session });
+  };
+}
@@ -0,0 +1,60 @@
+import type { AuthSession, AuthStore } from "./types";
+
+export interface MemoryAuthStoreOptions {
+  /** Oldest nonces (and sessions) are evicted beyond this count */
+  maxEntries: number;
+}
+
+/** Drop the oldest entries of an insertion-ordered map beyond `max` */
+function evict<T>(map: Map<string, T>, max: number): void {
+  for (const oldest of map.keys()) {
+    if (map.size <= max) break;
+    map.delete(oldest);
+  }
+}
+
+/**
+ * Process-local store. Evicting a nonce only fails that sign-in attempt and
+ * evicting a session only signs its wallet out, so memory pressure never
+ * grants access.
+ */
+export function createMemoryAuthStore(
+  options: MemoryAuthStoreOptions
+): AuthStore {
+  const nonces = new Map<string, number>();
+  const sessions = new Map<string, AuthSession>();
+
+  return {
+    name: "memory",
+
+    async putNonce(nonce, expiresAt) {
+      nonces.set(nonce, expiresAt);
+      evict(nonces, options.maxEntries);
+    },
+
+    async consumeNonce(nonce, now) {
+      const expiresAt = nonces.get(nonce);
+      nonces.delete(nonce);
+      return expiresAt !== undefined && expiresAt > now;
+    },
+
+    async putSession(id, session) {
+      sessions.set(id, { ...session });
+      evict(sessions, options.maxEntries);
+    },
+
+    async getSession(id, now) {
+      const session = sessions.get(id);
+      if (!session) return null;
+      if (Date.parse(session.expiresAt) <= now) {
+        sessions.delete(id);
+        return null;
+      }
+      return { ...session };
+    },
+
+    async deleteSession(id) {
+      sessions.delete(id);
+    },
+  };
+}
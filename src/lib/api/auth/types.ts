@@ -0,0 +1,28 @@
+/** A wallet signed in with Sign-In With Solana */
+export interface AuthSession {
+  /** Wallet that signed the sign-in message (base58) */
+  address: string;
+  /** When the session started (ISO 8601) */
+  issuedAt: string;
+  /** When the session ends (ISO 8601) */
+  expiresAt: string;
+}
+
+/**
+ * Where nonces and sessions live. Sessions are stored under a digest of the
+ * cookie token, so the store never holds a usable credential. The memory
+ * store is per process; deployments running several instances provide a
+ * shared store whose `consumeNonce` is atomic.
+ */
+export interface AuthStore {
+  readonly name: string;
+
+  putNonce(nonce: string, expiresAt: number): Promise<void>;
+  /** Remove a nonce; true when it existed and had not expired at `now` */
+  consumeNonce(nonce: string, now: number): Promise<boolean>;
+
+  putSession(id: string, session: AuthSession): Promise<void>;
+  /** The session, unless it is missing or expired at `now` */
+  getSession(id: string, now: number): Promise<AuthSession | null>;
+  deleteSession(id: string): Promise<void>;
+}
@@ -0,0 +1,30 @@
+/**
+ * Content Hashing - Canonical JSON and SHA-256 digests
+ *
+ * Records that auditors re-hash (decision replays, evidence bundles) are
+ * serialized canonically: JSON with object keys sorted and no whitespace,
+ * so equal values always produce the same bytes and the same digest.
+ */
+
+import { createHash } from "node:crypto";
+
+/** JSON with object keys sorted, so equal values always hash equally */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : nested
+  );
+}
+
+/** Hex SHA-256 of a string's UTF-8 bytes */
+export function sha256Hex(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+/** Hex SHA-256 of a value's canonical JSON */
+export function sha256Json(value: unknown): string {
+  return sha256Hex(canonicalJson(value));
+}
@@ -0,0 +1,11 @@
+export type QuoteSourceErrorCode = "no_route" | "unavailable";
+
+export class QuoteSourceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: QuoteSourceErrorCode
+  ) {
+    super(message);
+    this.name = "QuoteSourceError";
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Quote Sources - Where `/api/invest/quote` gets swap routes from
+ *
+ * The local stub router is the default. `QUOTE_SOURCE=jupiter` asks Jupiter's
+ * swap API (at `JUPITER_API_URL`, or the client's public endpoint) instead.
+ * Both answer in the shape of Jupiter's v6 `GET /quote`.
+ */
+
+import { API } from "@/lib/constants";
+import { jupiterApiUrl, quoteSource } from "@/lib/config/flags";
+
+import { createJupiterQuoteSource } from "./jupiter";
+import { stubQuoteSource } from "./stub";
+import type { QuoteSource } from "./types";
+
+export type {
+  QuoteGetRequest,
+  QuoteResponse,
+  QuoteSource,
+  RoutePlanStep,
+  SwapInfo,
+} from "./types";
+export { QuoteSourceError } from "./errors";
+export type { QuoteSourceErrorCode } from "./errors";
+export { createJupiterQuoteSource } from "./jupiter";
+export type { JupiterQuoteSourceOptions } from "./jupiter";
+export {
+  DEFAULT_STUB_POOLS,
+  createStubQuoteSource,
+  stubQuoteSource,
+} from "./stub";
+export type { StubPool, StubQuoteSourceOptions } from "./stub";
+
+let source: QuoteSource | null = null;
+
+/** Returns the source selected by `QUOTE_SOURCE`. */
+export function getQuoteSource(): QuoteSource {
+  if (!source) {
+    source =
+      quoteSource === "jupiter"
+        ? createJupiterQuoteSource({
+            basePath: jupiterApiUrl,
+            timeoutMs: API.timeout.default,
+          })
+        : stubQuoteSource;
+  }
+
+  return source;
+}
+
+/** Replace the source, e.g. with a fixed-price stub in tests */
+export function setQuoteSource(next: QuoteSource): void {
+  source = next;
+}
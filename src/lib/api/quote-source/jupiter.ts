@@ -0,0 +1,43 @@
+import { ResponseError, createJupiterApiClient } from "@jup-ag/api";
+
+import { QuoteSourceError } from "./errors";
+import type { QuoteSource } from "./types";
+
+export interface JupiterQuoteSourceOptions {
+  /** Swap API root (default: the client's public endpoint) */
+  basePath?: string;
+  timeoutMs: number;
+}
+
+/** Quotes from Jupiter's swap API */
+export function createJupiterQuoteSource(
+  options: JupiterQuoteSourceOptions
+): QuoteSource {
+  const client = createJupiterApiClient(
+    options.basePath ? { basePath: options.basePath } : undefined
+  );
+
+  return {
+    name: "jupiter",
+
+    async quote(request) {
+      try {
+        return await client.quoteGet(request, {
+          signal: AbortSignal.timeout(options.timeoutMs),
+        });
+      } catch (error) {
+        // Jupiter answers 400 when it has no route for the pair or amount
+        if (error instanceof ResponseError && error.response.status === 400) {
+          throw new QuoteSourceError(
+            "No route found for this pair and amount",
+            "no_route"
+          );
+        }
+        throw new QuoteSourceError(
+          `Jupiter quote failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          "unavailable"
+        );
+      }
+    },
+  };
+}
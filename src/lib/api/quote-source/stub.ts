@@ -0,0 +1,307 @@
+/**
+ * A local stand-in for Jupiter's router: a handful of constant-product pools
+ * between SOL, USDC and SOLAR, routed directly or through one intermediate
+ * mint and split across two routes when that returns more. Pool prices drift
+ * slowly with the clock so refreshed quotes move like live ones.
+ */
+
+import { BLOCKCHAIN } from "@/lib/constants";
+
+import { QuoteSourceError } from "./errors";
+import type {
+  QuoteGetRequest,
+  QuoteResponse,
+  QuoteSource,
+  RoutePlanStep,
+} from "./types";
+
+/** A constant-product pool, with reserves in whole units */
+export interface StubPool {
+  ammKey: string;
+  label: string;
+  mints: [string, string];
+  reserves: [number, number];
+  feeBps: number;
+}
+
+export interface StubQuoteSourceOptions {
+  pools?: StubPool[];
+  /** Decimals of each mint the pools trade (default: `BLOCKCHAIN.tokens`) */
+  decimals?: Record<string, number>;
+  /** Clock pool prices drift with, in epoch ms (default: `Date.now`) */
+  now?: () => number;
+}
+
+const { SOL, USDC, SOLAR } = BLOCKCHAIN.tokens;
+
+/** SOL at 150 USDC and SOLAR at 20.12 USDC, the mock asset's token price */
+export const DEFAULT_STUB_POOLS: StubPool[] = [
+  {
+    ammKey: "StubWhirLpooLSoLUSDC1111111111111111111111",
+    label: "Whirlpool",
+    mints: [SOL.mint, USDC.mint],
+    reserves: [40_000, 6_000_000],
+    feeBps: 30,
+  },
+  {
+    ammKey: "StubRaydiumCLMMUSDCSoLAR111111111111111111",
+    label: "Raydium CLMM",
+    mints: [USDC.mint, SOLAR.mint],
+    reserves: [1_006_000, 50_000],
+    feeBps: 25,
+  },
+  {
+    ammKey: "StubMeteoraDLMMSoLSoLAR11111111111111111111",
+    label: "Meteora DLMM",
+    mints: [SOL.mint, SOLAR.mint],
+    reserves: [1_500, 11_183],
+    feeBps: 20,
+  },
+];
+
+const TOKEN_DECIMALS: Record<string, number> = Object.fromEntries(
+  Object.values(BLOCKCHAIN.tokens).map(({ mint, decimals }) => [mint, decimals])
+);
+
+/** Largest swing of a pool's price, as a fraction */
+const PRICE_DRIFT = 0.003;
+const PRICE_DRIFT_PERIOD_MS = 120_000;
+const SLOT_MS = 400;
+
+// ============================================================================
+// POOL MATH
+// ============================================================================
+
+interface Hop {
+  pool: StubPool;
+  reserveIn: number;
+  reserveOut: number;
+  inputMint: string;
+  outputMint: string;
+}
+
+interface PathSwap {
+  /** Amounts per hop, in whole units */
+  hops: { hop: Hop; amountIn: number; amountOut: number; fee: number }[];
+  amountOut: number;
+  /** What the path would return at spot prices, fees still charged */
+  idealOut: number;
+}
+
+function orient(pool: StubPool, inputMint: string, now: number): Hop | null {
+  const index = pool.mints.indexOf(inputMint);
+  if (index < 0) return null;
+
+  // Drifting the second reserve moves the price; pools drift out of step
+  const drift =
+    1 +
+    PRICE_DRIFT *
+      Math.sin((2 * Math.PI * now) / PRICE_DRIFT_PERIOD_MS + pool.feeBps);
+  const reserves = [pool.reserves[0], pool.reserves[1] * drift];
+
+  return {
+    pool,
+    reserveIn: reserves[index],
+    reserveOut: reserves[1 - index],
+    inputMint,
+    outputMint: pool.mints[1 - index],
+  };
+}
+
+/** Routes of one or two hops from `inputMint` to `outputMint` */
+function findPaths(
+  pools: StubPool[],
+  inputMint: string,
+  outputMint: string,
+  now: number,
+  onlyDirect: boolean
+): Hop[][] {
+  const firstHops = pools.flatMap((pool) => {
+    const hop = orient(pool, inputMint, now);
+    return hop ? [hop] : [];
+  });
+
+  return firstHops.flatMap((first) => {
+    if (first.outputMint === outputMint) return [[first]];
+    if (onlyDirect) return [];
+
+    return pools
+      .filter((pool) => pool !== first.pool)
+      .flatMap((pool) => {
+        const second = orient(pool, first.outputMint, now);
+        return second?.outputMint === outputMint ? [[first, second]] : [];
+      });
+  });
+}
+
+function swapPath(path: Hop[], amountIn: number): PathSwap {
+  const hops: PathSwap["hops"] = [];
+  let amount = amountIn;
+  let idealOut = amountIn;
+
+  path.forEach((hop) => {
+    const fee = (amount * hop.pool.feeBps) / 10_000;
+    const net = amount - fee;
+    const amountOut = (hop.reserveOut * net) / (hop.reserveIn + net);
+    hops.push({ hop, amountIn: amount, amountOut, fee });
+
+    idealOut *=
+      (1 - hop.pool.feeBps / 10_000) * (hop.reserveOut / hop.reserveIn);
+    amount = amountOut;
+  });
+
+  return { hops, amountOut: amount, idealOut };
+}
+
+type Route = { path: Hop[]; share: number }[];
+
+/** The path, or split of two paths (in tenths), that returns the most */
+function bestRoute(paths: Hop[][], amountIn: number): Route | null {
+  const candidates: Route[] = paths.flatMap((path, i) => [
+    [{ path, share: 1 }],
+    ...paths
+      .slice(i + 1)
+      .filter(
+        (other) => !other.some((hop) => path.some((h) => h.pool === hop.pool))
+      )
+      .flatMap((other) =>
+        Array.from({ length: 9 }, (_, k) => [
+          { path, share: (k + 1) / 10 },
+          { path: other, share: 1 - (k + 1) / 10 },
+        ])
+      ),
+  ]);
+
+  let best: Route | null = null;
+  let bestOut = 0;
+  for (const route of candidates) {
+    const out = route.reduce(
+      (sum, { path, share }) =>
+        sum + swapPath(path, amountIn * share).amountOut,
+      0
+    );
+    if (out > bestOut) {
+      best = route;
+      bestOut = out;
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// SOURCE
+// ============================================================================
+
+export function createStubQuoteSource(
+  options: StubQuoteSourceOptions = {}
+): QuoteSource {
+  const decimals = options.decimals ?? TOKEN_DECIMALS;
+  const clock = options.now ?? Date.now;
+
+  const toWhole = (raw: number, mint: string) => raw / 10 ** decimals[mint];
+  // Rounded to absorb float error; outputs are floored so none is overstated
+  const toRaw = (whole: number, mint: string, round = Math.round) =>
+    round(whole * 10 ** decimals[mint]);
+
+  return {
+    name: "stub",
+
+    async quote(request: QuoteGetRequest): Promise<QuoteResponse> {
+      const started = Date.now();
+      const now = clock();
+      const { inputMint, outputMint, amount } = request;
+      const slippageBps = request.slippageBps ?? 50;
+
+      if (request.swapMode === "ExactOut") {
+        throw new QuoteSourceError(
+          "The stub router only quotes ExactIn swaps",
+          "no_route"
+        );
+      }
+      if (
+        decimals[inputMint] === undefined ||
+        decimals[outputMint] === undefined ||
+        !(amount > 0)
+      ) {
+        throw new QuoteSourceError(
+          "No route found for this pair and amount",
+          "no_route"
+        );
+      }
+
+      const pools = (options.pools ?? DEFAULT_STUB_POOLS).filter(
+        (pool) =>
+          (!request.dexes || request.dexes.includes(pool.label)) &&
+          !request.excludeDexes?.includes(pool.label)
+      );
+      const amountIn = toWhole(amount, inputMint);
+      const route = bestRoute(
+        findPaths(
+          pools,
+          inputMint,
+          outputMint,
+          now,
+          request.onlyDirectRoutes ?? false
+        ),
+        amountIn
+      );
+      if (!route) {
+        throw new QuoteSourceError(
+          "No route found for this pair and amount",
+          "no_route"
+        );
+      }
+
+      // Split the raw amount so the routes' inputs add up to it exactly
+      let unrouted = amount;
+      const swaps = route.map(({ path, share }, index) => {
+        const routed =
+          index === route.length - 1 ? unrouted : Math.round(amount * share);
+        unrouted -= routed;
+        return { share, swap: swapPath(path, toWhole(routed, inputMint)) };
+      });
+      const routePlan: RoutePlanStep[] = swaps.flatMap(({ share, swap }) =>
+        swap.hops.map(({ hop, amountIn, amountOut, fee }, index) => ({
+          // Percent of the step's input mint: split on the first hop only
+          percent: index === 0 ? Math.round(share * 100) : 100,
+          swapInfo: {
+            ammKey: hop.pool.ammKey,
+            label: hop.pool.label,
+            inputMint: hop.inputMint,
+            outputMint: hop.outputMint,
+            inAmount: String(toRaw(amountIn, hop.inputMint)),
+            outAmount: String(toRaw(amountOut, hop.outputMint, Math.floor)),
+            feeAmount: String(toRaw(fee, hop.inputMint)),
+            feeMint: hop.inputMint,
+          },
+        }))
+      );
+
+      const amountOut = swaps.reduce(
+        (sum, { swap }) => sum + swap.amountOut,
+        0
+      );
+      const idealOut = swaps.reduce((sum, { swap }) => sum + swap.idealOut, 0);
+      const outAmount = toRaw(amountOut, outputMint, Math.floor);
+
+      return {
+        inputMint,
+        inAmount: String(amount),
+        outputMint,
+        outAmount: String(outAmount),
+        otherAmountThreshold: String(
+          Math.floor((outAmount * (10_000 - slippageBps)) / 10_000)
+        ),
+        swapMode: "ExactIn",
+        slippageBps,
+        priceImpactPct: Math.max(0, 1 - amountOut / idealOut).toFixed(8),
+        routePlan,
+        contextSlot: Math.floor(now / SLOT_MS),
+        timeTaken: (Date.now() - started) / 1000,
+      };
+    },
+  };
+}
+
+export const stubQuoteSource = createStubQuoteSource();
@@ -0,0 +1,21 @@
+import type { QuoteGetRequest, QuoteResponse } from "@jup-ag/api";
+
+export type {
+  QuoteGetRequest,
+  QuoteResponse,
+  RoutePlanStep,
+  SwapInfo,
+} from "@jup-ag/api";
+
+/**
+ * Where swap quotes come from, in the shape of Jupiter's v6 `GET /quote`:
+ * amounts are integer strings in each mint's smallest unit and `routePlan`
+ * lists every pool the swap passes through, with the percentage of its
+ * input mint's amount that pool takes. Sources reject with a
+ * `QuoteSourceError`.
+ */
+export interface QuoteSource {
+  readonly name: string;
+
+  quote(request: QuoteGetRequest): Promise<QuoteResponse>;
+}
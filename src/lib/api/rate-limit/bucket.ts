@@ -0,0 +1,35 @@
+import type { RateLimitPolicy, RateLimitResult, TokenBucket } from "./types";
+
+/**
+ * Refill `bucket` for the time elapsed since it was last updated, then try
+ * to take `cost` tokens. A missing bucket starts full. Pure, so every store
+ * shares the same arithmetic.
+ */
+export function takeFromBucket(
+  bucket: TokenBucket | null,
+  policy: RateLimitPolicy,
+  now: number,
+  cost = 1
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillPerMs = policy.limit / policy.windowMs;
+  const available = bucket
+    ? Math.min(
+        policy.limit,
+        bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs
+      )
+    : policy.limit;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetAt: now + Math.ceil((policy.limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs),
+    },
+  };
+}
@@ -0,0 +1,175 @@
+import { createHash } from "node:crypto";
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+/** Fresh rate-limit and auth modules, configured from `env` */
+async function load(env: Record<string, string> = {}) {
+  vi.resetModules();
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+
+  const rateLimit = await import("./index");
+  const auth = await import("@/lib/api/auth");
+  return { ...rateLimit, ...auth };
+}
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest("http://localhost:3000/api/transactions", {
+    headers,
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveRateLimitClient", () => {
+  it("keys accepted API keys by key", async () => {
+    const { resolveRateLimitClient } = await load({
+      API_KEYS: "alpha, beta",
+    });
+
+    const alpha = await resolveRateLimitClient(
+      request({ "X-API-Key": "alpha" })
+    );
+    const beta = await resolveRateLimitClient(
+      request({ Authorization: "Bearer beta" })
+    );
+
+    expect(alpha).toMatch(/^key:/);
+    expect(beta).toMatch(/^key:/);
+    expect(alpha).not.toBe(beta);
+  });
+
+  it("keys live sessions by wallet", async () => {
+    const { resolveRateLimitClient, getAuthStore, SESSION_COOKIE } =
+      await load();
+    const address = "4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T";
+    await getAuthStore().putSession(
+      createHash("sha256").update("token").digest("hex"),
+      {
+        address,
+        issuedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      }
+    );
+
+    await expect(
+      resolveRateLimitClient(request({ Cookie: `${SESSION_COOKIE}=token` }))
+    ).resolves.toBe(`session:${address}`);
+  });
+
+  it("ignores unknown keys and sessions", async () => {
+    const { resolveRateLimitClient, SESSION_COOKIE } = await load({
+      API_KEYS: "alpha",
+    });
+
+    for (const headers of [
+      {} as Record<string, string>,
+      { "X-API-Key": "made-up" },
+      { Authorization: "Bearer made-up" },
+      { Cookie: `${SESSION_COOKIE}=made-up` },
+      { "X-Real-IP": "203.0.113.7" },
+    ]) {
+      await expect(resolveRateLimitClient(request(headers))).resolves.toBe(
+        "anonymous"
+      );
+    }
+    await expect(
+      resolveRateLimitClient(
+        request({ "X-API-Key": "made-up", "X-Forwarded-For": "203.0.113.7" })
+      )
+    ).resolves.toBe("ip:203.0.113.7");
+  });
+
+  it("takes the last hop's address without a trusted proxy", async () => {
+    const { resolveRateLimitClient } = await load();
+
+    await expect(
+      resolveRateLimitClient(
+        request({ "X-Forwarded-For": "198.51.100.1, 203.0.113.7" })
+      )
+    ).resolves.toBe("ip:203.0.113.7");
+  });
+
+  it("takes the address the trusted proxies appended", async () => {
+    const { resolveRateLimitClient } = await load({ TRUSTED_PROXY_HOPS: "2" });
+
+    await expect(
+      resolveRateLimitClient(
+        request({
+          "X-Forwarded-For": "198.51.100.1, 203.0.113.7, 10.0.0.2",
+        })
+      )
+    ).resolves.toBe("ip:203.0.113.7");
+    // Fewer entries than proxies: the chain is not the one configured
+    await expect(
+      resolveRateLimitClient(request({ "X-Forwarded-For": "203.0.113.7" }))
+    ).resolves.toBe("anonymous");
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("throttles a client rotating made-up keys and sessions", async () => {
+    const { checkRateLimit, RATE_LIMIT_POLICIES, SESSION_COOKIE } = await load({
+      RATE_LIMITS: "transactions=3/60",
+    });
+    expect(RATE_LIMIT_POLICIES.transactions.limit).toBe(3);
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(
+        await checkRateLimit(
+          request({
+            "X-API-Key": `key-${i}`,
+            Cookie: `${SESSION_COOKIE}=session-${i}`,
+            "X-Forwarded-For": "203.0.113.7",
+          }),
+          "transactions"
+        )
+      );
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("gives each anonymous client its own bucket", async () => {
+    const { checkRateLimit } = await load({ RATE_LIMITS: "auth=1/60" });
+    const take = (address: string) =>
+      checkRateLimit(request({ "X-Forwarded-For": address }), "auth").then(
+        (result) => result.allowed
+      );
+
+    expect(await take("203.0.113.7")).toBe(true);
+    expect(await take("203.0.113.7")).toBe(false);
+    // One client using up its limit leaves everyone else theirs
+    expect(await take("198.51.100.1")).toBe(true);
+  });
+
+  it("keeps proxied clients out of each other's buckets", async () => {
+    const { checkRateLimit } = await load({
+      RATE_LIMITS: "transactions=1/60",
+      TRUSTED_PROXY_HOPS: "1",
+    });
+    const take = (headers: Record<string, string>) =>
+      checkRateLimit(request(headers), "transactions").then(
+        (result) => result.allowed
+      );
+
+    // Spoofed entries left of the proxy's do not open new buckets
+    expect(await take({ "X-Forwarded-For": "203.0.113.7" })).toBe(true);
+    expect(await take({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7" })).toBe(
+      false
+    );
+
+    expect(await take({ "X-Forwarded-For": "198.51.100.1" })).toBe(true);
+    expect(await take({})).toBe(true);
+    expect(await take({})).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Rate Limiting - Per-client token buckets for the API routes
+ *
+ * Each client gets one bucket per route policy, keyed by an accepted API key,
+ * a live session's wallet or its address (first present wins). Unknown keys
+ * and sessions are ignored, and behind `TRUSTED_PROXY_HOPS` proxies so are
+ * the forwarded addresses left of the ones they appended. A bucket holds `limit` requests
+ * and refills continuously over `windowMs`, so clients may burst up to the
+ * limit and then proceed at the refill rate. Every response on a limited
+ * route carries `X-RateLimit-Limit`, `X-RateLimit-Remaining` and
+ * `X-RateLimit-Reset` (epoch seconds at which the bucket is full again); a
+ * 429 adds `Retry-After` (seconds until the next request would succeed).
+ *
+ * Buckets live in memory by default. Deployments running several instances
+ * pass a shared `RateLimitStore` to `setRateLimitStore` at startup.
+ */
+
+import { createHash } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+
+import { getApiKey, getSession } from "@/lib/api/auth";
+import { rateLimitOverrides, trustedProxyHops } from "@/lib/config/flags";
+
+import { createMemoryRateLimitStore } from "./memory";
+import type { RateLimitPolicy, RateLimitResult, RateLimitStore } from "./types";
+
+export type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  TokenBucket,
+} from "./types";
+export { takeFromBucket } from "./bucket";
+export { createMemoryRateLimitStore } from "./memory";
+export type { MemoryRateLimitStoreOptions } from "./memory";
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export type RateLimitRoute =
+  | "ask"
+  | "transactions"
+  | "transaction-export"
+  | "explanation-expert"
+  | "auth"
+  | "quote";
+
+const DEFAULT_RATE_LIMIT_POLICIES: Record<RateLimitRoute, RateLimitPolicy> = {
+  ask: { limit: 30, windowMs: 60_000 },
+  transactions: { limit: 60, windowMs: 60_000 },
+  "transaction-export": { limit: 10, windowMs: 60_000 },
+  "explanation-expert": { limit: 20, windowMs: 60_000 },
+  auth: { limit: 20, windowMs: 60_000 },
+  quote: { limit: 120, windowMs: 60_000 },
+};
+
+/** Parse `route=requests/seconds` pairs, skipping malformed entries */
+function parseRateLimitOverrides(
+  value: string | undefined
+): Partial<Record<RateLimitRoute, RateLimitPolicy>> {
+  const overrides: Partial<Record<RateLimitRoute, RateLimitPolicy>> = {};
+
+  value?.split(",").forEach((entry) => {
+    const match = entry.trim().match(/^([a-z-]+)=(\d+)\/(\d+)$/);
+    if (!match || !Object.hasOwn(DEFAULT_RATE_LIMIT_POLICIES, match[1])) {
+      return;
+    }
+    const limit = Number(match[2]);
+    const seconds = Number(match[3]);
+    if (limit > 0 && seconds > 0) {
+      overrides[match[1] as RateLimitRoute] = {
+        limit,
+        windowMs: seconds * 1000,
+      };
+    }
+  });
+
+  return overrides;
+}
+
+/** Limits in force: the defaults with `RATE_LIMITS` applied */
+export const RATE_LIMIT_POLICIES: Readonly<
+  Record<RateLimitRoute, RateLimitPolicy>
+> = {
+  ...DEFAULT_RATE_LIMIT_POLICIES,
+  ...parseRateLimitOverrides(rateLimitOverrides),
+};
+
+// ============================================================================
+// CLIENTS
+// ============================================================================
+
+/** Buckets are keyed by a digest so raw keys never sit in the store */
+function digest(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 32);
+}
+
+/**
+ * The address the request reached us from. Each proxy appends its peer to
+ * `X-Forwarded-For`, so behind `TRUSTED_PROXY_HOPS` proxies the client is the
+ * entry the outermost one appended, and anything left of it is the client's
+ * own claim. Without a proxy it is the last entry: route handlers never see
+ * the socket, but Next fills the header in with the socket's address when
+ * the client left it out. A client that sends the header itself picks its
+ * own address then, so public deployments should sit behind a proxy.
+ */
+function clientAddress(request: NextRequest): string | null {
+  const hops =
+    request.headers
+      .get("X-Forwarded-For")
+      ?.split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean) ?? [];
+  const trusted = Math.max(trustedProxyHops, 1);
+  return hops.length >= trusted ? hops[hops.length - trusted] : null;
+}
+
+/**
+ * Who is asking: `key:` for an accepted API key (`X-API-Key` or a bearer
+ * token), `session:` for a signed-in wallet, `ip:` for the client's address,
+ * otherwise `anonymous`, one bucket shared by requests with no address
+ */
+export async function resolveRateLimitClient(
+  request: NextRequest
+): Promise<string> {
+  const apiKey = getApiKey(request);
+  if (apiKey) return `key:${digest(apiKey)}`;
+
+  const session = await getSession(request);
+  if (session) return `session:${session.address}`;
+
+  const ip = clientAddress(request);
+  return ip ? `ip:${ip}` : "anonymous";
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+const MEMORY_STORE_MAX_KEYS = 10_000;
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createMemoryRateLimitStore({ maxKeys: MEMORY_STORE_MAX_KEYS });
+  }
+
+  return store;
+}
+
+/** Replace the store, e.g. with a shared one when running several instances */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/** Take one request from the client's bucket for `route` */
+export async function checkRateLimit(
+  request: NextRequest,
+  route: RateLimitRoute
+): Promise<RateLimitResult> {
+  return getRateLimitStore().take(
+    `${route}:${await resolveRateLimitClient(request)}`,
+    RATE_LIMIT_POLICIES[route]
+  );
+}
+
+/** Headers describing the client's bucket, for every limited response */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": result.limit.toString(),
+    "X-RateLimit-Remaining": result.remaining.toString(),
+    "X-RateLimit-Reset": Math.ceil(result.resetAt / 1000).toString(),
+  };
+}
+
+/** 429 for a request that found its bucket empty */
+export function rateLimitExceededResponse(
+  result: RateLimitResult
+): NextResponse {
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+
+  return NextResponse.json(
+    {
+      error: "Rate limit exceeded",
+      message: `Too many requests. Please try again in ${retryAfter} seconds.`,
+      retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": retryAfter.toString(),
+        ...rateLimitHeaders(result),
+      },
+    }
+  );
+}
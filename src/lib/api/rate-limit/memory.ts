@@ -0,0 +1,39 @@
+import { takeFromBucket } from "./bucket";
+import type { RateLimitStore, TokenBucket } from "./types";
+
+export interface MemoryRateLimitStoreOptions {
+  /** Least recently used buckets are evicted beyond this count */
+  maxKeys: number;
+}
+
+/**
+ * Process-local store. Evicting a bucket only forgets how empty it was, so
+ * the limit stays at most as strict as configured under memory pressure.
+ */
+export function createMemoryRateLimitStore(
+  options: MemoryRateLimitStoreOptions
+): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>();
+
+  return {
+    name: "memory",
+
+    async take(key, policy, cost) {
+      const { bucket, result } = takeFromBucket(
+        buckets.get(key) ?? null,
+        policy,
+        Date.now(),
+        cost
+      );
+
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      for (const oldest of buckets.keys()) {
+        if (buckets.size <= options.maxKeys) break;
+        buckets.delete(oldest);
+      }
+
+      return result;
+    },
+  };
+}
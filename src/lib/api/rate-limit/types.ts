@@ -0,0 +1,41 @@
+/** Token-bucket limits for one route */
+export interface RateLimitPolicy {
+  /** Bucket capacity: requests a client may make in a burst */
+  limit: number;
+  /** Time for an empty bucket to refill; tokens return at limit / windowMs */
+  windowMs: number;
+}
+
+/** A client's bucket as stored between requests */
+export interface TokenBucket {
+  tokens: number;
+  /** When `tokens` was last computed (epoch ms) */
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole requests left in the bucket after this one */
+  remaining: number;
+  /** When the bucket will be full again (epoch ms) */
+  resetAt: number;
+  /** Wait before a request would be allowed (0 when this one was) */
+  retryAfterMs: number;
+}
+
+/**
+ * Where buckets live. The memory store is per process; deployments running
+ * several instances provide a shared store (Redis, a database) that performs
+ * `take` atomically, e.g. with `takeFromBucket` inside a transaction.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /** Take `cost` tokens (default 1) from the bucket for `key` */
+  take(
+    key: string,
+    policy: RateLimitPolicy,
+    cost?: number
+  ): Promise<RateLimitResult>;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { selectFields } from "./response";
+
+const metrics = {
+  batteryHealth: { cycles: 3, capacity: 0.97 },
+  flowAnalysis: { netFlow: 12, inflow: 40 },
+  assetBreakdown: [
+    { name: "Solar", currentValue: 10, yield: 0.1 },
+    { name: "Storage", currentValue: 5, yield: 0.2 },
+  ],
+  cycles: 99,
+  other: 1,
+};
+
+describe("selectFields", () => {
+  it("keeps only the requested dotted paths", () => {
+    expect(
+      selectFields(metrics, ["flowAnalysis.netFlow", "other"]).data
+    ).toEqual({ flowAnalysis: { netFlow: 12 }, other: 1 });
+  });
+
+  it("descends through arrays", () => {
+    expect(selectFields(metrics, ["assetBreakdown.currentValue"]).data).toEqual(
+      { assetBreakdown: [{ currentValue: 10 }, { currentValue: 5 }] }
+    );
+  });
+
+  it("lets a parent path win over its children in either order", () => {
+    const whole = { batteryHealth: metrics.batteryHealth };
+
+    expect(
+      selectFields(metrics, ["batteryHealth", "batteryHealth.cycles"]).data
+    ).toEqual(whole);
+    expect(
+      selectFields(metrics, ["batteryHealth.cycles", "batteryHealth"]).data
+    ).toEqual(whole);
+  });
+
+  it("does not leak a child's segments to the top level", () => {
+    const { data } = selectFields(metrics, [
+      "batteryHealth",
+      "batteryHealth.cycles",
+      "flowAnalysis",
+      "flowAnalysis.inflow.value",
+    ]);
+
+    expect(data).not.toHaveProperty("cycles");
+    expect(data).not.toHaveProperty("inflow");
+    expect(Object.keys(data).sort()).toEqual(["batteryHealth", "flowAnalysis"]);
+  });
+
+  it("selects only the payload's own fields", () => {
+    const { data, unmatched } = selectFields(metrics, [
+      "constructor",
+      "__proto__.x",
+      "toString",
+      "other",
+    ]);
+
+    expect(data).toEqual({ other: 1 });
+    expect(Object.getPrototypeOf(data)).toBe(Object.prototype);
+    expect(unmatched).toEqual(["constructor", "__proto__.x", "toString"]);
+    // Nothing was written through to the prototypes
+    expect(({} as Record<string, unknown>).x).toBeUndefined();
+    expect((Object as unknown as Record<string, unknown>).x).toBeUndefined();
+  });
+
+  it("reports paths that match nothing", () => {
+    expect(
+      selectFields(metrics, ["other", "missing", "batteryHealth.age"]).unmatched
+    ).toEqual(["missing", "batteryHealth.age"]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Response Shaping - Partial field selection and negotiated compression
+ *
+ * `fields=` lets clients ask for a subset of a large payload using dotted
+ * paths (`flowAnalysis.netFlow,batteryHealth`). Paths descend through arrays,
+ * so `assetBreakdown.currentValue` keeps that field on every element.
+ *
+ * `compressedJson()` serializes a body and encodes it with brotli or gzip
+ * according to the request's `Accept-Encoding`, setting `Content-Encoding`
+ * and `Vary` so caches keep the variants apart.
+ */
+
+import { promisify } from "node:util";
+import { brotliCompress, constants as zlibConstants, gzip } from "node:zlib";
+
+// ============================================================================
+// FIELD SELECTION
+// ============================================================================
+
+/** `true` keeps the whole value; an object keeps only the listed children */
+type FieldTree = { [key: string]: FieldTree | true };
+
+export interface FieldSelectionResult {
+  data: Record<string, unknown>;
+  /** Requested paths that did not resolve to anything in the payload */
+  unmatched: string[];
+}
+
+/**
+ * Trees have no prototype and every lookup below checks own properties, so
+ * path segments like `constructor` or `__proto__` only ever name fields
+ */
+function buildFieldTree(paths: readonly string[]): FieldTree {
+  const tree: FieldTree = Object.create(null);
+
+  paths.forEach((path) => {
+    const segments = path.split(".");
+    let node = tree;
+    for (const [index, segment] of segments.entries()) {
+      const existing = Object.hasOwn(node, segment) ? node[segment] : undefined;
+      // An ancestor is kept whole, so the rest of this path adds nothing
+      if (existing === true) break;
+      if (index === segments.length - 1) {
+        node[segment] = true;
+        break;
+      }
+      node = existing ?? (node[segment] = Object.create(null));
+    }
+  });
+
+  return tree;
+}
+
+function projectFields(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => projectFields(item, tree));
+  }
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const source = value as Record<string, unknown>;
+  const projected: Record<string, unknown> = {};
+  Object.entries(tree).forEach(([key, subtree]) => {
+    if (!Object.hasOwn(source, key)) return;
+    projected[key] =
+      subtree === true ? source[key] : projectFields(source[key], subtree);
+  });
+  return projected;
+}
+
+function hasFieldPath(value: unknown, segments: string[]): boolean {
+  if (segments.length === 0) return true;
+  if (Array.isArray(value)) {
+    return value.some((item) => hasFieldPath(item, segments));
+  }
+  if (
+    !value ||
+    typeof value !== "object" ||
+    !Object.hasOwn(value, segments[0])
+  ) {
+    return false;
+  }
+  return hasFieldPath(
+    (value as Record<string, unknown>)[segments[0]],
+    segments.slice(1)
+  );
+}
+
+/**
+ * Keep only the given dotted paths of `data`. A parent path wins over its
+ * children (`batteryHealth,batteryHealth.cycles` keeps all of batteryHealth).
+ */
+export function selectFields(
+  data: object,
+  paths: readonly string[]
+): FieldSelectionResult {
+  return {
+    data: projectFields(data, buildFieldTree(paths)) as Record<string, unknown>,
+    unmatched: paths.filter((path) => !hasFieldPath(data, path.split("."))),
+  };
+}
+
+// ============================================================================
+// COMPRESSION
+// ============================================================================
+
+export type ContentEncoding = "br" | "gzip" | "identity";
+
+/** Bodies smaller than this are sent uncompressed */
+const COMPRESSION_MIN_BYTES = 1024;
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+/**
+ * Pick the best encoding the client accepts, honouring q-values
+ * (`gzip;q=0` refuses gzip). Brotli wins ties.
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null
+): ContentEncoding {
+  if (!acceptEncoding) return "identity";
+
+  const weights = new Map<string, number>();
+  acceptEncoding.split(",").forEach((part) => {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith("q="));
+    const weight = q ? Number.parseFloat(q.slice(2)) : 1;
+    if (name) weights.set(name, Number.isNaN(weight) ? 0 : weight);
+  });
+
+  const weightOf = (encoding: "br" | "gzip") =>
+    weights.get(encoding) ?? weights.get("*") ?? 0;
+  const br = weightOf("br");
+  const gz = weightOf("gzip");
+
+  if (br > 0 && br >= gz) return "br";
+  if (gz > 0) return "gzip";
+  return "identity";
+}
+
+/**
+ * JSON response encoded per the request's `Accept-Encoding`. Always sets
+ * `Vary: Accept-Encoding`; `X-Uncompressed-Length` reports the raw size.
+ */
+export async function compressedJson(
+  request: Request,
+  body: unknown,
+  init: { status?: number; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const json = Buffer.from(JSON.stringify(body));
+  const negotiated = negotiateEncoding(request.headers.get("accept-encoding"));
+  const encoding =
+    json.byteLength < COMPRESSION_MIN_BYTES ? "identity" : negotiated;
+
+  const payload =
+    encoding === "br"
+      ? await brotliCompressAsync(json, {
+          params: {
+            [zlibConstants.BROTLI_PARAM_MODE]: zlibConstants.BROTLI_MODE_TEXT,
+            [zlibConstants.BROTLI_PARAM_QUALITY]: 5,
+          },
+        })
+      : encoding === "gzip"
+        ? await gzipAsync(json)
+        : json;
+
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json");
+  headers.set("Content-Length", payload.byteLength.toString());
+  headers.set("X-Uncompressed-Length", json.byteLength.toString());
+  headers.append("Vary", "Accept-Encoding");
+  if (encoding !== "identity") {
+    headers.set("Content-Encoding", encoding);
+  }
+
+  return new Response(new Uint8Array(payload), {
+    status: init.status ?? 200,
+    headers,
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Server-Sent Events - Framing shared by streaming routes and their clients
+ *
+ * GET streams are read with `EventSource`; POST streams (which EventSource
+ * cannot open) are read from a `fetch()` body with `readServerSentEvents()`.
+ */
+
+/** Response headers for a `text/event-stream` body that proxies must not buffer */
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+} as const;
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export function formatServerSentEvent(
+  event: string,
+  data: unknown,
+  eventId?: number
+): string {
+  const idLine = eventId !== undefined ? `id: ${eventId}\n` : "";
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseServerSentEvent(frame: string): ServerSentEvent | null {
+  const parsed: ServerSentEvent = { event: "message", data: "" };
+  const data: string[] = [];
+
+  frame.split(/\r?\n/).forEach((line) => {
+    if (!line || line.startsWith(":")) return;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "event") parsed.event = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id") parsed.id = value;
+  });
+
+  if (data.length === 0) return null;
+  parsed.data = data.join("\n");
+  return parsed;
+}
+
+/**
+ * SSE frames from a response body, as they arrive, until it ends. Frames
+ * without data (comments, `retry:`) are skipped. Throws an `AbortError` when
+ * the underlying fetch is aborted.
+ */
+export async function* iterateServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split(/\r?\n\r?\n/);
+    buffer = frames.pop() ?? "";
+    for (const frame of frames) {
+      const event = parseServerSentEvent(frame);
+      if (event) yield event;
+    }
+  }
+
+  const trailing = parseServerSentEvent(buffer);
+  if (trailing) yield trailing;
+}
+
+/**
+ * Read SSE frames from a response body until it ends (see
+ * `iterateServerSentEvents`). Rejects with an `AbortError` when the
+ * underlying fetch is aborted.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  for await (const event of iterateServerSentEvents(body)) {
+    onEvent(event);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Transaction Sources - Where `/api/transactions` and its exports read from
+ *
+ * The seeded mock sequence is the default. `TRANSACTION_SOURCE=rpc` lists the
+ * real transactions of the asset's program (`SOLANA_ASSET_PROGRAM_ID`) and
+ * treasury accounts (`SOLANA_TREASURY_ACCOUNTS`) from the Solana JSON-RPC
+ * endpoint at `SOLANA_RPC_URL` instead, attributing each one to an agent by
+ * its signer (`SOLANA_AGENT_ACCOUNTS`) or the program it calls.
+ */
+
+import { isAgentPersona, type AgentPersonaId } from "@/lib/agents";
+import { API, BLOCKCHAIN } from "@/lib/constants";
+import {
+  agentAccounts,
+  assetProgramId,
+  solanaRpcUrl,
+  transactionSource,
+  treasuryAccounts,
+} from "@/lib/config/flags";
+
+import { mockTransactionSource } from "./mock";
+import { createRpcTransactionSource } from "./rpc";
+import type { TransactionSource } from "./types";
+
+export type { TransactionSource, TransactionSourceQuery } from "./types";
+export { mockTransactionSource } from "./mock";
+export { SolanaRpcError, createRpcTransactionSource } from "./rpc";
+export type { RpcTransactionSourceOptions } from "./rpc";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+function parseAccountList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/** Parse `agent=address` pairs into address → agent, skipping malformed entries */
+function parseAgentAccounts(
+  value: string | undefined
+): Record<string, AgentPersonaId> {
+  const accounts: Record<string, AgentPersonaId> = {};
+
+  parseAccountList(value).forEach((entry) => {
+    const [agent, address] = entry.split("=").map((part) => part.trim());
+    if (address && isAgentPersona(agent)) {
+      accounts[address] = agent;
+    }
+  });
+
+  return accounts;
+}
+
+// ============================================================================
+// SOURCE SELECTION
+// ============================================================================
+
+let source: TransactionSource | null = null;
+
+/** Returns the source selected by `TRANSACTION_SOURCE`. */
+export function getTransactionSource(): TransactionSource {
+  if (!source) {
+    source =
+      transactionSource === "rpc"
+        ? createRpcTransactionSource({
+            url: solanaRpcUrl || BLOCKCHAIN.rpcEndpoint,
+            addresses: [
+              assetProgramId || BLOCKCHAIN.programs.assetRegistry,
+              ...parseAccountList(treasuryAccounts),
+            ],
+            agentAccounts: parseAgentAccounts(agentAccounts),
+            timeoutMs: API.timeout.default,
+          })
+        : mockTransactionSource;
+  }
+
+  return source;
+}
+
+/** Replace the source, e.g. with a JSON-RPC stub in tests */
+export function setTransactionSource(next: TransactionSource): void {
+  source = next;
+}
@@ -0,0 +1,15 @@
+import { generateMockTransactionSequence } from "@/lib/mock";
+
+import type { TransactionSource } from "./types";
+
+/**
+ * The seeded mock sequence: the same seed and `asOf` always list the same
+ * transactions, however far they are read.
+ */
+export const mockTransactionSource: TransactionSource = {
+  name: "mock",
+
+  async *list({ seed, asOf }) {
+    yield* generateMockTransactionSequence({ seed, now: new Date(asOf) });
+  },
+};
@@ -0,0 +1,387 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { SOLANA_PROGRAMS, decodeInstruction } from "@/lib/instructions";
+
+import { SolanaRpcError, createRpcTransactionSource } from "./rpc";
+
+// ============================================================================
+// JSON-RPC STUB
+// ============================================================================
+
+const PROGRAM = "Prog1111111111111111111111111111111111111111";
+const TREASURY = "Trea1111111111111111111111111111111111111111";
+const MARKETS_SIGNER = "Mkts1111111111111111111111111111111111111111";
+const RECIPIENT = "Rcpt1111111111111111111111111111111111111111";
+const SOURCE_TOKEN = "SrcT1111111111111111111111111111111111111111";
+const RECIPIENT_TOKEN = "DstT1111111111111111111111111111111111111111";
+const MINT = "Mint1111111111111111111111111111111111111111";
+
+/** Seconds; listings run from NOW back to NOW - 1000 */
+const NOW = 1_760_000_000;
+
+interface LedgerEntry {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  confirmationStatus?: "confirmed" | "finalized";
+  signer?: string;
+  /** An unchecked SPL transfer of this raw amount of MINT */
+  tokenTransfer?: { amount: string; decimals: number };
+}
+
+interface RpcCall {
+  method: string;
+  params: unknown[];
+}
+
+interface RpcStub {
+  url: string;
+  calls: RpcCall[];
+  /** Fail every call with this JSON-RPC error */
+  failWith?: { code: number; message: string };
+}
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = null;
+});
+
+function parsedTransaction(entry: LedgerEntry) {
+  const signer = entry.signer ?? RECIPIENT;
+  const { tokenTransfer } = entry;
+  if (tokenTransfer) {
+    // Unchecked transfers name neither mint nor decimals; the balances do
+    const balance = (accountIndex: number) => ({
+      accountIndex,
+      mint: MINT,
+      uiTokenAmount: { amount: "0", decimals: tokenTransfer.decimals },
+    });
+    return {
+      slot: entry.slot,
+      blockTime: entry.blockTime,
+      meta: {
+        err: null,
+        fee: 5000,
+        preTokenBalances: [balance(1), balance(2)],
+        postTokenBalances: [balance(1), balance(2)],
+      },
+      transaction: {
+        signatures: [entry.signature],
+        message: {
+          accountKeys: [
+            { pubkey: signer, signer: true },
+            { pubkey: SOURCE_TOKEN, signer: false },
+            { pubkey: RECIPIENT_TOKEN, signer: false },
+          ],
+          instructions: [
+            {
+              programId: SOLANA_PROGRAMS.token,
+              program: "spl-token",
+              parsed: {
+                type: "transfer",
+                info: {
+                  source: SOURCE_TOKEN,
+                  destination: RECIPIENT_TOKEN,
+                  authority: signer,
+                  amount: tokenTransfer.amount,
+                },
+              },
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  return {
+    slot: entry.slot,
+    blockTime: entry.blockTime,
+    meta: { err: null, fee: 5000 },
+    transaction: {
+      signatures: [entry.signature],
+      message: {
+        accountKeys: [{ pubkey: signer, signer: true }],
+        instructions: [
+          {
+            programId: SOLANA_PROGRAMS.system,
+            program: "system",
+            parsed: {
+              type: "transfer",
+              info: { source: signer, destination: RECIPIENT, lamports: 1000 },
+            },
+          },
+        ],
+      },
+    },
+  };
+}
+
+/** Serve `ledger` (address → signatures, newest first) over JSON-RPC */
+async function startRpcStub(
+  ledger: Record<string, LedgerEntry[]>
+): Promise<RpcStub> {
+  const stub: RpcStub = { url: "", calls: [] };
+  const bySignature = new Map(
+    Object.values(ledger)
+      .flat()
+      .map((entry) => [entry.signature, entry])
+  );
+
+  const answer = ({ method, params }: RpcCall): unknown => {
+    if (method === "getSignaturesForAddress") {
+      const [address, { limit, before }] = params as [
+        string,
+        { limit: number; before?: string },
+      ];
+      const entries = ledger[address] ?? [];
+      const start = before
+        ? entries.findIndex((entry) => entry.signature === before) + 1
+        : 0;
+      return entries.slice(start, start + limit).map((entry) => ({
+        signature: entry.signature,
+        slot: entry.slot,
+        err: null,
+        memo: null,
+        blockTime: entry.blockTime,
+        confirmationStatus: entry.confirmationStatus ?? "finalized",
+      }));
+    }
+
+    const entry = bySignature.get(params[0] as string);
+    return entry ? parsedTransaction(entry) : null;
+  };
+
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const calls = JSON.parse(body) as (RpcCall & { id: number })[];
+      stub.calls.push(...calls);
+      // Reversed, since batch replies may come back in any order
+      const replies = calls
+        .reverse()
+        .map(({ id, ...call }) =>
+          stub.failWith
+            ? { jsonrpc: "2.0", id, error: stub.failWith }
+            : { jsonrpc: "2.0", id, result: answer(call) }
+        );
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify(replies));
+    });
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+
+  stub.url = `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  return stub;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+const query = {
+  asOf: new Date(NOW * 1000).toISOString(),
+  since: new Date((NOW - 1000) * 1000).toISOString(),
+  seed: 0,
+};
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+function countCalls(stub: RpcStub, method: string): number {
+  return stub.calls.filter((call) => call.method === method).length;
+}
+
+describe("createRpcTransactionSource", () => {
+  it("merges every address's signatures newest first and decodes them", async () => {
+    const stub = await startRpcStub({
+      [PROGRAM]: [
+        { signature: "p3", slot: 30, blockTime: NOW - 30 },
+        { signature: "p1", slot: 10, blockTime: NOW - 90 },
+      ],
+      [TREASURY]: [
+        {
+          signature: "t2",
+          slot: 20,
+          blockTime: NOW - 60,
+          signer: MARKETS_SIGNER,
+        },
+        // Also lists the program's signature; listed once
+        { signature: "p1", slot: 10, blockTime: NOW - 90 },
+      ],
+    });
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM, TREASURY],
+      agentAccounts: { [MARKETS_SIGNER]: "markets" },
+      timeoutMs: 5000,
+      pageSize: 1,
+    });
+
+    const transactions = await collect(source.list(query));
+
+    expect(transactions.map((tx) => tx.signature)).toEqual(["p3", "t2", "p1"]);
+    expect(transactions[1]).toMatchObject({
+      status: "success",
+      blockTime: new Date((NOW - 60) * 1000).toISOString(),
+      slot: 20,
+      agent: "markets",
+      summary: "System: transfer",
+      fee: 5000,
+      witnessCount: 1,
+    });
+    expect(transactions[1].instructions[0]).toMatchObject({
+      programName: "System",
+      instruction: "transfer",
+      args: { lamports: 1000 },
+      accounts: [MARKETS_SIGNER, RECIPIENT],
+    });
+    expect(transactions[0].agent).toBe("operations");
+  });
+
+  it("keeps token amounts exact and reads decimals from the token balances", async () => {
+    const stub = await startRpcStub({
+      [PROGRAM]: [
+        {
+          signature: "spl",
+          slot: 30,
+          blockTime: NOW - 10,
+          // Above 2^53, where a number would lose the last digits
+          tokenTransfer: { amount: "12345678901234567891", decimals: 9 },
+        },
+      ],
+    });
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM],
+      timeoutMs: 5000,
+    });
+
+    const [transaction] = await collect(source.list(query));
+    const [instruction] = transaction.instructions;
+
+    expect(instruction.args).toMatchObject({
+      amount: "12345678901234567891",
+      mint: MINT,
+      decimals: 9,
+    });
+    expect(decodeInstruction(instruction)?.amounts).toEqual([
+      { role: "transfer", value: 12345678901.234567891, symbol: "Mint…1111" },
+    ]);
+  });
+
+  it("skips signatures newer than asOf and stops past since", async () => {
+    const stub = await startRpcStub({
+      [PROGRAM]: [
+        { signature: "future", slot: 40, blockTime: NOW + 10 },
+        { signature: "inside", slot: 30, blockTime: NOW - 10 },
+        { signature: "before", slot: 20, blockTime: NOW - 2000 },
+        { signature: "older", slot: 10, blockTime: NOW - 3000 },
+      ],
+    });
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM],
+      timeoutMs: 5000,
+    });
+
+    const transactions = await collect(source.list(query));
+
+    expect(transactions.map((tx) => tx.signature)).toEqual(["inside"]);
+    expect(countCalls(stub, "getTransaction")).toBe(1);
+  });
+
+  it("leaves out transactions without a block time", async () => {
+    const stub = await startRpcStub({
+      [PROGRAM]: [
+        { signature: "untimed", slot: 30, blockTime: null },
+        { signature: "timed", slot: 20, blockTime: NOW - 10 },
+      ],
+    });
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM],
+      timeoutMs: 5000,
+    });
+
+    const transactions = await collect(source.list(query));
+
+    expect(transactions.map((tx) => tx.signature)).toEqual(["timed"]);
+    expect(transactions[0].blockTime).not.toMatch(/^1970/);
+  });
+
+  it("fetches finalized transactions once across listings", async () => {
+    const stub = await startRpcStub({
+      [PROGRAM]: [
+        {
+          signature: "recent",
+          slot: 30,
+          blockTime: NOW - 10,
+          confirmationStatus: "confirmed",
+        },
+        { signature: "settled", slot: 20, blockTime: NOW - 20 },
+      ],
+    });
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM],
+      timeoutMs: 5000,
+    });
+
+    const first = await collect(source.list(query));
+    const second = await collect(source.list(query));
+
+    expect(second).toEqual(first);
+    const fetched = stub.calls
+      .filter((call) => call.method === "getTransaction")
+      .map((call) => call.params[0]);
+    expect(fetched).toEqual(["recent", "settled", "recent"]);
+  });
+
+  it("stops after maxTransactions", async () => {
+    const stub = await startRpcStub({
+      [PROGRAM]: Array.from({ length: 10 }, (_, i) => ({
+        signature: `s${i}`,
+        slot: 100 - i,
+        blockTime: NOW - i,
+      })),
+    });
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM],
+      timeoutMs: 5000,
+      batchSize: 2,
+      maxTransactions: 3,
+    });
+
+    const transactions = await collect(source.list(query));
+
+    expect(transactions).toHaveLength(3);
+    expect(countCalls(stub, "getTransaction")).toBe(3);
+  });
+
+  it("rejects with a SolanaRpcError when the node answers with an error", async () => {
+    const stub = await startRpcStub({ [PROGRAM]: [] });
+    stub.failWith = { code: -32005, message: "Node is behind" };
+    const source = createRpcTransactionSource({
+      url: stub.url,
+      addresses: [PROGRAM],
+      timeoutMs: 5000,
+    });
+
+    const error = await collect(source.list(query)).catch((reason) => reason);
+
+    expect(error).toBeInstanceOf(SolanaRpcError);
+    expect(error).toMatchObject({
+      code: -32005,
+      message: "getSignaturesForAddress failed: Node is behind",
+    });
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * Solana RPC Transactions - JSON-RPC adapter
+ *
+ * Lists the transactions of a set of accounts (the asset's program and its
+ * treasury accounts) with `getSignaturesForAddress`, newest first across all
+ * of them, and fetches each one with `getTransaction` (jsonParsed) in
+ * JSON-RPC batches. Finalized transactions never change, so they are kept
+ * between listings and each is fetched once however often the window is
+ * read. Transactions the node has no block time for yet are left out rather
+ * than dated to the epoch. Works against any Solana RPC endpoint, including
+ * a local `solana-test-validator` (`http://127.0.0.1:8899`).
+ */
+
+import type {
+  ProgramInstruction,
+  SolanaTransaction,
+  TransactionStatus,
+} from "@/components/intelligence/TxReceipt";
+import type { AgentPersonaId } from "@/lib/agents";
+import { BLOCKCHAIN } from "@/lib/constants";
+import { SOLANA_PROGRAMS } from "@/lib/instructions";
+
+import type { TransactionSource } from "./types";
+
+export class SolanaRpcError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = "SolanaRpcError";
+  }
+}
+
+export interface RpcTransactionSourceOptions {
+  /** JSON-RPC endpoint, e.g. `https://api.devnet.solana.com` */
+  url: string;
+  /** Accounts whose transactions are listed */
+  addresses: string[];
+  /** Agent that signs from each account */
+  agentAccounts?: Record<string, AgentPersonaId>;
+  commitment?: "confirmed" | "finalized";
+  timeoutMs: number;
+  /** Signatures per `getSignaturesForAddress` page (max 1000) */
+  pageSize?: number;
+  /** `getTransaction` calls per JSON-RPC batch */
+  batchSize?: number;
+  /** Most transactions one listing fetches, however far it is read */
+  maxTransactions?: number;
+  /** Finalized transactions kept between listings */
+  cacheSize?: number;
+}
+
+// ============================================================================
+// JSON-RPC SHAPES
+// ============================================================================
+
+interface SignatureInfo {
+  signature: string;
+  slot: number;
+  err: unknown;
+  memo: string | null;
+  blockTime: number | null;
+  confirmationStatus?: "processed" | "confirmed" | "finalized" | null;
+}
+
+interface ParsedInstruction {
+  programId: string;
+  /** Parser name for programs the node decodes (e.g. `system`, `spl-token`) */
+  program?: string;
+  /** Decoded instruction; the memo program decodes to its text */
+  parsed?: { type: string; info?: Record<string, unknown> } | string;
+  /** Accounts and raw data of instructions the node cannot decode */
+  accounts?: string[];
+  data?: string;
+}
+
+/** A token account's balance, as `meta.preTokenBalances` lists them */
+interface TokenBalance {
+  /** Index into `accountKeys` */
+  accountIndex: number;
+  mint: string;
+  uiTokenAmount: { amount: string; decimals: number };
+}
+
+interface ParsedTransaction {
+  slot: number;
+  blockTime: number | null;
+  meta: {
+    err: unknown;
+    fee: number;
+    preTokenBalances?: TokenBalance[] | null;
+    postTokenBalances?: TokenBalance[] | null;
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      accountKeys: { pubkey: string; signer: boolean }[];
+      instructions: ParsedInstruction[];
+    };
+  };
+}
+
+interface JsonRpcResponse<T> {
+  id: number;
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+const KNOWN_PROGRAMS: Record<string, string> = {
+  [SOLANA_PROGRAMS.system]: "System",
+  [SOLANA_PROGRAMS.token]: "SPL Token",
+  [SOLANA_PROGRAMS.token2022]: "Token-2022",
+  ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: "Associated Token Account",
+  [SOLANA_PROGRAMS.computeBudget]: "Compute Budget",
+  [SOLANA_PROGRAMS.memo]: "Memo",
+  [SOLANA_PROGRAMS.memoV1]: "Memo",
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tCUZ4EHS36G4SxUk: "JupiterAggregator",
+  [BLOCKCHAIN.programs.assetRegistry]: "AssetRegistry",
+  [BLOCKCHAIN.programs.revenueDistribution]: "RevenueDistribution",
+  [BLOCKCHAIN.programs.aiAuthPDA]: "AIAuthPDA",
+  [BLOCKCHAIN.programs.governanceRegistry]: "GovernancePDA",
+};
+
+/** Agent whose program a transaction calls, when no known agent signed it */
+const PROGRAM_AGENTS: Record<string, AgentPersonaId> = {
+  [BLOCKCHAIN.programs.assetRegistry]: "operations",
+  [BLOCKCHAIN.programs.revenueDistribution]: "markets",
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tCUZ4EHS36G4SxUk: "markets",
+  [BLOCKCHAIN.programs.aiAuthPDA]: "governor",
+  [BLOCKCHAIN.programs.governanceRegistry]: "governor",
+};
+
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/** Mint and decimals of a token account */
+type TokenAccounts = Map<string, { mint: string; decimals: number }>;
+
+/** Token accounts the transaction's balances describe, by address */
+function toTokenAccounts(transaction: ParsedTransaction | null): TokenAccounts {
+  const keys = transaction?.transaction.message.accountKeys ?? [];
+  const balances = [
+    ...(transaction?.meta?.preTokenBalances ?? []),
+    ...(transaction?.meta?.postTokenBalances ?? []),
+  ];
+
+  return new Map(
+    balances.flatMap(({ accountIndex, mint, uiTokenAmount }) => {
+      const address = keys[accountIndex]?.pubkey;
+      return address
+        ? [[address, { mint, decimals: uiTokenAmount.decimals }] as const]
+        : [];
+    })
+  );
+}
+
+/**
+ * Decoded args in the shape the transaction filters and decoders read:
+ * `lamports` stays a number and SPL `amount` stays the exact u64 string the
+ * node sends (converted only for display). SPL instructions also get the
+ * `mint` and `decimals` of the token account they move, from the
+ * transaction's token balances, since unchecked ones carry neither.
+ */
+function toInstructionArgs(
+  info: Record<string, unknown>,
+  tokenAccounts: TokenAccounts
+): Record<string, unknown> {
+  const tokenAmount = info.tokenAmount as
+    | { amount?: string; decimals?: number }
+    | undefined;
+  const amount = info.amount ?? tokenAmount?.amount;
+  if (amount === undefined) return info;
+
+  const account = [info.source, info.destination, info.account]
+    .map((address) =>
+      typeof address === "string" ? tokenAccounts.get(address) : undefined
+    )
+    .find((known) => known !== undefined);
+  const mint = typeof info.mint === "string" ? info.mint : account?.mint;
+  const decimals = tokenAmount?.decimals ?? account?.decimals;
+
+  return {
+    ...info,
+    amount: String(amount),
+    ...(mint ? { mint } : {}),
+    ...(decimals !== undefined ? { decimals } : {}),
+  };
+}
+
+function toProgramInstruction(
+  instruction: ParsedInstruction,
+  tokenAccounts: TokenAccounts
+): ProgramInstruction {
+  const { programId, parsed } = instruction;
+  const programName =
+    KNOWN_PROGRAMS[programId] ?? instruction.program ?? programId;
+
+  if (typeof parsed === "string") {
+    return {
+      programName,
+      programId,
+      instruction: "memo",
+      args: { memo: parsed },
+    };
+  }
+
+  if (parsed) {
+    const info = parsed.info ?? {};
+    return {
+      programName,
+      programId,
+      instruction: parsed.type,
+      args: toInstructionArgs(info, tokenAccounts),
+      accounts: Object.values(info).filter(
+        (value): value is string =>
+          typeof value === "string" && BASE58_ADDRESS.test(value)
+      ),
+    };
+  }
+
+  return {
+    programName,
+    programId,
+    instruction: "unknown",
+    args: instruction.data ? { data: instruction.data } : undefined,
+    accounts: instruction.accounts,
+  };
+}
+
+function describeError(error: unknown): string {
+  return typeof error === "string" ? error : JSON.stringify(error);
+}
+
+function summarize(
+  instructions: ProgramInstruction[],
+  memo: string | null
+): string {
+  if (memo) return memo;
+
+  const actions = instructions
+    .filter((instruction) => instruction.programName !== "Compute Budget")
+    .map(
+      (instruction) => `${instruction.programName}: ${instruction.instruction}`
+    );
+  return actions.length > 0 ? actions.join("; ") : "Transaction";
+}
+
+/** The listing entry for a signature, or null when its time is unknown */
+function toSolanaTransaction(
+  info: SignatureInfo,
+  transaction: ParsedTransaction | null,
+  agentAccounts: Record<string, AgentPersonaId>
+): SolanaTransaction | null {
+  const tokenAccounts = toTokenAccounts(transaction);
+  const instructions = (
+    transaction?.transaction.message.instructions ?? []
+  ).map((instruction) => toProgramInstruction(instruction, tokenAccounts));
+  const signers = (transaction?.transaction.message.accountKeys ?? []).filter(
+    (key) => key.signer
+  );
+  const error = transaction?.meta?.err ?? info.err;
+  const blockTime = transaction?.blockTime ?? info.blockTime;
+  if (blockTime === null) return null;
+
+  const status: TransactionStatus = error
+    ? "failed"
+    : !transaction || info.confirmationStatus === "processed"
+      ? "pending"
+      : "success";
+
+  // A known agent signer decides; otherwise the program called does, and
+  // anything else is the operations agent's day-to-day asset activity
+  const agent =
+    signers
+      .map((key) => agentAccounts[key.pubkey])
+      .find((candidate) => candidate !== undefined) ??
+    instructions
+      .map((instruction) => PROGRAM_AGENTS[instruction.programId])
+      .find((candidate) => candidate !== undefined) ??
+    "operations";
+
+  return {
+    signature: info.signature,
+    status,
+    blockTime: new Date(blockTime * 1000).toISOString(),
+    slot: transaction?.slot ?? info.slot,
+    agent,
+    summary: summarize(instructions, info.memo),
+    instructions,
+    fee: transaction?.meta?.fee ?? 0,
+    error: error ? describeError(error) : undefined,
+    witnessCount: signers.length || undefined,
+  };
+}
+
+// ============================================================================
+// SOURCE
+// ============================================================================
+
+export function createRpcTransactionSource(
+  options: RpcTransactionSourceOptions
+): TransactionSource {
+  const commitment = options.commitment ?? BLOCKCHAIN.commitment;
+  const pageSize = Math.min(options.pageSize ?? 100, 1000);
+  const batchSize = options.batchSize ?? 20;
+  const maxTransactions = options.maxTransactions ?? 1000;
+  const agentAccounts = options.agentAccounts ?? {};
+  const cacheSize = options.cacheSize ?? 2 * maxTransactions;
+  /** Finalized transactions by signature, least recently listed first */
+  const finalized = new Map<string, SolanaTransaction>();
+  let nextId = 1;
+
+  async function callBatch<T>(
+    calls: { method: string; params: unknown[] }[]
+  ): Promise<T[]> {
+    const requests = calls.map((call) => ({
+      jsonrpc: "2.0",
+      id: nextId++,
+      ...call,
+    }));
+
+    let response: Response;
+    try {
+      response = await fetch(options.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requests),
+        signal: AbortSignal.timeout(options.timeoutMs),
+        cache: "no-store",
+      });
+    } catch (error) {
+      throw new SolanaRpcError(
+        `Solana RPC request failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    if (!response.ok) {
+      throw new SolanaRpcError(
+        `Solana RPC request failed with status ${response.status}`
+      );
+    }
+
+    const json = (await response.json()) as JsonRpcResponse<T>[];
+    if (!Array.isArray(json)) {
+      throw new SolanaRpcError("Solana RPC returned a non-batch response");
+    }
+
+    // Batch responses may arrive in any order
+    return requests.map(({ id, method }) => {
+      const reply = json.find((candidate) => candidate.id === id);
+      if (!reply || reply.error) {
+        throw new SolanaRpcError(
+          `${method} failed: ${reply?.error?.message ?? "no response"}`,
+          reply?.error?.code
+        );
+      }
+      return reply.result as T;
+    });
+  }
+
+  function recall(signature: string): SolanaTransaction | undefined {
+    const transaction = finalized.get(signature);
+    if (transaction) {
+      finalized.delete(signature);
+      finalized.set(signature, transaction);
+    }
+    return transaction;
+  }
+
+  function remember(signature: string, transaction: SolanaTransaction): void {
+    finalized.set(signature, transaction);
+    for (const oldest of finalized.keys()) {
+      if (finalized.size <= cacheSize) break;
+      finalized.delete(oldest);
+    }
+  }
+
+  async function fetchTransactions(
+    infos: SignatureInfo[]
+  ): Promise<SolanaTransaction[]> {
+    const missing = infos.filter((info) => !finalized.has(info.signature));
+    const fetched =
+      missing.length === 0
+        ? []
+        : await callBatch<ParsedTransaction | null>(
+            missing.map((info) => ({
+              method: "getTransaction",
+              params: [
+                info.signature,
+                {
+                  encoding: "jsonParsed",
+                  commitment,
+                  maxSupportedTransactionVersion: 0,
+                },
+              ],
+            }))
+          );
+
+    const converted = new Map<string, SolanaTransaction | null>();
+    missing.forEach((info, index) => {
+      const transaction = toSolanaTransaction(
+        info,
+        fetched[index],
+        agentAccounts
+      );
+      converted.set(info.signature, transaction);
+      // Anything short of finalized may still change, so it is fetched again
+      if (
+        transaction &&
+        fetched[index] &&
+        info.confirmationStatus === "finalized"
+      ) {
+        remember(info.signature, transaction);
+      }
+    });
+
+    return infos.flatMap((info) => {
+      const transaction =
+        converted.get(info.signature) ?? recall(info.signature);
+      return transaction ? [transaction] : [];
+    });
+  }
+
+  return {
+    name: "rpc",
+
+    async *list({ asOf, since }) {
+      const asOfSec = Date.parse(asOf) / 1000;
+      const sinceSec = Date.parse(since) / 1000;
+
+      // One signature cursor per address, merged newest first by slot
+      const cursors = options.addresses.map((address) => ({
+        address,
+        page: [] as SignatureInfo[],
+        before: undefined as string | undefined,
+        done: false,
+      }));
+
+      const peek = async (cursor: (typeof cursors)[number]) => {
+        if (cursor.page.length === 0 && !cursor.done) {
+          const [page] = await callBatch<SignatureInfo[]>([
+            {
+              method: "getSignaturesForAddress",
+              params: [
+                cursor.address,
+                {
+                  limit: pageSize,
+                  commitment,
+                  ...(cursor.before ? { before: cursor.before } : {}),
+                },
+              ],
+            },
+          ]);
+          cursor.page = page;
+          cursor.before = page.at(-1)?.signature;
+          cursor.done = page.length < pageSize;
+        }
+        return cursor.page[0];
+      };
+
+      const seen = new Set<string>();
+      let pending: SignatureInfo[] = [];
+
+      while (seen.size < maxTransactions) {
+        let newest: (typeof cursors)[number] | null = null;
+        for (const cursor of cursors) {
+          const head = await peek(cursor);
+          if (head && (!newest || head.slot > newest.page[0].slot)) {
+            newest = cursor;
+          }
+        }
+        if (!newest) break;
+
+        const info = newest.page.shift();
+        if (!info) break;
+        if (seen.has(info.signature)) continue;
+        if (info.blockTime !== null && info.blockTime > asOfSec) continue;
+        if (info.blockTime !== null && info.blockTime < sinceSec) break;
+
+        seen.add(info.signature);
+        pending.push(info);
+        if (pending.length >= batchSize) {
+          yield* await fetchTransactions(pending);
+          pending = [];
+        }
+      }
+
+      if (pending.length > 0) {
+        yield* await fetchTransactions(pending);
+      }
+    },
+  };
+}
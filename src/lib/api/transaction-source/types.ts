@@ -0,0 +1,22 @@
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+
+/** The stretch of history a listing covers */
+export interface TransactionSourceQuery {
+  /** Newest block time to include (ISO 8601) */
+  asOf: string;
+  /** Oldest block time anyone will read; sources may stop past it (ISO 8601) */
+  since: string;
+  /** Sequence seed, for sources that generate rather than fetch */
+  seed: number;
+}
+
+/**
+ * Where transactions come from. `list` yields transactions newest first,
+ * starting at or before `asOf`; callers stop reading once they are past
+ * `since` or have what they need, so sources should fetch lazily.
+ */
+export interface TransactionSource {
+  readonly name: string;
+
+  list(query: TransactionSourceQuery): AsyncIterable<SolanaTransaction>;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+
+import { mockTransactionSource } from "./transaction-source/mock";
+import { BLOCKCHAIN } from "@/lib/constants";
+
+import {
+  MIN_SIGNATURE_PREFIX,
+  getTransactionValue,
+  hasTokenMint,
+  resolveTransactionFilters,
+  selectTransactions,
+  transactionFilterShape,
+} from "./transactions";
+
+const SEED = 42;
+
+async function select(
+  input: Parameters<typeof resolveTransactionFilters>[0],
+  asOf: Date,
+  limit: number
+): Promise<SolanaTransaction[]> {
+  const transactions: SolanaTransaction[] = [];
+  const filters = resolveTransactionFilters(input, { seed: SEED, asOf });
+  for await (const tx of selectTransactions(filters, mockTransactionSource)) {
+    transactions.push(tx);
+    if (transactions.length === limit) break;
+  }
+  return transactions;
+}
+
+describe("signature filter", () => {
+  it("finds a listed transaction again by signature prefix, later on", async () => {
+    const listedAt = new Date("2026-01-01T12:00:00Z");
+    const listed = await select({}, listedAt, 20);
+    const target = listed[17];
+
+    const found = await select(
+      { signature: target.signature.slice(0, MIN_SIGNATURE_PREFIX) },
+      new Date(listedAt.getTime() + 3_600_000),
+      1
+    );
+
+    expect(found.map((tx) => tx.signature)).toEqual([target.signature]);
+  });
+
+  it("rejects prefixes shorter than the minimum", () => {
+    const { signature } = transactionFilterShape;
+
+    expect(signature.safeParse("a".repeat(MIN_SIGNATURE_PREFIX)).success).toBe(
+      true
+    );
+    expect(
+      signature.safeParse("a".repeat(MIN_SIGNATURE_PREFIX - 1)).success
+    ).toBe(false);
+  });
+});
+
+describe("token value", () => {
+  const { USDC } = BLOCKCHAIN.tokens;
+
+  async function transferring(
+    transfers: Array<{ mint: string; amount: number | string }>
+  ): Promise<SolanaTransaction> {
+    const [tx] = await select({}, new Date("2026-01-01T12:00:00Z"), 1);
+    return {
+      ...tx,
+      instructions: transfers.map((args) => ({
+        programName: "Token",
+        programId: "TokenkegQfeZyiNwAJbNbGKPFXCYuW8wY7eTPZMX1rQT",
+        instruction: "transfer",
+        args,
+      })),
+    };
+  }
+
+  it("counts only the filtered mint, in whole tokens", async () => {
+    const tx = await transferring([
+      { mint: USDC.mint, amount: "2500000" },
+      { mint: USDC.mint, amount: 500_000 },
+      { mint: "SOLAR", amount: 40 },
+    ]);
+
+    expect(getTransactionValue(tx, { valueUnit: "token", mint: "USDC" })).toBe(
+      3
+    );
+    expect(
+      getTransactionValue(tx, { valueUnit: "token", mint: USDC.mint })
+    ).toBe(3);
+    // Mock instructions name the token by symbol and carry whole amounts
+    expect(getTransactionValue(tx, { valueUnit: "token", mint: "SOLAR" })).toBe(
+      40
+    );
+  });
+
+  it("needs a mint to measure", () => {
+    expect(hasTokenMint({ valueUnit: "token" })).toBe(false);
+    expect(hasTokenMint({ valueUnit: "token", mint: "USDC" })).toBe(true);
+    expect(hasTokenMint({ valueUnit: "SOL" })).toBe(true);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Transaction Query - Shared filtering for `/api/transactions` and its exports
+ *
+ * Both the intelligence route and the export routes read from the same
+ * newest-first transaction source (the seeded mock sequence unless
+ * `TRANSACTION_SOURCE` says otherwise, see `./transaction-source`) and apply
+ * the same filters, so a download link reproduces exactly the set the
+ * dashboard was looking at.
+ */
+
+import { z } from "zod";
+
+import { BLOCKCHAIN } from "@/lib/constants";
+import type { SolanaTransaction } from "@/components/intelligence/TxReceipt";
+import {
+  getTransactionSource,
+  type TransactionSource,
+} from "./transaction-source";
+import {
+  queryAgentPersona,
+  queryDateTime,
+  queryEnum,
+  queryInt,
+  queryNumber,
+} from "./validation";
+
+// ============================================================================
+// FILTER SCHEMA
+// ============================================================================
+
+export const TRANSACTION_STATUS_FILTERS = [
+  "success",
+  "pending",
+  "failed",
+] as const;
+
+/**
+ * Units for `valueMin` / `valueMax`. `lamports` and `SOL` measure native SOL
+ * moved; `token` measures whole units of the `mint` filter's token moved
+ * (amounts of different mints do not add up, so `token` needs a `mint`).
+ */
+export const TRANSACTION_VALUE_UNITS = ["lamports", "SOL", "token"] as const;
+
+export type TransactionValueUnit = (typeof TRANSACTION_VALUE_UNITS)[number];
+
+/** Transactions older than this (relative to `asOf`) are never generated */
+export const TRANSACTION_WINDOW_SEC = 86400;
+
+/** Shortest signature prefix the `signature` filter accepts */
+export const MIN_SIGNATURE_PREFIX = 8;
+
+/**
+ * Filter parameters shared by every transactions endpoint. Spread into a
+ * route's own `z.object()` alongside its `limit` and feature flags.
+ */
+export const transactionFilterShape = {
+  agent: queryAgentPersona().optional(),
+  status: queryEnum(TRANSACTION_STATUS_FILTERS).optional(),
+  since: queryDateTime().optional(),
+  valueMin: queryNumber().optional(),
+  valueMax: queryNumber().optional(),
+  valueUnit: queryEnum(TRANSACTION_VALUE_UNITS).optional(),
+  mint: z.string().min(1).optional(),
+  program: z.string().optional(),
+  account: z.string().optional(),
+  signature: z.string().min(MIN_SIGNATURE_PREFIX).optional(),
+  seed: queryInt({ min: 0, max: 0xffffffff }).optional(),
+  asOf: queryDateTime().optional(),
+};
+
+export type TransactionFilterInput = z.output<
+  z.ZodObject<typeof transactionFilterShape>
+>;
+
+/**
+ * Cross-field rule for schemas built on `transactionFilterShape`, applied
+ * with `.refine(hasTokenMint, TOKEN_MINT_REQUIRED)`
+ */
+export function hasTokenMint({
+  valueUnit,
+  mint,
+}: Pick<TransactionFilterInput, "valueUnit" | "mint">): boolean {
+  return valueUnit !== "token" || mint !== undefined;
+}
+
+export const TOKEN_MINT_REQUIRED = {
+  message: "valueUnit=token needs the mint (address or symbol) to measure",
+  path: ["mint"],
+};
+
+/** Filters with the value unit, sequence seed and anchor time resolved */
+export interface TransactionFilters
+  extends Omit<TransactionFilterInput, "valueUnit" | "seed" | "asOf"> {
+  valueUnit: TransactionValueUnit;
+  seed: number;
+  asOf: string;
+}
+
+/**
+ * Pick the filter parameters out of a route's parsed query (dropping its
+ * limit and flags) and pin the seed and anchor time
+ */
+export function resolveTransactionFilters(
+  input: TransactionFilterInput,
+  defaults: { seed: number; asOf?: Date }
+): TransactionFilters {
+  return {
+    agent: input.agent,
+    status: input.status,
+    since: input.since,
+    valueMin: input.valueMin,
+    valueMax: input.valueMax,
+    valueUnit: input.valueUnit ?? "lamports",
+    mint: input.mint,
+    program: input.program,
+    account: input.account,
+    signature: input.signature,
+    seed: input.seed ?? defaults.seed,
+    asOf: input.asOf
+      ? new Date(input.asOf).toISOString()
+      : (defaults.asOf ?? new Date()).toISOString(),
+  };
+}
+
+/** Random seed for requests that did not pin one */
+export function createTransactionSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+function sumInstructionArg(tx: SolanaTransaction, key: string): number {
+  return tx.instructions.reduce((total, inst) => {
+    const value = inst.args?.[key];
+    return typeof value === "number" ? total + value : total;
+  }, 0);
+}
+
+type TokenSymbol = keyof typeof BLOCKCHAIN.tokens;
+
+/** Known tokens are accepted by symbol as well as by mint address */
+function toMintAddress(mint: string): string {
+  return Object.hasOwn(BLOCKCHAIN.tokens, mint)
+    ? BLOCKCHAIN.tokens[mint as TokenSymbol].mint
+    : mint;
+}
+
+const DECIMALS_BY_MINT: Record<string, number> = Object.fromEntries(
+  Object.values(BLOCKCHAIN.tokens).map(({ mint, decimals }) => [mint, decimals])
+);
+
+/**
+ * Whole units of `mint` a transaction's SPL instructions move. Raw amounts
+ * (u64 strings from the RPC source) are scaled by the `decimals` the
+ * instruction carries, else the known mint's. Mock instructions name the
+ * token by symbol and already carry whole amounts.
+ */
+function sumTokenAmount(tx: SolanaTransaction, mint: string): number {
+  const target = toMintAddress(mint);
+
+  return tx.instructions.reduce((total, inst) => {
+    const args = inst.args ?? {};
+    if (typeof args.mint !== "string") return total;
+    if (toMintAddress(args.mint) !== target) return total;
+
+    const raw = Number(args.amount);
+    if (typeof args.amount === "boolean" || !Number.isFinite(raw)) {
+      return total;
+    }
+
+    const decimals = Object.hasOwn(BLOCKCHAIN.tokens, args.mint)
+      ? 0
+      : typeof args.decimals === "number"
+        ? args.decimals
+        : (DECIMALS_BY_MINT[args.mint] ?? 0);
+    return total + raw / 10 ** decimals;
+  }, 0);
+}
+
+/**
+ * Amount a transaction moves in `valueUnit`, read from its decoded
+ * instruction args (`lamports` for native transfers, `amount` of the `mint`
+ * for SPL token transfers). Fees are not counted.
+ */
+export function getTransactionValue(
+  tx: SolanaTransaction,
+  { valueUnit, mint }: Pick<TransactionFilters, "valueUnit" | "mint">
+): number {
+  switch (valueUnit) {
+    case "SOL":
+      return sumInstructionArg(tx, "lamports") / BLOCKCHAIN.lamportsPerSol;
+    case "token":
+      return mint === undefined ? 0 : sumTokenAmount(tx, mint);
+    default:
+      return sumInstructionArg(tx, "lamports");
+  }
+}
+
+function matchesTransactionFilters(
+  tx: SolanaTransaction,
+  filters: TransactionFilters
+): boolean {
+  if (filters.agent && tx.agent !== filters.agent) return false;
+  if (filters.status && tx.status !== filters.status) return false;
+
+  if (filters.valueMin !== undefined || filters.valueMax !== undefined) {
+    const value = getTransactionValue(tx, filters);
+    if (filters.valueMin !== undefined && value < filters.valueMin) {
+      return false;
+    }
+    if (filters.valueMax !== undefined && value > filters.valueMax) {
+      return false;
+    }
+  }
+
+  const { program, account, signature } = filters;
+  if (
+    program &&
+    !tx.instructions.some((inst) => inst.programId.includes(program))
+  ) {
+    return false;
+  }
+
+  // Exact match against any account an instruction references
+  if (
+    account &&
+    !tx.instructions.some((inst) => inst.accounts?.includes(account))
+  ) {
+    return false;
+  }
+
+  if (signature && !tx.signature.startsWith(signature)) return false;
+
+  return true;
+}
+
+/**
+ * Lazily yield matching transactions from `source`, newest first. Stops at
+ * `since` or the end of the transaction window, whichever comes first.
+ */
+export async function* selectTransactions(
+  filters: TransactionFilters,
+  source: TransactionSource = getTransactionSource()
+): AsyncGenerator<SolanaTransaction> {
+  const asOf = new Date(filters.asOf);
+  const windowStart = asOf.getTime() - TRANSACTION_WINDOW_SEC * 1000;
+  const since = filters.since ? new Date(filters.since).getTime() : null;
+  const cutoff = since !== null ? Math.max(since, windowStart) : windowStart;
+
+  for await (const tx of source.list({
+    asOf: filters.asOf,
+    since: new Date(cutoff).toISOString(),
+    seed: filters.seed,
+  })) {
+    if (new Date(tx.blockTime).getTime() < cutoff) return;
+    if (!matchesTransactionFilters(tx, filters)) continue;
+
+    yield tx.explorerUrl
+      ? tx
+      : {
+          ...tx,
+          explorerUrl: getTransactionExplorerUrl(
+            tx.signature,
+            "solana",
+            BLOCKCHAIN.network
+          ),
+        };
+  }
+}
+
+/** The first `limit` matching transactions (all of them when omitted) */
+export async function takeTransactions(
+  filters: TransactionFilters,
+  limit = Number.POSITIVE_INFINITY
+): Promise<SolanaTransaction[]> {
+  const transactions: SolanaTransaction[] = [];
+  for await (const tx of selectTransactions(filters)) {
+    transactions.push(tx);
+    if (transactions.length >= limit) break;
+  }
+  return transactions;
+}
+
+/**
+ * Query string that reproduces `filters` on another transactions endpoint
+ * (used for export download links)
+ */
+export function toTransactionFilterParams(
+  filters: TransactionFilters
+): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export const TRANSACTION_EXPORT_FORMATS = [
+  "csv",
+  "ndjson",
+  "json",
+  "explorer",
+] as const;
+
+export type TransactionExportFormat =
+  (typeof TRANSACTION_EXPORT_FORMATS)[number];
+
+export const TRANSACTION_EXPLORERS = ["solana", "solscan", "solanafm"] as const;
+
+export type TransactionExplorer = (typeof TRANSACTION_EXPLORERS)[number];
+
+/** CSV columns, in order, mapped from `SolanaTransaction` fields */
+export const TRANSACTION_CSV_COLUMNS: ReadonlyArray<{
+  header: string;
+  value: (tx: SolanaTransaction) => string | number | boolean | undefined;
+}> = [
+  { header: "signature", value: (tx) => tx.signature },
+  { header: "status", value: (tx) => tx.status },
+  { header: "blockTime", value: (tx) => tx.blockTime },
+  { header: "slot", value: (tx) => tx.slot },
+  { header: "agent", value: (tx) => tx.agent },
+  { header: "summary", value: (tx) => tx.summary },
+  {
+    header: "programIds",
+    value: (tx) => tx.instructions.map((inst) => inst.programId).join(";"),
+  },
+  {
+    header: "instructions",
+    value: (tx) =>
+      tx.instructions
+        .map((inst) => `${inst.programName}.${inst.instruction}`)
+        .join(";"),
+  },
+  { header: "fee", value: (tx) => tx.fee },
+  { header: "error", value: (tx) => tx.error },
+  { header: "explorerUrl", value: (tx) => tx.explorerUrl },
+  { header: "isEmergencyOverride", value: (tx) => tx.isEmergencyOverride },
+  { header: "witnessCount", value: (tx) => tx.witnessCount },
+  {
+    header: "hasConstraintViolation",
+    value: (tx) => tx.hasConstraintViolation,
+  },
+  { header: "isAgentInMaintenance", value: (tx) => tx.isAgentInMaintenance },
+  { header: "zkProofHash", value: (tx) => tx.zkProofHash },
+];
+
+export function getTransactionExplorerUrl(
+  signature: string,
+  explorer: TransactionExplorer,
+  cluster: string
+): string {
+  const clusterQuery = cluster === "mainnet-beta" ? "" : `?cluster=${cluster}`;
+
+  switch (explorer) {
+    case "solscan":
+      return `https://solscan.io/tx/${signature}${clusterQuery}`;
+    case "solanafm":
+      return `https://solana.fm/tx/${signature}${clusterQuery}`;
+    default:
+      return `https://explorer.solana.com/tx/${signature}${clusterQuery}`;
+  }
+}
+
+/** Download URL for an export of the given filtered set */
+export function getTransactionExportUrl(
+  format: TransactionExportFormat,
+  filters: TransactionFilters
+): string {
+  return `/api/transactions/export/${format}?${toTransactionFilterParams(filters)}`;
+}
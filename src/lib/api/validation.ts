@@ -0,0 +1,243 @@
+/**
+ * Request Validation - Shared zod helpers for `/api/*` route handlers
+ *
+ * Query strings and JSON bodies are parsed through a per-route schema before
+ * any handler logic runs. Invalid input is rejected with a uniform 400
+ * envelope that names every offending parameter and, for enumerations, the
+ * values that would have been accepted.
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  AGENT_PERSONA_INPUTS,
+  resolveAgentPersona,
+  type AgentPersonaId,
+} from "@/lib/agents";
+
+// ============================================================================
+// ERROR ENVELOPE
+// ============================================================================
+
+export interface ValidationIssue {
+  parameter: string;
+  message: string;
+  received?: unknown;
+  allowed?: readonly (string | number | boolean)[];
+}
+
+export interface ValidationErrorBody {
+  error: "Invalid request";
+  message: string;
+  issues: ValidationIssue[];
+  timestamp: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse<ValidationErrorBody> };
+
+function toValidationIssues(
+  error: z.ZodError,
+  input: Record<string, unknown>
+): ValidationIssue[] {
+  return error.issues.map((issue) => {
+    const parameter = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    const received = issue.path.reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<PropertyKey, unknown>)[key]
+          : undefined,
+      input
+    );
+
+    return {
+      parameter,
+      message: issue.message,
+      ...(received !== undefined && { received }),
+      ...(issue.code === "invalid_value" && {
+        allowed: issue.values as ValidationIssue["allowed"],
+      }),
+    };
+  });
+}
+
+export function validationErrorResponse(
+  issues: ValidationIssue[]
+): NextResponse<ValidationErrorBody> {
+  return NextResponse.json(
+    {
+      error: "Invalid request",
+      message: `Invalid ${issues.map((issue) => issue.parameter).join(", ")}`,
+      issues,
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+/**
+ * Parses URL search params against a schema. Empty values (`?format=`) are
+ * treated as absent so schema defaults apply; repeated keys keep the last value.
+ */
+export function parseSearchParams<S extends z.ZodType>(
+  schema: S,
+  searchParams: URLSearchParams
+): ValidationResult<z.output<S>> {
+  const input: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (value !== "") input[key] = value;
+  });
+
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        toValidationIssues(result.error, input)
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/** Validates dynamic route segments (the awaited `params` of a handler). */
+export function parseRouteParams<S extends z.ZodType>(
+  schema: S,
+  params: Record<string, string | string[]>
+): ValidationResult<z.output<S>> {
+  const result = schema.safeParse(params);
+  if (!result.success) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        toValidationIssues(result.error, params)
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/** Reads and validates a JSON request body; malformed JSON is a 400 too. */
+export async function parseJsonBody<S extends z.ZodType>(
+  schema: S,
+  request: Request
+): Promise<ValidationResult<z.output<S>>> {
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: validationErrorResponse([
+        { parameter: "(body)", message: "Request body must be valid JSON" },
+      ]),
+    };
+  }
+
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        toValidationIssues(
+          result.error,
+          input && typeof input === "object"
+            ? (input as Record<string, unknown>)
+            : {}
+        )
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+// ============================================================================
+// QUERY PARAMETER BUILDERS
+// ============================================================================
+
+/** One of a fixed set of string values. */
+export function queryEnum<const T extends readonly [string, ...string[]]>(
+  values: T
+) {
+  return z.enum(values);
+}
+
+/**
+ * Agent persona id or legacy alias (`maintenance`, `governance`), resolved to
+ * the canonical id.
+ */
+export function queryAgentPersona() {
+  return z
+    .enum(AGENT_PERSONA_INPUTS)
+    .transform((value) => resolveAgentPersona(value) as AgentPersonaId);
+}
+
+/** `"true"` / `"false"`, parsed to a boolean with the given default. */
+export function queryBoolean(defaultValue: boolean) {
+  return z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .default(defaultValue);
+}
+
+/** `"true"` / `"false"`, parsed to a boolean; `undefined` when absent. */
+export function queryFlag() {
+  return z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional();
+}
+
+/** Integer within `[min, max]`. */
+export function queryInt(options: { min: number; max: number }) {
+  return z.coerce.number().int().min(options.min).max(options.max);
+}
+
+/** Finite decimal number. */
+export function queryNumber() {
+  return z.coerce.number().refine(Number.isFinite, "Expected a finite number");
+}
+
+/** ISO-8601 timestamp, kept as a string. */
+export function queryDateTime() {
+  return z
+    .string()
+    .refine(
+      (value) => !Number.isNaN(Date.parse(value)),
+      "Expected an ISO-8601 timestamp"
+    );
+}
+
+/** Comma-separated list, split and trimmed. */
+export function queryList<T extends z.ZodType<string, string>>(item: T) {
+  return z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(item));
+}
+
+/** Comma-separated dotted field paths (`flowAnalysis.netFlow,batteryHealth`). */
+export function queryFieldPaths() {
+  return queryList(
+    z
+      .string()
+      .regex(
+        /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/,
+        "Expected a dotted field path"
+      )
+  );
+}
@@ -2,3 +2,126 @@ const flag = process.env.NEXT_PUBLIC_USE_MOCKS;
 
 export const useMocks =
   flag === undefined || flag === "1" || flag?.toLowerCase() === "true";
+
+export type DataProviderKind = "mock" | "http";
+
+const providerFlag = process.env.NEXT_PUBLIC_DATA_PROVIDER?.toLowerCase();
+
+/**
+ * Backend used by the `src/lib/data` loaders. An explicit
+ * `NEXT_PUBLIC_DATA_PROVIDER` wins; otherwise `NEXT_PUBLIC_USE_MOCKS` decides.
+ */
+export const dataProvider: DataProviderKind =
+  providerFlag === "mock" || providerFlag === "http"
+    ? providerFlag
+    : useMocks
+      ? "mock"
+      : "http";
+
+/** Base URL for the HTTP data provider (e.g. a local stub server in staging). */
+export const dataApiBaseUrl = process.env.NEXT_PUBLIC_DATA_API_BASE_URL;
+
+export type ConversationStoreKind = "memory" | "file";
+
+/**
+ * Where `/api/agents/ask` keeps conversation threads. `file` persists them
+ * across restarts under `CONVERSATION_STORE_DIR`; anything else uses memory.
+ */
+export const conversationStore: ConversationStoreKind =
+  process.env.CONVERSATION_STORE?.toLowerCase() === "file" ? "file" : "memory";
+
+/** Directory for the file conversation store (default: `.data/conversations`). */
+export const conversationStoreDir =
+  process.env.CONVERSATION_STORE_DIR || ".data/conversations";
+
+export type AnswerBackendKind = "template" | "openai";
+
+/**
+ * Writer of `/api/agents/ask` answers. `openai` calls the OpenAI-compatible
+ * endpoint at `AGENT_LLM_BASE_URL`; anything else uses the offline templates.
+ */
+export const answerBackend: AnswerBackendKind =
+  process.env.AGENT_ANSWER_BACKEND?.toLowerCase() === "openai"
+    ? "openai"
+    : "template";
+
+/** Chat-completions endpoint root, e.g. `http://localhost:11434/v1`. */
+export const answerModelBaseUrl = process.env.AGENT_LLM_BASE_URL;
+
+export const answerModel = process.env.AGENT_LLM_MODEL || "gpt-4o-mini";
+
+export const answerModelApiKey = process.env.AGENT_LLM_API_KEY;
+
+/**
+ * Per-route rate limit overrides for the API routes, as comma-separated
+ * `route=requests/seconds` pairs (e.g. `ask=20/60,transactions=120/60`).
+ * Routes not listed keep their defaults; see `@/lib/api/rate-limit`.
+ */
+export const rateLimitOverrides = process.env.RATE_LIMITS;
+
+/**
+ * Reverse proxies in front of the app that append the caller's address to
+ * `X-Forwarded-For` (e.g. `1` behind a single load balancer). Rate limits key
+ * anonymous callers by the address the outermost one appended. With none
+ * they use the header's last entry, which Next fills in from the socket only
+ * when the client sent no header; set this for any public deployment.
+ */
+export const trustedProxyHops = Math.max(
+  0,
+  Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0)
+);
+
+/** Comma-separated keys accepted in `X-API-Key` or as a bearer token. */
+export const apiKeys = process.env.API_KEYS;
+
+/**
+ * Ed25519 key evidence bundles are signed with: base58, either the 32-byte
+ * seed or a 64-byte Solana secret key. Publish its public key to auditors;
+ * without it each process signs with a key of its own.
+ */
+export const evidenceSigningKey = process.env.EVIDENCE_SIGNING_KEY;
+
+export type TransactionSourceKind = "mock" | "rpc";
+
+/**
+ * Where `/api/transactions` and its exports read transactions from. `rpc`
+ * calls the Solana JSON-RPC endpoint at `SOLANA_RPC_URL`; anything else uses
+ * the seeded mock sequence.
+ */
+export const transactionSource: TransactionSourceKind =
+  process.env.TRANSACTION_SOURCE?.toLowerCase() === "rpc" ? "rpc" : "mock";
+
+/** JSON-RPC endpoint for the rpc source (default: `NEXT_PUBLIC_SOLANA_RPC_URL`). */
+export const solanaRpcUrl = process.env.SOLANA_RPC_URL;
+
+/** Program whose transactions the rpc source lists (default: the asset registry). */
+export const assetProgramId = process.env.SOLANA_ASSET_PROGRAM_ID;
+
+/** Comma-separated treasury accounts whose transactions are listed as well. */
+export const treasuryAccounts = process.env.SOLANA_TREASURY_ACCOUNTS;
+
+/**
+ * Signers attributed to each agent, as comma-separated `agent=address` pairs
+ * (e.g. `operations=4Nd1…,markets=9xQe…`).
+ */
+export const agentAccounts = process.env.SOLANA_AGENT_ACCOUNTS;
+
+/**
+ * Offer the in-memory mock wallet on `/connect`, so wallet flows can be
+ * exercised in tests without a browser extension.
+ */
+export const mockWallet =
+  process.env.NEXT_PUBLIC_MOCK_WALLET === "1" ||
+  process.env.NEXT_PUBLIC_MOCK_WALLET?.toLowerCase() === "true";
+
+export type QuoteSourceKind = "stub" | "jupiter";
+
+/**
+ * Where `/api/invest/quote` gets swap routes from. `jupiter` calls Jupiter's
+ * swap API at `JUPITER_API_URL`; anything else uses the local stub router.
+ */
+export const quoteSource: QuoteSourceKind =
+  process.env.QUOTE_SOURCE?.toLowerCase() === "jupiter" ? "jupiter" : "stub";
+
+/** Jupiter swap API root (default: `https://lite-api.jup.ag/swap/v1`). */
+export const jupiterApiUrl = process.env.JUPITER_API_URL;
@@ -186,6 +186,9 @@ export const BLOCKCHAIN = {
   // Commitment levels
   commitment: "confirmed" as const,
 
+  // Native unit conversion
+  lamportsPerSol: 1000000000,
+
   // Confirmation latency thresholds (ms)
   confirmationLatency: {
     feelFinal: 10000, // 10s maximum latency for trust
@@ -204,6 +207,19 @@ export const BLOCKCHAIN = {
     aiAuthPDA: "AIAuthPDA111111111111111111111111111111111",
     governanceRegistry: "Governance11111111111111111111111111111",
   },
+
+  // Treasury holding the asset's revenue (mock for MVP)
+  treasury: "Treasury1111111111111111111111111111111111",
+
+  // Token mints by symbol, with the decimals amounts are stored in
+  tokens: {
+    SOL: { mint: "So11111111111111111111111111111111111111112", decimals: 9 },
+    USDC: {
+      mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      decimals: 6,
+    },
+    SOLAR: { mint: "SoLARMint1111111111111111111111111111111111", decimals: 6 },
+  },
 } as const;
 
 // ============================================================================
@@ -232,49 +248,6 @@ export const FEATURES = {
   },
 } as const;
 
-// ============================================================================
-// AGENT PERSONAS - Tonal & Micro-Affective Tokens
-// ============================================================================
-
-export const AGENTS = {
-  operations: {
-    id: "operations",
-    name: "Operations Agent",
-    description: "Controls generation, storage, and dispatch decisions",
-    tone: { name: "calm", pace: 1.0 }, // steady 1.0× speech rate
-    microAffect: { pulse: 200, ease: 150 }, // 200ms pulse, 150ms ease
-    color: COLORS.agent.operations,
-    icon: "⚡",
-  },
-  markets: {
-    id: "markets",
-    name: "Markets Agent",
-    description: "Trades energy and optimizes yield",
-    tone: { name: "analytical", pace: 1.2 }, // precise 1.2× rate
-    microAffect: { pulse: 150, ease: 100 },
-    color: COLORS.agent.markets,
-    icon: "📈",
-  },
-  maintenance: {
-    id: "maintenance",
-    name: "Maintenance Agent",
-    description: "Detects faults and coordinates self-repair",
-    tone: { name: "supportive", pace: 0.9 }, // empathetic slower pace
-    microAffect: { pulse: 250, ease: 200 },
-    color: COLORS.agent.maintenance,
-    icon: "🔧",
-  },
-  governance: {
-    id: "governance",
-    name: "Governance Agent",
-    description: "Enforces constraints and mediates overrides",
-    tone: { name: "authoritative", pace: 1.1 },
-    microAffect: { pulse: 100, ease: 80 },
-    color: COLORS.agent.governance,
-    icon: "⚖️",
-  },
-} as const;
-
 // ============================================================================
 // SYSTEM MESSAGES - Calm, Concise, Humanized Feedback
 // ============================================================================
@@ -441,7 +414,6 @@ export const BEHAVIOR = {
 // TYPE EXPORTS - For type-safe constant usage
 // ============================================================================
 
-export type AgentId = keyof typeof AGENTS;
 export type AnimationDuration = keyof typeof MOTION.duration;
 export type AnimationEasing = keyof typeof MOTION.easing;
 export type LayoutSize = keyof typeof LAYOUT.container;
@@ -1,6 +1,5 @@
 import { cache } from "react";
 
-import { useMocks } from "@/lib/config/flags";
 import type {
   BatterySummary,
   EnergySaleExplanation,
@@ -11,93 +10,38 @@ import type {
   SalesSummary,
   SolarAssetSummary,
 } from "@/lib/types";
-import {
-  mockBatterySummary,
-  mockEnergySaleExplanation,
-  mockEnergySummary,
-  mockPanelExplanation,
-  mockPanelGrid,
-  mockPriceHistory,
-  mockSalesSummary,
-  mockSolarSummary,
-} from "./mock/asset";
-
-const simulateLatency = () => new Promise((resolve) => setTimeout(resolve, 40));
+import { getDataProvider } from "./providers";
 
 export const getSolarAssetSummary = cache(
-  async (): Promise<SolarAssetSummary> => {
-    if (!useMocks) {
-      throw new Error("Solar asset summary API not implemented yet");
-    }
-
-    await simulateLatency();
-    return mockSolarSummary;
-  }
+  async (): Promise<SolarAssetSummary> =>
+    getDataProvider().getSolarAssetSummary()
 );
 
-export const getPriceHistory = cache(async (): Promise<PricePoint[]> => {
-  if (!useMocks) {
-    throw new Error("Price history API not implemented yet");
-  }
-
-  await simulateLatency();
-  return mockPriceHistory;
-});
-
-export const getEnergySummary = cache(async (): Promise<EnergySummary> => {
-  if (!useMocks) {
-    throw new Error("Energy summary API not implemented yet");
-  }
-
-  await simulateLatency();
-  return mockEnergySummary;
-});
-
-export const getSalesSummary = cache(async (): Promise<SalesSummary> => {
-  if (!useMocks) {
-    throw new Error("Sales summary API not implemented yet");
-  }
-
-  await simulateLatency();
-  return mockSalesSummary;
-});
+export const getPriceHistory = cache(
+  async (): Promise<PricePoint[]> => getDataProvider().getPriceHistory()
+);
 
-export const getBatterySummary = cache(async (): Promise<BatterySummary> => {
-  if (!useMocks) {
-    throw new Error("Battery summary API not implemented yet");
-  }
+export const getEnergySummary = cache(
+  async (): Promise<EnergySummary> => getDataProvider().getEnergySummary()
+);
 
-  await simulateLatency();
-  return mockBatterySummary;
-});
+export const getSalesSummary = cache(
+  async (): Promise<SalesSummary> => getDataProvider().getSalesSummary()
+);
 
-export const getPanelGrid = cache(async (): Promise<PanelGridResponse> => {
-  if (!useMocks) {
-    throw new Error("Panel grid API not implemented yet");
-  }
+export const getBatterySummary = cache(
+  async (): Promise<BatterySummary> => getDataProvider().getBatterySummary()
+);
 
-  await simulateLatency();
-  return mockPanelGrid;
-});
+export const getPanelGrid = cache(
+  async (): Promise<PanelGridResponse> => getDataProvider().getPanelGrid()
+);
 
 export const getPanelExplanation = cache(
-  async (): Promise<PanelExplanation> => {
-    if (!useMocks) {
-      throw new Error("Panel explanation API not implemented yet");
-    }
-
-    await simulateLatency();
-    return mockPanelExplanation;
-  }
+  async (): Promise<PanelExplanation> => getDataProvider().getPanelExplanation()
 );
 
 export const getEnergySaleExplanation = cache(
-  async (): Promise<EnergySaleExplanation> => {
-    if (!useMocks) {
-      throw new Error("Energy sale explanation API not implemented yet");
-    }
-
-    await simulateLatency();
-    return mockEnergySaleExplanation;
-  }
+  async (): Promise<EnergySaleExplanation> =>
+    getDataProvider().getEnergySaleExplanation()
 );
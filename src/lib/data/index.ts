@@ -1,3 +1,5 @@
 export * from "./asset";
 export * from "./explanations";
 export * from "./portfolio";
+export { getDataProvider, DataProviderError } from "./providers";
+export type { DataProvider } from "./providers";
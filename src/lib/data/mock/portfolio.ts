@@ -25,3 +25,38 @@ export const mockPortfolioAssets: PortfolioAssetPosition[] = [
     pnl24h: -0.006,
   },
 ];
+
+/**
+ * A connected wallet's share of the demo positions, fixed per address
+ * (between 5% and 205%), so each wallet sees its own steady portfolio.
+ */
+function walletShare(owner: string): number {
+  let hash = 0;
+  for (const char of owner) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return 0.05 + (hash % 1000) / 500;
+}
+
+export function mockWalletPortfolioAssets(
+  owner: string
+): PortfolioAssetPosition[] {
+  const share = walletShare(owner);
+  return mockPortfolioAssets.map((position) => ({
+    ...position,
+    units: Math.round(position.units * share),
+    valueUsd: Math.round(position.valueUsd * share),
+  }));
+}
+
+export function mockWalletPortfolioSummary(owner: string): PortfolioSummary {
+  const share = walletShare(owner);
+  return {
+    ...mockPortfolioSummary,
+    sol: Math.round(mockPortfolioSummary.sol * share * 100) / 100,
+    solar: {
+      units: Math.round(mockPortfolioSummary.solar.units * share),
+      valueUsd: Math.round(mockPortfolioSummary.solar.valueUsd * share),
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MockWalletAdapter, walletCookie } from "@/lib/wallet";
+
+import { getConnectedWallet } from "./portfolio";
+
+/** The `Cookie` header the browser sends */
+const request = vi.hoisted(() => ({ cookie: "" }));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => {
+      const value = request.cookie
+        .split("; ")
+        .find((cookie) => cookie.startsWith(`${name}=`))
+        ?.slice(name.length + 1);
+      return value === undefined ? undefined : { name, value };
+    },
+  }),
+}));
+
+/** What the browser sends back after `document.cookie = assignment` */
+function sendCookie(assignment: string): void {
+  request.cookie = assignment.split(";")[0];
+}
+
+afterEach(() => {
+  request.cookie = "";
+});
+
+describe("getConnectedWallet", () => {
+  it("reads the wallet the browser connected", async () => {
+    const adapter = new MockWalletAdapter();
+    await adapter.connect();
+    const address = adapter.publicKey!.toBase58();
+
+    sendCookie(walletCookie(address));
+
+    await expect(getConnectedWallet()).resolves.toBe(address);
+  });
+
+  it("has no wallet before connecting or after disconnecting", async () => {
+    await expect(getConnectedWallet()).resolves.toBeUndefined();
+
+    sendCookie(walletCookie(null));
+    await expect(getConnectedWallet()).resolves.toBeUndefined();
+  });
+
+  it("ignores a cookie that is not a wallet address", async () => {
+    sendCookie(walletCookie("not-a-wallet"));
+
+    await expect(getConnectedWallet()).resolves.toBeUndefined();
+  });
+});
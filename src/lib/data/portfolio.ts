@@ -1,29 +1,24 @@
 import { cache } from "react";
+import { cookies } from "next/headers";
 
-import { useMocks } from "@/lib/config/flags";
 import type { PortfolioAssetPosition, PortfolioSummary } from "@/lib/types";
-import { mockPortfolioAssets, mockPortfolioSummary } from "./mock/portfolio";
+import { WALLET_COOKIE, isWalletAddress } from "@/lib/wallet";
+import { getDataProvider } from "./providers";
 
-const simulateLatency = () => new Promise((resolve) => setTimeout(resolve, 25));
+/** The wallet connected in this browser, if any (see `AIMPWalletProvider`) */
+export const getConnectedWallet = cache(
+  async (): Promise<string | undefined> => {
+    const address = (await cookies()).get(WALLET_COOKIE)?.value;
+    return isWalletAddress(address) ? address : undefined;
+  }
+);
 
 export const getPortfolioSummary = cache(
-  async (): Promise<PortfolioSummary> => {
-    if (!useMocks) {
-      throw new Error("Portfolio summary API not implemented yet");
-    }
-
-    await simulateLatency();
-    return mockPortfolioSummary;
-  }
+  async (): Promise<PortfolioSummary> =>
+    getDataProvider().getPortfolioSummary(await getConnectedWallet())
 );
 
 export const getPortfolioAssets = cache(
-  async (): Promise<PortfolioAssetPosition[]> => {
-    if (!useMocks) {
-      throw new Error("Portfolio assets API not implemented yet");
-    }
-
-    await simulateLatency();
-    return mockPortfolioAssets;
-  }
+  async (): Promise<PortfolioAssetPosition[]> =>
+    getDataProvider().getPortfolioAssets(await getConnectedWallet())
 );
@@ -0,0 +1,101 @@
+import { resolveAgentPersona } from "@/lib/agents";
+import { API } from "@/lib/constants";
+import type { Explanation } from "@/lib/types";
+import type { DataProvider } from "./types";
+
+export class DataProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly path?: string
+  ) {
+    super(message);
+    this.name = "DataProviderError";
+  }
+}
+
+/**
+ * Reads loader data from a backend that serves the same shapes as the mock
+ * fixtures, one resource per path (e.g. `GET {baseUrl}/portfolio/summary`).
+ */
+export function createHttpDataProvider(
+  baseUrl: string | undefined
+): DataProvider {
+  const request = async <T>(path: string, revalidate: number): Promise<T> => {
+    if (!baseUrl) {
+      throw new DataProviderError(
+        "HTTP data provider selected but NEXT_PUBLIC_DATA_API_BASE_URL is not set",
+        undefined,
+        path
+      );
+    }
+
+    const url = `${baseUrl.replace(/\/+$/, "")}${path}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(API.timeout.default),
+        ...(revalidate > 0
+          ? { next: { revalidate } }
+          : { cache: "no-store" as const }),
+      });
+    } catch (error) {
+      throw new DataProviderError(
+        `Data API request to ${path} failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        undefined,
+        path
+      );
+    }
+
+    if (!response.ok) {
+      throw new DataProviderError(
+        `Data API request to ${path} failed with status ${response.status}`,
+        response.status,
+        path
+      );
+    }
+
+    return (await response.json()) as T;
+  };
+
+  const withOwner = (path: string, owner: string | undefined) =>
+    owner ? `${path}?owner=${encodeURIComponent(owner)}` : path;
+
+  const { portfolio, explanations, telemetry } = API.revalidate;
+
+  return {
+    name: "http",
+
+    getSolarAssetSummary: () => request("/asset/summary", portfolio),
+    getPriceHistory: () => request("/asset/price-history", portfolio),
+    getEnergySummary: () => request("/asset/energy", telemetry),
+    getSalesSummary: () => request("/asset/sales", portfolio),
+    getBatterySummary: () => request("/asset/battery", telemetry),
+    getPanelGrid: () => request("/asset/panels", telemetry),
+    getPanelExplanation: () =>
+      request("/asset/panels/explanation", explanations),
+    getEnergySaleExplanation: () =>
+      request("/asset/sales/explanation", explanations),
+
+    getPortfolioSummary: (owner) =>
+      request(withOwner("/portfolio/summary", owner), portfolio),
+    getPortfolioAssets: (owner) =>
+      request(withOwner("/portfolio/assets", owner), portfolio),
+
+    // Backends may still send legacy persona ids ("maintenance")
+    getLatestExplanations: async () =>
+      (await request<Explanation[]>("/explanations/latest", explanations)).map(
+        (explanation) => ({
+          ...explanation,
+          persona:
+            resolveAgentPersona(explanation.persona) ?? explanation.persona,
+        })
+      ),
+    getUpcomingActions: () =>
+      request("/explanations/upcoming-actions", explanations),
+  };
+}
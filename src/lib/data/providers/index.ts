@@ -0,0 +1,23 @@
+import { dataApiBaseUrl, dataProvider } from "@/lib/config/flags";
+
+import { createHttpDataProvider } from "./http";
+import { mockDataProvider } from "./mock";
+import type { DataProvider } from "./types";
+
+export type { DataProvider } from "./types";
+export { DataProviderError, createHttpDataProvider } from "./http";
+export { mockDataProvider } from "./mock";
+
+let provider: DataProvider | null = null;
+
+/** Returns the provider selected by `NEXT_PUBLIC_DATA_PROVIDER` / `NEXT_PUBLIC_USE_MOCKS`. */
+export function getDataProvider(): DataProvider {
+  if (!provider) {
+    provider =
+      dataProvider === "http"
+        ? createHttpDataProvider(dataApiBaseUrl)
+        : mockDataProvider;
+  }
+
+  return provider;
+}
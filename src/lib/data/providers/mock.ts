@@ -0,0 +1,59 @@
+import {
+  mockBatterySummary,
+  mockEnergySaleExplanation,
+  mockEnergySummary,
+  mockPanelExplanation,
+  mockPanelGrid,
+  mockPriceHistory,
+  mockSalesSummary,
+  mockSolarSummary,
+} from "../mock/asset";
+import {
+  mockLatestExplanations,
+  mockUpcomingActions,
+} from "../mock/explanations";
+import {
+  mockPortfolioAssets,
+  mockPortfolioSummary,
+  mockWalletPortfolioAssets,
+  mockWalletPortfolioSummary,
+} from "../mock/portfolio";
+import type { DataProvider } from "./types";
+
+const simulateLatency = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const withLatency =
+  <T>(value: T, ms: number) =>
+  async (): Promise<T> => {
+    await simulateLatency(ms);
+    return value;
+  };
+
+/** Serves the static fixtures in `src/lib/data/mock` with simulated latency. */
+export const mockDataProvider: DataProvider = {
+  name: "mock",
+
+  getSolarAssetSummary: withLatency(mockSolarSummary, 40),
+  getPriceHistory: withLatency(mockPriceHistory, 40),
+  getEnergySummary: withLatency(mockEnergySummary, 40),
+  getSalesSummary: withLatency(mockSalesSummary, 40),
+  getBatterySummary: withLatency(mockBatterySummary, 40),
+  getPanelGrid: withLatency(mockPanelGrid, 40),
+  getPanelExplanation: withLatency(mockPanelExplanation, 40),
+  getEnergySaleExplanation: withLatency(mockEnergySaleExplanation, 40),
+
+  getPortfolioSummary: async (owner) =>
+    withLatency(
+      owner ? mockWalletPortfolioSummary(owner) : mockPortfolioSummary,
+      25
+    )(),
+  getPortfolioAssets: async (owner) =>
+    withLatency(
+      owner ? mockWalletPortfolioAssets(owner) : mockPortfolioAssets,
+      25
+    )(),
+
+  getLatestExplanations: withLatency(mockLatestExplanations, 35),
+  getUpcomingActions: withLatency(mockUpcomingActions, 35),
+};
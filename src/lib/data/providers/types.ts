@@ -0,0 +1,42 @@
+import type {
+  BatterySummary,
+  EnergySaleExplanation,
+  EnergySummary,
+  Explanation,
+  PanelExplanation,
+  PanelGridResponse,
+  PortfolioAssetPosition,
+  PortfolioSummary,
+  PricePoint,
+  SalesSummary,
+  SolarAssetSummary,
+  UpcomingActionsResponse,
+} from "@/lib/types";
+
+/**
+ * Source of the data returned by the `src/lib/data` loaders.
+ *
+ * Every implementation must return the same shapes so pages never need to
+ * know whether they are rendering fixtures or backend responses.
+ */
+export interface DataProvider {
+  readonly name: string;
+
+  // Asset
+  getSolarAssetSummary(): Promise<SolarAssetSummary>;
+  getPriceHistory(): Promise<PricePoint[]>;
+  getEnergySummary(): Promise<EnergySummary>;
+  getSalesSummary(): Promise<SalesSummary>;
+  getBatterySummary(): Promise<BatterySummary>;
+  getPanelGrid(): Promise<PanelGridResponse>;
+  getPanelExplanation(): Promise<PanelExplanation>;
+  getEnergySaleExplanation(): Promise<EnergySaleExplanation>;
+
+  // Portfolio: the `owner` wallet's holdings, or the demo holdings without one
+  getPortfolioSummary(owner?: string): Promise<PortfolioSummary>;
+  getPortfolioAssets(owner?: string): Promise<PortfolioAssetPosition[]>;
+
+  // Explanations
+  getLatestExplanations(): Promise<Explanation[]>;
+  getUpcomingActions(): Promise<UpcomingActionsResponse>;
+}
@@ -0,0 +1,90 @@
+/**
+ * Decoders for the AIMP programs, in the instruction shape the indexer (and
+ * the mock feed) emits: PascalCase instruction names with decoded args and
+ * the instruction's accounts in program order.
+ */
+
+import { BLOCKCHAIN } from "@/lib/constants";
+
+import { describeAmount, toWholeUnits } from "./context";
+import type { InstructionDecoder } from "./types";
+
+const decodeAssetRegistryInstruction: InstructionDecoder = (
+  instruction,
+  context
+) => {
+  const authority = instruction.args?.authority;
+
+  switch (instruction.instruction) {
+    case "UpdateEnergyDispatch":
+      return {
+        summary: "Update the asset's energy dispatch schedule",
+        accounts:
+          typeof authority === "string"
+            ? [context.account("authority", authority)]
+            : [],
+        amounts: [],
+      };
+    default:
+      return null;
+  }
+};
+
+/** ClaimYield accounts: [treasury, recipient, ...] */
+const decodeRevenueDistributionInstruction: InstructionDecoder = (
+  instruction,
+  context
+) => {
+  const [treasury, recipient] = instruction.accounts ?? [];
+  const raw = instruction.args?.amount;
+  const mint = instruction.args?.mint;
+
+  switch (instruction.instruction) {
+    case "ClaimYield": {
+      if (!treasury || !recipient || typeof raw !== "number") return null;
+      const token = context.token(typeof mint === "string" ? mint : undefined);
+      const value = toWholeUnits(raw, token.decimals);
+      return {
+        summary: `Claim ${describeAmount(value, token.symbol)} yield from ${context.name(treasury)} to ${context.name(recipient)}`,
+        accounts: [
+          context.account("treasury", treasury),
+          context.account("recipient", recipient),
+        ],
+        amounts: [{ role: "yield", value, symbol: token.symbol }],
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const decodeGovernanceInstruction: InstructionDecoder = (
+  instruction,
+  context
+) => {
+  const authority = instruction.args?.authority;
+
+  switch (instruction.instruction) {
+    case "ApproveOverride":
+      return {
+        summary:
+          typeof authority === "string"
+            ? `Approve an emergency override, signed by ${context.name(authority)}`
+            : "Approve an emergency override",
+        accounts:
+          typeof authority === "string"
+            ? [context.account("approver", authority)]
+            : [],
+        amounts: [],
+      };
+    default:
+      return null;
+  }
+};
+
+export const AIMP_INSTRUCTION_DECODERS: Record<string, InstructionDecoder> = {
+  [BLOCKCHAIN.programs.assetRegistry]: decodeAssetRegistryInstruction,
+  [BLOCKCHAIN.programs.revenueDistribution]:
+    decodeRevenueDistributionInstruction,
+  [BLOCKCHAIN.programs.governanceRegistry]: decodeGovernanceInstruction,
+};
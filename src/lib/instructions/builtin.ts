@@ -0,0 +1,401 @@
+/**
+ * Built-in decoders for the Solana programs every transaction touches.
+ *
+ * Args are read in the shape `getTransaction` (jsonParsed) returns them, as
+ * the RPC transaction source passes them through: System and SPL Token
+ * instructions arrive parsed, Compute Budget instructions as base58 `data`
+ * and Memo instructions as their text. SPL amounts are u64 strings, and the
+ * source adds each token instruction's `mint` and `decimals` from the
+ * transaction's token balances.
+ */
+
+import type { ProgramInstruction } from "@/components/intelligence/TxReceipt";
+
+import { describeAmount, toWholeUnits } from "./context";
+import type {
+  DecodedAccount,
+  DecodedAmount,
+  InstructionDecodeContext,
+  InstructionDecoder,
+} from "./types";
+
+export const SOLANA_PROGRAMS = {
+  system: "11111111111111111111111111111111",
+  token: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  token2022: "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+  computeBudget: "ComputeBudget111111111111111111111111111111",
+  memo: "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr",
+  memoV1: "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo",
+} as const;
+
+/** Native SOL amounts are in lamports */
+const SOL_DECIMALS = 9;
+
+// ============================================================================
+// ARGS
+// ============================================================================
+
+function stringArg(
+  instruction: ProgramInstruction,
+  key: string
+): string | undefined {
+  const value = instruction.args?.[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** A raw integer amount: exact u64 digits, or a (mock) number */
+function amountArg(
+  instruction: ProgramInstruction,
+  key: string
+): number | string | undefined {
+  const value = instruction.args?.[key];
+  if (typeof value === "string") return /^\d+$/.test(value) ? value : undefined;
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function numberArg(
+  instruction: ProgramInstruction,
+  key: string
+): number | undefined {
+  const value = instruction.args?.[key];
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+/** Named accounts, skipping roles the instruction does not carry */
+function namedAccounts(
+  context: InstructionDecodeContext,
+  roles: Record<string, string | undefined>
+): DecodedAccount[] {
+  return Object.entries(roles).flatMap(([role, address]) =>
+    address ? [context.account(role, address)] : []
+  );
+}
+
+// ============================================================================
+// SYSTEM PROGRAM
+// ============================================================================
+
+const decodeSystemInstruction: InstructionDecoder = (instruction, context) => {
+  const source = stringArg(instruction, "source");
+  const lamports = numberArg(instruction, "lamports");
+  const value =
+    lamports === undefined ? undefined : toWholeUnits(lamports, SOL_DECIMALS);
+  const sol = (role: string): DecodedAmount[] =>
+    value === undefined ? [] : [{ role, value, symbol: "SOL" }];
+  const describeSol = () =>
+    value === undefined ? "SOL" : describeAmount(value, "SOL");
+
+  switch (instruction.instruction) {
+    case "transfer":
+    case "transferWithSeed": {
+      const destination = stringArg(instruction, "destination");
+      if (!source || !destination) return null;
+      return {
+        summary: `Transfer ${describeSol()} from ${context.name(source)} to ${context.name(destination)}`,
+        accounts: namedAccounts(context, { source, destination }),
+        amounts: sol("transfer"),
+      };
+    }
+    case "createAccount":
+    case "createAccountWithSeed": {
+      const newAccount = stringArg(instruction, "newAccount");
+      if (!source || !newAccount) return null;
+      return {
+        summary: `Create account ${context.name(newAccount)} funded with ${describeSol()} by ${context.name(source)}`,
+        accounts: namedAccounts(context, {
+          funder: source,
+          "new account": newAccount,
+          owner: stringArg(instruction, "owner"),
+        }),
+        amounts: sol("rent deposit"),
+      };
+    }
+    case "assign": {
+      const account = stringArg(instruction, "account");
+      const owner = stringArg(instruction, "owner");
+      if (!account || !owner) return null;
+      return {
+        summary: `Assign ${context.name(account)} to program ${context.name(owner)}`,
+        accounts: namedAccounts(context, { account, owner }),
+        amounts: [],
+      };
+    }
+    case "allocate": {
+      const account = stringArg(instruction, "account");
+      const space = numberArg(instruction, "space");
+      if (!account) return null;
+      return {
+        summary: `Allocate ${space ?? "space"}${space === undefined ? "" : " bytes"} for ${context.name(account)}`,
+        accounts: namedAccounts(context, { account }),
+        amounts: [],
+      };
+    }
+    case "advanceNonce": {
+      const nonceAccount = stringArg(instruction, "nonceAccount");
+      if (!nonceAccount) return null;
+      return {
+        summary: `Advance nonce account ${context.name(nonceAccount)}`,
+        accounts: namedAccounts(context, {
+          "nonce account": nonceAccount,
+          authority: stringArg(instruction, "nonceAuthority"),
+        }),
+        amounts: [],
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// ============================================================================
+// SPL TOKEN / TOKEN-2022
+// ============================================================================
+
+/**
+ * Amount in whole units: the `decimals` the transaction reports when given,
+ * else the mint's
+ */
+function tokenAmount(
+  instruction: ProgramInstruction,
+  context: InstructionDecodeContext,
+  role: string
+): { amount: DecodedAmount | null; text: string } {
+  const raw = amountArg(instruction, "amount");
+  const token = context.token(
+    stringArg(instruction, "mint"),
+    numberArg(instruction, "decimals")
+  );
+
+  if (raw === undefined) return { amount: null, text: token.symbol };
+
+  const value = toWholeUnits(raw, token.decimals);
+  return {
+    amount: { role, value, symbol: token.symbol },
+    text: describeAmount(value, token.symbol),
+  };
+}
+
+const decodeTokenInstruction: InstructionDecoder = (instruction, context) => {
+  const source = stringArg(instruction, "source");
+  const destination = stringArg(instruction, "destination");
+  const account = stringArg(instruction, "account");
+  const mint = stringArg(instruction, "mint");
+  const authority =
+    stringArg(instruction, "authority") ??
+    stringArg(instruction, "multisigAuthority") ??
+    stringArg(instruction, "owner");
+  const amounts = (amount: DecodedAmount | null) => (amount ? [amount] : []);
+
+  switch (instruction.instruction) {
+    case "transfer":
+    case "transferChecked": {
+      if (!source || !destination) return null;
+      const { amount, text } = tokenAmount(instruction, context, "transfer");
+      return {
+        summary: `Transfer ${text} from ${context.name(source)} to ${context.name(destination)}`,
+        accounts: namedAccounts(context, {
+          source,
+          destination,
+          authority,
+          mint,
+        }),
+        amounts: amounts(amount),
+      };
+    }
+    case "mintTo":
+    case "mintToChecked": {
+      if (!account) return null;
+      const { amount, text } = tokenAmount(instruction, context, "mint");
+      return {
+        summary: `Mint ${text} to ${context.name(account)}`,
+        accounts: namedAccounts(context, {
+          destination: account,
+          mint,
+          authority: stringArg(instruction, "mintAuthority"),
+        }),
+        amounts: amounts(amount),
+      };
+    }
+    case "burn":
+    case "burnChecked": {
+      if (!account) return null;
+      const { amount, text } = tokenAmount(instruction, context, "burn");
+      return {
+        summary: `Burn ${text} from ${context.name(account)}`,
+        accounts: namedAccounts(context, { source: account, mint, authority }),
+        amounts: amounts(amount),
+      };
+    }
+    case "approve":
+    case "approveChecked": {
+      const delegate = stringArg(instruction, "delegate");
+      if (!source || !delegate) return null;
+      const { amount, text } = tokenAmount(instruction, context, "allowance");
+      return {
+        summary: `Allow ${context.name(delegate)} to spend ${text} from ${context.name(source)}`,
+        accounts: namedAccounts(context, { source, delegate, authority }),
+        amounts: amounts(amount),
+      };
+    }
+    case "revoke": {
+      if (!source) return null;
+      return {
+        summary: `Revoke the delegate of ${context.name(source)}`,
+        accounts: namedAccounts(context, { source, authority }),
+        amounts: [],
+      };
+    }
+    case "closeAccount": {
+      if (!account) return null;
+      return {
+        summary: `Close token account ${context.name(account)}${destination ? `, returning rent to ${context.name(destination)}` : ""}`,
+        accounts: namedAccounts(context, { account, destination, authority }),
+        amounts: [],
+      };
+    }
+    case "initializeAccount":
+    case "initializeAccount2":
+    case "initializeAccount3": {
+      if (!account) return null;
+      const owner = stringArg(instruction, "owner");
+      return {
+        summary: `Open ${context.token(mint).symbol} account ${context.name(account)}${owner ? ` for ${context.name(owner)}` : ""}`,
+        accounts: namedAccounts(context, { account, mint, owner }),
+        amounts: [],
+      };
+    }
+    case "syncNative": {
+      if (!account) return null;
+      return {
+        summary: `Sync wrapped SOL balance of ${context.name(account)}`,
+        accounts: namedAccounts(context, { account }),
+        amounts: [],
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// ============================================================================
+// COMPUTE BUDGET
+// ============================================================================
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function decodeBase58(text: string): Uint8Array | null {
+  let value = BigInt(0);
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value % BigInt(256)));
+    value /= BigInt(256);
+  }
+  // Each leading "1" is a leading zero byte
+  const zeros = text.length - text.replace(/^1+/, "").length;
+  return Uint8Array.from([...Array<number>(zeros).fill(0), ...bytes]);
+}
+
+/** Little-endian unsigned integer of `length` bytes at `offset` */
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = length - 1; i >= 0; i--) {
+    value = value * 256 + (bytes[offset + i] ?? 0);
+  }
+  return value;
+}
+
+const decodeComputeBudgetInstruction: InstructionDecoder = (instruction) => {
+  const data = stringArg(instruction, "data");
+  const bytes = data ? decodeBase58(data) : null;
+  if (!bytes || bytes.length === 0) return null;
+
+  const decoded = (
+    summary: string,
+    role: string,
+    value: number,
+    symbol: string
+  ) => ({ summary, accounts: [], amounts: [{ role, value, symbol }] });
+
+  switch (bytes[0]) {
+    case 1: {
+      const heap = readUint(bytes, 1, 4);
+      return decoded(
+        `Request a ${heap / 1024} KiB heap`,
+        "heap",
+        heap,
+        "bytes"
+      );
+    }
+    case 2: {
+      const units = readUint(bytes, 1, 4);
+      return decoded(
+        `Set compute limit to ${describeAmount(units, "units")}`,
+        "compute limit",
+        units,
+        "units"
+      );
+    }
+    case 3: {
+      const price = readUint(bytes, 1, 8);
+      return decoded(
+        `Set priority fee to ${describeAmount(price, "micro-lamports")} per unit`,
+        "priority fee",
+        price,
+        "micro-lamports"
+      );
+    }
+    case 4: {
+      const limit = readUint(bytes, 1, 4);
+      return decoded(
+        `Limit loaded account data to ${describeAmount(limit, "bytes")}`,
+        "loaded data limit",
+        limit,
+        "bytes"
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+// ============================================================================
+// MEMO
+// ============================================================================
+
+const decodeMemoInstruction: InstructionDecoder = (instruction, context) => {
+  const memo = stringArg(instruction, "memo");
+  if (memo === undefined) return null;
+  return {
+    summary: `Memo: ${memo}`,
+    accounts: (instruction.accounts ?? []).map((address) =>
+      context.account("signer", address)
+    ),
+    amounts: [],
+  };
+};
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+export const BUILTIN_INSTRUCTION_DECODERS: Record<string, InstructionDecoder> =
+  {
+    [SOLANA_PROGRAMS.system]: decodeSystemInstruction,
+    [SOLANA_PROGRAMS.token]: decodeTokenInstruction,
+    [SOLANA_PROGRAMS.token2022]: decodeTokenInstruction,
+    [SOLANA_PROGRAMS.computeBudget]: decodeComputeBudgetInstruction,
+    [SOLANA_PROGRAMS.memo]: decodeMemoInstruction,
+    [SOLANA_PROGRAMS.memoV1]: decodeMemoInstruction,
+  };
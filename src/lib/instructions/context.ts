@@ -0,0 +1,81 @@
+import { BLOCKCHAIN } from "@/lib/constants";
+import { truncateAddress } from "@/lib/format";
+
+import type {
+  InstructionDecodeContext,
+  InstructionDecodeOptions,
+  TokenInfo,
+} from "./types";
+
+/** Accounts every reader knows by name */
+const KNOWN_ACCOUNT_LABELS: Record<string, string> = {
+  [BLOCKCHAIN.treasury]: "treasury",
+  [BLOCKCHAIN.programs.assetRegistry]: "asset registry",
+  [BLOCKCHAIN.programs.revenueDistribution]: "revenue distribution",
+  [BLOCKCHAIN.programs.aiAuthPDA]: "agent authority",
+  [BLOCKCHAIN.programs.governanceRegistry]: "governance",
+};
+
+const TOKENS_BY_MINT: Record<string, TokenInfo> = Object.fromEntries(
+  Object.entries(BLOCKCHAIN.tokens).map(([symbol, { mint, decimals }]) => [
+    mint,
+    { symbol, decimals },
+  ])
+);
+
+export function createInstructionDecodeContext({
+  viewer,
+  accountLabels,
+}: InstructionDecodeOptions = {}): InstructionDecodeContext {
+  const labels = { ...KNOWN_ACCOUNT_LABELS, ...accountLabels };
+  const label = (address: string) =>
+    address === viewer ? "you" : labels[address];
+
+  return {
+    name: (address) => label(address) ?? truncateAddress(address, 4, 4),
+
+    account: (role, address) => {
+      const known = label(address);
+      return known ? { role, address, label: known } : { role, address };
+    },
+
+    token: (mint, decimals) => {
+      if (!mint) return { symbol: "tokens", decimals: decimals ?? 0 };
+
+      // Decimals the transaction reports win over the ones we expect
+      const known = TOKENS_BY_MINT[mint];
+      if (known) return { ...known, decimals: decimals ?? known.decimals };
+
+      // Mock instructions name the token by symbol and carry whole amounts
+      if (Object.hasOwn(BLOCKCHAIN.tokens, mint)) {
+        return { symbol: mint, decimals: 0 };
+      }
+
+      return { symbol: truncateAddress(mint, 4, 4), decimals: decimals ?? 0 };
+    },
+  };
+}
+
+/**
+ * A raw integer amount in whole units of a token with `decimals`. u64
+ * amounts arrive as strings and are scaled exactly; only the result, which
+ * is for display, is rounded to a number.
+ */
+export function toWholeUnits(raw: number | string, decimals: number): number {
+  if (typeof raw === "number") return raw / 10 ** decimals;
+
+  const digits = BigInt(raw)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  return Number(`${whole}.${digits.slice(digits.length - decimals)}`);
+}
+
+const amountFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 9,
+});
+
+/** "12.5 SOLAR": every significant decimal, no trailing zeros */
+export function describeAmount(value: number, symbol: string): string {
+  return `${amountFormatter.format(value)} ${symbol}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Instruction Decoders - Readable program instructions
+ *
+ * Turns a `ProgramInstruction` into a one-line summary ("Transfer 12.5
+ * SOLAR from treasury to you"), the accounts it names and its amounts in
+ * whole token units. Decoders are looked up by program id: System, SPL
+ * Token, Token-2022, Compute Budget and Memo are built in, the AIMP programs
+ * are registered below, and other programs can be added with
+ * `registerInstructionDecoder`. Instructions no decoder knows decode to
+ * null and are shown raw.
+ */
+
+import type { ProgramInstruction } from "@/components/intelligence/TxReceipt";
+
+import { AIMP_INSTRUCTION_DECODERS } from "./aimp";
+import { BUILTIN_INSTRUCTION_DECODERS } from "./builtin";
+import { createInstructionDecodeContext } from "./context";
+import type {
+  DecodedInstruction,
+  InstructionDecodeOptions,
+  InstructionDecoder,
+} from "./types";
+
+export { SOLANA_PROGRAMS } from "./builtin";
+export { describeAmount } from "./context";
+export type {
+  DecodedAccount,
+  DecodedAmount,
+  DecodedInstruction,
+  InstructionDecodeContext,
+  InstructionDecodeOptions,
+  InstructionDecoder,
+  TokenInfo,
+} from "./types";
+
+const decoders = new Map<string, InstructionDecoder>(
+  Object.entries({
+    ...BUILTIN_INSTRUCTION_DECODERS,
+    ...AIMP_INSTRUCTION_DECODERS,
+  })
+);
+
+/** Decode `programId`'s instructions with `decoder`, replacing any before */
+export function registerInstructionDecoder(
+  programId: string,
+  decoder: InstructionDecoder
+): void {
+  decoders.set(programId, decoder);
+}
+
+export function decodeInstruction(
+  instruction: ProgramInstruction,
+  options?: InstructionDecodeOptions
+): DecodedInstruction | null {
+  const decoder = decoders.get(instruction.programId);
+  if (!decoder) return null;
+
+  try {
+    return decoder(instruction, createInstructionDecodeContext(options));
+  } catch {
+    // A decoder choking on unexpected args must not break the receipt
+    return null;
+  }
+}
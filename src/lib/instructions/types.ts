@@ -0,0 +1,48 @@
+import type {
+  DecodedAccount,
+  DecodedInstruction,
+  ProgramInstruction,
+} from "@/components/intelligence/TxReceipt";
+
+export type {
+  DecodedAccount,
+  DecodedAmount,
+  DecodedInstruction,
+} from "@/components/intelligence/TxReceipt";
+
+/** Who is reading, and names for the accounts they know */
+export interface InstructionDecodeOptions {
+  /** The reader's wallet; it reads as "you" */
+  viewer?: string;
+  /** Readable names by address, over the built-in ones (treasury, programs) */
+  accountLabels?: Record<string, string>;
+}
+
+/** Token a mint refers to */
+export interface TokenInfo {
+  symbol: string;
+  /** Decimals raw amounts are stored in */
+  decimals: number;
+}
+
+/** Account naming and token lookup, shared by every decoder */
+export interface InstructionDecodeContext {
+  /** "you", a known label or a shortened address */
+  name(address: string): string;
+  /** An account with its role and label */
+  account(role: string, address: string): DecodedAccount;
+  /**
+   * Symbol and decimals for a mint (a symbol is accepted too). `decimals`,
+   * when the transaction reports them, wins over the known mint's.
+   */
+  token(mint: string | undefined, decimals?: number): TokenInfo;
+}
+
+/**
+ * Decodes instructions of one program. Returns null for instructions it does
+ * not know, which are then shown as the raw instruction.
+ */
+export type InstructionDecoder = (
+  instruction: ProgramInstruction,
+  context: InstructionDecodeContext
+) => DecodedInstruction | null;
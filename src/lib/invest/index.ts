@@ -0,0 +1,69 @@
+/**
+ * Investment Orders - SOL-for-SOLAR orders placed from /invest
+ *
+ * An order records what a signed-in wallet asked to buy and the slippage it
+ * accepted. Orders are received here and executed on-chain by the wallet;
+ * until settlement is wired in they stay `received`.
+ *
+ * Server-only: orders live in server memory.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InvestmentOrderStatus = "received";
+
+export interface InvestmentOrder {
+  id: string;
+  /** Wallet (base58) signed in when the order was placed */
+  signer: string;
+  /** SOL offered */
+  solAmount: number;
+  /** Slippage accepted, in basis points */
+  slippageBps: number;
+  status: InvestmentOrderStatus;
+  /** ISO 8601 */
+  createdAt: string;
+}
+
+// ============================================================================
+// ORDER BOOK
+// ============================================================================
+
+/** Orders kept; the oldest are dropped first */
+const ORDER_LOG_SIZE = 1000;
+
+const orders: InvestmentOrder[] = [];
+let sequence = 0;
+
+export function placeInvestmentOrder({
+  signer,
+  solAmount,
+  slippageBps,
+}: Pick<
+  InvestmentOrder,
+  "signer" | "solAmount" | "slippageBps"
+>): InvestmentOrder {
+  const createdAt = new Date();
+  const order: InvestmentOrder = {
+    id: `order-${createdAt.getTime()}-${++sequence}`,
+    signer,
+    solAmount,
+    slippageBps,
+    status: "received",
+    createdAt: createdAt.toISOString(),
+  };
+
+  orders.push(order);
+  if (orders.length > ORDER_LOG_SIZE) {
+    orders.splice(0, orders.length - ORDER_LOG_SIZE);
+  }
+
+  return order;
+}
+
+/** `signer`'s orders, newest first */
+export function listInvestmentOrders(signer: string): InvestmentOrder[] {
+  return orders.filter((order) => order.signer === signer).reverse();
+}
@@ -0,0 +1,151 @@
+/**
+ * Investment Quotes - What a SOL-for-SOLAR order would get right now
+ *
+ * Asks the quote source (`@/lib/api/quote-source`) for the best route and
+ * restates it in whole units for the invest form: each route leg, the price
+ * impact, the minimum received at the chosen slippage, the network and
+ * priority fees, and when the quote goes stale.
+ */
+
+import { BLOCKCHAIN } from "@/lib/constants";
+import { getQuoteSource, type QuoteResponse } from "@/lib/api/quote-source";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One pool the swap passes through, amounts in whole units */
+export interface InvestQuoteLeg {
+  /** Venue, e.g. "Whirlpool" */
+  label: string;
+  inputSymbol: string;
+  outputSymbol: string;
+  /** Share of the input mint's amount routed through this pool */
+  percent: number;
+  inAmount: number;
+  outAmount: number;
+  /** Pool fee, in `feeSymbol` */
+  fee: number;
+  feeSymbol: string;
+}
+
+export interface InvestQuoteFees {
+  /** Base fee for the transaction's signature */
+  networkSol: number;
+  /** Compute unit limit times the priority price */
+  prioritySol: number;
+  computeUnitLimit: number;
+  computeUnitPriceMicroLamports: number;
+}
+
+export interface InvestQuote {
+  /** Quote source that routed it (`stub`, `jupiter`) */
+  source: string;
+  solAmount: number;
+  slippageBps: number;
+  /** SOLAR the route returns before slippage */
+  outAmount: number;
+  /** SOLAR received at worst, at `slippageBps` */
+  minimumReceived: number;
+  /** SOLAR per SOL along the route */
+  price: number;
+  /** Loss against spot prices from the route's size, as a fraction */
+  priceImpact: number;
+  legs: InvestQuoteLeg[];
+  fees: InvestQuoteFees;
+  /** ISO 8601 */
+  quotedAt: string;
+  /** When to fetch a new quote (ISO 8601) */
+  expiresAt: string;
+  /** The source's answer, as the swap endpoint takes it */
+  quote: QuoteResponse;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Quotes are refreshed this often; routes move with every slot */
+const QUOTE_TTL_MS = 20_000;
+
+const LAMPORTS_PER_SIGNATURE = 5_000;
+/** Compute budget of a swap: setup plus one pool per leg */
+const BASE_COMPUTE_UNITS = 60_000;
+const COMPUTE_UNITS_PER_LEG = 80_000;
+/** Priority price the wallet is asked to attach (medium priority) */
+const COMPUTE_UNIT_PRICE_MICRO_LAMPORTS = 10_000;
+
+const TOKENS: Record<string, { symbol: string; decimals: number }> =
+  Object.fromEntries(
+    Object.entries(BLOCKCHAIN.tokens).map(([symbol, { mint, decimals }]) => [
+      mint,
+      { symbol, decimals },
+    ])
+  );
+
+function token(mint: string): { symbol: string; decimals: number } {
+  return TOKENS[mint] ?? { symbol: `${mint.slice(0, 4)}…`, decimals: 0 };
+}
+
+function toWholeUnits(raw: string, mint: string): number {
+  return Number(raw) / 10 ** token(mint).decimals;
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/** Route `solAmount` SOL into SOLAR, accepting `slippageBps` */
+export async function getInvestQuote({
+  solAmount,
+  slippageBps,
+}: {
+  solAmount: number;
+  slippageBps: number;
+}): Promise<InvestQuote> {
+  const { SOL, SOLAR } = BLOCKCHAIN.tokens;
+  const source = getQuoteSource();
+  const quote = await source.quote({
+    inputMint: SOL.mint,
+    outputMint: SOLAR.mint,
+    amount: Math.round(solAmount * BLOCKCHAIN.lamportsPerSol),
+    slippageBps,
+  });
+  const quotedAt = Date.now();
+
+  const outAmount = toWholeUnits(quote.outAmount, quote.outputMint);
+  const computeUnitLimit =
+    BASE_COMPUTE_UNITS + COMPUTE_UNITS_PER_LEG * quote.routePlan.length;
+
+  return {
+    source: source.name,
+    solAmount,
+    slippageBps: quote.slippageBps,
+    outAmount,
+    minimumReceived: toWholeUnits(quote.otherAmountThreshold, quote.outputMint),
+    price: outAmount / toWholeUnits(quote.inAmount, quote.inputMint),
+    priceImpact: Number(quote.priceImpactPct),
+    legs: quote.routePlan.map(({ percent, swapInfo }) => ({
+      label: swapInfo.label ?? swapInfo.ammKey,
+      inputSymbol: token(swapInfo.inputMint).symbol,
+      outputSymbol: token(swapInfo.outputMint).symbol,
+      percent,
+      inAmount: toWholeUnits(swapInfo.inAmount, swapInfo.inputMint),
+      outAmount: toWholeUnits(swapInfo.outAmount, swapInfo.outputMint),
+      fee: toWholeUnits(swapInfo.feeAmount, swapInfo.feeMint),
+      feeSymbol: token(swapInfo.feeMint).symbol,
+    })),
+    fees: {
+      networkSol: LAMPORTS_PER_SIGNATURE / BLOCKCHAIN.lamportsPerSol,
+      prioritySol:
+        (computeUnitLimit * COMPUTE_UNIT_PRICE_MICRO_LAMPORTS) /
+        1_000_000 /
+        BLOCKCHAIN.lamportsPerSol,
+      computeUnitLimit,
+      computeUnitPriceMicroLamports: COMPUTE_UNIT_PRICE_MICRO_LAMPORTS,
+    },
+    quotedAt: new Date(quotedAt).toISOString(),
+    expiresAt: new Date(quotedAt + QUOTE_TTL_MS).toISOString(),
+    quote,
+  };
+}
@@ -40,7 +40,8 @@ import type {
   TransactionStatus,
 } from "@/components/intelligence/TxReceipt";
 import type { HealthStatus } from "@/components/primitives/HealthDot";
-import { PERFORMANCE, BEHAVIOR } from "@/lib/constants";
+import { PERFORMANCE, BEHAVIOR, BLOCKCHAIN } from "@/lib/constants";
+import { AGENT_PERSONAS, AGENT_PERSONA_IDS } from "@/lib/agents";
 
 // ============================================================================
 // SEEDED RANDOM UTILITIES
@@ -59,7 +60,51 @@ function createSeededRandom(seed: number) {
   };
 }
 
-const seededRandom = createSeededRandom(42); // "Answer to everything"
+let seededRandom = createSeededRandom(42); // "Answer to everything"
+
+/**
+ * Run a generator against its own seed without disturbing the shared
+ * sequence, so the same seed always yields the same output
+ */
+export function withMockSeed<T>(seed: number, generate: () => T): T {
+  const previous = seededRandom;
+  seededRandom = createSeededRandom(seed);
+  try {
+    return generate();
+  } finally {
+    seededRandom = previous;
+  }
+}
+
+/**
+ * Seed a decision's generators draw from: the decision and its explanation
+ * both derive from the decision time and its sequence number
+ */
+export function getDecisionSeed(
+  timestamp: Date | string,
+  sequence = 0
+): number {
+  return (
+    (new Date(timestamp).getTime() + Math.imul(sequence, 0x9e3779b1)) >>> 0
+  );
+}
+
+let decisionSequence = 0;
+
+/**
+ * A decision drawn from its own seed. Each one takes the next sequence
+ * number, so decisions made in the same millisecond keep distinct ids and
+ * seeds.
+ */
+export function generateSeededAgentDecision(
+  agent: AgentPersona,
+  timestamp: Date
+): AgentDecision {
+  const sequence = ++decisionSequence;
+  return withMockSeed(getDecisionSeed(timestamp, sequence), () =>
+    generateMockAgentDecision(agent, { timestamp, sequence })
+  );
+}
 
 function randomInt(min: number, max: number): number {
   return Math.floor(seededRandom() * (max - min + 1)) + min;
@@ -69,7 +114,7 @@ function randomFloat(min: number, max: number): number {
   return seededRandom() * (max - min) + min;
 }
 
-function randomChoice<T>(array: T[]): T {
+function randomChoice<T>(array: readonly T[]): T {
   return array[Math.floor(seededRandom() * array.length)];
 }
 
@@ -276,11 +321,14 @@ export function generateMockAgentDecision(
   agent: AgentPersona,
   options?: {
     timestamp?: Date;
+    /** Tells apart decisions made in the same millisecond */
+    sequence?: number;
     isActive?: boolean;
     forceViolation?: boolean;
   }
 ): AgentDecision {
   const timestamp = options?.timestamp || new Date();
+  const sequence = options?.sequence ?? 0;
   const isActive = options?.isActive ?? randomBoolean(0.3);
   const hasViolation = options?.forceViolation ?? randomBoolean(0.1);
 
@@ -366,7 +414,7 @@ export function generateMockAgentDecision(
   }
 
   return {
-    id: `decision-${agent}-${timestamp.getTime()}`,
+    id: `decision-${agent}-${timestamp.getTime()}-${sequence}`,
     agent,
     summary,
     confidence,
@@ -502,7 +550,8 @@ export function generateMockTransaction(
 
   const programInstructions = generateMockProgramInstructions(
     agent,
-    1 + randomInt(0, 3)
+    1 + randomInt(0, 3),
+    timestamp
   );
 
   const signature = generateMockSignature();
@@ -545,21 +594,33 @@ export function generateMockTransaction(
  */
 function generateMockProgramInstructions(
   agent: AgentPersona,
-  count: number
+  count: number,
+  timestamp: Date
 ): ProgramInstruction[] {
   const programsByAgent: Record<
     AgentPersona,
-    Array<{ name: string; instruction: string }>
+    Array<{
+      name: string;
+      instruction: string;
+      moves?: "sol" | "token";
+      /** Pays out of the asset treasury (its first account) */
+      fromTreasury?: boolean;
+    }>
   > = {
     operations: [
       { name: "AssetRegistry", instruction: "UpdateEnergyDispatch" },
       { name: "BatteryController", instruction: "SetStateOfCharge" },
-      { name: "GridInterface", instruction: "RegisterSellback" },
+      { name: "GridInterface", instruction: "RegisterSellback", moves: "sol" },
     ],
     markets: [
-      { name: "JupiterAggregator", instruction: "Swap" },
-      { name: "RevenueDistribution", instruction: "ClaimYield" },
-      { name: "LiquidityPool", instruction: "AddLiquidity" },
+      { name: "JupiterAggregator", instruction: "Swap", moves: "token" },
+      {
+        name: "RevenueDistribution",
+        instruction: "ClaimYield",
+        moves: "token",
+        fromTreasury: true,
+      },
+      { name: "LiquidityPool", instruction: "AddLiquidity", moves: "sol" },
     ],
     sentinel: [
       { name: "MaintenanceLog", instruction: "RecordEvent" },
@@ -578,18 +639,27 @@ function generateMockProgramInstructions(
 
   for (let i = 0; i < count; i++) {
     const program = randomChoice(programs);
+    // Value-moving instructions carry decoded amounts the way Solana does:
+    // `lamports` for native SOL transfers, `amount` for SPL token transfers
+    const value =
+      program.moves === "sol"
+        ? { lamports: randomInt(1000000, 25000000000) }
+        : program.moves === "token"
+          ? { amount: randomInt(100, 10000), mint: "SOLAR" }
+          : {};
     instructions.push({
       programName: program.name,
       programId: generateMockProgramId(program.name),
       instruction: program.instruction,
       args: {
-        amount: randomInt(100, 10000),
-        timestamp: Date.now(),
+        ...value,
+        timestamp: timestamp.getTime(),
         authority: generateMockPublicKey(),
       },
-      accounts: Array.from({ length: randomInt(2, 5) }, () =>
-        generateMockPublicKey()
-      ),
+      accounts: Array.from({ length: randomInt(2, 5) }, (_, index) => {
+        const key = generateMockPublicKey();
+        return index === 0 && program.fromTreasury ? BLOCKCHAIN.treasury : key;
+      }),
     });
   }
 
@@ -620,10 +690,19 @@ function generateMockPublicKey(): string {
   return key;
 }
 
+/** AIMP programs the mock feed calls by their configured ids */
+const AIMP_PROGRAM_IDS: Record<string, string> = {
+  AssetRegistry: BLOCKCHAIN.programs.assetRegistry,
+  RevenueDistribution: BLOCKCHAIN.programs.revenueDistribution,
+  GovernancePDA: BLOCKCHAIN.programs.governanceRegistry,
+};
+
 /**
  * Generate mock program ID (deterministic per program name)
  */
 function generateMockProgramId(programName: string): string {
+  if (AIMP_PROGRAM_IDS[programName]) return AIMP_PROGRAM_IDS[programName];
+
   // Use program name to seed deterministic ID
   const hash = programName
     .split("")
@@ -777,37 +856,7 @@ export function generateMockEnergyMetrics() {
 export function generateSuggestedQuestions(
   agent: AgentPersona
 ): SuggestedQuestion[] {
-  const questionsByAgent: Record<AgentPersona, SuggestedQuestion[]> = {
-    operations: [
-      { question: "What's the current energy dispatch strategy?", icon: "⚡" },
-      {
-        question: "Why did you change the battery discharge rate?",
-        icon: "🔋",
-      },
-      { question: "How are you optimizing for peak demand?", icon: "📈" },
-      { question: "What's the grid export schedule for today?", icon: "🔌" },
-    ],
-    markets: [
-      { question: "What's driving today's trading decisions?", icon: "📊" },
-      { question: "How do you predict energy prices?", icon: "💰" },
-      { question: "Should I buy or sell tokens right now?", icon: "🔄" },
-      { question: "What's the current liquidity situation?", icon: "💧" },
-    ],
-    sentinel: [
-      { question: "What's the health of the solar panels?", icon: "☀️" },
-      { question: "Are there any maintenance alerts?", icon: "🔧" },
-      { question: "How do you detect equipment failures?", icon: "🛡️" },
-      { question: "What's the status of the sensor network?", icon: "📡" },
-    ],
-    governor: [
-      { question: "What safety constraints are active?", icon: "⚖️" },
-      { question: "Have there been any constraint violations?", icon: "⚠️" },
-      { question: "How do you enforce operating limits?", icon: "🛑" },
-      { question: "What's the current compliance status?", icon: "✅" },
-    ],
-  };
-
-  return questionsByAgent[agent];
+  return [...AGENT_PERSONAS[agent].suggestedQuestions];
 }
 
 /**
@@ -942,6 +991,7 @@ export function generateMockExplanation(
     id: decisionId,
     persona: agent,
     summary: `Decision made with ${confidence}% confidence based on ${randomInt(5, 15)} data sources`,
+    confidence,
     reasoning: reasoningByAgent[agent].slice(0, randomInt(3, 4)),
     constraints: constraintTexts,
     constraintDetails: constraintsByAgent[agent], // Full categorized constraints
@@ -970,6 +1020,81 @@ export function generateMockExplanation(
   };
 }
 
+/**
+ * Generate a mock re-explanation of a decision after an incident, or null
+ * for the (most) decisions that were never revisited. The amending agent
+ * replaces one reasoning step, adds the constraint the incident exposed and
+ * lowers confidence.
+ */
+export function generateMockIncidentAmendment(agent: AgentPersona) {
+  if (!randomBoolean(0.3)) {
+    return null;
+  }
+
+  const incidents: Record<
+    AgentPersona,
+    {
+      author: AgentPersona;
+      incident: string;
+      step: string;
+      constraint: {
+        text: string;
+        type: "safety" | "operational" | "regulatory";
+        severity: "critical" | "high" | "medium" | "low";
+      };
+    }
+  > = {
+    operations: {
+      author: "sentinel",
+      incident: "inverter 2 thermal trip during discharge",
+      step: "Inverter thermal margin was overstated; sensor 2B read 6°C low before the trip",
+      constraint: {
+        text: "Discharge must pause when any inverter exceeds 60°C",
+        type: "safety",
+        severity: "critical",
+      },
+    },
+    markets: {
+      author: "governor",
+      incident: "slippage above tolerance on a rebalancing swap",
+      step: "Quoted liquidity depth included a pool that was drained mid-route",
+      constraint: {
+        text: "Route legs must be re-quoted within 5 seconds of execution",
+        type: "operational",
+        severity: "high",
+      },
+    },
+    sentinel: {
+      author: "operations",
+      incident: "junction box fault on string 3",
+      step: "Hotspot reading was confirmed by a second thermal pass before dispatch",
+      constraint: {
+        text: "Thermal anomalies require two independent readings",
+        type: "operational",
+        severity: "high",
+      },
+    },
+    governor: {
+      author: "governor",
+      incident: "multi-sig signer key rotation",
+      step: "Consensus was re-counted after a rotated signer key was excluded",
+      constraint: {
+        text: "Signer set must be verified against the current key registry",
+        type: "regulatory",
+        severity: "critical",
+      },
+    },
+  };
+
+  return {
+    ...incidents[agent],
+    incidentId: `INC-${randomInt(1000, 9999)}`,
+    minutesAfter: randomInt(20, 180),
+    stepIndex: randomInt(0, 2),
+    confidenceDrop: randomInt(5, 20),
+  };
+}
+
 // ============================================================================
 // BATCH GENERATORS
 // ============================================================================
@@ -978,18 +1103,13 @@ export function generateMockExplanation(
  * Generate batch of agent decisions
  */
 export function generateMockAgentDecisions(count: number): AgentDecision[] {
-  const agents: AgentPersona[] = [
-    "operations",
-    "markets",
-    "sentinel",
-    "governor",
-  ];
   const decisions: AgentDecision[] = [];
 
   for (let i = 0; i < count; i++) {
-    const agent = randomChoice(agents);
+    const agent = randomChoice(AGENT_PERSONA_IDS);
     const timestamp = new Date(Date.now() - randomInt(0, 7200) * 1000); // Last 2 hours
-    decisions.push(generateMockAgentDecision(agent, { timestamp }));
+    // Each decision draws from its own seed so its explanation matches it
+    decisions.push(generateSeededAgentDecision(agent, timestamp));
   }
 
   return decisions.sort(
@@ -1001,16 +1121,10 @@ export function generateMockAgentDecisions(count: number): AgentDecision[] {
  * Generate batch of transactions
  */
 export function generateMockTransactions(count: number): SolanaTransaction[] {
-  const agents: AgentPersona[] = [
-    "operations",
-    "markets",
-    "sentinel",
-    "governor",
-  ];
   const transactions: SolanaTransaction[] = [];
 
   for (let i = 0; i < count; i++) {
-    const agent = randomChoice(agents);
+    const agent = randomChoice(AGENT_PERSONA_IDS);
     const timestamp = new Date(Date.now() - randomInt(0, 86400) * 1000); // Last 24 hours
     transactions.push(generateMockTransaction(agent, { timestamp }));
   }
@@ -1020,6 +1134,35 @@ export function generateMockTransactions(count: number): SolanaTransaction[] {
   );
 }
 
+/**
+ * Lazily generate transactions newest-first, walking back from `now`.
+ * Each transaction is derived from `seed` and its index alone, so any prefix
+ * of the sequence is reproducible regardless of how far it is consumed.
+ */
+export function* generateMockTransactionSequence(options: {
+  seed: number;
+  now: Date;
+}): Generator<SolanaTransaction> {
+  let cursor = options.now.getTime();
+
+  for (let index = 0; ; index++) {
+    const itemSeed = (options.seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0;
+    const { transaction, gapSec } = withMockSeed(itemSeed, () => {
+      const gap = randomInt(5, 120); // Seconds since the previous transaction
+      const agent = randomChoice(AGENT_PERSONA_IDS);
+      return {
+        gapSec: gap,
+        transaction: generateMockTransaction(agent, {
+          timestamp: new Date(cursor - gap * 1000),
+        }),
+      };
+    });
+
+    cursor -= gapSec * 1000;
+    yield transaction;
+  }
+}
+
 /**
  * Generate conversation history
  * (Refinements #10, #15: Message length variation, conversation age progression)
@@ -1155,6 +1298,7 @@ const mockDataGenerators = {
   generateMockEnergyMetrics,
   generateSuggestedQuestions,
   generateMockExplanation,
+  generateMockIncidentAmendment,
   generateMockAgentDecisions,
   generateMockTransactions,
   generateMockConversation,
@@ -12,6 +12,8 @@
  * Each interface tells the story of verified truth through traceable provenance.
  */
 
+import type { AgentPersonaId } from "@/lib/agents";
+
 // ============================================================================
 // FOUNDATIONAL TRUTH PRIMITIVES
 // ============================================================================
@@ -94,12 +96,15 @@ export type TrustGrade =
  *
  * Each persona embodies distinct cognitive approaches to autonomous decision-making.
  * These are not mere labels but philosophical frameworks for AI reasoning.
+ *
+ * - operations: The Steward - maintains, generates, preserves (calm technical wisdom)
+ * - markets: The Trader - optimizes, arbitrates, maximizes (analytical confidence)
+ * - sentinel: The Guardian - monitors, protects, alerts (vigilant precision)
+ * - governor: The Arbiter - enforces, mediates, balances (neutral authority)
+ *
+ * The ids and display metadata live in the persona registry (`@/lib/agents`).
  */
-export type AgentPersona =
-  | "operations" // The Steward: maintains, generates, preserves (calm technical wisdom)
-  | "markets" // The Trader: optimizes, arbitrates, maximizes (analytical confidence)
-  | "sentinel" // The Guardian: monitors, protects, alerts (vigilant precision)
-  | "governor"; // The Arbiter: enforces, mediates, balances (neutral authority)
+export type AgentPersona = AgentPersonaId;
 
 /**
  * Agent consciousness state - the inner life of artificial minds
@@ -1,4 +1,4 @@
-export type Persona = "operations" | "maintenance" | "markets";
+import type { AgentPersona } from "./core";
 
 export interface ExplanationInput {
   key: string;
@@ -9,7 +9,7 @@ export interface ExplanationInput {
 
 export interface Explanation {
   id: string;
-  persona: Persona;
+  persona: AgentPersona;
   title: string;
   summary: string;
   reasoning: string[];
@@ -0,0 +1,24 @@
+/**
+ * Wallets - The connected-wallet cookie, sign-in messages and the mock
+ * wallet adapter
+ *
+ * The browser extensions' adapters are created by `AIMPWalletProvider`, so
+ * server code that only reads the cookie never loads them.
+ */
+
+export {
+  MockWalletAdapter,
+  MockWalletName,
+  type MockWalletAdapterOptions,
+} from "./mock-adapter";
+export {
+  createSignInMessage,
+  parseSignInMessage,
+  type SignInMessageFields,
+} from "./siws";
+export {
+  WALLET_COOKIE,
+  isWalletAddress,
+  readWalletCookie,
+  walletCookie,
+} from "./session";
@@ -0,0 +1,86 @@
+import { WalletNotConnectedError } from "@solana/wallet-adapter-base";
+import bs58 from "bs58";
+import { describe, expect, it, vi } from "vitest";
+
+import { verifyWalletSignature } from "@/lib/api/auth";
+
+import { MockWalletAdapter } from "./mock-adapter";
+
+describe("MockWalletAdapter", () => {
+  it("connects to the wallet its seed derives and emits connect", async () => {
+    const adapter = new MockWalletAdapter();
+    const onConnect = vi.fn();
+    adapter.on("connect", onConnect);
+
+    expect(adapter.publicKey).toBeNull();
+    await adapter.connect();
+
+    expect(adapter.connected).toBe(true);
+    expect(onConnect).toHaveBeenCalledWith(adapter.publicKey);
+    // The same seed is always the same wallet
+    const address = adapter.publicKey!.toBase58();
+    expect(await connectedAddress(new MockWalletAdapter())).toBe(address);
+    expect(
+      await connectedAddress(new MockWalletAdapter({ seed: seed(1) }))
+    ).not.toBe(address);
+  });
+
+  it("is connecting until the delay has passed", async () => {
+    vi.useFakeTimers();
+    try {
+      const adapter = new MockWalletAdapter({ connectDelayMs: 300 });
+
+      const connected = adapter.connect();
+      expect(adapter.connecting).toBe(true);
+      expect(adapter.connected).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(300);
+      await connected;
+      expect(adapter.connecting).toBe(false);
+      expect(adapter.connected).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("signs messages the server verifies as the wallet's", async () => {
+    const adapter = new MockWalletAdapter();
+    await adapter.connect();
+    const address = adapter.publicKey!.toBase58();
+    const message = "Sign in to AIMP";
+
+    const signature = bs58.encode(
+      await adapter.signMessage(new TextEncoder().encode(message))
+    );
+
+    expect(verifyWalletSignature(address, message, signature)).toBe(true);
+    expect(verifyWalletSignature(address, `${message}!`, signature)).toBe(
+      false
+    );
+  });
+
+  it("refuses to sign once disconnected and emits disconnect once", async () => {
+    const adapter = new MockWalletAdapter();
+    const onDisconnect = vi.fn();
+    adapter.on("disconnect", onDisconnect);
+    await adapter.connect();
+
+    await adapter.disconnect();
+    await adapter.disconnect();
+
+    expect(adapter.publicKey).toBeNull();
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    await expect(
+      adapter.signMessage(new TextEncoder().encode("hello"))
+    ).rejects.toBeInstanceOf(WalletNotConnectedError);
+  });
+});
+
+function seed(fill: number): Uint8Array {
+  return new Uint8Array(32).fill(fill);
+}
+
+async function connectedAddress(adapter: MockWalletAdapter): Promise<string> {
+  await adapter.connect();
+  return adapter.publicKey!.toBase58();
+}
@@ -0,0 +1,133 @@
+import {
+  BaseMessageSignerWalletAdapter,
+  WalletNotConnectedError,
+  WalletReadyState,
+  WalletSignMessageError,
+  isVersionedTransaction,
+  type TransactionOrVersionedTransaction,
+  type WalletName,
+} from "@solana/wallet-adapter-base";
+import {
+  Keypair,
+  type PublicKey,
+  type TransactionVersion,
+} from "@solana/web3.js";
+
+export const MockWalletName = "Mock Wallet" as WalletName<"Mock Wallet">;
+
+/** DER header of a PKCS#8 Ed25519 private key, followed by the 32-byte seed */
+const PKCS8_ED25519_PREFIX = [
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04,
+  0x22, 0x04, 0x20,
+];
+
+const MOCK_WALLET_ICON =
+  "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAzMiAzMiI+PHJlY3Qgd2lkdGg9IjMyIiBoZWlnaHQ9IjMyIiByeD0iOCIgZmlsbD0iIzMyODA4ZCIvPjx0ZXh0IHg9IjE2IiB5PSIyMSIgZm9udC1zaXplPSIxNCIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZpbGw9IiNmZmYiIHRleHQtYW5jaG9yPSJtaWRkbGUiPk08L3RleHQ+PC9zdmc+";
+
+export interface MockWalletAdapterOptions {
+  /** 32-byte Ed25519 seed; the same seed is always the same wallet */
+  seed?: Uint8Array;
+  /** Delay before `connect` resolves, to exercise the connecting state */
+  connectDelayMs?: number;
+}
+
+/**
+ * In-memory wallet for tests and demos. It connects without an extension,
+ * signs transactions with its own keypair and signs messages (Ed25519, via
+ * WebCrypto) so sign-in flows verify like they would with a real wallet.
+ */
+export class MockWalletAdapter extends BaseMessageSignerWalletAdapter<"Mock Wallet"> {
+  name = MockWalletName;
+  url = "https://github.com/anza-xyz/wallet-adapter";
+  icon = MOCK_WALLET_ICON;
+  readyState = WalletReadyState.Installed;
+  supportedTransactionVersions: ReadonlySet<TransactionVersion> = new Set([
+    "legacy",
+    0,
+  ]);
+
+  private readonly seed: Uint8Array;
+  private readonly keypair: Keypair;
+  private readonly connectDelayMs: number;
+  private _publicKey: PublicKey | null = null;
+  private _connecting = false;
+
+  constructor({
+    seed = new Uint8Array(32).fill(7),
+    connectDelayMs = 0,
+  }: MockWalletAdapterOptions = {}) {
+    super();
+    this.seed = seed;
+    this.keypair = Keypair.fromSeed(seed);
+    this.connectDelayMs = connectDelayMs;
+  }
+
+  get publicKey(): PublicKey | null {
+    return this._publicKey;
+  }
+
+  get connecting(): boolean {
+    return this._connecting;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected || this.connecting) return;
+
+    this._connecting = true;
+    try {
+      if (this.connectDelayMs > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.connectDelayMs)
+        );
+      }
+      this._publicKey = this.keypair.publicKey;
+      this.emit("connect", this.keypair.publicKey);
+    } finally {
+      this._connecting = false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this._publicKey) return;
+
+    this._publicKey = null;
+    this.emit("disconnect");
+  }
+
+  async signTransaction<
+    T extends TransactionOrVersionedTransaction<
+      this["supportedTransactionVersions"]
+    >,
+  >(transaction: T): Promise<T> {
+    if (!this._publicKey) throw new WalletNotConnectedError();
+
+    if (isVersionedTransaction(transaction)) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+    return transaction;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this._publicKey) throw new WalletNotConnectedError();
+
+    try {
+      const key = await crypto.subtle.importKey(
+        "pkcs8",
+        Uint8Array.from([...PKCS8_ED25519_PREFIX, ...this.seed]),
+        { name: "Ed25519" },
+        false,
+        ["sign"]
+      );
+      return new Uint8Array(
+        await crypto.subtle.sign("Ed25519", key, Uint8Array.from(message))
+      );
+    } catch (error) {
+      throw new WalletSignMessageError(
+        error instanceof Error ? error.message : "Unknown error",
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import bs58 from "bs58";
+
+/**
+ * Cookie holding the connected wallet's address, so server-rendered pages
+ * (the dashboard's portfolio) show that wallet's holdings. It only names the
+ * wallet; it proves nothing about who holds it.
+ */
+export const WALLET_COOKIE = "aimp_wallet";
+
+/** The adapter reconnects on later visits, so the cookie outlives the tab */
+const WALLET_COOKIE_MAX_AGE_SEC = 30 * 24 * 60 * 60;
+
+/** A base58 Ed25519 public key */
+export function isWalletAddress(value: string | undefined): value is string {
+  if (!value || value.length < 32 || value.length > 44) return false;
+  try {
+    return bs58.decode(value).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/** The wallet named in a `Cookie` header or `document.cookie` string */
+export function readWalletCookie(cookies: string): string | null {
+  const value = cookies
+    .split(";")
+    .map((cookie) => cookie.trim())
+    .find((cookie) => cookie.startsWith(`${WALLET_COOKIE}=`))
+    ?.slice(WALLET_COOKIE.length + 1);
+  return isWalletAddress(value) ? value : null;
+}
+
+/** `document.cookie` assignment naming (or, with null, forgetting) the wallet */
+export function walletCookie(address: string | null): string {
+  return address
+    ? `${WALLET_COOKIE}=${address}; Path=/; Max-Age=${WALLET_COOKIE_MAX_AGE_SEC}; SameSite=Lax`
+    : `${WALLET_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createSignInMessage,
+  parseSignInMessage,
+  type SignInMessageFields,
+} from "./siws";
+
+const FIELDS: SignInMessageFields = {
+  domain: "app.aimp.energy",
+  address: "4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T",
+  statement: "Sign in to AIMP.",
+  uri: "https://app.aimp.energy",
+  chainId: "devnet",
+  nonce: "0f1e2d3c4b5a69788796a5b4c3d2e1f0",
+  issuedAt: "2026-01-01T12:00:00.000Z",
+  expirationTime: "2026-01-01T12:05:00.000Z",
+};
+
+describe("parseSignInMessage", () => {
+  it("reads back every field createSignInMessage wrote", () => {
+    const message = createSignInMessage(FIELDS);
+
+    expect(message.split("\n")[0]).toBe(
+      "app.aimp.energy wants you to sign in with your Solana account:"
+    );
+    expect(parseSignInMessage(message)).toEqual(FIELDS);
+  });
+
+  it("rejects text createSignInMessage would not have written", () => {
+    const message = createSignInMessage(FIELDS);
+
+    expect(parseSignInMessage(`${message}\n`)).toBeNull();
+    expect(
+      parseSignInMessage(message.replace("Version: 1", "Version: 2"))
+    ).toBeNull();
+    expect(parseSignInMessage(message.replace("URI: ", "Uri: "))).toBeNull();
+    expect(
+      parseSignInMessage(createSignInMessage({ ...FIELDS, statement: "a\nb" }))
+    ).toBeNull();
+    expect(parseSignInMessage("Sign in to AIMP")).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Sign-In With Solana messages, in the CAIP-122 layout wallets display as
+ * a sign-in request. The browser builds one from the fields the nonce
+ * endpoint returns and the server parses the signed text back.
+ */
+
+export interface SignInMessageFields {
+  /** Host the session is for (e.g. `app.aimp.energy`) */
+  domain: string;
+  /** Wallet signing in (base58) */
+  address: string;
+  statement: string;
+  /** Origin of the app asking (e.g. `https://app.aimp.energy`) */
+  uri: string;
+  /** Cluster (`devnet`, `mainnet-beta`, …) */
+  chainId: string;
+  nonce: string;
+  /** ISO 8601 */
+  issuedAt: string;
+  /** ISO 8601 */
+  expirationTime: string;
+}
+
+const HEADER_SUFFIX = " wants you to sign in with your Solana account:";
+
+export function createSignInMessage(fields: SignInMessageFields): string {
+  return [
+    `${fields.domain}${HEADER_SUFFIX}`,
+    fields.address,
+    "",
+    fields.statement,
+    "",
+    `URI: ${fields.uri}`,
+    "Version: 1",
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join("\n");
+}
+
+/** The fields of a message `createSignInMessage` wrote; null for anything else */
+export function parseSignInMessage(
+  message: string
+): SignInMessageFields | null {
+  const lines = message.split("\n");
+  if (lines.length !== 11 || lines[2] !== "" || lines[4] !== "") return null;
+  if (!lines[0].endsWith(HEADER_SUFFIX) || lines[6] !== "Version: 1") {
+    return null;
+  }
+
+  const value = (index: number, label: string) =>
+    lines[index].startsWith(`${label}: `)
+      ? lines[index].slice(label.length + 2)
+      : null;
+
+  const uri = value(5, "URI");
+  const chainId = value(7, "Chain ID");
+  const nonce = value(8, "Nonce");
+  const issuedAt = value(9, "Issued At");
+  const expirationTime = value(10, "Expiration Time");
+  if (!uri || !chainId || !nonce || !issuedAt || !expirationTime) return null;
+
+  const fields: SignInMessageFields = {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address: lines[1],
+    statement: lines[3],
+    uri,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime,
+  };
+
+  // Round-tripping rejects any text the signer saw that we would not write
+  return createSignInMessage(fields) === message ? fields : null;
+}